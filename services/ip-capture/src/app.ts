@@ -4,19 +4,28 @@ import helmet from 'helmet';
 import routes from './routes';
 import { errorMiddleware, loggingMiddleware, notFoundMiddleware } from './middleware';
 import { initializeDatabase } from './repositories/log.repository';
+import { getTrustedProxies, validateAnonymizationConfig } from './services/anonymization.service';
+import config from './config';
+import { initializeGeolocation } from './services/geolocation.service';
 
 export function createApp(): Application {
+  // Check IP anonymization settings
+  validateAnonymizationConfig();
+  
   // Initialize database
   initializeDatabase();
   
+  // Open the geolocation database, if enabled
+  initializeGeolocation();
+  
   const app = express();
   
   // Security middleware
   app.use(helmet());
   app.use(cors());
   
-  // Trust proxy for X-Forwarded-For header
-  app.set('trust proxy', true);
+  // Trust forwarding headers from the configured proxies only
+  app.set('trust proxy', getTrustedProxies().length > 0 ? config.trustedProxies : false);
   
   // Body parsing middleware
   app.use(express.json());
@@ -6,9 +6,34 @@ export const config = {
   port: parseInt(process.env.PORT || '3002', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
   logLevel: process.env.LOG_LEVEL || 'info',
-  anonymizeIps: process.env.ANONYMIZE_IPS !== 'false',
+  // Networks (CIDR) of the proxies whose forwarding headers are trusted; none by default
+  trustedProxies: (process.env.TRUSTED_PROXIES || '').split(',').map(proxy => proxy.trim()).filter(Boolean),
+  // The one header the trusted proxies set: x-forwarded-for, forwarded or x-real-ip
+  forwardedHeader: process.env.FORWARDED_HEADER || 'x-forwarded-for',
+  // Server secret keying the IP hashes; a random one is generated at startup when unset
+  ipHashSecret: process.env.IP_HASH_SECRET || '',
+  // stable, rotating (salt replaced every rotation period) or truncate (hash of the network)
+  ipHashStrategy: process.env.IP_HASH_STRATEGY || 'rotating',
+  ipSaltRotationHours: parseInt(process.env.IP_SALT_ROTATION_HOURS || '24', 10),
+  // What is stored of captured addresses: none, truncate, hash, truncate-hash or drop;
+  // ANONYMIZE_IPS=false keeps full addresses when it is unset
+  ipAnonymization: process.env.IP_ANONYMIZATION || (process.env.ANONYMIZE_IPS === 'false' ? 'none' : 'hash'),
+  // Network prefix lengths kept when truncating addresses
+  ipv4PrefixLength: parseInt(process.env.IPV4_PREFIX_LENGTH || '24', 10),
+  ipv6PrefixLength: parseInt(process.env.IPV6_PREFIX_LENGTH || '48', 10),
   enableGeolocation: process.env.ENABLE_GEOLOCATION === 'true',
+  // MaxMind-format database (e.g. GeoLite2 Country or City), reloaded when the file changes
+  geoipDatabasePath: process.env.GEOIP_DATABASE_PATH || './data/GeoLite2-Country.mmdb',
+  // Location kept for captures: country, or country and city
+  geolocationGranularity: process.env.GEOLOCATION_GRANULARITY || 'country',
+  geoipCacheSize: parseInt(process.env.GEOIP_CACHE_SIZE || '10000', 10),
+  geoipWatchInterval: parseInt(process.env.GEOIP_WATCH_INTERVAL_MS || '5000', 10),
   databasePath: process.env.DATABASE_PATH || './data/ip-capture.db',
+  // Days before captured logs are deleted; 0, the default, keeps them
+  retentionDays: parseInt(process.env.RETENTION_DAYS || '0', 10),
+  // Fields cleared before the whole log is deleted, as field:days pairs (e.g. user_agent:7)
+  retentionFields: process.env.RETENTION_FIELDS || '',
+  retentionPurgeIntervalMinutes: parseInt(process.env.RETENTION_PURGE_INTERVAL_MINUTES || '60', 10),
   serviceName: process.env.SERVICE_NAME || 'ip-capture',
   maxLogsPerRequest: parseInt(process.env.MAX_LOGS_PER_REQUEST || '100', 10),
 };
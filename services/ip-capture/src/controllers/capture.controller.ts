@@ -24,6 +24,7 @@ export async function captureController(req: Request, res: Response): Promise<vo
       data: {
         id: logEntry.id,
         ipHash: logEntry.ipHash,
+        network: logEntry.network,
         timestamp: logEntry.timestamp,
         captured: true
       },
@@ -32,7 +33,7 @@ export async function captureController(req: Request, res: Response): Promise<vo
         requestId,
         service: config.serviceName
       }
-    } as ServiceResponse<{ id: string; ipHash: string; timestamp: string; captured: boolean }>);
+    } as ServiceResponse<{ id: string; ipHash?: string; network?: string; timestamp: string; captured: boolean }>);
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { findLogs, findLogById, deleteLog, getStats } from '../repositories/log.repository';
-import { ServiceResponse, LogEntry, PaginatedResult, SearchCriteria } from '../types';
+import { getRetentionStatus } from '../services/retention.service';
+import { ServiceResponse, LogEntry, LogStats, PaginatedResult, SearchCriteria } from '../types';
 import config from '../config';
 import logger from '../utils/logger';
 
@@ -33,6 +34,9 @@ export async function getLogsController(req: Request, res: Response): Promise<vo
     if (req.query.ipHash) {
       criteria.ipHash = req.query.ipHash as string;
     }
+    if (req.query.network) {
+      criteria.network = req.query.network as string;
+    }
     
     const result = findLogs(criteria);
     
@@ -184,13 +188,16 @@ export async function deleteLogController(req: Request, res: Response): Promise<
 }
 
 /**
- * Get database statistics
+ * Get database statistics and the retention policy in effect
  */
 export async function getStatsController(req: Request, res: Response): Promise<void> {
   const requestId = uuidv4();
   
   try {
-    const stats = getStats();
+    const stats: LogStats = {
+      ...getStats(),
+      retention: getRetentionStatus()
+    };
     
     res.json({
       success: true,
@@ -200,7 +207,7 @@ export async function getStatsController(req: Request, res: Response): Promise<v
         requestId,
         service: config.serviceName
       }
-    } as ServiceResponse<{ totalLogs: number; oldestLog: string | null; newestLog: string | null }>);
+    } as ServiceResponse<LogStats>);
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
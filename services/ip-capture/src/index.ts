@@ -1,15 +1,22 @@
 import { createApp } from './app';
 import config from './config';
 import logger from './utils/logger';
+import { startRetentionScheduler } from './services/retention.service';
 
 const app = createApp();
 
+// Purge expired logs in the background
+startRetentionScheduler();
+
 app.listen(config.port, () => {
   logger.info(`IP Capture Service started`, {
     port: config.port,
     environment: config.nodeEnv,
     logLevel: config.logLevel,
-    anonymization: config.anonymizeIps,
-    geolocation: config.enableGeolocation
+    anonymization: config.ipAnonymization !== 'none',
+    ipAnonymization: config.ipAnonymization,
+    ipHashStrategy: config.ipHashStrategy,
+    geolocation: config.enableGeolocation,
+    retentionDays: config.retentionDays
   });
 });
@@ -3,10 +3,56 @@ import path from 'path';
 import fs from 'fs';
 import config from '../config';
 import logger from '../utils/logger';
-import { LogEntry, SearchCriteria, PaginatedResult } from '../types';
+import { LogEntry, SearchCriteria, PaginatedResult, RetentionField } from '../types';
 
 let db: Database.Database | null = null;
 
+const CREATE_LOGS_TABLE = `
+  CREATE TABLE IF NOT EXISTS ip_logs (
+    id TEXT PRIMARY KEY,
+    ip_hash TEXT,
+    ip_address TEXT,
+    network TEXT,
+    timestamp TEXT NOT NULL,
+    user_agent TEXT,
+    referrer TEXT,
+    country TEXT,
+    city TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+const LOG_COLUMNS = `
+  id, ip_hash as ipHash, ip_address as ipAddress, network, timestamp,
+  user_agent as userAgent, referrer, country, city
+`;
+
+/**
+ * Upgrade a table created by an earlier version of the service
+ * ip_hash used to be required and the address columns did not exist; SQLite cannot drop
+ * a NOT NULL constraint, so the table is rebuilt
+ */
+function migrateSchema(database: Database.Database): void {
+  const columns = database.prepare('PRAGMA table_info(ip_logs)').all() as { name: string; notnull: number }[];
+  const ipHash = columns.find(column => column.name === 'ip_hash');
+  if (!ipHash?.notnull) {
+    return;
+  }
+  
+  database.transaction(() => {
+    database.exec('ALTER TABLE ip_logs RENAME TO ip_logs_previous');
+    database.exec(CREATE_LOGS_TABLE);
+    database.exec(`
+      INSERT INTO ip_logs (id, ip_hash, timestamp, user_agent, referrer, country, city, created_at)
+      SELECT id, ip_hash, timestamp, user_agent, referrer, country, city, created_at
+      FROM ip_logs_previous
+    `);
+    database.exec('DROP TABLE ip_logs_previous');
+  })();
+  
+  logger.info('Database schema migrated', { table: 'ip_logs' });
+}
+
 /**
  * Initialize the database connection and create tables
  */
@@ -24,20 +70,12 @@ export function initializeDatabase(): Database.Database {
   db = new Database(config.databasePath);
   
   // Create tables
+  db.exec(CREATE_LOGS_TABLE);
+  migrateSchema(db);
   db.exec(`
-    CREATE TABLE IF NOT EXISTS ip_logs (
-      id TEXT PRIMARY KEY,
-      ip_hash TEXT NOT NULL,
-      timestamp TEXT NOT NULL,
-      user_agent TEXT,
-      referrer TEXT,
-      country TEXT,
-      city TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
-    
     CREATE INDEX IF NOT EXISTS idx_ip_logs_timestamp ON ip_logs(timestamp);
     CREATE INDEX IF NOT EXISTS idx_ip_logs_ip_hash ON ip_logs(ip_hash);
+    CREATE INDEX IF NOT EXISTS idx_ip_logs_network ON ip_logs(network);
   `);
   
   logger.info('Database initialized', { path: config.databasePath });
@@ -62,13 +100,15 @@ export function saveLog(entry: LogEntry): LogEntry {
   const database = getDatabase();
   
   const stmt = database.prepare(`
-    INSERT INTO ip_logs (id, ip_hash, timestamp, user_agent, referrer, country, city)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO ip_logs (id, ip_hash, ip_address, network, timestamp, user_agent, referrer, country, city)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   
   stmt.run(
     entry.id,
-    entry.ipHash,
+    entry.ipHash || null,
+    entry.ipAddress || null,
+    entry.network || null,
     entry.timestamp,
     entry.userAgent || null,
     entry.referrer || null,
@@ -107,6 +147,11 @@ export function findLogs(criteria: SearchCriteria): PaginatedResult<LogEntry> {
     params.push(criteria.ipHash);
   }
   
+  if (criteria.network) {
+    whereClause += ' AND network = ?';
+    params.push(criteria.network);
+  }
+  
   // Get total count
   const countStmt = database.prepare(`SELECT COUNT(*) as count FROM ip_logs WHERE ${whereClause}`);
   const countResult = countStmt.get(...params) as { count: number };
@@ -114,8 +159,7 @@ export function findLogs(criteria: SearchCriteria): PaginatedResult<LogEntry> {
   
   // Get paginated results
   const selectStmt = database.prepare(`
-    SELECT id, ip_hash as ipHash, timestamp, user_agent as userAgent, 
-           referrer, country, city
+    SELECT ${LOG_COLUMNS}
     FROM ip_logs 
     WHERE ${whereClause}
     ORDER BY timestamp DESC
@@ -140,8 +184,7 @@ export function findLogById(id: string): LogEntry | null {
   const database = getDatabase();
   
   const stmt = database.prepare(`
-    SELECT id, ip_hash as ipHash, timestamp, user_agent as userAgent, 
-           referrer, country, city
+    SELECT ${LOG_COLUMNS}
     FROM ip_logs 
     WHERE id = ?
   `);
@@ -164,6 +207,34 @@ export function deleteLog(id: string): boolean {
   return result.changes > 0;
 }
 
+/**
+ * Delete the log entries captured before a date
+ */
+export function deleteLogsBefore(before: Date): number {
+  const database = getDatabase();
+  
+  const stmt = database.prepare('DELETE FROM ip_logs WHERE timestamp < ?');
+  const result = stmt.run(before.toISOString());
+  
+  logger.debug('Log entries deleted', { before: before.toISOString(), deleted: result.changes });
+  
+  return result.changes;
+}
+
+/**
+ * Clear a field of the log entries captured before a date
+ */
+export function clearLogField(field: RetentionField, before: Date): number {
+  const database = getDatabase();
+  
+  const stmt = database.prepare(`UPDATE ip_logs SET ${field} = NULL WHERE timestamp < ? AND ${field} IS NOT NULL`);
+  const result = stmt.run(before.toISOString());
+  
+  logger.debug('Log field cleared', { field, before: before.toISOString(), cleared: result.changes });
+  
+  return result.changes;
+}
+
 /**
  * Close the database connection
  */
@@ -27,7 +27,9 @@ router.get('/health', (_req, res) => {
     timestamp: new Date().toISOString(),
     version: '1.0.0',
     features: {
-      anonymization: config.anonymizeIps,
+      anonymization: config.ipAnonymization !== 'none',
+      ipAnonymization: config.ipAnonymization,
+      ipHashStrategy: config.ipHashStrategy,
       geolocation: config.enableGeolocation
     }
   });
@@ -1,74 +1,340 @@
 import crypto from 'crypto';
+import config from '../config';
+import logger from '../utils/logger';
+import { formatIP, isInRange, maskIP, parseCIDR, parseIP, IPRange, ParsedIP } from '../utils/ip.utils';
+import { AnonymizedIP, ForwardedHeader, ForwardingHeaders, IpAnonymization, IpHashStrategy } from '../types';
 
-// Constants for IP anonymization
-const IPV4_PRESERVED_OCTETS = 3;
-const IPV6_PRESERVED_GROUPS = 3;
+export const IP_ANONYMIZATIONS: readonly IpAnonymization[] = ['none', 'truncate', 'hash', 'truncate-hash', 'drop'];
+
+export const IP_HASH_STRATEGIES: readonly IpHashStrategy[] = ['stable', 'rotating', 'truncate'];
+
+export const FORWARDED_HEADERS: readonly ForwardedHeader[] = ['x-forwarded-for', 'forwarded', 'x-real-ip'];
+
+const KEY_BYTES = 32;
+const HOUR_MS = 60 * 60 * 1000;
+// Longest delay setTimeout accepts
+const MAX_TIMER_DELAY_MS = 0x7FFFFFFF;
+
+interface RotatingKey {
+  // Index of the rotation period since the epoch
+  period: number;
+  key: Buffer;
+}
+
+let generatedSecret: Buffer | null = null;
+let rotatingKey: RotatingKey | null = null;
+
+/**
+ * Get the server secret keying the IP hashes
+ * Without IP_HASH_SECRET a random secret is generated, so hashes change on restart
+ */
+function getSecret(): Buffer {
+  if (config.ipHashSecret) {
+    return Buffer.from(config.ipHashSecret, 'utf8');
+  }
+  if (!generatedSecret) {
+    generatedSecret = crypto.randomBytes(KEY_BYTES);
+    logger.warn('IP_HASH_SECRET is not set, using a random secret: IP hashes will change on restart');
+  }
+  return generatedSecret;
+}
+
+/**
+ * Get the configured IP hash strategy
+ */
+export function getHashStrategy(): IpHashStrategy {
+  const strategy = config.ipHashStrategy as IpHashStrategy;
+  if (!IP_HASH_STRATEGIES.includes(strategy)) {
+    throw new Error(`Invalid IP hash strategy: ${strategy}. Supported strategies: ${IP_HASH_STRATEGIES.join(', ')}`);
+  }
+  return strategy;
+}
+
+/**
+ * Get the length of a salt rotation period in milliseconds
+ */
+function getRotationPeriodMs(): number {
+  if (!(config.ipSaltRotationHours > 0)) {
+    throw new Error('IP salt rotation period must be a positive number of hours');
+  }
+  return config.ipSaltRotationHours * HOUR_MS;
+}
+
+/**
+ * Get the configured anonymization of captured addresses
+ */
+export function getAnonymization(): IpAnonymization {
+  const anonymization = config.ipAnonymization as IpAnonymization;
+  if (!IP_ANONYMIZATIONS.includes(anonymization)) {
+    throw new Error(
+      `Invalid IP anonymization: ${anonymization}. Supported anonymizations: ${IP_ANONYMIZATIONS.join(', ')}`
+    );
+  }
+  return anonymization;
+}
+
+/**
+ * Check the anonymization configuration, so that a bad setting fails at startup rather
+ * than on every capture
+ */
+export function validateAnonymizationConfig(): void {
+  getAnonymization();
+  if (!(config.ipv4PrefixLength >= 0 && config.ipv4PrefixLength <= 32)) {
+    throw new Error('IPv4 prefix length must be between 0 and 32');
+  }
+  if (!(config.ipv6PrefixLength >= 0 && config.ipv6PrefixLength <= 128)) {
+    throw new Error('IPv6 prefix length must be between 0 and 128');
+  }
+  if (getHashStrategy() === 'rotating') {
+    getRotationPeriodMs();
+  }
+  getForwardedHeader();
+}
+
+/**
+ * Destroy the key of the current rotation period
+ * Hashes made with it can no longer be reproduced, nor linked to later ones
+ */
+export function destroyRotatingKey(): void {
+  if (rotatingKey) {
+    rotatingKey.key.fill(0);
+    rotatingKey = null;
+  }
+}
+
+/**
+ * Destroy the key of a period once the period has ended, even if nothing is captured
+ */
+function scheduleKeyExpiry(period: number, endsAt: number): void {
+  setTimeout(() => {
+    if (Date.now() < endsAt) {
+      scheduleKeyExpiry(period, endsAt);
+      return;
+    }
+    if (rotatingKey?.period === period) {
+      destroyRotatingKey();
+      logger.info('IP hash salt rotated');
+    }
+  }, Math.min(endsAt - Date.now(), MAX_TIMER_DELAY_MS)).unref();
+}
 
 /**
- * Hash an IP address using SHA-256 for anonymization
+ * Get the key of the current rotation period
+ * Periods are aligned on the epoch, so a daily rotation happens at midnight UTC. Each
+ * key derives from the secret and a random salt that is never stored: the key is the
+ * only copy and is wiped when the period ends.
+ */
+function getRotatingKey(): Buffer {
+  const periodMs = getRotationPeriodMs();
+  const period = Math.floor(Date.now() / periodMs);
+  if (rotatingKey?.period === period) {
+    return rotatingKey.key;
+  }
+
+  destroyRotatingKey();
+  const salt = crypto.randomBytes(KEY_BYTES);
+  const key = crypto.createHmac('sha256', getSecret()).update(salt).digest();
+  salt.fill(0);
+  rotatingKey = { period, key };
+  scheduleKeyExpiry(period, (period + 1) * periodMs);
+
+  return key;
+}
+
+/**
+ * Pseudonymize an IP address with HMAC-SHA-256 keyed by the server secret
+ * stable: same hash for an address as long as the secret is unchanged
+ * rotating: same hash for an address within a salt rotation period only
+ * truncate: hash of the truncated address, shared by its whole network
  */
 export function hashIP(ip: string): string {
-  return crypto.createHash('sha256').update(ip).digest('hex');
+  const strategy = getHashStrategy();
+  const key = strategy === 'rotating' ? getRotatingKey() : getSecret();
+  const value = strategy === 'truncate' ? truncateIP(ip) ?? ip : ip;
+  return crypto.createHmac('sha256', key).update(value).digest('hex');
+}
+
+/**
+ * Truncate an IP address to its network prefix, in CIDR notation
+ * IPv4: keep the first 24 bits by default (e.g., 192.168.1.0/24)
+ * IPv6: keep the first 48 bits by default (e.g., 2001:db8:85a3::/48)
+ * Returns null for an invalid address
+ */
+export function truncateIP(
+  ip: string,
+  ipv4PrefixLength: number = config.ipv4PrefixLength,
+  ipv6PrefixLength: number = config.ipv6PrefixLength
+): string | null {
+  const parsed = parseIP(ip);
+  if (!parsed) {
+    return null;
+  }
+  const prefixLength = parsed.version === 4 ? ipv4PrefixLength : ipv6PrefixLength;
+  return `${formatIP(maskIP(parsed, prefixLength))}/${prefixLength}`;
 }
 
 /**
- * Truncate an IP address for partial anonymization
- * IPv4: Keep first 3 octets (e.g., 192.168.1.x)
- * IPv6: Keep first 3 groups
+ * Anonymize a captured address as configured
+ * The network prefix is kept when the address is not anonymized or only truncated, for
+ * network-level reporting without full addresses. Nothing is kept of an invalid address.
  */
-export function truncateIP(ip: string): string {
-  if (ip.includes(':')) {
-    // IPv6
-    const parts = ip.split(':');
-    return parts.slice(0, IPV6_PRESERVED_GROUPS).join(':') + ':x:x:x:x:x';
-  } else {
-    // IPv4
-    const parts = ip.split('.');
-    return parts.slice(0, IPV4_PRESERVED_OCTETS).join('.') + '.x';
+export function anonymizeIP(ip: string, anonymization: IpAnonymization = getAnonymization()): AnonymizedIP {
+  // Garbage is neither hashed nor stored
+  if (!isValidIP(ip)) {
+    return {};
+  }
+  const network = truncateIP(ip) as string;
+  
+  switch (anonymization) {
+    case 'none':
+      return { ipAddress: ip, ipHash: hashIP(ip), network };
+    case 'truncate':
+      return { network };
+    case 'hash':
+      return { ipHash: hashIP(ip) };
+    case 'truncate-hash':
+      return { ipHash: hashIP(network) };
+    case 'drop':
+      return {};
   }
 }
 
 /**
  * Validate an IP address format
+ * Accepts IPv4, IPv6 (compressed, with an embedded IPv4 address or a zone ID) and
+ * IPv4-mapped IPv6 addresses
  */
 export function isValidIP(ip: string): boolean {
-  // IPv4 validation
-  const ipv4Parts = ip.split('.');
-  if (ipv4Parts.length === 4) {
-    const isValidIPv4 = ipv4Parts.every(part => {
-      const num = parseInt(part, 10);
-      return !isNaN(num) && num >= 0 && num <= 255 && part === num.toString();
-    });
-    if (isValidIPv4) return true;
+  return parseIP(ip) !== null;
+}
+
+/**
+ * Get the networks of the trusted proxies
+ */
+export function getTrustedProxies(): IPRange[] {
+  return config.trustedProxies.map(proxy => {
+    const range = parseCIDR(proxy);
+    if (!range) {
+      throw new Error(`Invalid trusted proxy: ${proxy}. Expected an IP address or a CIDR network`);
+    }
+    return range;
+  });
+}
+
+/**
+ * Get the header the trusted proxies set the client address in
+ */
+export function getForwardedHeader(): ForwardedHeader {
+  const header = config.forwardedHeader.toLowerCase() as ForwardedHeader;
+  if (!FORWARDED_HEADERS.includes(header)) {
+    throw new Error(
+      `Invalid forwarded header: ${config.forwardedHeader}. Supported headers: ${FORWARDED_HEADERS.join(', ')}`
+    );
   }
-  
-  // IPv6 pattern (simplified)
-  const ipv6Pattern = /^([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$|^::([0-9a-fA-F]{1,4}:){0,6}[0-9a-fA-F]{1,4}$|^([0-9a-fA-F]{1,4}:){1,7}:$/;
-  
-  return ipv6Pattern.test(ip);
+  return header;
 }
 
 /**
- * Extract IP address from request headers
+ * Split a header value on a separator, except within quoted strings
+ */
+function splitHeader(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quoted && char === '\\') {
+      current += char + (value[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Get the for parameter of a Forwarded header element, e.g. for="[2001:db8::1]:4711";
+ * null when it is missing
+ */
+function getForwardedFor(element: string): string | null {
+  for (const pair of splitHeader(element, ';')) {
+    const separator = pair.indexOf('=');
+    if (separator !== -1 && pair.slice(0, separator).trim().toLowerCase() === 'for') {
+      const value = pair.slice(separator + 1).trim();
+      return value.startsWith('"') && value.endsWith('"') && value.length > 1
+        ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+        : value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove the brackets and port around a forwarded address ([2001:db8::1]:4711, 192.0.2.1:80)
+ */
+function stripPort(host: string): string {
+  const bracketed = /^\[([^\]]+)\](:[0-9]+)?$/.exec(host);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  const ipv4WithPort = /^([0-9.]+):[0-9]+$/.exec(host);
+  return ipv4WithPort ? ipv4WithPort[1] : host;
+}
+
+/**
+ * Get the addresses a request was forwarded for, from the client to the nearest proxy
+ * Only the header the trusted proxies set is read: the others are passed through
+ * unchanged from the client. Hops without an address are null.
+ */
+function getForwardingChain(headers: ForwardingHeaders, forwardedHeader: ForwardedHeader): (string | null)[] {
+  switch (forwardedHeader) {
+    case 'forwarded':
+      return headers.forwarded ? splitHeader(headers.forwarded, ',').map(getForwardedFor) : [];
+    case 'x-forwarded-for':
+      return headers.xForwardedFor ? headers.xForwardedFor.split(',').map(hop => hop.trim()) : [];
+    case 'x-real-ip':
+      return headers.xRealIp ? [headers.xRealIp.trim()] : [];
+  }
+}
+
+/**
+ * Extract the client IP address of a request
+ * Forwarding headers are only trusted from the configured proxies: the chain is walked
+ * from the nearest hop and stops at the first address that is not a trusted proxy, so a
+ * client cannot choose its recorded address. An unknown, obfuscated or invalid hop also
+ * ends the walk, at the last valid address.
  */
 export function extractIP(
   remoteAddress: string | undefined,
-  xForwardedFor: string | undefined
+  headers: ForwardingHeaders = {},
+  trustedProxies: IPRange[] = getTrustedProxies(),
+  forwardedHeader: ForwardedHeader = getForwardedHeader()
 ): string {
-  // Check X-Forwarded-For header first (for proxied requests)
-  if (xForwardedFor) {
-    const ips = xForwardedFor.split(',').map(ip => ip.trim());
-    if (ips.length > 0 && ips[0]) {
-      return ips[0];
-    }
+  const peer = remoteAddress ? parseIP(remoteAddress) : null;
+  if (!peer) {
+    return 'unknown';
   }
   
-  // Fall back to remote address
-  if (remoteAddress) {
-    // Remove IPv6 prefix if present
-    const cleanIP = remoteAddress.replace(/^::ffff:/, '');
-    return cleanIP;
+  const isTrusted = (ip: ParsedIP) => trustedProxies.some(range => isInRange(ip, range));
+  const chain = getForwardingChain(headers, forwardedHeader);
+  let client = peer;
+  for (let i = chain.length - 1; i >= 0 && isTrusted(client); i--) {
+    const hop = chain[i];
+    const parsed = hop === null ? null : parseIP(stripPort(hop));
+    if (!parsed) {
+      break;
+    }
+    client = parsed;
   }
   
-  return 'unknown';
+  return formatIP(client);
 }
@@ -1,9 +1,9 @@
 import { Request } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { hashIP, extractIP } from './anonymization.service';
+import { anonymizeIP, extractIP, getAnonymization } from './anonymization.service';
+import { locateIP } from './geolocation.service';
 import { saveLog } from '../repositories/log.repository';
-import { CapturedIP, LogEntry } from '../types';
-import config from '../config';
+import { CapturedIP, ForwardingHeaders, LogEntry } from '../types';
 import logger from '../utils/logger';
 
 /**
@@ -11,10 +11,17 @@ import logger from '../utils/logger';
  */
 export function captureIP(req: Request): CapturedIP {
   const remoteAddress = req.socket.remoteAddress;
-  const xForwardedFor = req.headers['x-forwarded-for'] as string | undefined;
+  const headers: ForwardingHeaders = {
+    forwarded: req.headers['forwarded'],
+    xForwardedFor: req.headers['x-forwarded-for'] as string | undefined,
+    xRealIp: req.headers['x-real-ip'] as string | undefined
+  };
   
-  const rawIp = extractIP(remoteAddress, xForwardedFor);
-  const ipHash = hashIP(rawIp);
+  const rawIp = extractIP(remoteAddress, headers);
+  // Located before anonymization, which may not leave a usable address
+  const geolocation = locateIP(rawIp);
+  const anonymization = getAnonymization();
+  const { ipHash, network } = anonymizeIP(rawIp, anonymization);
   
   const userAgent = req.headers['user-agent'];
   const referrer = req.headers['referer'] || req.headers['referrer'];
@@ -22,18 +29,22 @@ export function captureIP(req: Request): CapturedIP {
   const captured: CapturedIP = {
     id: uuidv4(),
     ipHash,
+    network,
     timestamp: new Date(),
     userAgent: userAgent as string | undefined,
-    referrer: referrer as string | undefined
+    referrer: referrer as string | undefined,
+    geolocation
   };
   
   // Only include raw IP if anonymization is disabled
-  if (!config.anonymizeIps) {
+  if (anonymization === 'none') {
     captured.rawIp = rawIp;
   }
   
   logger.info('IP captured', {
     ipHash,
+    anonymization,
+    country: geolocation?.country,
     hasUserAgent: !!userAgent,
     hasReferrer: !!referrer
   });
@@ -50,6 +61,8 @@ export function captureAndStore(req: Request): LogEntry {
   const logEntry: LogEntry = {
     id: captured.id,
     ipHash: captured.ipHash,
+    ipAddress: captured.rawIp,
+    network: captured.network,
     timestamp: captured.timestamp.toISOString(),
     userAgent: captured.userAgent,
     referrer: captured.referrer,
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import { Reader, CityResponse } from 'maxmind';
+import config from '../config';
+import logger from '../utils/logger';
+import { formatIP, parseIP } from '../utils/ip.utils';
+import { GeoGranularity, GeoLocation } from '../types';
+
+export const GEO_GRANULARITIES: readonly GeoGranularity[] = ['country', 'city'];
+
+/**
+ * Source of the location of IP addresses
+ */
+export interface GeoLocationProvider {
+  // Location of a canonical IPv4 or IPv6 address, or null when it is unknown
+  lookup(ip: string): GeoLocation | null;
+  // Release the files and timers held by the provider
+  close(): void;
+}
+
+export interface MmdbProviderOptions {
+  // Database records kept decoded in memory
+  cacheSize: number;
+  // How often the database file is checked for changes, in milliseconds
+  watchInterval: number;
+}
+
+let provider: GeoLocationProvider | null = null;
+
+/**
+ * Create a bounded cache of decoded database records, evicting the oldest first
+ * Records are keyed by their offset in the database, so no address is kept
+ */
+function createRecordCache(maxEntries: number): { get(key: number): unknown; set(key: number, value: unknown): void } {
+  const entries = new Map<number, unknown>();
+  return {
+    get: key => entries.get(key),
+    set: (key, value) => {
+      if (entries.size >= maxEntries) {
+        entries.delete(entries.keys().next().value as number);
+      }
+      entries.set(key, value);
+    }
+  };
+}
+
+/**
+ * Create a provider reading a local MaxMind-format (.mmdb) database
+ * The file is polled and reloaded when its modification time or size changes; a missing,
+ * inaccessible or unreadable file leaves the previous database in use, or no location
+ * until a valid file appears.
+ */
+export function createMmdbProvider(databasePath: string, options: MmdbProviderOptions): GeoLocationProvider {
+  let reader: Reader<CityResponse> | null = null;
+  // File last read, valid or not, so that an invalid file is only read again once changed
+  let loadedFile: { mtimeMs: number; size: number } | null = null;
+
+  const load = (stats: fs.Stats): void => {
+    loadedFile = { mtimeMs: stats.mtimeMs, size: stats.size };
+    try {
+      reader = new Reader<CityResponse>(fs.readFileSync(databasePath), {
+        cache: createRecordCache(options.cacheSize)
+      });
+      logger.info('Geolocation database loaded', {
+        path: databasePath,
+        type: reader.metadata.databaseType,
+        builtAt: reader.metadata.buildEpoch.toISOString()
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      logger.warn('Geolocation database could not be loaded', { path: databasePath, error: errorMessage });
+    }
+  };
+
+  const checkForUpdate = (): void => {
+    let stats: fs.Stats | undefined;
+    try {
+      stats = fs.statSync(databasePath, { throwIfNoEntry: false });
+    } catch (error) {
+      // Run from a timer: an unreadable path (EACCES, ENOTDIR, EIO) must not stop the service
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      logger.warn('Geolocation database could not be checked', { path: databasePath, error: errorMessage });
+      return;
+    }
+    // A missing file, e.g. while it is replaced, keeps the loaded database
+    if (!stats) {
+      return;
+    }
+    if (!loadedFile || stats.mtimeMs !== loadedFile.mtimeMs || stats.size !== loadedFile.size) {
+      load(stats);
+    }
+  };
+
+  if (!fs.existsSync(databasePath)) {
+    logger.warn('Geolocation database not found, waiting for it', { path: databasePath });
+  }
+  checkForUpdate();
+  const watcher = setInterval(checkForUpdate, options.watchInterval);
+  watcher.unref();
+
+  return {
+    lookup(ip: string): GeoLocation | null {
+      const record = reader?.get(ip);
+      if (!record) {
+        return null;
+      }
+      return {
+        country: record.country?.iso_code ?? record.registered_country?.iso_code,
+        city: record.city?.names?.en,
+        latitude: record.location?.latitude,
+        longitude: record.location?.longitude
+      };
+    },
+    close(): void {
+      clearInterval(watcher);
+      reader = null;
+    }
+  };
+}
+
+/**
+ * Get the configured location granularity
+ */
+export function getGranularity(): GeoGranularity {
+  const granularity = config.geolocationGranularity as GeoGranularity;
+  if (!GEO_GRANULARITIES.includes(granularity)) {
+    throw new Error(
+      `Invalid geolocation granularity: ${granularity}. Supported granularities: ${GEO_GRANULARITIES.join(', ')}`
+    );
+  }
+  return granularity;
+}
+
+/**
+ * Open the configured geolocation database, if geolocation is enabled
+ */
+export function initializeGeolocation(): void {
+  if (provider || !config.enableGeolocation) {
+    return;
+  }
+  getGranularity();
+
+  provider = createMmdbProvider(config.geoipDatabasePath, {
+    cacheSize: config.geoipCacheSize,
+    watchInterval: config.geoipWatchInterval
+  });
+}
+
+/**
+ * Replace the geolocation provider, closing the current one
+ */
+export function setGeoLocationProvider(next: GeoLocationProvider | null): void {
+  provider?.close();
+  provider = next;
+}
+
+/**
+ * Close the geolocation provider
+ */
+export function closeGeolocation(): void {
+  setGeoLocationProvider(null);
+}
+
+/**
+ * Locate a raw IP address, keeping only the configured granularity
+ * Coordinates are never kept. Lookup failures leave the capture without a location.
+ */
+export function locateIP(ip: string): GeoLocation | undefined {
+  const parsed = parseIP(ip);
+  if (!provider || !parsed) {
+    return undefined;
+  }
+
+  let location: GeoLocation | null;
+  try {
+    location = provider.lookup(formatIP(parsed));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.warn('Geolocation lookup failed', { error: errorMessage });
+    return undefined;
+  }
+
+  const result: GeoLocation = {};
+  if (location?.country) {
+    result.country = location.country;
+  }
+  if (location?.city && getGranularity() === 'city') {
+    result.city = location.city;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
@@ -1,2 +1,4 @@
 export * from './anonymization.service';
 export * from './capture.service';
+export * from './geolocation.service';
+export * from './retention.service';
@@ -0,0 +1,149 @@
+import { clearLogField, deleteLogsBefore, getDatabase } from '../repositories/log.repository';
+import { FieldRetention, PurgeResult, RetentionField, RetentionPolicy, RetentionStatus } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+export const RETENTION_FIELDS: readonly RetentionField[] = [
+  'ip_hash',
+  'ip_address',
+  'network',
+  'user_agent',
+  'referrer',
+  'country',
+  'city'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+let nextPurgeAt: Date | null = null;
+let lastPurge: PurgeResult | null = null;
+
+/**
+ * Parse a field:days pair of the field retention setting
+ */
+function parseFieldRetention(entry: string): FieldRetention {
+  const [field, days, ...rest] = entry.split(':').map(part => part.trim());
+  if (!RETENTION_FIELDS.includes(field as RetentionField)) {
+    throw new Error(`Invalid retention field: ${field}. Supported fields: ${RETENTION_FIELDS.join(', ')}`);
+  }
+  if (rest.length > 0 || !/^[0-9]+$/.test(days ?? '') || parseInt(days, 10) < 1) {
+    throw new Error(`Invalid retention of ${field}: expected field:days with at least 1 day`);
+  }
+  return { field: field as RetentionField, days: parseInt(days, 10) };
+}
+
+/**
+ * Get the configured retention policy
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  if (!(config.retentionDays >= 0)) {
+    throw new Error('Retention must be a number of days, 0 to keep logs');
+  }
+  if (!(config.retentionPurgeIntervalMinutes > 0)) {
+    throw new Error('Purge interval must be a positive number of minutes');
+  }
+
+  const fields = config.retentionFields
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(parseFieldRetention);
+
+  return {
+    retentionDays: config.retentionDays,
+    fields,
+    purgeIntervalMinutes: config.retentionPurgeIntervalMinutes
+  };
+}
+
+/**
+ * Delete the logs older than the retention period and clear the fields older than theirs
+ */
+export function purgeLogs(now: Date = new Date()): PurgeResult {
+  const policy = getRetentionPolicy();
+  const result: PurgeResult = { purgedAt: now.toISOString(), deletedLogs: 0, clearedFields: {} };
+
+  getDatabase().transaction(() => {
+    if (policy.retentionDays > 0) {
+      result.deletedLogs = deleteLogsBefore(new Date(now.getTime() - policy.retentionDays * DAY_MS));
+    }
+    for (const { field, days } of policy.fields) {
+      result.clearedFields[field] = clearLogField(field, new Date(now.getTime() - days * DAY_MS));
+    }
+  })();
+
+  lastPurge = result;
+  return result;
+}
+
+/**
+ * Purge logs and schedule the next purge
+ * A failed purge is logged and retried at the next interval.
+ */
+function runScheduledPurge(): void {
+  const startTime = Date.now();
+  try {
+    const result = purgeLogs();
+    logger.info('Expired logs purged', {
+      deletedLogs: result.deletedLogs,
+      clearedFields: result.clearedFields,
+      duration: Date.now() - startTime
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error('Log purge failed', { error: errorMessage });
+  }
+  schedulePurge(config.retentionPurgeIntervalMinutes * MINUTE_MS);
+}
+
+/**
+ * Schedule the next purge in a delay, in milliseconds
+ */
+function schedulePurge(delay: number): void {
+  nextPurgeAt = new Date(Date.now() + delay);
+  purgeTimer = setTimeout(runScheduledPurge, delay);
+  purgeTimer.unref();
+}
+
+/**
+ * Start purging logs in the background: once now, then at every purge interval
+ * Nothing is scheduled when the policy neither deletes logs nor clears fields.
+ */
+export function startRetentionScheduler(): void {
+  if (purgeTimer) {
+    return;
+  }
+
+  const policy = getRetentionPolicy();
+  if (policy.retentionDays === 0 && policy.fields.length === 0) {
+    logger.info('Log retention disabled: logs are kept');
+    return;
+  }
+
+  logger.info('Log retention scheduled', { ...policy });
+  schedulePurge(0);
+}
+
+/**
+ * Stop the background purge
+ */
+export function stopRetentionScheduler(): void {
+  if (purgeTimer) {
+    clearTimeout(purgeTimer);
+    purgeTimer = null;
+  }
+  nextPurgeAt = null;
+}
+
+/**
+ * Report the retention policy in effect and the purge schedule
+ */
+export function getRetentionStatus(): RetentionStatus {
+  return {
+    policy: getRetentionPolicy(),
+    nextPurgeAt: nextPurgeAt ? nextPurgeAt.toISOString() : null,
+    lastPurge
+  };
+}
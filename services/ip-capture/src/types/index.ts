@@ -1,6 +1,8 @@
 export interface CapturedIP {
   id: string;
-  ipHash: string;
+  ipHash?: string;
+  // Network prefix of the address in CIDR notation, e.g. 192.0.2.0/24
+  network?: string;
   rawIp?: string;
   timestamp: Date;
   userAgent?: string;
@@ -15,9 +17,15 @@ export interface GeoLocation {
   longitude?: number;
 }
 
+// Location detail kept for captures
+export type GeoGranularity = 'country' | 'city';
+
 export interface LogEntry {
   id: string;
-  ipHash: string;
+  ipHash?: string;
+  // Full address, only stored without anonymization
+  ipAddress?: string;
+  network?: string;
   timestamp: string;
   userAgent?: string;
   referrer?: string;
@@ -25,14 +33,78 @@ export interface LogEntry {
   city?: string;
 }
 
+// none: full address; truncate: network prefix only; hash: keyed hash only;
+// truncate-hash: keyed hash of the network prefix; drop: nothing
+export type IpAnonymization = 'none' | 'truncate' | 'hash' | 'truncate-hash' | 'drop';
+
+// What is kept of an address once anonymized
+export interface AnonymizedIP {
+  ipHash?: string;
+  network?: string;
+  ipAddress?: string;
+}
+
+// Headers a proxy may use to pass on the address of its client
+// Header carrying the client address set by the trusted proxies
+export type ForwardedHeader = 'x-forwarded-for' | 'forwarded' | 'x-real-ip';
+
+export interface ForwardingHeaders {
+  // RFC 7239, e.g. for=192.0.2.60;proto=https, for="[2001:db8::17]:4711"
+  forwarded?: string;
+  xForwardedFor?: string;
+  xRealIp?: string;
+}
+
+// Keyed hash of the full address with a fixed or periodically replaced salt, or of its
+// truncated network
+export type IpHashStrategy = 'stable' | 'rotating' | 'truncate';
+
 export interface SearchCriteria {
   startDate?: Date;
   endDate?: Date;
   ipHash?: string;
+  network?: string;
   limit?: number;
   offset?: number;
 }
 
+// Log columns a retention policy can clear
+export type RetentionField = 'ip_hash' | 'ip_address' | 'network' | 'user_agent' | 'referrer' | 'country' | 'city';
+
+export interface FieldRetention {
+  field: RetentionField;
+  // Age of the log, in days, at which the field is cleared
+  days: number;
+}
+
+export interface RetentionPolicy {
+  // Age of a log, in days, at which it is deleted; 0 keeps logs
+  retentionDays: number;
+  fields: FieldRetention[];
+  purgeIntervalMinutes: number;
+}
+
+export interface PurgeResult {
+  purgedAt: string;
+  deletedLogs: number;
+  // Logs whose field was cleared, per field
+  clearedFields: Partial<Record<RetentionField, number>>;
+}
+
+export interface RetentionStatus {
+  policy: RetentionPolicy;
+  // Unset when no purge is scheduled
+  nextPurgeAt: string | null;
+  lastPurge: PurgeResult | null;
+}
+
+export interface LogStats {
+  totalLogs: number;
+  oldestLog: string | null;
+  newestLog: string | null;
+  retention: RetentionStatus;
+}
+
 export interface ServiceResponse<T> {
   success: boolean;
   data?: T;
@@ -1 +1,2 @@
 export { default as logger } from './logger';
+export * from './ip.utils';
@@ -0,0 +1,168 @@
+export interface ParsedIP {
+  version: 4 | 6;
+  // 4 bytes for IPv4, 16 for IPv6
+  bytes: number[];
+}
+
+// Network in CIDR notation, e.g. 10.0.0.0/8
+export interface IPRange {
+  network: ParsedIP;
+  prefixLength: number;
+}
+
+const IPV4_OCTET_PATTERN = /^(0|[1-9][0-9]{0,2})$/;
+const IPV6_GROUP_PATTERN = /^[0-9a-fA-F]{1,4}$/;
+const IPV6_GROUPS = 8;
+
+/**
+ * Parse a dotted-decimal IPv4 address into its 4 bytes
+ */
+export function parseIPv4(ip: string): number[] | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || !parts.every(part => IPV4_OCTET_PATTERN.test(part))) {
+    return null;
+  }
+  const bytes = parts.map(part => parseInt(part, 10));
+  return bytes.every(byte => byte <= 255) ? bytes : null;
+}
+
+/**
+ * Parse an IPv6 address into its 16 bytes
+ * Accepts the :: shorthand and a trailing dotted IPv4 address (e.g. ::ffff:192.0.2.1)
+ */
+export function parseIPv6(ip: string): number[] | null {
+  let address = ip;
+
+  // Rewrite an embedded IPv4 address as the two groups it stands for
+  const lastColon = address.lastIndexOf(':');
+  if (lastColon !== -1 && address.includes('.', lastColon)) {
+    const ipv4 = parseIPv4(address.slice(lastColon + 1));
+    if (!ipv4) {
+      return null;
+    }
+    address = address.slice(0, lastColon + 1) +
+      ((ipv4[0] << 8) | ipv4[1]).toString(16) + ':' + ((ipv4[2] << 8) | ipv4[3]).toString(16);
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] === '' ? [] : halves[0].split(':');
+  const tail = halves.length === 2 && halves[1] !== '' ? halves[1].split(':') : [];
+  const missing = IPV6_GROUPS - head.length - tail.length;
+  // :: stands for at least one group of zeros
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every(group => IPV6_GROUP_PATTERN.test(group))) {
+    return null;
+  }
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xFF];
+  });
+}
+
+/**
+ * Parse an IPv4 or IPv6 address
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are returned as the IPv4 address, and the
+ * zone ID of an IPv6 address (fe80::1%eth0), which only names a local interface, is dropped
+ */
+export function parseIP(ip: string): ParsedIP | null {
+  const zoneIndex = ip.indexOf('%');
+  const address = zoneIndex === -1 ? ip : ip.slice(0, zoneIndex);
+  if (zoneIndex !== -1 && (zoneIndex === ip.length - 1 || !address.includes(':'))) {
+    return null;
+  }
+
+  const ipv4 = parseIPv4(address);
+  if (ipv4) {
+    return { version: 4, bytes: ipv4 };
+  }
+
+  const ipv6 = address.includes(':') ? parseIPv6(address) : null;
+  if (!ipv6) {
+    return null;
+  }
+  const isIPv4Mapped = ipv6.slice(0, 10).every(byte => byte === 0) && ipv6[10] === 0xFF && ipv6[11] === 0xFF;
+  return isIPv4Mapped ? { version: 4, bytes: ipv6.slice(12) } : { version: 6, bytes: ipv6 };
+}
+
+/**
+ * Format an address in its canonical form: dotted decimal for IPv4, and for IPv6
+ * lowercase groups with the longest run of zero groups shortened to :: (RFC 5952)
+ */
+export function formatIP(ip: ParsedIP): string {
+  if (ip.version === 4) {
+    return ip.bytes.join('.');
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < ip.bytes.length; i += 2) {
+    groups.push((ip.bytes[i] << 8) | ip.bytes[i + 1]);
+  }
+
+  let runStart = -1;
+  let runLength = 0;
+  for (let i = 0; i < groups.length; i++) {
+    let length = 0;
+    while (i + length < groups.length && groups[i + length] === 0) {
+      length++;
+    }
+    // A single zero group is not shortened
+    if (length > runLength && length > 1) {
+      runStart = i;
+      runLength = length;
+    }
+    i += length;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (runStart === -1) {
+    return hex.join(':');
+  }
+  return hex.slice(0, runStart).join(':') + '::' + hex.slice(runStart + runLength).join(':');
+}
+
+/**
+ * Keep the first prefixLength bits of an address and zero the others
+ */
+export function maskIP(ip: ParsedIP, prefixLength: number): ParsedIP {
+  const bytes = ip.bytes.map((byte, index) => {
+    const bits = Math.min(8, Math.max(0, prefixLength - index * 8));
+    return byte & (0xFF << (8 - bits)) & 0xFF;
+  });
+  return { version: ip.version, bytes };
+}
+
+/**
+ * Parse a network in CIDR notation; a single address is a network of its own
+ */
+export function parseCIDR(value: string): IPRange | null {
+  const parts = value.split('/');
+  const parsed = parts.length <= 2 ? parseIP(parts[0]) : null;
+  if (!parsed) {
+    return null;
+  }
+
+  const maxLength = parsed.version === 4 ? 32 : 128;
+  const prefixLength = parts.length === 1 ? maxLength : /^[0-9]{1,3}$/.test(parts[1]) ? parseInt(parts[1], 10) : NaN;
+  if (!(prefixLength >= 0 && prefixLength <= maxLength)) {
+    return null;
+  }
+  return { network: maskIP(parsed, prefixLength), prefixLength };
+}
+
+/**
+ * Check whether an address belongs to a network
+ */
+export function isInRange(ip: ParsedIP, range: IPRange): boolean {
+  if (ip.version !== range.network.version) {
+    return false;
+  }
+  const masked = maskIP(ip, range.prefixLength);
+  return masked.bytes.every((byte, index) => byte === range.network.bytes[index]);
+}
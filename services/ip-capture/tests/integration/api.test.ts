@@ -2,6 +2,9 @@ import request from 'supertest';
 import { createApp } from '../../src/app';
 import { Application } from 'express';
 import { closeDatabase } from '../../src/repositories/log.repository';
+import { setGeoLocationProvider } from '../../src/services/geolocation.service';
+import { hashIP } from '../../src/services/anonymization.service';
+import config from '../../src/config';
 import fs from 'fs';
 import path from 'path';
 
@@ -12,6 +15,8 @@ describe('API Routes', () => {
   beforeAll(() => {
     // Set test database path
     process.env.DATABASE_PATH = testDbPath;
+    config.databasePath = testDbPath;
+    config.trustedProxies = ['127.0.0.1', '::1'];
     app = createApp();
   });
 
@@ -37,6 +42,8 @@ describe('API Routes', () => {
       expect(response.body).toHaveProperty('timestamp');
       expect(response.body).toHaveProperty('version', '1.0.0');
       expect(response.body).toHaveProperty('features');
+      expect(response.body.features).toHaveProperty('ipAnonymization', 'hash');
+      expect(response.body.features).toHaveProperty('ipHashStrategy', 'rotating');
     });
   });
 
@@ -63,6 +70,70 @@ describe('API Routes', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data).toHaveProperty('ipHash');
     });
+
+    it('should ignore X-Forwarded-For from an untrusted peer', async () => {
+      const { trustedProxies } = config;
+      config.trustedProxies = [];
+      try {
+        const response = await request(app)
+          .get('/capture')
+          .set('X-Forwarded-For', '198.51.100.99');
+        const log = await request(app).get(`/logs/${response.body.data.id}`);
+        
+        expect(response.status).toBe(200);
+        expect(log.body.data.network).toBeNull();
+        expect(log.body.data.ipHash).toBe(hashIP('127.0.0.1'));
+      } finally {
+        config.trustedProxies = trustedProxies;
+      }
+    });
+
+    it('should store only the network prefix when truncating', async () => {
+      const { ipAnonymization } = config;
+      config.ipAnonymization = 'truncate';
+      try {
+        const response = await request(app)
+          .get('/capture')
+          .set('X-Forwarded-For', '198.51.100.23');
+        
+        expect(response.status).toBe(200);
+        expect(response.body.data.network).toBe('198.51.100.0/24');
+        expect(response.body.data.ipHash).toBeUndefined();
+        
+        const logs = await request(app)
+          .get('/logs')
+          .query({ network: '198.51.100.0/24' });
+        
+        expect(logs.body.data.items).toHaveLength(1);
+        expect(logs.body.data.items[0]).toMatchObject({
+          id: response.body.data.id,
+          network: '198.51.100.0/24',
+          ipHash: null,
+          ipAddress: null
+        });
+      } finally {
+        config.ipAnonymization = ipAnonymization;
+      }
+    });
+  });
+
+  describe('GET /capture with geolocation', () => {
+    afterEach(() => {
+      setGeoLocationProvider(null);
+    });
+
+    it('should store the country of the raw address', async () => {
+      const lookup = jest.fn().mockReturnValue({ country: 'NL', city: 'Amsterdam', latitude: 52.4, longitude: 4.9 });
+      setGeoLocationProvider({ lookup, close: () => undefined });
+      
+      const response = await request(app)
+        .get('/capture')
+        .set('X-Forwarded-For', '192.0.2.44');
+      const log = await request(app).get(`/logs/${response.body.data.id}`);
+      
+      expect(lookup).toHaveBeenCalledWith('192.0.2.44');
+      expect(log.body.data).toMatchObject({ country: 'NL', city: null });
+    });
   });
 
   describe('GET /logs', () => {
@@ -97,6 +168,10 @@ describe('API Routes', () => {
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
       expect(response.body.data).toHaveProperty('totalLogs');
+      expect(response.body.data.retention).toMatchObject({
+        policy: { retentionDays: 0, fields: [], purgeIntervalMinutes: 60 },
+        nextPurgeAt: null
+      });
     });
   });
 
@@ -1,4 +1,17 @@
-import { hashIP, truncateIP, isValidIP, extractIP } from '../../src/services/anonymization.service';
+import crypto from 'crypto';
+import {
+  hashIP,
+  truncateIP,
+  isValidIP,
+  extractIP,
+  getForwardedHeader,
+  anonymizeIP,
+  destroyRotatingKey,
+  getTrustedProxies,
+  validateAnonymizationConfig
+} from '../../src/services/anonymization.service';
+import { parseCIDR, IPRange } from '../../src/utils/ip.utils';
+import config from '../../src/config';
 
 describe('Anonymization Service', () => {
   describe('hashIP', () => {
@@ -26,19 +39,146 @@ describe('Anonymization Service', () => {
     });
   });
 
+  describe('hashIP strategies', () => {
+    const { ipHashSecret, ipHashStrategy, ipSaltRotationHours } = config;
+
+    afterEach(() => {
+      jest.useRealTimers();
+      destroyRotatingKey();
+      Object.assign(config, { ipHashSecret, ipHashStrategy, ipSaltRotationHours });
+    });
+
+    it('should key stable hashes with the server secret', () => {
+      config.ipHashStrategy = 'stable';
+      config.ipHashSecret = 'secret-a';
+      const hash = hashIP('192.168.1.1');
+
+      expect(hash).not.toBe(crypto.createHash('sha256').update('192.168.1.1').digest('hex'));
+      expect(hash).toBe(crypto.createHmac('sha256', 'secret-a').update('192.168.1.1').digest('hex'));
+
+      config.ipHashSecret = 'secret-b';
+      expect(hashIP('192.168.1.1')).not.toBe(hash);
+    });
+
+    it('should change rotating hashes when the period ends', () => {
+      jest.useFakeTimers({ now: new Date('2024-01-15T10:00:00Z') });
+      config.ipHashStrategy = 'rotating';
+      config.ipSaltRotationHours = 24;
+      const hash = hashIP('192.168.1.1');
+
+      jest.setSystemTime(new Date('2024-01-15T23:59:00Z'));
+      expect(hashIP('192.168.1.1')).toBe(hash);
+
+      // The key of the period is destroyed at midnight UTC
+      jest.advanceTimersByTime(60 * 1000);
+      expect(hashIP('192.168.1.1')).not.toBe(hash);
+    });
+
+    it('should not reuse a destroyed key', () => {
+      config.ipHashStrategy = 'rotating';
+      const hash = hashIP('192.168.1.1');
+
+      destroyRotatingKey();
+      expect(hashIP('192.168.1.1')).not.toBe(hash);
+    });
+
+    it('should hash the truncated address with the truncate strategy', () => {
+      config.ipHashStrategy = 'truncate';
+
+      expect(hashIP('192.168.1.1')).toBe(hashIP('192.168.1.200'));
+      expect(hashIP('192.168.1.1')).not.toBe(hashIP('192.168.2.1'));
+    });
+
+    it('should reject an unknown strategy', () => {
+      config.ipHashStrategy = 'plain';
+
+      expect(() => hashIP('192.168.1.1')).toThrow('Invalid IP hash strategy');
+      expect(() => validateAnonymizationConfig()).toThrow('Invalid IP hash strategy');
+    });
+
+    it('should reject a rotation period that is not positive', () => {
+      config.ipHashStrategy = 'rotating';
+      config.ipSaltRotationHours = 0;
+
+      expect(() => validateAnonymizationConfig()).toThrow('positive number of hours');
+    });
+  });
+
   describe('truncateIP', () => {
     it('should truncate IPv4 address', () => {
       const ip = '192.168.1.100';
       const truncated = truncateIP(ip);
       
-      expect(truncated).toBe('192.168.1.x');
+      expect(truncated).toBe('192.168.1.0/24');
     });
 
     it('should truncate IPv6 address', () => {
       const ip = '2001:0db8:85a3:0000:0000:8a2e:0370:7334';
       const truncated = truncateIP(ip);
       
-      expect(truncated).toBe('2001:0db8:85a3:x:x:x:x:x');
+      expect(truncated).toBe('2001:db8:85a3::/48');
+    });
+
+    it('should truncate to the given prefix lengths', () => {
+      expect(truncateIP('192.168.1.100', 16, 48)).toBe('192.168.0.0/16');
+      expect(truncateIP('192.168.1.100', 20, 48)).toBe('192.168.0.0/20');
+      expect(truncateIP('2001:db8:85a3::8a2e:370:7334', 24, 56)).toBe('2001:db8:85a3::/56');
+    });
+
+    it('should truncate compressed and IPv4-mapped addresses', () => {
+      expect(truncateIP('2001:db8::1')).toBe('2001:db8::/48');
+      expect(truncateIP('::ffff:192.168.1.100')).toBe('192.168.1.0/24');
+    });
+
+    it('should return null for an invalid address', () => {
+      expect(truncateIP('unknown')).toBeNull();
+    });
+  });
+
+  describe('anonymizeIP', () => {
+    it('should keep the address, its hash and its network with none', () => {
+      expect(anonymizeIP('192.168.1.100', 'none')).toEqual({
+        ipAddress: '192.168.1.100',
+        ipHash: hashIP('192.168.1.100'),
+        network: '192.168.1.0/24'
+      });
+    });
+
+    it('should keep only the network with truncate', () => {
+      expect(anonymizeIP('192.168.1.100', 'truncate')).toEqual({ network: '192.168.1.0/24' });
+    });
+
+    it('should keep only the hash with hash', () => {
+      expect(anonymizeIP('192.168.1.100', 'hash')).toEqual({ ipHash: hashIP('192.168.1.100') });
+    });
+
+    it('should hash the network with truncate-hash', () => {
+      const anonymized = anonymizeIP('192.168.1.100', 'truncate-hash');
+
+      expect(anonymized).toEqual({ ipHash: hashIP('192.168.1.0/24') });
+      expect(anonymizeIP('192.168.1.7', 'truncate-hash')).toEqual(anonymized);
+    });
+
+    it('should keep nothing with drop', () => {
+      expect(anonymizeIP('192.168.1.100', 'drop')).toEqual({});
+    });
+
+    it('should keep nothing of an invalid address', () => {
+      expect(anonymizeIP('unknown', 'none')).toEqual({});
+      expect(anonymizeIP('1.2.3.4; DROP TABLE', 'hash')).toEqual({});
+    });
+
+    it('should reject invalid settings', () => {
+      const { ipAnonymization, ipv4PrefixLength } = config;
+      try {
+        config.ipAnonymization = 'encrypt';
+        expect(() => anonymizeIP('192.168.1.100')).toThrow('Invalid IP anonymization');
+        config.ipAnonymization = ipAnonymization;
+        config.ipv4PrefixLength = 33;
+        expect(() => validateAnonymizationConfig()).toThrow('IPv4 prefix length');
+      } finally {
+        Object.assign(config, { ipAnonymization, ipv4PrefixLength });
+      }
     });
   });
 
@@ -57,28 +197,120 @@ describe('Anonymization Service', () => {
 
     it('should validate correct IPv6 addresses', () => {
       expect(isValidIP('2001:0db8:85a3:0000:0000:8a2e:0370:7334')).toBe(true);
+      expect(isValidIP('2001:db8::1')).toBe(true);
+      expect(isValidIP('::1')).toBe(true);
+      expect(isValidIP('::ffff:192.0.2.1')).toBe(true);
+      expect(isValidIP('fe80::1%eth0')).toBe(true);
+    });
+
+    it('should reject garbage', () => {
+      expect(isValidIP('')).toBe(false);
+      expect(isValidIP('192.168.1.1, 10.0.0.1')).toBe(false);
+      expect(isValidIP('2001:db8::1::2')).toBe(false);
+      expect(isValidIP('192.168.1.1%eth0')).toBe(false);
+      expect(isValidIP('fe80::1%')).toBe(false);
+      expect(isValidIP('<script>')).toBe(false);
     });
   });
 
   describe('extractIP', () => {
+    const trusted: IPRange[] = [parseCIDR('10.0.0.0/8')!, parseCIDR('2001:db8:ffff::/48')!];
+
     it('should extract IP from X-Forwarded-For header', () => {
-      const ip = extractIP('10.0.0.1', '192.168.1.1, 10.0.0.2');
+      const ip = extractIP('10.0.0.1', { xForwardedFor: '192.168.1.1, 10.0.0.2' }, trusted);
       expect(ip).toBe('192.168.1.1');
     });
 
     it('should fall back to remote address if no X-Forwarded-For', () => {
-      const ip = extractIP('192.168.1.1', undefined);
+      const ip = extractIP('192.168.1.1', {}, trusted);
       expect(ip).toBe('192.168.1.1');
     });
 
     it('should remove IPv6 prefix from remote address', () => {
-      const ip = extractIP('::ffff:192.168.1.1', undefined);
+      const ip = extractIP('::ffff:192.168.1.1', {}, trusted);
       expect(ip).toBe('192.168.1.1');
     });
 
     it('should return unknown for undefined addresses', () => {
-      const ip = extractIP(undefined, undefined);
+      const ip = extractIP(undefined, {}, trusted);
       expect(ip).toBe('unknown');
     });
+
+    it('should ignore forwarding headers from an untrusted peer', () => {
+      expect(extractIP('203.0.113.9', { xForwardedFor: '192.168.1.1' }, trusted)).toBe('203.0.113.9');
+      expect(extractIP('10.0.0.1', { xForwardedFor: '192.168.1.1' }, [])).toBe('10.0.0.1');
+    });
+
+    it('should stop at the first untrusted hop', () => {
+      const ip = extractIP('10.0.0.1', { xForwardedFor: '198.51.100.1, 203.0.113.7, 10.0.0.2' }, trusted);
+      expect(ip).toBe('203.0.113.7');
+    });
+
+    it('should stop at an invalid hop', () => {
+      expect(extractIP('10.0.0.1', { xForwardedFor: '198.51.100.1, garbage' }, trusted)).toBe('10.0.0.1');
+      expect(extractIP('10.0.0.1', { xForwardedFor: '198.51.100.1, unknown, 10.0.0.2' }, trusted)).toBe('10.0.0.2');
+    });
+
+    it('should read the Forwarded header when configured', () => {
+      const forwarded = 'for=198.51.100.17;proto=https, For="[2001:db8:cafe::17]:4711", for=10.0.0.2:8080;by=10.0.0.1';
+      expect(extractIP('10.0.0.1', { forwarded }, trusted, 'forwarded')).toBe('2001:db8:cafe::17');
+      expect(extractIP('10.0.0.1', { forwarded: 'for="_hidden", for=10.0.0.2' }, trusted, 'forwarded')).toBe('10.0.0.2');
+    });
+
+    it('should ignore a Forwarded header supplied by the client', () => {
+      const headers = { forwarded: 'for=198.51.100.17', xForwardedFor: '203.0.113.7' };
+      expect(extractIP('10.0.0.1', headers, trusted, 'x-forwarded-for')).toBe('203.0.113.7');
+      expect(extractIP('10.0.0.1', { forwarded: 'for=198.51.100.17' }, trusted, 'x-forwarded-for')).toBe('10.0.0.1');
+    });
+
+    it('should read X-Real-IP from a trusted proxy when configured', () => {
+      expect(extractIP('10.0.0.1', { xRealIp: '198.51.100.17' }, trusted, 'x-real-ip')).toBe('198.51.100.17');
+      expect(extractIP('203.0.113.9', { xRealIp: '198.51.100.17' }, trusted, 'x-real-ip')).toBe('203.0.113.9');
+      expect(extractIP('10.0.0.1', { xRealIp: '198.51.100.17' }, trusted, 'x-forwarded-for')).toBe('10.0.0.1');
+    });
+
+    it('should return addresses in canonical form', () => {
+      expect(extractIP('2001:0DB8:FFFF::0001', { xForwardedFor: '[2001:0DB8::0002]' }, trusted)).toBe('2001:db8::2');
+      expect(extractIP('fe80::1%eth0', {}, trusted)).toBe('fe80::1');
+      expect(extractIP('10.0.0.1', { xForwardedFor: '::ffff:198.51.100.17' }, trusted)).toBe('198.51.100.17');
+    });
+  });
+
+  describe('getForwardedHeader', () => {
+    const { forwardedHeader } = config;
+
+    afterEach(() => {
+      config.forwardedHeader = forwardedHeader;
+    });
+
+    it('should default to X-Forwarded-For', () => {
+      expect(getForwardedHeader()).toBe('x-forwarded-for');
+    });
+
+    it('should reject an unknown header', () => {
+      config.forwardedHeader = 'x-client-ip';
+
+      expect(() => getForwardedHeader()).toThrow('Invalid forwarded header');
+    });
+  });
+
+  describe('getTrustedProxies', () => {
+    const { trustedProxies } = config;
+
+    afterEach(() => {
+      config.trustedProxies = trustedProxies;
+    });
+
+    it('should parse the configured networks', () => {
+      config.trustedProxies = ['10.0.0.0/8', '::1'];
+
+      expect(getTrustedProxies()).toEqual([parseCIDR('10.0.0.0/8'), parseCIDR('::1/128')]);
+    });
+
+    it('should reject an invalid network', () => {
+      config.trustedProxies = ['10.0.0.0/33'];
+
+      expect(() => getTrustedProxies()).toThrow('Invalid trusted proxy');
+    });
   });
 });
@@ -0,0 +1,234 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createMmdbProvider,
+  locateIP,
+  setGeoLocationProvider,
+  closeGeolocation,
+  GeoLocationProvider
+} from '../../src/services/geolocation.service';
+import { parseIP } from '../../src/utils/ip.utils';
+import config from '../../src/config';
+
+type MmdbValue = string | number | MmdbValue[] | { [key: string]: MmdbValue };
+
+const METADATA_MARKER = Buffer.from('ABCDEF4D61784D696E642E636F6D', 'hex');
+
+/**
+ * Encode a value in the MMDB data section format (sizes below 29 only)
+ */
+function encodeValue(value: MmdbValue): Buffer {
+  // Types above 7 are extended: the control byte is followed by the type minus 7
+  const control = (type: number, size: number): Buffer =>
+    type <= 7 ? Buffer.from([(type << 5) | size]) : Buffer.from([size, type - 7]);
+
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([control(2, bytes.length), bytes]);
+  }
+  if (typeof value === 'number' && !Number.isInteger(value)) {
+    const bytes = Buffer.alloc(8);
+    bytes.writeDoubleBE(value);
+    return Buffer.concat([control(3, 8), bytes]);
+  }
+  if (typeof value === 'number') {
+    // Unsigned 32-bit integer on as few bytes as needed
+    const bytes: number[] = [];
+    for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) {
+      bytes.unshift(rest % 256);
+    }
+    return Buffer.concat([control(6, bytes.length), Buffer.from(bytes)]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([control(11, value.length), ...value.map(encodeValue)]);
+  }
+  const entries = Object.entries(value);
+  return Buffer.concat([
+    control(7, entries.length),
+    ...entries.flatMap(([key, item]) => [encodeValue(key), encodeValue(item)])
+  ]);
+}
+
+/**
+ * Build an IPv4 MMDB database with 24-bit records mapping networks to records
+ */
+function buildMmdb(networks: { network: string; prefixLength: number; record: MmdbValue }[]): Buffer {
+  // Records point to a node, to a data offset, or nowhere (null)
+  type TreeRecord = number | { offset: number } | null;
+  const nodes: TreeRecord[][] = [[null, null]];
+  const data: Buffer[] = [];
+  let dataLength = 0;
+
+  for (const { network, prefixLength, record } of networks) {
+    const encoded = encodeValue(record);
+    const bytes = parseIP(network)!.bytes;
+    let node = 0;
+    for (let depth = 0; depth < prefixLength; depth++) {
+      const bit = (bytes[depth >> 3] >> (7 - (depth & 7))) & 1;
+      if (depth === prefixLength - 1) {
+        nodes[node][bit] = { offset: dataLength };
+      } else {
+        if (nodes[node][bit] === null) {
+          nodes.push([null, null]);
+          nodes[node][bit] = nodes.length - 1;
+        }
+        node = nodes[node][bit] as number;
+      }
+    }
+    data.push(encoded);
+    dataLength += encoded.length;
+  }
+
+  const nodeCount = nodes.length;
+  const tree = Buffer.alloc(nodeCount * 6);
+  nodes.forEach((records, index) => {
+    records.forEach((record, side) => {
+      const value = record === null ? nodeCount : typeof record === 'number' ? record : nodeCount + 16 + record.offset;
+      tree.writeUIntBE(value, index * 6 + side * 3, 3);
+    });
+  });
+
+  const metadata = encodeValue({
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    build_epoch: 1700000000,
+    database_type: 'GeoLite2-City',
+    description: { en: 'Test database' },
+    ip_version: 4,
+    languages: ['en'],
+    node_count: nodeCount,
+    record_size: 24
+  });
+
+  return Buffer.concat([tree, Buffer.alloc(16), ...data, METADATA_MARKER, metadata]);
+}
+
+function cityRecord(country: string, city: string): MmdbValue {
+  return {
+    country: { iso_code: country, names: { en: country } },
+    city: { names: { en: city } },
+    location: { latitude: 51.5, longitude: -0.12 }
+  };
+}
+
+/**
+ * Wait until a condition holds, polling for up to 3 seconds
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 150 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('Geolocation Service', () => {
+  let tempDir: string;
+  let databasePath: string;
+  let provider: GeoLocationProvider;
+  const { geolocationGranularity } = config;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ip-capture-geo-'));
+    databasePath = path.join(tempDir, 'GeoLite2-City.mmdb');
+    fs.writeFileSync(databasePath, buildMmdb([
+      { network: '81.2.69.0', prefixLength: 24, record: cityRecord('GB', 'London') },
+      { network: '175.16.199.0', prefixLength: 24, record: cityRecord('CN', 'Changchun') }
+    ]));
+    provider = createMmdbProvider(databasePath, { cacheSize: 10, watchInterval: 20 });
+    setGeoLocationProvider(provider);
+  });
+
+  afterEach(() => {
+    closeGeolocation();
+    config.geolocationGranularity = geolocationGranularity;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createMmdbProvider', () => {
+    it('should read the location of an address', () => {
+      expect(provider.lookup('81.2.69.160')).toEqual({
+        country: 'GB',
+        city: 'London',
+        latitude: 51.5,
+        longitude: -0.12
+      });
+    });
+
+    it('should return null for an address outside the database', () => {
+      expect(provider.lookup('192.0.2.1')).toBeNull();
+    });
+  });
+
+  describe('locateIP', () => {
+    it('should keep only the country by default', () => {
+      expect(locateIP('81.2.69.160')).toEqual({ country: 'GB' });
+    });
+
+    it('should keep the city with the city granularity', () => {
+      config.geolocationGranularity = 'city';
+
+      expect(locateIP('175.16.199.1')).toEqual({ country: 'CN', city: 'Changchun' });
+    });
+
+    it('should locate IPv4-mapped addresses', () => {
+      expect(locateIP('::ffff:81.2.69.160')).toEqual({ country: 'GB' });
+    });
+
+    it('should not locate unknown or invalid addresses', () => {
+      expect(locateIP('192.0.2.1')).toBeUndefined();
+      expect(locateIP('unknown')).toBeUndefined();
+      // IPv6 lookups fail on an IPv4 database
+      expect(locateIP('2001:db8::1')).toBeUndefined();
+    });
+
+    it('should not locate without a provider', () => {
+      closeGeolocation();
+
+      expect(locateIP('81.2.69.160')).toBeUndefined();
+    });
+  });
+
+  describe('database reload', () => {
+    it('should reload the database when the file changes', async () => {
+      fs.writeFileSync(databasePath, buildMmdb([
+        { network: '81.2.69.0', prefixLength: 24, record: cityRecord('FR', 'Paris') }
+      ]));
+      await waitFor(() => locateIP('81.2.69.160')?.country === 'FR');
+
+      expect(locateIP('81.2.69.160')).toEqual({ country: 'FR' });
+      expect(locateIP('175.16.199.1')).toBeUndefined();
+    });
+
+    it('should keep the loaded database when the new file is invalid', async () => {
+      fs.writeFileSync(databasePath, 'not a database');
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(locateIP('81.2.69.160')).toEqual({ country: 'GB' });
+    });
+
+    it('should keep the loaded database when the file cannot be checked', async () => {
+      const statSync = jest.spyOn(fs, 'statSync').mockImplementation(() => {
+        throw Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' });
+      });
+      try {
+        await waitFor(() => statSync.mock.calls.length > 1);
+
+        expect(statSync.mock.calls.length).toBeGreaterThan(1);
+        expect(locateIP('81.2.69.160')).toEqual({ country: 'GB' });
+      } finally {
+        statSync.mockRestore();
+      }
+    });
+
+    it('should load a database created after startup', async () => {
+      const laterPath = path.join(tempDir, 'later.mmdb');
+      setGeoLocationProvider(createMmdbProvider(laterPath, { cacheSize: 10, watchInterval: 20 }));
+      expect(locateIP('81.2.69.160')).toBeUndefined();
+
+      fs.copyFileSync(databasePath, laterPath);
+      await waitFor(() => locateIP('81.2.69.160') !== undefined);
+
+      expect(locateIP('81.2.69.160')).toEqual({ country: 'GB' });
+    });
+  });
+});
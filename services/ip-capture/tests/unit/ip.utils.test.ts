@@ -0,0 +1,81 @@
+import { parseIP, formatIP, maskIP, parseCIDR, isInRange } from '../../src/utils/ip.utils';
+
+describe('IP Utils', () => {
+  describe('parseIP', () => {
+    it('should parse IPv4 addresses', () => {
+      expect(parseIP('192.0.2.1')).toEqual({ version: 4, bytes: [192, 0, 2, 1] });
+    });
+
+    it('should reject invalid IPv4 addresses', () => {
+      expect(parseIP('256.0.0.1')).toBeNull();
+      expect(parseIP('192.0.2')).toBeNull();
+      expect(parseIP('192.0.02.1')).toBeNull();
+    });
+
+    it('should parse full and compressed IPv6 addresses', () => {
+      const full = parseIP('2001:0db8:0000:0000:0000:0000:0000:0001');
+
+      expect(full?.version).toBe(6);
+      expect(parseIP('2001:db8::1')).toEqual(full);
+      expect(parseIP('::')?.bytes).toEqual(new Array(16).fill(0));
+    });
+
+    it('should return IPv4-mapped IPv6 addresses as IPv4', () => {
+      expect(parseIP('::ffff:192.0.2.1')).toEqual({ version: 4, bytes: [192, 0, 2, 1] });
+      expect(parseIP('::ffff:c000:201')).toEqual({ version: 4, bytes: [192, 0, 2, 1] });
+    });
+
+    it('should drop the zone ID of IPv6 addresses', () => {
+      expect(parseIP('fe80::1%eth0')).toEqual(parseIP('fe80::1'));
+      expect(parseIP('fe80::1%')).toBeNull();
+      expect(parseIP('192.0.2.1%eth0')).toBeNull();
+    });
+
+    it('should reject invalid IPv6 addresses', () => {
+      expect(parseIP('2001:db8::1::2')).toBeNull();
+      expect(parseIP('2001:db8:1:2:3:4:5:6:7')).toBeNull();
+      expect(parseIP('2001:db8::g')).toBeNull();
+      expect(parseIP(':1:2:3:4:5:6:7')).toBeNull();
+    });
+  });
+
+  describe('formatIP', () => {
+    it('should shorten the longest run of zero groups', () => {
+      expect(formatIP(parseIP('2001:0db8:0:0:1:0:0:0')!)).toBe('2001:db8:0:0:1::');
+      expect(formatIP(parseIP('2001:db8:0:1:1:1:1:1')!)).toBe('2001:db8:0:1:1:1:1:1');
+      expect(formatIP(parseIP('0:0:0:0:0:0:0:1')!)).toBe('::1');
+    });
+  });
+
+  describe('maskIP', () => {
+    it('should zero the bits after the prefix', () => {
+      expect(formatIP(maskIP(parseIP('192.0.2.255')!, 25))).toBe('192.0.2.128');
+      expect(formatIP(maskIP(parseIP('2001:db8:abcd:12::1')!, 52))).toBe('2001:db8:abcd::');
+    });
+  });
+
+  describe('parseCIDR', () => {
+    it('should parse networks and single addresses', () => {
+      expect(parseCIDR('10.1.2.3/8')).toEqual({ network: parseIP('10.0.0.0'), prefixLength: 8 });
+      expect(parseCIDR('2001:db8::1')).toEqual({ network: parseIP('2001:db8::1'), prefixLength: 128 });
+    });
+
+    it('should reject invalid networks', () => {
+      expect(parseCIDR('10.0.0.0/33')).toBeNull();
+      expect(parseCIDR('10.0.0.0/')).toBeNull();
+      expect(parseCIDR('10.0.0.0/8/8')).toBeNull();
+      expect(parseCIDR('proxy.local')).toBeNull();
+    });
+  });
+
+  describe('isInRange', () => {
+    it('should match addresses of the network only', () => {
+      const range = parseCIDR('172.16.0.0/12')!;
+
+      expect(isInRange(parseIP('172.31.255.1')!, range)).toBe(true);
+      expect(isInRange(parseIP('172.32.0.1')!, range)).toBe(false);
+      expect(isInRange(parseIP('::ffff:172.16.0.1')!, range)).toBe(true);
+      expect(isInRange(parseIP('2001:db8::1')!, range)).toBe(false);
+    });
+  });
+});
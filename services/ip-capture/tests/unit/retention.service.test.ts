@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getRetentionPolicy,
+  getRetentionStatus,
+  purgeLogs,
+  startRetentionScheduler,
+  stopRetentionScheduler
+} from '../../src/services/retention.service';
+import { closeDatabase, findLogById, initializeDatabase, saveLog } from '../../src/repositories/log.repository';
+import config from '../../src/config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-03-01T12:00:00Z');
+
+/**
+ * Store a log captured a number of days before NOW
+ */
+function saveLogAged(id: string, days: number): void {
+  saveLog({
+    id,
+    ipHash: 'hash',
+    network: '192.0.2.0/24',
+    timestamp: new Date(NOW.getTime() - days * DAY_MS).toISOString(),
+    userAgent: 'Test Agent',
+    referrer: 'https://example.com/'
+  });
+}
+
+describe('Retention Service', () => {
+  let tempDir: string;
+  const { databasePath, retentionDays, retentionFields, retentionPurgeIntervalMinutes } = config;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ip-capture-retention-'));
+    config.databasePath = path.join(tempDir, 'ip-capture.db');
+    initializeDatabase();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    stopRetentionScheduler();
+    closeDatabase();
+    Object.assign(config, { databasePath, retentionDays, retentionFields, retentionPurgeIntervalMinutes });
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('getRetentionPolicy', () => {
+    it('should read the retention and field policy', () => {
+      config.retentionDays = 30;
+      config.retentionFields = 'user_agent:7, referrer:14';
+
+      expect(getRetentionPolicy()).toEqual({
+        retentionDays: 30,
+        fields: [{ field: 'user_agent', days: 7 }, { field: 'referrer', days: 14 }],
+        purgeIntervalMinutes: 60
+      });
+    });
+
+    it('should reject invalid settings', () => {
+      config.retentionFields = 'password:7';
+      expect(() => getRetentionPolicy()).toThrow('Invalid retention field');
+
+      config.retentionFields = 'user_agent:0';
+      expect(() => getRetentionPolicy()).toThrow('Invalid retention of user_agent');
+
+      config.retentionFields = '';
+      config.retentionDays = -1;
+      expect(() => getRetentionPolicy()).toThrow('Retention must be a number of days');
+    });
+  });
+
+  describe('purgeLogs', () => {
+    it('should delete logs older than the retention period', () => {
+      config.retentionDays = 30;
+      saveLogAged('recent', 29);
+      saveLogAged('expired', 31);
+
+      const result = purgeLogs(NOW);
+
+      expect(result.deletedLogs).toBe(1);
+      expect(findLogById('recent')).not.toBeNull();
+      expect(findLogById('expired')).toBeNull();
+    });
+
+    it('should clear fields older than their retention period', () => {
+      config.retentionDays = 30;
+      config.retentionFields = 'user_agent:7,referrer:14';
+      saveLogAged('fresh', 1);
+      saveLogAged('week-old', 8);
+      saveLogAged('fortnight-old', 15);
+
+      const result = purgeLogs(NOW);
+
+      expect(result).toEqual({
+        purgedAt: NOW.toISOString(),
+        deletedLogs: 0,
+        clearedFields: { user_agent: 2, referrer: 1 }
+      });
+      expect(findLogById('fresh')).toMatchObject({ userAgent: 'Test Agent', referrer: 'https://example.com/' });
+      expect(findLogById('week-old')).toMatchObject({ userAgent: null, referrer: 'https://example.com/' });
+      expect(findLogById('fortnight-old')).toMatchObject({ userAgent: null, referrer: null, ipHash: 'hash' });
+    });
+
+    it('should keep logs with a retention of 0 days', () => {
+      config.retentionDays = 0;
+      saveLogAged('ancient', 3650);
+
+      expect(purgeLogs(NOW).deletedLogs).toBe(0);
+      expect(findLogById('ancient')).not.toBeNull();
+    });
+  });
+
+  describe('startRetentionScheduler', () => {
+    it('should purge at startup and at every interval', () => {
+      jest.useFakeTimers({ now: NOW });
+      config.retentionDays = 30;
+      config.retentionPurgeIntervalMinutes = 60;
+      saveLogAged('expired', 31);
+
+      startRetentionScheduler();
+      expect(getRetentionStatus().nextPurgeAt).toBe(NOW.toISOString());
+
+      jest.advanceTimersByTime(0);
+      expect(findLogById('expired')).toBeNull();
+      expect(getRetentionStatus()).toMatchObject({
+        nextPurgeAt: new Date(NOW.getTime() + 60 * 60 * 1000).toISOString(),
+        lastPurge: { deletedLogs: 1 }
+      });
+
+      // Captured 30 days minus 30 minutes ago: expired at the next purge
+      saveLogAged('expiring', 30 - 1 / 48);
+      jest.advanceTimersByTime(60 * 60 * 1000);
+      expect(findLogById('expiring')).toBeNull();
+    });
+
+    it('should not schedule purges when logs are kept', () => {
+      config.retentionDays = 0;
+      config.retentionFields = '';
+
+      startRetentionScheduler();
+
+      expect(getRetentionStatus().nextPurgeAt).toBeNull();
+    });
+  });
+});
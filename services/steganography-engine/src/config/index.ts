@@ -1,3 +1,4 @@
+import os from 'os';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -7,9 +8,32 @@ export const config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   logLevel: process.env.LOG_LEVEL || 'info',
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10),
-  encryptionAlgorithm: process.env.ENCRYPTION_ALGORITHM || 'aes-256-gcm',
+  // Carrier images accepted by one batch encode request
+  batchMaxImages: parseInt(process.env.BATCH_MAX_IMAGES || '50', 10),
+  // Password key derivation: default algorithm and the cost parameters of each
+  kdfAlgorithm: process.env.KDF_ALGORITHM || 'scrypt',
+  pbkdf2Iterations: parseInt(process.env.PBKDF2_ITERATIONS || '600000', 10),
+  scryptCost: parseInt(process.env.SCRYPT_COST || '65536', 10),
+  scryptBlockSize: parseInt(process.env.SCRYPT_BLOCK_SIZE || '8', 10),
+  scryptParallelization: parseInt(process.env.SCRYPT_PARALLELIZATION || '1', 10),
+  argon2Memory: parseInt(process.env.ARGON2_MEMORY || '19456', 10),
+  argon2Iterations: parseInt(process.env.ARGON2_ITERATIONS || '2', 10),
+  argon2Parallelism: parseInt(process.env.ARGON2_PARALLELISM || '1', 10),
+  // KDF costs accepted from an image, as a multiple of the configured costs above
+  kdfDecodeCostFactor: parseInt(process.env.KDF_DECODE_COST_FACTOR || '4', 10),
+  // Worker threads running image processing and key derivation; by default one per
+  // CPU core, leaving one for the main thread
+  workerPoolSize: parseInt(process.env.WORKER_POOL_SIZE || String(Math.max(1, os.cpus().length - 1)), 10),
+  workerJobTimeout: parseInt(process.env.WORKER_JOB_TIMEOUT_MS || '60000', 10),
+  workerQueueLimit: parseInt(process.env.WORKER_QUEUE_LIMIT || '100', 10),
+  // Heap limit of each worker; a job exceeding it fails without stopping the service
+  workerMaxMemoryMb: parseInt(process.env.WORKER_MAX_MEMORY_MB || '512', 10),
+  // How long finished asynchronous jobs keep their result
+  jobResultTtl: parseInt(process.env.JOB_RESULT_TTL_MS || '900000', 10),
+  // Total size of the results kept by finished jobs before new jobs are refused (256 MB)
+  jobResultMaxBytes: parseInt(process.env.JOB_RESULT_MAX_BYTES || '268435456', 10),
   serviceName: process.env.SERVICE_NAME || 'steganography-engine',
-  supportedFormats: ['png', 'bmp', 'tiff'] as const,
+  supportedFormats: ['png', 'bmp', 'tiff', 'jpeg'] as const,
 };
 
 export default config;
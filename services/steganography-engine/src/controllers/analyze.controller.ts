@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runTask } from '../services/worker-pool.service';
+import { ServiceResponse, AnalysisResult } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { CodedError } from '../utils/errors';
+import { getAbortSignal } from '../utils/request.utils';
+
+/**
+ * Handle steganalysis requests
+ */
+export async function analyzeController(req: Request, res: Response): Promise<void> {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'MISSING_IMAGE',
+          message: 'No image file provided'
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId,
+          service: config.serviceName
+        }
+      } as ServiceResponse<never>);
+      return;
+    }
+
+    const signal = getAbortSignal(res);
+    const result = await runTask('analyzeImage', [req.file.buffer], { signal });
+
+    // The LSB plane visualization is opt-in, as it doubles the response size
+    if (req.body.visualize === 'true' || req.body.visualize === '1') {
+      result.lsbPlane = (await runTask('renderLsbPlane', [req.file.buffer], { signal })).toString('base64');
+    }
+
+    const duration = Date.now() - startTime;
+    logger.info('Analyze request completed', {
+      requestId,
+      duration,
+      estimatedRate: result.estimatedRate,
+      confidence: result.confidence,
+      suspicious: result.suspicious
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<AnalysisResult>);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof CodedError ? error.code : 'ANALYSIS_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Analyze request failed', { requestId, error: errorMessage, code: errorCode });
+
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        code: errorCode,
+        message: errorMessage
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<never>);
+  }
+}
@@ -1,9 +1,99 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { createComposite, MIN_IMAGES, MAX_IMAGES } from '../services/composite.service';
-import { ServiceResponse, CompositeResult } from '../types';
+import { MIN_IMAGES, MAX_IMAGES } from '../services/composite.service';
+import { runTask } from '../services/worker-pool.service';
+import {
+  ServiceResponse,
+  CompositeOptions,
+  CompositeResponse,
+  CompositeResult,
+  EncodedCompositeResponse,
+  EncodedCompositeResult
+} from '../types';
 import config from '../config';
 import logger from '../utils/logger';
+import { CodedError } from '../utils/errors';
+import { getAbortSignal } from '../utils/request.utils';
+import { OUTPUT_TYPES } from '../services/output.service';
+import { parseEncodeOptions, readEncodePayload, sendEncodedResult } from './encode.controller';
+
+/**
+ * Read composite options from multipart form fields; the transforms field holds a
+ * JSON list with one object (or null) per image
+ */
+export function parseCompositeOptions(body: Record<string, string | undefined>): CompositeOptions {
+  const options: CompositeOptions = {};
+  
+  if (body.seed) {
+    options.seed = body.seed;
+  }
+  if (body.layout) {
+    options.layout = body.layout.toLowerCase() as CompositeOptions['layout'];
+  }
+  if (body.width) {
+    options.width = Number(body.width);
+  }
+  if (body.height) {
+    options.height = Number(body.height);
+  }
+  if (body.fit) {
+    options.fit = body.fit.toLowerCase() as CompositeOptions['fit'];
+  }
+  if (body.background) {
+    options.background = body.background;
+  }
+  if (body.rotations) {
+    options.rotations = body.rotations.toLowerCase() as CompositeOptions['rotations'];
+  }
+  if (body.transforms) {
+    try {
+      options.transforms = JSON.parse(body.transforms);
+    } catch {
+      throw new CodedError('Invalid transforms: expected a JSON list with one object per image', 'INVALID_OPTIONS');
+    }
+  }
+  
+  return options;
+}
+
+/**
+ * Send a composite image as a PNG file, with the seed and the applied layout in
+ * headers, or as JSON with the image in base64 when the client prefers JSON
+ */
+export function sendCompositeResult(res: Response, result: CompositeResult, requestId: string): void {
+  if (res.req.accepts(['image/png', 'application/json']) === 'application/json') {
+    res.json({
+      success: true,
+      data: {
+        mimeType: 'image/png',
+        width: result.width,
+        height: result.height,
+        imagesUsed: result.imagesUsed,
+        seed: result.seed,
+        layers: result.layers,
+        data: result.image.toString('base64')
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<CompositeResponse>);
+    return;
+  }
+  
+  res.set({
+    'Content-Type': 'image/png',
+    'Content-Disposition': 'attachment; filename="composite.png"',
+    'X-Request-Id': requestId,
+    'X-Images-Used': result.imagesUsed.toString(),
+    'X-Output-Width': result.width.toString(),
+    'X-Output-Height': result.height.toString(),
+    'X-Composite-Seed': result.seed,
+    'X-Composite-Layout': JSON.stringify(result.layers)
+  });
+  res.send(result.image);
+}
 
 /**
  * Handle composite image generation requests
@@ -73,7 +163,11 @@ export async function compositeController(req: Request, res: Response): Promise<
     });
     
     // Generate the composite image
-    const result = await createComposite(imageBuffers);
+    const result = await runTask(
+      'createComposite',
+      [imageBuffers, parseCompositeOptions(req.body)],
+      { signal: getAbortSignal(res) }
+    );
     
     const duration = Date.now() - startTime;
     logger.info('Composite request completed', {
@@ -81,28 +175,122 @@ export async function compositeController(req: Request, res: Response): Promise<
       duration,
       imagesUsed: result.imagesUsed,
       outputWidth: result.width,
-      outputHeight: result.height
+      outputHeight: result.height,
+      seed: result.seed
     });
     
-    // Return the composite image as a file
-    res.set({
-      'Content-Type': 'image/png',
-      'Content-Disposition': 'attachment; filename="composite.png"',
-      'X-Request-Id': requestId,
-      'X-Images-Used': result.imagesUsed.toString(),
-      'X-Output-Width': result.width.toString(),
-      'X-Output-Height': result.height.toString()
+    sendCompositeResult(res, result, requestId);
+    
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof CodedError ? error.code : 'COMPOSITE_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Composite request failed', { requestId, error: errorMessage, code: errorCode });
+    
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        code: errorCode,
+        message: errorMessage
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<never>);
+  }
+}
+
+/**
+ * Send an encoded composite as a file with the composite and embedding details in
+ * headers, or as JSON with the image in base64 when the client prefers JSON
+ */
+function sendEncodedCompositeResult(res: Response, result: EncodedCompositeResult, requestId: string): void {
+  const outputType = OUTPUT_TYPES[result.encoding.format];
+  if (res.req.accepts([outputType.mimeType, 'application/json']) === 'application/json') {
+    res.json({
+      success: true,
+      data: {
+        mimeType: outputType.mimeType,
+        composite: result.composite,
+        encoding: result.encoding,
+        data: result.image.toString('base64')
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<EncodedCompositeResponse>);
+    return;
+  }
+  
+  res.set({
+    'X-Images-Used': result.composite.imagesUsed.toString(),
+    'X-Output-Width': result.composite.width.toString(),
+    'X-Output-Height': result.composite.height.toString(),
+    'X-Composite-Seed': result.composite.seed,
+    'X-Composite-Layout': JSON.stringify(result.composite.layers)
+  });
+  sendEncodedResult(res, { image: result.image, ...result.encoding }, requestId);
+}
+
+/**
+ * Handle requests to create a composite and hide a message in it in one pass
+ */
+export async function compositeEncodeController(req: Request, res: Response): Promise<void> {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+  
+  try {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const imageFiles = files?.images ?? [];
+    
+    if (imageFiles.length === 0) {
+      throw new CodedError('No image files provided', 'MISSING_IMAGES');
+    }
+    if (imageFiles.length < MIN_IMAGES) {
+      throw new CodedError(`At least ${MIN_IMAGES} images are required for compositing`, 'INSUFFICIENT_IMAGES');
+    }
+    
+    const payload = readEncodePayload(req);
+    
+    const result = await runTask(
+      'encodeComposite',
+      [
+        imageFiles.map(file => file.buffer),
+        payload,
+        req.body.password,
+        parseEncodeOptions(req.body),
+        parseCompositeOptions(req.body)
+      ],
+      { signal: getAbortSignal(res) }
+    );
+    
+    const duration = Date.now() - startTime;
+    logger.info('Composite encode request completed', {
+      requestId,
+      duration,
+      imagesUsed: result.composite.imagesUsed,
+      seed: result.composite.seed,
+      payloadType: typeof payload === 'string' ? 'text' : 'file',
+      bytesUsed: result.encoding.bytesUsed,
+      capacity: result.encoding.capacity
     });
-    res.send(result.image);
+    
+    sendEncodedCompositeResult(res, result, requestId);
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    logger.error('Composite request failed', { requestId, error: errorMessage });
+    const errorCode = error instanceof CodedError ? error.code : 'COMPOSITE_ENCODE_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Composite encode request failed', { requestId, error: errorMessage, code: errorCode });
     
-    res.status(400).json({
+    res.status(statusCode).json({
       success: false,
       error: {
-        code: 'COMPOSITE_FAILED',
+        code: errorCode,
         message: errorMessage
       },
       metadata: {
@@ -1,9 +1,93 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { decode, hasHiddenData } from '../services/decoder.service';
-import { ServiceResponse, DecodedResult } from '../types';
+import { runTask } from '../services/worker-pool.service';
+import { ServiceResponse, DecodedResult, DecodeOptions, TrustedKey } from '../types';
 import config from '../config';
 import logger from '../utils/logger';
+import { CodedError } from '../utils/errors';
+import { getAbortSignal } from '../utils/request.utils';
+import { sanitizeMimeType } from '../services/payload.service';
+
+/**
+ * Read trusted signer keys from a repeated or comma-separated trustedKey field and a
+ * keyring field holding a JSON object that maps signer names to public keys
+ */
+function parseTrustedKeys(body: Record<string, string | string[] | undefined>): TrustedKey[] {
+  const trustedKeys: TrustedKey[] = (body.trustedKey ? [body.trustedKey].flat() : [])
+    .flatMap(entry => entry.split(','))
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(key => ({ key }));
+
+  if (body.keyring) {
+    let keyring: unknown;
+    try {
+      keyring = JSON.parse([body.keyring].flat()[0]);
+    } catch {
+      keyring = undefined;
+    }
+    if (!keyring || typeof keyring !== 'object' || Array.isArray(keyring) ||
+      !Object.values(keyring).every(key => typeof key === 'string')) {
+      throw new CodedError('Invalid keyring: expected a JSON object mapping signer names to public keys', 'INVALID_OPTIONS');
+    }
+    for (const [name, key] of Object.entries(keyring as Record<string, string>)) {
+      trustedKeys.push({ name, key });
+    }
+  }
+
+  return trustedKeys;
+}
+
+/**
+ * Read decoding options from multipart form fields
+ */
+export function parseDecodeOptions(body: Record<string, string | string[] | undefined>): DecodeOptions {
+  const options: DecodeOptions = {
+    key: body.key as string | undefined,
+    privateKey: body.privateKey as string | undefined
+  };
+  const trustedKeys = parseTrustedKeys(body);
+  if (trustedKeys.length > 0) {
+    options.trustedKeys = trustedKeys;
+  }
+  return options;
+}
+
+/**
+ * Send a decoded payload: files as a download of the original file, text as JSON
+ * The stored MIME type comes from the image: a malformed one is sent as
+ * application/octet-stream, and browsers are told not to sniff the content.
+ */
+export function sendDecodedResult(res: Response, result: DecodedResult, requestId: string): void {
+  if (result.file) {
+    res.attachment(result.file.filename);
+    res.set({
+      'Content-Type': sanitizeMimeType(result.file.mimeType),
+      'X-Content-Type-Options': 'nosniff',
+      'X-Request-Id': requestId,
+      'X-Payload-Type': 'file',
+      'X-Encrypted': result.metadata.encrypted.toString(),
+      'X-Encryption': result.metadata.encryption ?? 'none',
+      ...(result.metadata.signer ? {
+        'X-Signature-Valid': String(result.metadata.signatureValid),
+        'X-Signer': result.metadata.signer,
+        'X-Signed-At': result.metadata.signedAt
+      } : {})
+    });
+    res.send(result.file.data);
+    return;
+  }
+  
+  res.json({
+    success: true,
+    data: result,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      requestId,
+      service: config.serviceName
+    }
+  } as ServiceResponse<DecodedResult>);
+}
 
 /**
  * Handle image decoding requests
@@ -31,34 +115,99 @@ export async function decodeController(req: Request, res: Response): Promise<voi
     
     const password = req.body.password;
     
-    const result = await decode(req.file.buffer, password);
+    const result = await runTask(
+      'decode',
+      [req.file.buffer, password, parseDecodeOptions(req.body)],
+      { signal: getAbortSignal(res) }
+    );
     
     const duration = Date.now() - startTime;
     logger.info('Decode request completed', {
       requestId,
       duration,
       messageLength: result.metadata.length,
-      encrypted: result.metadata.encrypted
+      encrypted: result.metadata.encrypted,
+      payloadType: result.metadata.payloadType,
+      signatureValid: result.metadata.signatureValid
     });
     
-    res.json({
-      success: true,
-      data: result,
+    sendDecodedResult(res, result, requestId);
+    
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof CodedError ? error.code : 'DECODING_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Decode request failed', { requestId, error: errorMessage, code: errorCode });
+    
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        code: errorCode,
+        message: errorMessage
+      },
       metadata: {
         timestamp: new Date().toISOString(),
         requestId,
         service: config.serviceName
       }
-    } as ServiceResponse<DecodedResult>);
+    } as ServiceResponse<never>);
+  }
+}
+
+/**
+ * Handle requests to reassemble a payload split across several images
+ */
+export async function joinController(req: Request, res: Response): Promise<void> {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+  
+  try {
+    const files = req.files as Express.Multer.File[] | undefined;
+    
+    if (!files || files.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'MISSING_IMAGES',
+          message: 'No image files provided'
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId,
+          service: config.serviceName
+        }
+      } as ServiceResponse<never>);
+      return;
+    }
+    
+    const result = await runTask(
+      'decodeJoin',
+      [files.map(file => file.buffer), req.body.password, parseDecodeOptions(req.body)],
+      { signal: getAbortSignal(res) }
+    );
+    
+    const duration = Date.now() - startTime;
+    logger.info('Join request completed', {
+      requestId,
+      duration,
+      imageCount: files.length,
+      setId: result.metadata.shares?.setId,
+      sharesUsed: result.metadata.shares?.used.length,
+      payloadType: result.metadata.payloadType
+    });
+    
+    sendDecodedResult(res, result, requestId);
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    logger.error('Decode request failed', { requestId, error: errorMessage });
+    const errorCode = error instanceof CodedError ? error.code : 'DECODING_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Join request failed', { requestId, error: errorMessage, code: errorCode });
     
-    res.status(400).json({
+    res.status(statusCode).json({
       success: false,
       error: {
-        code: 'DECODING_FAILED',
+        code: errorCode,
         message: errorMessage
       },
       metadata: {
@@ -93,7 +242,7 @@ export async function checkController(req: Request, res: Response): Promise<void
       return;
     }
     
-    const hasData = await hasHiddenData(req.file.buffer);
+    const hasData = await runTask('hasHiddenData', [req.file.buffer], { signal: getAbortSignal(res) });
     
     res.json({
       success: true,
@@ -107,12 +256,14 @@ export async function checkController(req: Request, res: Response): Promise<void
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    logger.error('Check request failed', { requestId, error: errorMessage });
+    const errorCode = error instanceof CodedError ? error.code : 'CHECK_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Check request failed', { requestId, error: errorMessage, code: errorCode });
     
-    res.status(400).json({
+    res.status(statusCode).json({
       success: false,
       error: {
-        code: 'CHECK_FAILED',
+        code: errorCode,
         message: errorMessage
       },
       metadata: {
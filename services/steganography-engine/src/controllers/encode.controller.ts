@@ -1,9 +1,115 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { encode, getCapacity } from '../services/encoder.service';
-import { ServiceResponse, EncodedResult, CapacityInfo } from '../types';
+import { runTask } from '../services/worker-pool.service';
+import { OUTPUT_TYPES } from '../services/output.service';
+import {
+  ServiceResponse,
+  EncodedResult,
+  CapacityInfo,
+  EncodeOptions,
+  PayloadFile,
+  SplitResponse
+} from '../types';
 import config from '../config';
 import logger from '../utils/logger';
+import { CodedError } from '../utils/errors';
+import { getAbortSignal } from '../utils/request.utils';
+
+/**
+ * Read recipient public keys from a repeated or comma-separated form field
+ */
+function parseRecipients(value: string | string[]): string[] {
+  return (Array.isArray(value) ? value : [value])
+    .flatMap(entry => entry.split(','))
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+}
+
+/**
+ * Read embedding options from multipart form fields
+ */
+export function parseEncodeOptions(body: Record<string, string | undefined>): EncodeOptions {
+  const options: EncodeOptions = {};
+  
+  if (body.bitsPerChannel) {
+    options.bitsPerChannel = Number(body.bitsPerChannel);
+  }
+  if (body.useAlpha !== undefined) {
+    options.useAlpha = body.useAlpha === 'true' || body.useAlpha === '1';
+  }
+  if (body.layout) {
+    options.layout = body.layout as EncodeOptions['layout'];
+  }
+  if (body.key) {
+    options.key = body.key;
+  }
+  if (body.outputFormat) {
+    options.outputFormat = body.outputFormat.toLowerCase() as EncodeOptions['outputFormat'];
+  }
+  if (body.errorCorrection) {
+    options.errorCorrection = body.errorCorrection.toLowerCase() as EncodeOptions['errorCorrection'];
+  }
+  if (body.kdf) {
+    options.kdf = body.kdf.toLowerCase() as EncodeOptions['kdf'];
+  }
+  if (body.recipients) {
+    // Multer collects repeated fields into an array
+    options.recipients = parseRecipients(body.recipients as string | string[]);
+  }
+  if (body.signingKey) {
+    options.signingKey = body.signingKey;
+  }
+  
+  return options;
+}
+
+/**
+ * Read the message or payload file to encode from a multipart request
+ * Exactly one of them must be provided
+ */
+export function readEncodePayload(req: Request): string | PayloadFile {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  const payloadFile = files?.payload?.[0];
+  const message = req.body.message;
+
+  if (!message && !payloadFile) {
+    throw new CodedError('No message or payload file provided to encode', 'MISSING_MESSAGE');
+  }
+  if (message && payloadFile) {
+    throw new CodedError('Provide either a message or a payload file, not both', 'CONFLICTING_PAYLOAD');
+  }
+  return payloadFile
+    ? {
+        data: payloadFile.buffer,
+        filename: payloadFile.originalname,
+        mimeType: payloadFile.mimetype
+      }
+    : message;
+}
+
+/**
+ * Send an encoded image as a file, with the embedding details in headers
+ */
+export function sendEncodedResult(res: Response, result: EncodedResult, requestId: string): void {
+  const outputType = OUTPUT_TYPES[result.format];
+  res.set({
+    'Content-Type': outputType.mimeType,
+    'Content-Disposition': `attachment; filename="encoded.${outputType.extension}"`,
+    'X-Request-Id': requestId,
+    'X-Bytes-Used': result.bytesUsed.toString(),
+    'X-Capacity': result.capacity.toString(),
+    'X-Bits-Per-Channel': result.bitsPerChannel.toString(),
+    'X-Use-Alpha': result.useAlpha.toString(),
+    'X-Layout': result.layout,
+    'X-Original-Size': result.originalSize.toString(),
+    'X-Compressed-Size': result.compressedSize.toString(),
+    'X-Compression': result.compression,
+    'X-Error-Correction': result.errorCorrection,
+    ...(result.kdf ? { 'X-KDF': result.kdf } : {}),
+    ...(result.signer ? { 'X-Signer': result.signer } : {})
+  });
+  res.send(result.image);
+}
 
 /**
  * Handle image encoding requests
@@ -13,69 +119,190 @@ export async function encodeController(req: Request, res: Response): Promise<voi
   const startTime = Date.now();
   
   try {
-    if (!req.file) {
-      res.status(400).json({
-        success: false,
-        error: {
-          code: 'MISSING_IMAGE',
-          message: 'No image file provided'
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          requestId,
-          service: config.serviceName
-        }
-      } as ServiceResponse<never>);
-      return;
-    }
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const imageFile = files?.image?.[0];
     
-    const message = req.body.message;
-    if (!message) {
-      res.status(400).json({
-        success: false,
-        error: {
-          code: 'MISSING_MESSAGE',
-          message: 'No message provided to encode'
-        },
-        metadata: {
-          timestamp: new Date().toISOString(),
-          requestId,
-          service: config.serviceName
-        }
-      } as ServiceResponse<never>);
-      return;
+    if (!imageFile) {
+      throw new CodedError('No image file provided', 'MISSING_IMAGE');
     }
     
     const password = req.body.password;
+    const payload = readEncodePayload(req);
     
-    const result = await encode(req.file.buffer, message, password);
+    const result = await runTask(
+      'encode',
+      [imageFile.buffer, payload, password, parseEncodeOptions(req.body)],
+      { signal: getAbortSignal(res) }
+    );
     
     const duration = Date.now() - startTime;
     logger.info('Encode request completed', {
       requestId,
       duration,
+      payloadType: typeof payload === 'string' ? 'text' : 'file',
       bytesUsed: result.bytesUsed,
-      capacity: result.capacity
+      capacity: result.capacity,
+      compression: result.compression,
+      errorCorrection: result.errorCorrection
+    });
+    
+    sendEncodedResult(res, result, requestId);
+    
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof CodedError ? error.code : 'ENCODING_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Encode request failed', { requestId, error: errorMessage, code: errorCode });
+    
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        code: errorCode,
+        message: errorMessage
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<never>);
+  }
+}
+
+/**
+ * Handle requests to split a payload across several carrier images
+ */
+export async function splitController(req: Request, res: Response): Promise<void> {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+  
+  try {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const imageFiles = files?.images ?? [];
+    
+    if (imageFiles.length === 0) {
+      throw new CodedError('No image files provided', 'MISSING_IMAGES');
+    }
+    
+    const payload = readEncodePayload(req);
+    const threshold = req.body.threshold ? Number(req.body.threshold) : undefined;
+    
+    const result = await runTask(
+      'encodeSplit',
+      [imageFiles.map(file => file.buffer), payload, req.body.password, parseEncodeOptions(req.body), threshold],
+      { signal: getAbortSignal(res) }
+    );
+    
+    const duration = Date.now() - startTime;
+    logger.info('Split encode request completed', {
+      requestId,
+      duration,
+      setId: result.setId,
+      scheme: result.scheme,
+      total: result.total,
+      threshold: result.threshold
+    });
+    
+    res.json({
+      success: true,
+      data: {
+        setId: result.setId,
+        scheme: result.scheme,
+        total: result.total,
+        threshold: result.threshold,
+        images: result.shares.map((share, i) => {
+          const outputType = OUTPUT_TYPES[share.format];
+          return {
+            index: i + 1,
+            filename: `share-${i + 1}.${outputType.extension}`,
+            mimeType: outputType.mimeType,
+            bytesUsed: share.bytesUsed,
+            capacity: share.capacity,
+            data: share.image.toString('base64')
+          };
+        })
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<SplitResponse>);
+    
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof CodedError ? error.code : 'ENCODING_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Split encode request failed', { requestId, error: errorMessage, code: errorCode });
+    
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        code: errorCode,
+        message: errorMessage
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<never>);
+  }
+}
+
+/**
+ * Handle requests to encode one payload into many carrier images, returned as a ZIP
+ * archive with a manifest
+ */
+export async function batchController(req: Request, res: Response): Promise<void> {
+  const requestId = uuidv4();
+  const startTime = Date.now();
+  
+  try {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const imageFiles = files?.images ?? [];
+    
+    if (imageFiles.length === 0) {
+      throw new CodedError('No image files provided', 'MISSING_IMAGES');
+    }
+    
+    const payload = readEncodePayload(req);
+    const carriers = imageFiles.map(file => ({ data: file.buffer, filename: file.originalname }));
+    
+    const result = await runTask(
+      'encodeBatch',
+      [carriers, payload, req.body.password, parseEncodeOptions(req.body)],
+      { signal: getAbortSignal(res) }
+    );
+    
+    const duration = Date.now() - startTime;
+    logger.info('Batch encode request completed', {
+      requestId,
+      duration,
+      total: result.manifest.total,
+      encoded: result.manifest.encoded,
+      skipped: result.manifest.skipped
     });
     
-    // Return the encoded image as a file
     res.set({
-      'Content-Type': 'image/png',
-      'Content-Disposition': 'attachment; filename="encoded.png"',
+      'Content-Type': 'application/zip',
+      'Content-Disposition': 'attachment; filename="encoded.zip"',
       'X-Request-Id': requestId,
-      'X-Bytes-Used': result.bytesUsed.toString(),
-      'X-Capacity': result.capacity.toString()
+      'X-Images-Encoded': result.manifest.encoded.toString(),
+      'X-Images-Skipped': result.manifest.skipped.toString()
     });
-    res.send(result.image);
+    res.send(result.archive);
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    logger.error('Encode request failed', { requestId, error: errorMessage });
+    const errorCode = error instanceof CodedError ? error.code : 'ENCODING_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Batch encode request failed', { requestId, error: errorMessage, code: errorCode });
     
-    res.status(400).json({
+    res.status(statusCode).json({
       success: false,
       error: {
-        code: 'ENCODING_FAILED',
+        code: errorCode,
         message: errorMessage
       },
       metadata: {
@@ -110,7 +337,11 @@ export async function capacityController(req: Request, res: Response): Promise<v
       return;
     }
     
-    const capacity = await getCapacity(req.file.buffer);
+    const capacity = await runTask(
+      'getCapacity',
+      [req.file.buffer, parseEncodeOptions(req.body)],
+      { signal: getAbortSignal(res) }
+    );
     
     res.json({
       success: true,
@@ -124,12 +355,14 @@ export async function capacityController(req: Request, res: Response): Promise<v
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    logger.error('Capacity check failed', { requestId, error: errorMessage });
+    const errorCode = error instanceof CodedError ? error.code : 'CAPACITY_CHECK_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Capacity check failed', { requestId, error: errorMessage, code: errorCode });
     
-    res.status(400).json({
+    res.status(statusCode).json({
       success: false,
       error: {
-        code: 'CAPACITY_CHECK_FAILED',
+        code: errorCode,
         message: errorMessage
       },
       metadata: {
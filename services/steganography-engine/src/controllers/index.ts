@@ -1,3 +1,6 @@
 export * from './encode.controller';
 export * from './decode.controller';
 export * from './composite.controller';
+export * from './analyze.controller';
+export * from './kdf.controller';
+export * from './job.controller';
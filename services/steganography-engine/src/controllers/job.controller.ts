@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { createJob, getJob } from '../services/job.service';
+import { MIN_IMAGES } from '../services/composite.service';
+import { ServiceResponse, JobInfo, JobType } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { CodedError } from '../utils/errors';
+import { parseEncodeOptions, readEncodePayload, sendEncodedResult } from './encode.controller';
+import { parseDecodeOptions, sendDecodedResult } from './decode.controller';
+import { parseCompositeOptions, sendCompositeResult } from './composite.controller';
+
+const JOB_TYPES: JobType[] = ['encode', 'decode', 'composite'];
+
+/**
+ * Validate the inputs of a job and queue it, with the same fields and checks as the
+ * synchronous endpoint of its type
+ */
+function submitJob(type: JobType, req: Request): JobInfo {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  const imageFile = files?.image?.[0];
+
+  if (type === 'composite') {
+    const imageFiles = files?.images ?? [];
+    if (imageFiles.length === 0) {
+      throw new CodedError('No image files provided', 'MISSING_IMAGES');
+    }
+    if (imageFiles.length < MIN_IMAGES) {
+      throw new CodedError(`At least ${MIN_IMAGES} images are required for compositing`, 'INSUFFICIENT_IMAGES');
+    }
+    return createJob('composite', [imageFiles.map(file => file.buffer), parseCompositeOptions(req.body)]);
+  }
+
+  if (!imageFile) {
+    throw new CodedError('No image file provided', 'MISSING_IMAGE');
+  }
+  if (type === 'decode') {
+    return createJob('decode', [imageFile.buffer, req.body.password, parseDecodeOptions(req.body)]);
+  }
+
+  const payload = readEncodePayload(req);
+  return createJob('encode', [imageFile.buffer, payload, req.body.password, parseEncodeOptions(req.body)]);
+}
+
+/**
+ * Send an error response in the service format
+ */
+function sendError(res: Response, statusCode: number, code: string, message: string, requestId: string): void {
+  res.status(statusCode).json({
+    success: false,
+    error: { code, message },
+    metadata: {
+      timestamp: new Date().toISOString(),
+      requestId,
+      service: config.serviceName
+    }
+  } as ServiceResponse<never>);
+}
+
+/**
+ * Handle requests to run an encode, decode or composite operation as a job
+ */
+export async function createJobController(req: Request, res: Response): Promise<void> {
+  const requestId = uuidv4();
+
+  try {
+    const type = req.body.type as JobType;
+    if (!JOB_TYPES.includes(type)) {
+      sendError(res, 400, 'INVALID_JOB_TYPE', `Job type must be one of: ${JOB_TYPES.join(', ')}`, requestId);
+      return;
+    }
+
+    const job = submitJob(type, req);
+    logger.info('Job request accepted', { requestId, jobId: job.id, type });
+
+    res.status(202).location(`/jobs/${job.id}`).json({
+      success: true,
+      data: job,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<JobInfo>);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof CodedError ? error.code : 'JOB_REQUEST_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('Job request failed', { requestId, error: errorMessage, code: errorCode });
+
+    sendError(res, statusCode, errorCode, errorMessage, requestId);
+  }
+}
+
+/**
+ * Report the status of a job
+ */
+export function jobStatusController(req: Request, res: Response): void {
+  const requestId = uuidv4();
+  const job = getJob(req.params.id);
+
+  if (!job) {
+    sendError(res, 404, 'JOB_NOT_FOUND', 'Job not found or expired', requestId);
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: job.info,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      requestId,
+      service: config.serviceName
+    }
+  } as ServiceResponse<JobInfo>);
+}
+
+/**
+ * Send the output of a completed job as the synchronous endpoint of its type would
+ */
+export function jobResultController(req: Request, res: Response): void {
+  const requestId = uuidv4();
+  const job = getJob(req.params.id);
+
+  if (!job) {
+    sendError(res, 404, 'JOB_NOT_FOUND', 'Job not found or expired', requestId);
+    return;
+  }
+  if (job.info.error) {
+    sendError(res, job.statusCode ?? 400, job.info.error.code, job.info.error.message, requestId);
+    return;
+  }
+  if (!job.output) {
+    sendError(res, 409, 'JOB_NOT_FINISHED', `Job is still ${job.info.status}`, requestId);
+    return;
+  }
+
+  // Results are identified by the job, like the request of a synchronous call
+  const { output } = job;
+  try {
+    if (output.type === 'encode') {
+      sendEncodedResult(res, output.result, job.info.id);
+    } else if (output.type === 'decode') {
+      sendDecodedResult(res, output.result, job.info.id);
+    } else {
+      sendCompositeResult(res, output.result, job.info.id);
+    }
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof CodedError ? error.code : 'JOB_RESULT_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 500;
+    logger.error('Job result request failed', { requestId, jobId: job.info.id, error: errorMessage, code: errorCode });
+
+    // Headers of the result set before the failure do not describe the error
+    res.removeHeader('Content-Disposition');
+    res.removeHeader('Content-Type');
+    sendError(res, statusCode, errorCode, errorMessage, requestId);
+  }
+}
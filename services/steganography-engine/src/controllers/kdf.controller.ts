@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_BENCHMARK_TARGET_MS } from '../services/kdf.service';
+import { runTask } from '../services/worker-pool.service';
+import { ServiceResponse, KdfBenchmarkResult } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { CodedError } from '../utils/errors';
+import { getAbortSignal } from '../utils/request.utils';
+
+/**
+ * Handle KDF benchmark requests
+ */
+export async function kdfBenchmarkController(req: Request, res: Response): Promise<void> {
+  const requestId = uuidv4();
+
+  try {
+    const targetMs = req.query.targetMs !== undefined ? Number(req.query.targetMs) : DEFAULT_BENCHMARK_TARGET_MS;
+    const result = await runTask('benchmarkKdf', [targetMs], { signal: getAbortSignal(res) });
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<KdfBenchmarkResult>);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const errorCode = error instanceof CodedError ? error.code : 'BENCHMARK_FAILED';
+    const statusCode = error instanceof CodedError ? error.statusCode : 400;
+    logger.error('KDF benchmark request failed', { requestId, error: errorMessage, code: errorCode });
+
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        code: errorCode,
+        message: errorMessage
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId,
+        service: config.serviceName
+      }
+    } as ServiceResponse<never>);
+  }
+}
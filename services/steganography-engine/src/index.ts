@@ -1,13 +1,18 @@
 import { createApp } from './app';
 import config from './config';
 import logger from './utils/logger';
+import { startWorkerPool } from './services/worker-pool.service';
 
 const app = createApp();
 
+// Start the workers up front so the first requests do not wait for them
+startWorkerPool();
+
 app.listen(config.port, () => {
   logger.info(`Steganography Engine started`, {
     port: config.port,
     environment: config.nodeEnv,
-    logLevel: config.logLevel
+    logLevel: config.logLevel,
+    workerPoolSize: config.workerPoolSize
   });
 });
@@ -1,9 +1,13 @@
 import { Router } from 'express';
 import multer from 'multer';
-import { encodeController, capacityController } from '../controllers/encode.controller';
-import { decodeController, checkController } from '../controllers/decode.controller';
-import { compositeController } from '../controllers/composite.controller';
+import { encodeController, capacityController, splitController, batchController } from '../controllers/encode.controller';
+import { decodeController, checkController, joinController } from '../controllers/decode.controller';
+import { compositeController, compositeEncodeController } from '../controllers/composite.controller';
+import { analyzeController } from '../controllers/analyze.controller';
+import { kdfBenchmarkController } from '../controllers/kdf.controller';
+import { createJobController, jobStatusController, jobResultController } from '../controllers/job.controller';
 import { MAX_IMAGES } from '../services/composite.service';
+import { getWorkerPoolStats } from '../services/worker-pool.service';
 import config from '../config';
 
 const router = Router();
@@ -15,12 +19,19 @@ const upload = multer({
     fileSize: config.maxFileSize
   },
   fileFilter: (_req, file, cb) => {
+    // Payload files may be of any type; only carrier images are restricted
+    if (file.fieldname === 'payload') {
+      cb(null, true);
+      return;
+    }
+    
     // Accept common image mime types
     const allowedMimes = [
       'image/png',
       'image/bmp',
       'image/tiff',
-      'image/x-ms-bmp'
+      'image/x-ms-bmp',
+      'image/jpeg'
     ];
     
     if (allowedMimes.includes(file.mimetype)) {
@@ -32,15 +43,66 @@ const upload = multer({
 });
 
 // Encoding endpoints
-router.post('/encode', upload.single('image'), encodeController);
+router.post(
+  '/encode',
+  upload.fields([
+    { name: 'image', maxCount: 1 },
+    { name: 'payload', maxCount: 1 }
+  ]),
+  encodeController
+);
+router.post(
+  '/encode/split',
+  upload.fields([
+    { name: 'images', maxCount: MAX_IMAGES },
+    { name: 'payload', maxCount: 1 }
+  ]),
+  splitController
+);
+router.post(
+  '/encode/batch',
+  upload.fields([
+    { name: 'images', maxCount: config.batchMaxImages },
+    { name: 'payload', maxCount: 1 }
+  ]),
+  batchController
+);
 router.post('/capacity', upload.single('image'), capacityController);
 
 // Decoding endpoints
 router.post('/decode', upload.single('image'), decodeController);
+router.post('/decode/join', upload.array('images', MAX_IMAGES), joinController);
 router.post('/check', upload.single('image'), checkController);
 
+// Steganalysis endpoint
+router.post('/analyze', upload.single('image'), analyzeController);
+
+// Password KDF parameter suggestions for this host
+router.get('/kdf/benchmark', kdfBenchmarkController);
+
 // Composite endpoint - accepts multiple images
 router.post('/composite', upload.array('images', MAX_IMAGES), compositeController);
+router.post(
+  '/composite/encode',
+  upload.fields([
+    { name: 'images', maxCount: MAX_IMAGES },
+    { name: 'payload', maxCount: 1 }
+  ]),
+  compositeEncodeController
+);
+
+// Asynchronous jobs taking the inputs of /encode, /decode or /composite
+router.post(
+  '/jobs',
+  upload.fields([
+    { name: 'image', maxCount: 1 },
+    { name: 'images', maxCount: MAX_IMAGES },
+    { name: 'payload', maxCount: 1 }
+  ]),
+  createJobController
+);
+router.get('/jobs/:id', jobStatusController);
+router.get('/jobs/:id/result', jobResultController);
 
 // Health check endpoint
 router.get('/health', (_req, res) => {
@@ -48,7 +110,8 @@ router.get('/health', (_req, res) => {
     status: 'healthy',
     service: config.serviceName,
     timestamp: new Date().toISOString(),
-    version: '1.0.0'
+    version: '1.0.0',
+    workerPool: getWorkerPoolStats()
   });
 });
 
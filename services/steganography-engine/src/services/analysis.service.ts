@@ -0,0 +1,293 @@
+import Jimp from 'jimp';
+import { validateImage } from './validation.service';
+import { chiSquareCdf, smallerRoot, clamp } from '../utils/statistics.utils';
+import { AnalysisResult, AnalysisChannel, ChannelAnalysis } from '../types';
+import logger from '../utils/logger';
+
+const BYTES_PER_PIXEL = 4;
+const CHANNELS: readonly AnalysisChannel[] = ['red', 'green', 'blue'];
+
+// Chi-square categories with fewer expected samples are skipped as unreliable
+const MIN_EXPECTED_FREQUENCY = 5;
+// Number of growing image prefixes tested to estimate the length of sequential embedding
+const CHI_SQUARE_STEPS = 20;
+// Probability above which a prefix is considered to carry embedded data
+const CHI_SQUARE_THRESHOLD = 0.5;
+
+// Pixels per RS group and the flipping mask applied to them
+const RS_MASK = [0, 1, 1, 0];
+
+// Estimated rates below the noise floor are typical of clean images; rates at
+// the detection rate and above are reported with full confidence
+const NOISE_FLOOR_RATE = 0.03;
+const DETECTION_RATE = 0.1;
+// Smooth histograms pass the chi-square test without any embedding, so it only
+// adds weight to the rate estimate
+const CHI_SQUARE_WEIGHT = 0.25;
+const SUSPICIOUS_CONFIDENCE = 0.5;
+
+/**
+ * Read one colour channel of an image in raster order
+ */
+function getChannel(image: Jimp, channelIndex: number): Uint8Array {
+  const data = image.bitmap.data;
+  const samples = new Uint8Array(image.getWidth() * image.getHeight());
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = data[i * BYTES_PER_PIXEL + channelIndex];
+  }
+  return samples;
+}
+
+/**
+ * Westfeld-Pfitzmann chi-square test on the first sampleCount samples
+ * LSB replacement equalizes the frequencies of each pair of values 2k and 2k + 1;
+ * the result is the probability that the histogram shows such equalized pairs
+ */
+function chiSquareProbability(samples: Uint8Array, sampleCount: number): { statistic: number; probability: number } {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < sampleCount; i++) {
+    histogram[samples[i]]++;
+  }
+
+  let statistic = 0;
+  let categories = 0;
+  for (let value = 0; value < 256; value += 2) {
+    const expected = (histogram[value] + histogram[value + 1]) / 2;
+    if (expected >= MIN_EXPECTED_FREQUENCY) {
+      statistic += ((histogram[value] - expected) ** 2) / expected;
+      categories++;
+    }
+  }
+
+  if (categories < 2) {
+    return { statistic: 0, probability: 0 };
+  }
+  return { statistic, probability: 1 - chiSquareCdf(statistic, categories - 1) };
+}
+
+/**
+ * Chi-square attack: test the whole channel, and growing prefixes of it to
+ * estimate how much of the image was filled by sequential embedding
+ */
+function chiSquareAttack(samples: Uint8Array): ChannelAnalysis['chiSquare'] {
+  const { statistic, probability } = chiSquareProbability(samples, samples.length);
+
+  let embeddedSteps = 0;
+  for (let step = 1; step <= CHI_SQUARE_STEPS; step++) {
+    const prefix = Math.floor((samples.length * step) / CHI_SQUARE_STEPS);
+    if (chiSquareProbability(samples, prefix).probability < CHI_SQUARE_THRESHOLD) {
+      break;
+    }
+    embeddedSteps = step;
+  }
+
+  return {
+    statistic: round(statistic),
+    probability: round(probability),
+    estimatedRate: embeddedSteps / CHI_SQUARE_STEPS
+  };
+}
+
+/**
+ * Count regular and singular groups under the positive and negative mask
+ * When flipped is set, every LSB is flipped first
+ */
+function countGroups(
+  samples: Uint8Array,
+  width: number,
+  height: number,
+  flipped: boolean
+): { regular: number; singular: number; negativeRegular: number; negativeSingular: number } {
+  const groupSize = RS_MASK.length;
+  const counts = { regular: 0, singular: 0, negativeRegular: 0, negativeSingular: 0 };
+  const group = new Array<number>(groupSize);
+  const positive = new Array<number>(groupSize);
+  const negative = new Array<number>(groupSize);
+  let groups = 0;
+
+  // Smoothness of a group: sum of absolute differences between neighbours
+  const smoothness = (values: number[]): number => {
+    let sum = 0;
+    for (let i = 1; i < values.length; i++) {
+      sum += Math.abs(values[i] - values[i - 1]);
+    }
+    return sum;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x + groupSize <= width; x += groupSize) {
+      for (let i = 0; i < groupSize; i++) {
+        const value = samples[y * width + x + i];
+        group[i] = flipped ? value ^ 1 : value;
+        // F1 swaps 2k and 2k + 1; F-1 swaps 2k - 1 and 2k
+        positive[i] = RS_MASK[i] ? group[i] ^ 1 : group[i];
+        negative[i] = RS_MASK[i] ? ((group[i] + 1) ^ 1) - 1 : group[i];
+      }
+
+      const original = smoothness(group);
+      const positiveChange = smoothness(positive) - original;
+      const negativeChange = smoothness(negative) - original;
+      counts.regular += positiveChange > 0 ? 1 : 0;
+      counts.singular += positiveChange < 0 ? 1 : 0;
+      counts.negativeRegular += negativeChange > 0 ? 1 : 0;
+      counts.negativeSingular += negativeChange < 0 ? 1 : 0;
+      groups++;
+    }
+  }
+
+  if (groups === 0) {
+    return counts;
+  }
+  return {
+    regular: counts.regular / groups,
+    singular: counts.singular / groups,
+    negativeRegular: counts.negativeRegular / groups,
+    negativeSingular: counts.negativeSingular / groups
+  };
+}
+
+/**
+ * RS analysis (Fridrich, Goljan and Du)
+ * In clean images flipping LSBs with the positive and negative masks changes
+ * the share of regular and singular groups alike; LSB replacement breaks that
+ * symmetry in proportion to the embedding rate
+ */
+function rsAnalysis(samples: Uint8Array, width: number, height: number): ChannelAnalysis['rs'] {
+  const current = countGroups(samples, width, height, false);
+  const flipped = countGroups(samples, width, height, true);
+
+  const d0 = current.regular - current.singular;
+  const d1 = flipped.regular - flipped.singular;
+  const negativeD0 = current.negativeRegular - current.negativeSingular;
+  const negativeD1 = flipped.negativeRegular - flipped.negativeSingular;
+
+  const z = smallerRoot(2 * (d1 + d0), negativeD0 - negativeD1 - d1 - 3 * d0, d0 - negativeD0);
+  const rate = z === null || z === 0.5 ? 0 : z / (z - 0.5);
+
+  return {
+    estimatedRate: round(clamp(rate)),
+    regular: round(current.regular),
+    singular: round(current.singular),
+    negativeRegular: round(current.negativeRegular),
+    negativeSingular: round(current.negativeSingular)
+  };
+}
+
+/**
+ * Sample pair analysis (Dumitrescu, Wu and Wang) over horizontally adjacent pixels
+ * Solves (k / 2) p^2 + (2x - n) p + y - x = 0 for the embedding rate p, where n
+ * pairs are split by how their difference relates to the parity of the right sample
+ */
+function samplePairAnalysis(samples: Uint8Array, width: number, height: number): ChannelAnalysis['samplePairs'] {
+  let x = 0;
+  let y = 0;
+  let k = 0;
+  let pairs = 0;
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col + 1 < width; col++) {
+      const u = samples[row * width + col];
+      const v = samples[row * width + col + 1];
+      const even = (v & 1) === 0;
+      if ((even && u < v) || (!even && u > v)) {
+        x++;
+      } else if ((even && u > v) || (!even && u < v)) {
+        y++;
+      }
+      if (u >> 1 === v >> 1) {
+        k++;
+      }
+      pairs++;
+    }
+  }
+
+  const rate = k === 0 ? null : smallerRoot(k / 2, 2 * x - pairs, y - x);
+  return { estimatedRate: round(clamp(rate ?? 0)) };
+}
+
+/**
+ * Round to four decimal places for reporting
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Run the chi-square attack, RS analysis and sample pair analysis on each colour
+ * channel of an image
+ *
+ * The embedding rate is the estimated share of channel LSBs that were replaced,
+ * averaged over the RS and sample pair estimates. The confidence grows with that
+ * rate and is raised by the chi-square probability; the detectors target LSB replacement in
+ * pixels, so JPEG coefficient embedding is not detected.
+ */
+export async function analyzeImage(imageBuffer: Buffer): Promise<AnalysisResult> {
+  const startTime = Date.now();
+
+  const validation = await validateImage(imageBuffer);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  const image = await Jimp.read(imageBuffer);
+  const width = image.getWidth();
+  const height = image.getHeight();
+
+  const channels: ChannelAnalysis[] = CHANNELS.map((channel, channelIndex) => {
+    const samples = getChannel(image, channelIndex);
+    const rs = rsAnalysis(samples, width, height);
+    const samplePairs = samplePairAnalysis(samples, width, height);
+    return {
+      channel,
+      chiSquare: chiSquareAttack(samples),
+      rs,
+      samplePairs,
+      estimatedRate: round((rs.estimatedRate + samplePairs.estimatedRate) / 2)
+    };
+  });
+
+  const estimatedRate = round(channels.reduce((sum, channel) => sum + channel.estimatedRate, 0) / channels.length);
+  const chiSquareProbability = channels
+    .map(channel => channel.chiSquare.probability)
+    .sort((a, b) => a - b)[Math.floor(channels.length / 2)];
+  const rateScore = clamp((estimatedRate - NOISE_FLOOR_RATE) / (DETECTION_RATE - NOISE_FLOOR_RATE));
+  const confidence = round(rateScore + (1 - rateScore) * chiSquareProbability * CHI_SQUARE_WEIGHT);
+
+  const result: AnalysisResult = {
+    format: validation.format!,
+    width,
+    height,
+    estimatedRate,
+    estimatedPayloadBytes: Math.floor((estimatedRate * width * height * CHANNELS.length) / 8),
+    confidence,
+    suspicious: confidence >= SUSPICIOUS_CONFIDENCE,
+    channels
+  };
+
+  logger.info('Analysis completed', {
+    duration: Date.now() - startTime,
+    width,
+    height,
+    estimatedRate,
+    confidence
+  });
+
+  return result;
+}
+
+/**
+ * Render the least significant bit plane of an image as a PNG
+ * Each colour channel is white where its LSB is set; embedded data shows up as
+ * noise where the image is otherwise smooth
+ */
+export async function renderLsbPlane(imageBuffer: Buffer): Promise<Buffer> {
+  const image = await Jimp.read(imageBuffer);
+  const data = image.bitmap.data;
+  for (let idx = 0; idx < data.length; idx += BYTES_PER_PIXEL) {
+    for (let channel = 0; channel < CHANNELS.length; channel++) {
+      data[idx + channel] = (data[idx + channel] & 1) * 255;
+    }
+    data[idx + 3] = 255;
+  }
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
@@ -0,0 +1,80 @@
+import path from 'path';
+import { preparePayload, embedPayload } from './encoder.service';
+import { OUTPUT_TYPES } from './output.service';
+import { createZip, ZipEntry } from '../utils/zip.utils';
+import { CodedError } from '../utils/errors';
+import { BatchCarrier, BatchManifest, BatchManifestEntry, BatchResult, EncodeOptions, PayloadFile } from '../types';
+import logger from '../utils/logger';
+
+export const BATCH_MANIFEST_FILENAME = 'manifest.json';
+
+/**
+ * Get the archive name of an encoded carrier: its position, then its uploaded base
+ * name with the extension of the output format
+ */
+function getArchiveName(index: number, filename: string, extension: string): string {
+  const base = path.basename(filename, path.extname(filename)).replace(/[^\w.-]+/g, '_') || 'image';
+  return `${String(index).padStart(3, '0')}-${base}.${extension}`;
+}
+
+/**
+ * Encode the same message or file into many carrier images
+ * The payload is compressed and encrypted once, so the password key is derived once
+ * for the whole batch. Carriers that cannot hold it are skipped with the reason in the
+ * manifest; the encoded images and the manifest are returned as a ZIP archive
+ */
+export async function encodeBatch(
+  carriers: BatchCarrier[],
+  payload: string | PayloadFile,
+  password?: string,
+  options: EncodeOptions = {}
+): Promise<BatchResult> {
+  const startTime = Date.now();
+  const prepared = preparePayload(payload, password, options);
+  const files: BatchManifestEntry[] = [];
+  const entries: ZipEntry[] = [];
+
+  for (const [i, carrier] of carriers.entries()) {
+    const index = i + 1;
+    try {
+      const { image, ...result } = await embedPayload(carrier.data, prepared, options, password);
+      const file = getArchiveName(index, carrier.filename, OUTPUT_TYPES[result.format].extension);
+      entries.push({ name: file, data: image });
+      files.push({ index, source: carrier.filename, status: 'encoded', file, result });
+    } catch (error) {
+      // Invalid options apply to every carrier and fail the whole batch
+      if (error instanceof CodedError && error.code === 'INVALID_OPTIONS') {
+        throw error;
+      }
+      files.push({
+        index,
+        source: carrier.filename,
+        status: 'skipped',
+        code: error instanceof CodedError ? error.code : 'ENCODING_FAILED',
+        reason: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  }
+
+  const encoded = entries.length;
+  if (encoded === 0) {
+    throw new CodedError(`None of the ${carriers.length} images could hold the payload: ${files[0]?.reason}`, 'NO_IMAGES_ENCODED');
+  }
+
+  const manifest: BatchManifest = {
+    total: carriers.length,
+    encoded,
+    skipped: carriers.length - encoded,
+    files
+  };
+  entries.push({ name: BATCH_MANIFEST_FILENAME, data: Buffer.from(JSON.stringify(manifest, null, 2)) });
+
+  logger.info('Batch encoding completed', {
+    duration: Date.now() - startTime,
+    total: manifest.total,
+    encoded: manifest.encoded,
+    skipped: manifest.skipped
+  });
+
+  return { archive: createZip(entries), manifest };
+}
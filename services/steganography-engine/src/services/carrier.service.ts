@@ -0,0 +1,106 @@
+import Jimp from 'jimp';
+import { parseJpeg, writeJpeg } from '../utils/jpeg.utils';
+import { calculateCapacity, getHeaderPixels } from './validation.service';
+import { embedBytes, extractBytes, getSlotCount } from './lsb.service';
+import { encodeBitmap, SourceImage } from './output.service';
+import {
+  assertJpegEmbedding,
+  collectSlots,
+  calculateJpegCapacity,
+  embedJpegBytes,
+  extractJpegBytes
+} from './jpeg.service';
+import { EmbeddingOptions, SupportedFormat } from '../types';
+
+/**
+ * An image that payload bits can be embedded in
+ *
+ * The container header is always stored first, in a fixed way, so it can be read
+ * before the embedding options are known; the payload follows it using the
+ * embedding options recorded in the header, in a keyed order when one is given.
+ */
+export interface Carrier {
+  readonly format: SupportedFormat;
+  readonly width: number;
+  readonly height: number;
+  // Decoded pixels, for lossless formats (the legacy header is only read from these)
+  readonly bitmap?: Jimp;
+  // Bytes available for the payload after a header of headerBytes
+  getCapacity(embedding: EmbeddingOptions, headerBytes: number): number;
+  // Number of payload slots after the header, the domain of a keyed order
+  getPayloadSlotCount(embedding: EmbeddingOptions, headerBytes: number): number;
+  readHeader(byteCount: number): Buffer;
+  writeHeader(data: Buffer): void;
+  readPayload(byteCount: number, embedding: EmbeddingOptions, headerBytes: number, order?: (index: number) => number): Buffer;
+  writePayload(data: Buffer, embedding: EmbeddingOptions, headerBytes: number, order?: (index: number) => number): void;
+  // Serialize the carrier with any embedded data
+  toBuffer(): Promise<Buffer>;
+}
+
+/**
+ * Create a carrier that embeds in the low bits of pixel channels and is written in
+ * the given lossless format
+ */
+function createBitmapCarrier(image: Jimp, format: SupportedFormat, source: SourceImage): Carrier {
+  return {
+    format,
+    width: image.getWidth(),
+    height: image.getHeight(),
+    bitmap: image,
+    getCapacity: (embedding, headerBytes) =>
+      calculateCapacity(image.getWidth(), image.getHeight(), embedding, headerBytes),
+    getPayloadSlotCount: (embedding, headerBytes) => getSlotCount(image, embedding, getHeaderPixels(headerBytes)),
+    readHeader: byteCount => extractBytes(image, byteCount),
+    writeHeader: data => embedBytes(image, data),
+    readPayload: (byteCount, embedding, headerBytes, order) =>
+      extractBytes(image, byteCount, embedding, getHeaderPixels(headerBytes), order),
+    writePayload: (data, embedding, headerBytes, order) =>
+      embedBytes(image, data, embedding, getHeaderPixels(headerBytes), order),
+    toBuffer: () => encodeBitmap(image, format, source)
+  };
+}
+
+/**
+ * Create a carrier that embeds in the quantized DCT coefficients of a baseline JPEG
+ */
+function createJpegCarrier(imageBuffer: Buffer): Carrier {
+  const jpeg = parseJpeg(imageBuffer);
+  const slots = collectSlots(jpeg);
+
+  return {
+    format: 'jpeg',
+    width: jpeg.width,
+    height: jpeg.height,
+    getCapacity: (embedding, headerBytes) => {
+      assertJpegEmbedding(embedding);
+      return calculateJpegCapacity(slots, headerBytes);
+    },
+    getPayloadSlotCount: (_embedding, headerBytes) => Math.max(0, slots.count - headerBytes * 8),
+    readHeader: byteCount => extractJpegBytes(jpeg, slots, Math.min(byteCount, Math.floor(slots.count / 8))),
+    writeHeader: data => embedJpegBytes(jpeg, slots, data),
+    readPayload: (byteCount, embedding, headerBytes, order) => {
+      assertJpegEmbedding(embedding);
+      return extractJpegBytes(jpeg, slots, byteCount, headerBytes * 8, order);
+    },
+    writePayload: (data, embedding, headerBytes, order) => {
+      assertJpegEmbedding(embedding);
+      embedJpegBytes(jpeg, slots, data, headerBytes * 8, order);
+    },
+    toBuffer: async () => writeJpeg(jpeg)
+  };
+}
+
+/**
+ * Load a validated image as a carrier that is written in the output format
+ * JPEG output embeds in DCT coefficients; other formats embed in pixels
+ */
+export async function loadCarrier(
+  imageBuffer: Buffer,
+  format: SupportedFormat,
+  outputFormat: SupportedFormat = format
+): Promise<Carrier> {
+  if (outputFormat === 'jpeg') {
+    return createJpegCarrier(imageBuffer);
+  }
+  return createBitmapCarrier(await Jimp.read(imageBuffer), outputFormat, { data: imageBuffer, format });
+}
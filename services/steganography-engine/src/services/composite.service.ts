@@ -1,6 +1,21 @@
+import crypto from 'crypto';
 import Jimp from 'jimp';
 import { validateImage } from './validation.service';
-import { CompositeResult } from '../types';
+import { encode } from './encoder.service';
+import {
+  CompositeFit,
+  CompositeLayer,
+  CompositeLayout,
+  CompositeOptions,
+  CompositeRotation,
+  CompositeResult,
+  EncodedCompositeResult,
+  EncodeOptions,
+  PayloadFile
+} from '../types';
+import { CodedError } from '../utils/errors';
+import { reportStage } from '../utils/progress.utils';
+import { createSeededRandom, randomInt, RandomSource } from '../utils/random.utils';
 import logger from '../utils/logger';
 import config from '../config';
 
@@ -31,32 +46,328 @@ export const BLEND_MODES = [
 ] as const;
 
 /**
- * Generate a random integer between min and max (inclusive)
+ * Rotations applied to images, in degrees counter-clockwise
  */
-function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export const ROTATIONS = [0, 90, 180, 270] as const;
+
+/**
+ * Arrangements of the images on the canvas
+ */
+export const COMPOSITE_LAYOUTS: readonly CompositeLayout[] = ['scatter', 'grid', 'mosaic', 'horizontal', 'vertical'];
+
+export const COMPOSITE_FITS: readonly CompositeFit[] = ['fit', 'fill'];
+
+export const COMPOSITE_ROTATIONS: readonly CompositeRotation[] = ['quarter', 'free', 'none'];
+
+/**
+ * Largest width or height of a composite; larger layouts are scaled down to it
+ */
+export const MAX_COMPOSITE_DIMENSION = 8192;
+
+const MIN_OPACITY = 0.3;
+const DEFAULT_BACKGROUND = 0xFFFFFFFF;
+
+// Position and size of an image on the canvas
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the layout puts each image: an exact rectangle with the image's aspect ratio,
+// a cell that the image is fitted into, or a position for an image kept at its size
+type Slot =
+  | { kind: 'exact'; rect: Rect }
+  | { kind: 'cell'; rect: Rect }
+  | { kind: 'free'; x: number; y: number };
+
+interface Arrangement {
+  width: number;
+  height: number;
+  slots: Slot[];
+}
+
+/**
+ * Parse a background colour into an RGBA integer
+ */
+function parseBackground(background: string | undefined): number {
+  if (background === undefined) {
+    return DEFAULT_BACKGROUND;
+  }
+  if (background.toLowerCase() === 'transparent') {
+    return 0x00000000;
+  }
+
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(background);
+  if (!match) {
+    throw new CodedError('Background must be a colour as #RGB, #RRGGBB or #RRGGBBAA, or transparent', 'INVALID_OPTIONS');
+  }
+  let hex = match[1];
+  if (hex.length === 3) {
+    hex = hex.split('').map(digit => digit + digit).join('');
+  }
+  if (hex.length === 6) {
+    hex += 'ff';
+  }
+  return parseInt(hex, 16) >>> 0;
+}
+
+/**
+ * Check the layout, size, scaling and rotation options
+ */
+function validateCompositeOptions(options: CompositeOptions): void {
+  const fail = (message: string) => {
+    throw new CodedError(message, 'INVALID_OPTIONS');
+  };
+  if (options.layout !== undefined && !COMPOSITE_LAYOUTS.includes(options.layout)) {
+    fail(`Layout must be one of ${COMPOSITE_LAYOUTS.join(', ')}`);
+  }
+  if (options.fit !== undefined && !COMPOSITE_FITS.includes(options.fit)) {
+    fail(`Fit must be one of ${COMPOSITE_FITS.join(', ')}`);
+  }
+  if (options.rotations !== undefined && !COMPOSITE_ROTATIONS.includes(options.rotations)) {
+    fail(`Rotations must be one of ${COMPOSITE_ROTATIONS.join(', ')}`);
+  }
+  for (const dimension of [options.width, options.height]) {
+    if (dimension !== undefined &&
+      !(Number.isInteger(dimension) && dimension >= 1 && dimension <= MAX_COMPOSITE_DIMENSION)) {
+      fail(`Width and height must be whole numbers of pixels from 1 to ${MAX_COMPOSITE_DIMENSION}`);
+    }
+  }
+}
+
+/**
+ * Check transform values pinned by the caller
+ * Positions follow the layout except in the scatter layout
+ */
+function validateTransforms(transforms: CompositeOptions['transforms'], imageCount: number, layout: CompositeLayout): void {
+  if (transforms === undefined) {
+    return;
+  }
+  if (!Array.isArray(transforms) || transforms.length > imageCount) {
+    throw new CodedError(`Transforms must be a list of at most ${imageCount} entries, one per image`, 'INVALID_OPTIONS');
+  }
+
+  transforms.forEach((transform, i) => {
+    if (transform === null) {
+      return;
+    }
+    const fail = (detail: string) => {
+      throw new CodedError(`Transform of image ${i + 1}: ${detail}`, 'INVALID_OPTIONS');
+    };
+    if (typeof transform !== 'object' || Array.isArray(transform)) {
+      fail('expected an object or null');
+    }
+    const { rotation, x, y, blendMode, opacity } = transform;
+    if (rotation !== undefined && !(typeof rotation === 'number' && Number.isFinite(rotation))) {
+      fail('rotation must be a number of degrees');
+    }
+    if ((x !== undefined && !Number.isInteger(x)) || (y !== undefined && !Number.isInteger(y))) {
+      fail('x and y must be integers');
+    }
+    if ((x !== undefined || y !== undefined) && layout !== 'scatter') {
+      fail(`positions follow the ${layout} layout and cannot be pinned`);
+    }
+    if (blendMode !== undefined && !(BLEND_MODES as readonly string[]).includes(blendMode)) {
+      fail(`blend mode must be one of ${BLEND_MODES.join(', ')}`);
+    }
+    if (opacity !== undefined && !(typeof opacity === 'number' && opacity >= 0 && opacity <= 1)) {
+      fail('opacity must be a number from 0 to 1');
+    }
+  });
+}
+
+/**
+ * Draw the random transform of one image in the scatter layout
+ * Every value is drawn even when pinned, so that pinning some of them leaves the
+ * random values of the other images unchanged
+ */
+function drawTransform(random: RandomSource, rotations: CompositeRotation): {
+  rotation: number;
+  xFraction: number;
+  yFraction: number;
+  blendMode: string;
+  opacity: number;
+} {
+  const turn = random();
+  const rotation = rotations === 'quarter'
+    ? ROTATIONS[Math.floor(turn * ROTATIONS.length)]
+    : rotations === 'free' ? Math.round(turn * 3600) / 10 : 0;
+  return {
+    rotation,
+    xFraction: random(),
+    yFraction: random(),
+    blendMode: BLEND_MODES[randomInt(random, 0, BLEND_MODES.length - 1)],
+    opacity: MIN_OPACITY + random() * (1 - MIN_OPACITY)
+  };
+}
+
+/**
+ * Lay images out in rows of equal height spanning the canvas width, keeping their
+ * aspect ratios; consecutive images share a row
+ */
+function arrangeRows(sizes: { width: number; height: number }[], rowCount: number): Arrangement {
+  const rowHeight = Math.max(...sizes.map(size => size.height));
+  const rows: { start: number; end: number; width: number }[] = [];
+  for (let r = 0; r < rowCount; r++) {
+    const start = Math.floor((r * sizes.length) / rowCount);
+    const end = Math.floor(((r + 1) * sizes.length) / rowCount);
+    const width = sizes.slice(start, end).reduce((sum, size) => sum + (size.width * rowHeight) / size.height, 0);
+    rows.push({ start, end, width });
+  }
+
+  // Each row is scaled to the width of the widest one
+  const width = Math.max(...rows.map(row => row.width));
+  const slots: Slot[] = [];
+  let y = 0;
+  for (const row of rows) {
+    const scale = width / row.width;
+    const height = rowHeight * scale;
+    let x = 0;
+    for (const size of sizes.slice(row.start, row.end)) {
+      const imageWidth = (size.width * rowHeight * scale) / size.height;
+      slots.push({ kind: 'exact', rect: { x, y, width: imageWidth, height } });
+      x += imageWidth;
+    }
+    y += height;
+  }
+
+  return { width, height: y, slots };
+}
+
+/**
+ * Swap the axes of an arrangement
+ */
+function transpose(arrangement: Arrangement): Arrangement {
+  return {
+    width: arrangement.height,
+    height: arrangement.width,
+    slots: arrangement.slots.map(slot => slot.kind === 'free'
+      ? { kind: 'free', x: slot.y, y: slot.x }
+      : { kind: slot.kind, rect: { x: slot.rect.y, y: slot.rect.x, width: slot.rect.height, height: slot.rect.width } })
+  };
 }
 
 /**
- * Generate a random rotation angle in degrees
+ * Place the (rotated) images on a canvas of the natural size of the layout
  */
-function randomRotation(): number {
-  const rotations = [0, 90, 180, 270];
-  return rotations[randomInt(0, rotations.length - 1)];
+function arrange(
+  layout: CompositeLayout,
+  sizes: { width: number; height: number }[],
+  scatterCanvas: { width: number; height: number },
+  positions: { xFraction: number; yFraction: number }[]
+): Arrangement {
+  const maxWidth = Math.max(...sizes.map(size => size.width));
+  const maxHeight = Math.max(...sizes.map(size => size.height));
+
+  switch (layout) {
+    case 'grid': {
+      const columns = Math.ceil(Math.sqrt(sizes.length));
+      const rows = Math.ceil(sizes.length / columns);
+      return {
+        width: columns * maxWidth,
+        height: rows * maxHeight,
+        slots: sizes.map((_size, i) => ({
+          kind: 'cell',
+          rect: { x: (i % columns) * maxWidth, y: Math.floor(i / columns) * maxHeight, width: maxWidth, height: maxHeight }
+        }))
+      };
+    }
+    case 'mosaic':
+      return arrangeRows(sizes, Math.max(1, Math.round(Math.sqrt(sizes.length))));
+    case 'horizontal':
+      return arrangeRows(sizes, 1);
+    case 'vertical':
+      return transpose(arrangeRows(sizes.map(size => ({ width: size.height, height: size.width })), 1));
+    default:
+      // Random positions keeping the image inside the canvas where it fits
+      return {
+        ...scatterCanvas,
+        slots: sizes.map((size, i) => ({
+          kind: 'free',
+          x: Math.floor(positions[i].xFraction * (Math.max(0, scatterCanvas.width - size.width) + 1)),
+          y: Math.floor(positions[i].yFraction * (Math.max(0, scatterCanvas.height - size.height) + 1))
+        }))
+      };
+  }
+}
+
+/**
+ * Get the output size, the scale from the natural size of the layout and the offset
+ * centring the scaled layout on the output
+ */
+function getOutputGeometry(
+  natural: { width: number; height: number },
+  options: CompositeOptions,
+  layout: CompositeLayout
+): { width: number; height: number; scale: number; offsetX: number; offsetY: number } {
+  const { width: targetWidth, height: targetHeight } = options;
+  let scale = 1;
+  let width: number;
+  let height: number;
+
+  if (targetWidth !== undefined && targetHeight !== undefined) {
+    const scales = [targetWidth / natural.width, targetHeight / natural.height];
+    scale = options.fit === 'fill' ? Math.max(...scales) : Math.min(...scales);
+    width = targetWidth;
+    height = targetHeight;
+  } else if (targetWidth !== undefined || targetHeight !== undefined) {
+    scale = targetWidth !== undefined ? targetWidth / natural.width : targetHeight! / natural.height;
+    width = targetWidth ?? Math.min(MAX_COMPOSITE_DIMENSION, Math.max(1, Math.round(natural.width * scale)));
+    height = targetHeight ?? Math.min(MAX_COMPOSITE_DIMENSION, Math.max(1, Math.round(natural.height * scale)));
+  } else {
+    // Layouts adding up the images can outgrow the canvas limit
+    if (layout !== 'scatter') {
+      scale = Math.min(1, MAX_COMPOSITE_DIMENSION / Math.max(natural.width, natural.height));
+    }
+    width = Math.max(1, Math.round(natural.width * scale));
+    height = Math.max(1, Math.round(natural.height * scale));
+  }
+
+  return {
+    width,
+    height,
+    scale,
+    offsetX: (width - natural.width * scale) / 2,
+    offsetY: (height - natural.height * scale) / 2
+  };
 }
 
 /**
- * Get a random blend mode
+ * Rotate an image counter-clockwise, enlarging it to keep all its pixels
+ * The corners uncovered by the image are transparent
  */
-function randomBlendMode(): string {
-  return BLEND_MODES[randomInt(0, BLEND_MODES.length - 1)];
+function rotateImage(image: Jimp, rotation: number): Jimp {
+  const angle = ((rotation % 360) + 360) % 360;
+  if (angle !== 0) {
+    image.background(0x00000000);
+    image.rotate(angle, true);
+  }
+  return image;
 }
 
 /**
- * Generate a random opacity value between 0.3 and 1.0
+ * Scale an image into a cell: whole and centred (fit), or covering the cell and
+ * cropped to it (fill)
  */
-function randomOpacity(): number {
-  return 0.3 + Math.random() * 0.7;
+function fitIntoCell(image: Jimp, cell: Rect, fit: CompositeFit): Rect {
+  const scales = [cell.width / image.getWidth(), cell.height / image.getHeight()];
+  const scale = fit === 'fill' ? Math.max(...scales) : Math.min(...scales);
+  const width = Math.max(1, Math.round(image.getWidth() * scale));
+  const height = Math.max(1, Math.round(image.getHeight() * scale));
+  image.resize(width, height);
+
+  if (fit === 'fill') {
+    image.crop(Math.floor((width - cell.width) / 2), Math.floor((height - cell.height) / 2), cell.width, cell.height);
+    return cell;
+  }
+  return {
+    x: cell.x + Math.floor((cell.width - width) / 2),
+    y: cell.y + Math.floor((cell.height - height) / 2),
+    width,
+    height
+  };
 }
 
 /**
@@ -88,88 +399,154 @@ export async function validateImages(imageBuffers: Buffer[]): Promise<void> {
 }
 
 /**
- * Create a composite image by randomly overlaying multiple images
+ * Create a composite image from multiple images
+ * The scatter layout overlays the images with random transforms drawn from a seeded
+ * generator, so a seed reproduces a composite; without one a random seed is used and
+ * reported. The other layouts place each image once, side by side. Transform values
+ * pinned in the options replace the random or default ones
  */
-export async function createComposite(imageBuffers: Buffer[]): Promise<CompositeResult> {
+export async function createComposite(imageBuffers: Buffer[], options: CompositeOptions = {}): Promise<CompositeResult> {
   const startTime = Date.now();
+  const layout = options.layout ?? 'scatter';
+  const fit = options.fit ?? 'fit';
   
-  // Validate all images
+  // Validate all images and options
+  reportStage('loading');
   await validateImages(imageBuffers);
+  validateCompositeOptions(options);
+  validateTransforms(options.transforms, imageBuffers.length, layout);
+  const background = parseBackground(options.background);
+  
+  const seed = options.seed ?? crypto.randomBytes(8).toString('hex');
+  const random = createSeededRandom(seed);
   
   // Load all images
   const images: Jimp[] = await Promise.all(
     imageBuffers.map(buffer => Jimp.read(buffer))
   );
   
-  // Determine the canvas size based on the largest image dimensions
-  let maxWidth = 0;
-  let maxHeight = 0;
-  for (const image of images) {
-    maxWidth = Math.max(maxWidth, image.getWidth());
-    maxHeight = Math.max(maxHeight, image.getHeight());
-  }
+  reportStage('compositing');
+  
+  // The scatter canvas is sized to the largest image
+  const scatterCanvas = {
+    width: Math.max(...images.map(image => image.getWidth())),
+    height: Math.max(...images.map(image => image.getHeight()))
+  };
   
-  logger.debug('Creating composite canvas', { width: maxWidth, height: maxHeight });
+  // Pick each transform, random in the scatter layout, then rotate the images
+  const drawn = images.map(() => drawTransform(random, layout === 'scatter' ? options.rotations ?? 'quarter' : 'none'));
+  const transforms = drawn.map((values, i) => {
+    const pinned = options.transforms?.[i] ?? {};
+    return {
+      rotation: pinned.rotation ?? values.rotation,
+      blendMode: pinned.blendMode ?? (layout === 'scatter' ? values.blendMode : Jimp.BLEND_SOURCE_OVER),
+      opacity: pinned.opacity ?? (layout === 'scatter' ? values.opacity : 1)
+    };
+  });
+  const rotated = images.map((image, i) => rotateImage(image.clone(), transforms[i].rotation));
+  
+  const arrangement = arrange(
+    layout,
+    rotated.map(image => ({ width: image.getWidth(), height: image.getHeight() })),
+    scatterCanvas,
+    drawn
+  );
+  const output = getOutputGeometry(arrangement, options, layout);
+  
+  logger.debug('Creating composite canvas', { layout, width: output.width, height: output.height, seed });
   
-  // Create a new canvas with white background
-  const canvas = new Jimp(maxWidth, maxHeight, 0xFFFFFFFF);
+  const canvas = new Jimp(output.width, output.height, background);
+  const layers: CompositeLayer[] = [];
   
-  // Process each image with random transformations and overlay onto canvas
-  for (let i = 0; i < images.length; i++) {
-    const image = images[i].clone();
+  // Scale each image into its place and overlay it onto the canvas
+  for (let i = 0; i < rotated.length; i++) {
+    const image = rotated[i];
+    const slot = arrangement.slots[i];
+    const pinned = options.transforms?.[i] ?? {};
+    let rect: Rect;
     
-    // Apply random rotation (0, 90, 180, or 270 degrees)
-    const rotation = randomRotation();
-    if (rotation !== 0) {
-      image.rotate(rotation, false);
+    if (slot.kind === 'free') {
+      if (output.scale !== 1) {
+        image.resize(
+          Math.max(1, Math.round(image.getWidth() * output.scale)),
+          Math.max(1, Math.round(image.getHeight() * output.scale))
+        );
+      }
+      rect = {
+        x: pinned.x ?? Math.round(output.offsetX + slot.x * output.scale),
+        y: pinned.y ?? Math.round(output.offsetY + slot.y * output.scale),
+        width: image.getWidth(),
+        height: image.getHeight()
+      };
+    } else {
+      // Edges are rounded on the output so that adjacent images leave no gap
+      const x = Math.round(output.offsetX + slot.rect.x * output.scale);
+      const y = Math.round(output.offsetY + slot.rect.y * output.scale);
+      const target = {
+        x,
+        y,
+        width: Math.max(1, Math.round(output.offsetX + (slot.rect.x + slot.rect.width) * output.scale) - x),
+        height: Math.max(1, Math.round(output.offsetY + (slot.rect.y + slot.rect.height) * output.scale) - y)
+      };
+      if (slot.kind === 'cell') {
+        rect = fitIntoCell(image, target, fit);
+      } else {
+        image.resize(target.width, target.height);
+        rect = target;
+      }
     }
     
-    // Calculate random position within canvas bounds
-    const imgWidth = image.getWidth();
-    const imgHeight = image.getHeight();
-    const maxX = Math.max(0, maxWidth - imgWidth);
-    const maxY = Math.max(0, maxHeight - imgHeight);
-    const x = randomInt(0, maxX);
-    const y = randomInt(0, maxY);
-    
-    // Get random blend mode and opacity
-    const blendMode = randomBlendMode();
-    const opacity = randomOpacity();
-    
-    logger.debug('Overlaying image', {
-      index: i + 1,
-      rotation,
-      x,
-      y,
-      blendMode,
-      opacity: opacity.toFixed(2)
-    });
+    const layer: CompositeLayer = { index: i + 1, ...transforms[i], x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+    logger.debug('Overlaying image', { ...layer, opacity: layer.opacity.toFixed(2) });
     
     // Composite the image onto the canvas
-    canvas.composite(image, x, y, {
-      mode: blendMode,
-      opacitySource: opacity,
+    canvas.composite(image, rect.x, rect.y, {
+      mode: layer.blendMode,
+      opacitySource: layer.opacity,
       opacityDest: 1
     });
+    layers.push(layer);
   }
   
   // Convert to PNG buffer
+  reportStage('writing');
   const compositeBuffer = await canvas.getBufferAsync(Jimp.MIME_PNG);
   
   const duration = Date.now() - startTime;
   logger.info('Composite creation completed', {
     duration,
+    layout,
     imagesUsed: images.length,
-    outputWidth: maxWidth,
-    outputHeight: maxHeight,
-    outputSize: compositeBuffer.length
+    outputWidth: output.width,
+    outputHeight: output.height,
+    outputSize: compositeBuffer.length,
+    seed
   });
   
   return {
     image: compositeBuffer,
     format: 'png',
-    width: maxWidth,
-    height: maxHeight,
-    imagesUsed: images.length
+    width: output.width,
+    height: output.height,
+    imagesUsed: images.length,
+    seed,
+    layers
   };
 }
+
+/**
+ * Create a composite and hide a message or file in it in one pass
+ * The composite only exists in memory, and only the encoded image is returned
+ */
+export async function encodeComposite(
+  imageBuffers: Buffer[],
+  payload: string | PayloadFile,
+  password?: string,
+  encodeOptions: EncodeOptions = {},
+  compositeOptions: CompositeOptions = {}
+): Promise<EncodedCompositeResult> {
+  const { image: compositeImage, ...composite } = await createComposite(imageBuffers, compositeOptions);
+  const { image, ...encoding } = await encode(compositeImage, payload, password, encodeOptions);
+  
+  return { image, composite, encoding };
+}
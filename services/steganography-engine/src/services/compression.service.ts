@@ -0,0 +1,91 @@
+import zlib from 'zlib';
+import config from '../config';
+import { CodedError } from '../utils/errors';
+import { findExtension, EXTENSION_COMPRESSION } from './container.service';
+import { CompressionCodec, ContainerExtension, ContainerHeader } from '../types';
+
+// Codec identifiers stored in the compression extension
+const CODEC_IDS: Record<Exclude<CompressionCodec, 'none'>, number> = {
+  deflate: 1,
+  brotli: 2
+};
+
+// Compressed size relative to the original for typical text payloads
+// (short English messages measure around 0.4 with brotli and 0.5 with deflate)
+export const TYPICAL_TEXT_COMPRESSION_RATIO = 0.5;
+
+// Payloads originate from uploads limited to maxFileSize; leave headroom for the file header
+const MAX_DECOMPRESSED_BYTES = config.maxFileSize * 2;
+
+export interface CompressedPayload {
+  codec: CompressionCodec;
+  data: Buffer;
+}
+
+/**
+ * Compress a payload with every supported codec and keep the smallest result
+ * The payload is left uncompressed when no codec makes it smaller
+ */
+export function compressPayload(data: Buffer, isText: boolean): CompressedPayload {
+  const candidates: CompressedPayload[] = [
+    { codec: 'none', data },
+    {
+      codec: 'deflate',
+      data: zlib.deflateRawSync(data, { level: zlib.constants.Z_BEST_COMPRESSION })
+    },
+    {
+      codec: 'brotli',
+      data: zlib.brotliCompressSync(data, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_MODE]: isText ? zlib.constants.BROTLI_MODE_TEXT : zlib.constants.BROTLI_MODE_GENERIC,
+          [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length
+        }
+      })
+    }
+  ];
+
+  return candidates.reduce((best, candidate) => candidate.data.length < best.data.length ? candidate : best);
+}
+
+/**
+ * Reverse compressPayload
+ */
+export function decompressPayload(data: Buffer, codec: CompressionCodec): Buffer {
+  try {
+    switch (codec) {
+      case 'deflate':
+        return zlib.inflateRawSync(data, { maxOutputLength: MAX_DECOMPRESSED_BYTES });
+      case 'brotli':
+        return zlib.brotliDecompressSync(data, { maxOutputLength: MAX_DECOMPRESSED_BYTES });
+      default:
+        return data;
+    }
+  } catch {
+    throw new CodedError('Hidden payload is corrupted: decompression failed', 'PAYLOAD_CORRUPTED');
+  }
+}
+
+/**
+ * Serialize the compression codec as a container extension: codec ID (1)
+ */
+export function toCompressionExtension(codec: Exclude<CompressionCodec, 'none'>): ContainerExtension {
+  return {
+    tag: EXTENSION_COMPRESSION,
+    value: Buffer.from([CODEC_IDS[codec]])
+  };
+}
+
+/**
+ * Read the compression codec from a container header
+ */
+export function readCompressionCodec(header: ContainerHeader): CompressionCodec {
+  const extension = findExtension(header, EXTENSION_COMPRESSION);
+  const codec = (Object.keys(CODEC_IDS) as Array<keyof typeof CODEC_IDS>)
+    .find(name => extension?.value.length === 1 && CODEC_IDS[name] === extension.value[0]);
+
+  if (!codec) {
+    throw new CodedError('Hidden payload is corrupted: unknown compression codec', 'PAYLOAD_CORRUPTED');
+  }
+  return codec;
+}
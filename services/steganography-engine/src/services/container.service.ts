@@ -0,0 +1,217 @@
+import { crc32 } from '../utils/checksum.utils';
+import { CodedError } from '../utils/errors';
+import { ContainerHeader, ContainerExtension } from '../types';
+
+/*
+ * Payload container layout (integers are big-endian):
+ *
+ *   magic (4) | version (1) | flags (1) | kdf (1) | payload type (1) |
+ *   payload length (4) | CRC-32 (4) | extension length (2) | extensions | payload
+ *
+ * The CRC-32 covers the whole container with the CRC field zeroed.
+ * Extensions are TLV records (tag (1) + length (2) + value); unknown tags are skipped.
+ */
+
+export const CONTAINER_MAGIC = Buffer.from('CSTG', 'ascii');
+export const CONTAINER_VERSION = 1;
+export const CONTAINER_HEADER_BYTES = 18;
+
+// Container flags
+export const CONTAINER_FLAG_ENCRYPTED = 0x01;
+export const CONTAINER_FLAG_COMPRESSED = 0x02;
+export const CONTAINER_FLAG_BINARY = 0x04;
+export const CONTAINER_FLAG_MULTIPART = 0x08;
+export const CONTAINER_FLAG_KEYED_LAYOUT = 0x10;
+export const CONTAINER_FLAG_RECIPIENT_SEALED = 0x20;
+export const CONTAINER_FLAG_SIGNED = 0x40;
+
+// Key derivation function identifiers
+export const KDF_NONE = 0;
+// PBKDF2-SHA256 at a fixed 100,000 iterations, without parameters in the payload
+export const KDF_PBKDF2_SHA256 = 1;
+export const KDF_X25519_HKDF_SHA256 = 2;
+// Password KDFs whose identifier and cost parameters precede the encrypted payload
+export const KDF_PBKDF2_SHA256_PARAMS = 3;
+export const KDF_SCRYPT = 4;
+export const KDF_ARGON2ID = 5;
+
+// Payload type identifiers
+export const PAYLOAD_TYPE_TEXT = 0;
+export const PAYLOAD_TYPE_FILE = 1;
+
+// Extension record tags
+export const EXTENSION_EMBEDDING = 0x01;
+export const EXTENSION_LAYOUT = 0x02;
+export const EXTENSION_COMPRESSION = 0x03;
+export const EXTENSION_SHARE = 0x04;
+export const EXTENSION_SIGNATURE = 0x05;
+
+// Field offsets within the fixed header
+const VERSION_OFFSET = 4;
+const FLAGS_OFFSET = 5;
+const KDF_OFFSET = 6;
+const PAYLOAD_TYPE_OFFSET = 7;
+const PAYLOAD_LENGTH_OFFSET = 8;
+const CHECKSUM_OFFSET = 12;
+const EXTENSION_LENGTH_OFFSET = 16;
+
+const EXTENSION_RECORD_HEADER_BYTES = 3;
+const MAX_EXTENSION_BYTES = 0xFFFF;
+
+export interface ContainerOptions {
+  flags: number;
+  kdf: number;
+  payloadType: number;
+  extensions?: ContainerExtension[];
+}
+
+/**
+ * Check whether a buffer starts with the container magic signature
+ */
+export function hasContainerMagic(data: Buffer): boolean {
+  return data.length >= CONTAINER_MAGIC.length &&
+    data.subarray(0, CONTAINER_MAGIC.length).equals(CONTAINER_MAGIC);
+}
+
+/**
+ * Serialize TLV extension records
+ */
+function serializeExtensions(extensions: ContainerExtension[]): Buffer {
+  const records = extensions.map(extension => {
+    const recordHeader = Buffer.alloc(EXTENSION_RECORD_HEADER_BYTES);
+    recordHeader.writeUInt8(extension.tag, 0);
+    recordHeader.writeUInt16BE(extension.value.length, 1);
+    return Buffer.concat([recordHeader, extension.value]);
+  });
+
+  const serialized = Buffer.concat(records);
+  if (serialized.length > MAX_EXTENSION_BYTES) {
+    throw new Error(`Container extensions too large. Maximum ${MAX_EXTENSION_BYTES} bytes allowed`);
+  }
+  return serialized;
+}
+
+/**
+ * Parse TLV extension records
+ */
+function parseExtensions(data: Buffer): ContainerExtension[] {
+  const extensions: ContainerExtension[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    if (offset + EXTENSION_RECORD_HEADER_BYTES > data.length) {
+      throw new CodedError('Hidden payload is corrupted: truncated extension record', 'PAYLOAD_CORRUPTED');
+    }
+    const tag = data.readUInt8(offset);
+    const length = data.readUInt16BE(offset + 1);
+    offset += EXTENSION_RECORD_HEADER_BYTES;
+
+    if (offset + length > data.length) {
+      throw new CodedError('Hidden payload is corrupted: truncated extension record', 'PAYLOAD_CORRUPTED');
+    }
+    extensions.push({ tag, value: data.subarray(offset, offset + length) });
+    offset += length;
+  }
+
+  return extensions;
+}
+
+/**
+ * Wrap a payload in a self-describing container
+ */
+export function buildContainer(payload: Buffer, options: ContainerOptions): Buffer {
+  const extensions = serializeExtensions(options.extensions || []);
+
+  const header = Buffer.alloc(CONTAINER_HEADER_BYTES);
+  CONTAINER_MAGIC.copy(header, 0);
+  header.writeUInt8(CONTAINER_VERSION, VERSION_OFFSET);
+  header.writeUInt8(options.flags, FLAGS_OFFSET);
+  header.writeUInt8(options.kdf, KDF_OFFSET);
+  header.writeUInt8(options.payloadType, PAYLOAD_TYPE_OFFSET);
+  header.writeUInt32BE(payload.length, PAYLOAD_LENGTH_OFFSET);
+  header.writeUInt16BE(extensions.length, EXTENSION_LENGTH_OFFSET);
+
+  // Checksum is calculated with the checksum field zeroed
+  header.writeUInt32BE(crc32(header, extensions, payload), CHECKSUM_OFFSET);
+
+  return Buffer.concat([header, extensions, payload]);
+}
+
+/**
+ * Parse a container header
+ * Extensions are parsed when the buffer includes the extension area; the
+ * checksum is only verified by openContainer
+ */
+export function parseContainerHeader(data: Buffer): ContainerHeader {
+  if (data.length < CONTAINER_HEADER_BYTES || !hasContainerMagic(data)) {
+    throw new Error('No hidden message found in this image');
+  }
+
+  const version = data.readUInt8(VERSION_OFFSET);
+  if (version === 0 || version > CONTAINER_VERSION) {
+    throw new CodedError(
+      `Unsupported container version ${version}. Supported versions: 1-${CONTAINER_VERSION}`,
+      'UNSUPPORTED_CONTAINER_VERSION'
+    );
+  }
+
+  const extensionLength = data.readUInt16BE(EXTENSION_LENGTH_OFFSET);
+  const extensionEnd = CONTAINER_HEADER_BYTES + extensionLength;
+
+  return {
+    version,
+    flags: data.readUInt8(FLAGS_OFFSET),
+    kdf: data.readUInt8(KDF_OFFSET),
+    payloadType: data.readUInt8(PAYLOAD_TYPE_OFFSET),
+    payloadLength: data.readUInt32BE(PAYLOAD_LENGTH_OFFSET),
+    checksum: data.readUInt32BE(CHECKSUM_OFFSET),
+    extensionLength,
+    extensions: data.length >= extensionEnd
+      ? parseExtensions(data.subarray(CONTAINER_HEADER_BYTES, extensionEnd))
+      : []
+  };
+}
+
+/**
+ * Get the size in bytes of the header and extensions of a container
+ */
+export function getContainerHeaderLength(header: ContainerHeader): number {
+  return CONTAINER_HEADER_BYTES + header.extensionLength;
+}
+
+/**
+ * Find an extension record by tag
+ */
+export function findExtension(header: ContainerHeader, tag: number): ContainerExtension | undefined {
+  return header.extensions.find(extension => extension.tag === tag);
+}
+
+/**
+ * Get the total size in bytes of a container described by a header
+ */
+export function getContainerLength(header: ContainerHeader): number {
+  return CONTAINER_HEADER_BYTES + header.extensionLength + header.payloadLength;
+}
+
+/**
+ * Verify a complete container and return its header and payload
+ */
+export function openContainer(data: Buffer): { header: ContainerHeader; payload: Buffer } {
+  const header = parseContainerHeader(data);
+  const totalLength = getContainerLength(header);
+
+  if (data.length < totalLength) {
+    throw new CodedError('Hidden payload is corrupted: container is truncated', 'PAYLOAD_CORRUPTED');
+  }
+
+  const fixedHeader = Buffer.from(data.subarray(0, CONTAINER_HEADER_BYTES));
+  fixedHeader.writeUInt32BE(0, CHECKSUM_OFFSET);
+  const extensionData = data.subarray(CONTAINER_HEADER_BYTES, CONTAINER_HEADER_BYTES + header.extensionLength);
+  const payload = data.subarray(CONTAINER_HEADER_BYTES + header.extensionLength, totalLength);
+
+  if (crc32(fixedHeader, extensionData, payload) !== header.checksum) {
+    throw new CodedError('Hidden payload is corrupted: checksum mismatch', 'PAYLOAD_CORRUPTED');
+  }
+
+  return { header, payload };
+}
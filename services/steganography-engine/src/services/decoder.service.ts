@@ -1,115 +1,417 @@
 import Jimp from 'jimp';
-import { getLSB, binaryTo32BitNumber } from '../utils/bit.utils';
-import { decrypt } from './encryption.service';
-import { validateImage, MESSAGE_LENGTH_BITS, ENCRYPTION_FLAG_BITS, HEADER_BITS, RGB_CHANNELS } from './validation.service';
-import { DecodedResult } from '../types';
+import { CodedError } from '../utils/errors';
+import { reportStage } from '../utils/progress.utils';
+import { decrypt, decryptLegacy, openSealed } from './encryption.service';
+import { getKdfAlgorithm } from './kdf.service';
+import {
+  validateImage,
+  DEFAULT_EMBEDDING_OPTIONS,
+  MESSAGE_LENGTH_BITS,
+  HEADER_BITS,
+  RGB_CHANNELS,
+  LEGACY_FLAG_ENCRYPTED,
+  LEGACY_FLAG_BINARY
+} from './validation.service';
+import { deserializeFilePayload } from './payload.service';
+import {
+  hasContainerMagic,
+  parseContainerHeader,
+  getContainerHeaderLength,
+  openContainer,
+  CONTAINER_MAGIC,
+  CONTAINER_HEADER_BYTES,
+  CONTAINER_FLAG_ENCRYPTED,
+  CONTAINER_FLAG_COMPRESSED,
+  CONTAINER_FLAG_BINARY,
+  CONTAINER_FLAG_MULTIPART,
+  CONTAINER_FLAG_KEYED_LAYOUT,
+  CONTAINER_FLAG_RECIPIENT_SEALED,
+  KDF_PBKDF2_SHA256
+} from './container.service';
+import { extractBytes, readEmbeddingOptions } from './lsb.service';
+import { loadCarrier, Carrier } from './carrier.service';
+import { createKeyedOrder, readLayoutParams } from './layout.service';
+import { decompressPayload, readCompressionCodec } from './compression.service';
+import { parseEccHeader, recoverContainer, EccHeader, ECC_ENVELOPE_HEADER_BYTES } from './ecc.service';
+import { verifyPayloadSignature } from './signature.service';
+import {
+  CompressionCodec,
+  ContainerHeader,
+  DecodedResult,
+  DecodeOptions,
+  EmbeddingLayout,
+  EmbeddingOptions,
+  EncryptionMode,
+  ExtractedPayload,
+  KdfAlgorithm,
+  LayoutParams
+} from '../types';
 import logger from '../utils/logger';
 
 /**
- * Decode a hidden message from an image using LSB steganography
+ * Get the number of whole bytes that fit in the image's LSBs
  */
-export async function decode(
-  imageBuffer: Buffer,
-  password?: string
-): Promise<DecodedResult> {
-  const startTime = Date.now();
+function getMaxEmbeddedBytes(image: Jimp): number {
+  return Math.floor((image.getWidth() * image.getHeight() * RGB_CHANNELS) / 8);
+}
+
+/**
+ * Read the container header (including extensions) from the start of the image
+ */
+function readContainerHeader(carrier: Carrier): { header: ContainerHeader; headerBytes: Buffer } {
+  const fixedHeader = parseContainerHeader(carrier.readHeader(CONTAINER_HEADER_BYTES));
+  const headerBytes = carrier.readHeader(getContainerHeaderLength(fixedHeader));
+  return { header: parseContainerHeader(headerBytes), headerBytes };
+}
+
+/**
+ * Get the keyed order of the payload slots after a header of headerBytes, or
+ * undefined for the sequential layout
+ */
+function getPayloadOrder(
+  carrier: Carrier,
+  embedding: EmbeddingOptions,
+  headerBytes: number,
+  layout: LayoutParams | undefined,
+  layoutKey?: string
+): ((index: number) => number) | undefined {
+  if (!layout) {
+    return undefined;
+  }
+  if (!layoutKey) {
+    throw new CodedError('This payload uses a keyed layout. Please provide the key or password.', 'KEY_REQUIRED');
+  }
+  return createKeyedOrder(layoutKey, layout, carrier.getPayloadSlotCount(embedding, headerBytes));
+}
+
+/**
+ * Verify extracted data; with a keyed layout a wrong key reads the wrong bits,
+ * which looks like corruption
+ */
+function verifyPayload<T>(isKeyed: boolean, verify: () => T): T {
+  try {
+    return verify();
+  } catch (error) {
+    if (isKeyed && error instanceof CodedError && error.code === 'PAYLOAD_CORRUPTED') {
+      throw new CodedError('Hidden payload could not be verified. Invalid key or corrupted data.', 'PAYLOAD_CORRUPTED');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe a verified container payload
+ */
+function toExtractedPayload(header: ContainerHeader, payload: Buffer, embedding: EmbeddingOptions): ExtractedPayload {
+  const encrypted = (header.flags & CONTAINER_FLAG_ENCRYPTED) !== 0;
+  let encryption: EncryptionMode = encrypted ? 'password' : 'none';
+  if (encrypted && (header.flags & CONTAINER_FLAG_RECIPIENT_SEALED) !== 0) {
+    encryption = 'recipient';
+  }
+  
+  return {
+    data: payload,
+    header,
+    encrypted,
+    encryption,
+    binary: (header.flags & CONTAINER_FLAG_BINARY) !== 0,
+    containerVersion: header.version,
+    embedding,
+    layout: (header.flags & CONTAINER_FLAG_KEYED_LAYOUT) !== 0 ? 'keyed' : 'sequential',
+    compression: (header.flags & CONTAINER_FLAG_COMPRESSED) !== 0 ? readCompressionCodec(header) : 'none',
+    errorCorrection: 'none'
+  };
+}
+
+/**
+ * Extract a payload stored in a versioned container
+ */
+function extractContainerPayload(carrier: Carrier, layoutKey?: string): ExtractedPayload {
+  const { header, headerBytes } = readContainerHeader(carrier);
+  const embedding = readEmbeddingOptions(header);
+  const capacity = carrier.getCapacity(embedding, headerBytes.length);
+  const isKeyed = (header.flags & CONTAINER_FLAG_KEYED_LAYOUT) !== 0;
+  
+  if (header.payloadLength > capacity) {
+    throw new CodedError('Hidden payload is corrupted: declared length exceeds image capacity', 'PAYLOAD_CORRUPTED');
+  }
+  
+  // The payload follows the header using the embedding options and layout recorded in it
+  const order = getPayloadOrder(
+    carrier,
+    embedding,
+    headerBytes.length,
+    isKeyed ? readLayoutParams(header) : undefined,
+    layoutKey
+  );
+  const payloadBytes = carrier.readPayload(header.payloadLength, embedding, headerBytes.length, order);
+  const { payload } = verifyPayload(isKeyed, () => openContainer(Buffer.concat([headerBytes, payloadBytes])));
+  
+  return toExtractedPayload(header, payload, embedding);
+}
+
+/**
+ * Extract a container protected by error correction, repairing corrupted bytes
+ */
+function extractProtectedPayload(carrier: Carrier, eccHeader: EccHeader, layoutKey?: string): ExtractedPayload {
+  const { embedding, layout, errorCorrection } = eccHeader;
+  
+  if (eccHeader.codedLength > carrier.getCapacity(embedding, ECC_ENVELOPE_HEADER_BYTES)) {
+    throw new CodedError('Hidden payload is corrupted: declared length exceeds image capacity', 'PAYLOAD_CORRUPTED');
+  }
+  
+  const order = getPayloadOrder(carrier, embedding, ECC_ENVELOPE_HEADER_BYTES, layout, layoutKey);
+  const coded = carrier.readPayload(eccHeader.codedLength, embedding, ECC_ENVELOPE_HEADER_BYTES, order);
+  const { header, payload, correctedErrors } = verifyPayload(!!layout, () => {
+    const recovered = recoverContainer(coded, errorCorrection);
+    return { ...openContainer(recovered.container), correctedErrors: recovered.correctedErrors };
+  });
+  
+  return { ...toExtractedPayload(header, payload, embedding), errorCorrection, correctedErrors };
+}
+
+/**
+ * Parse a legacy header (32-bit length + flag byte) from extracted bytes
+ */
+function parseLegacyHeader(bytes: Buffer, maxBytes: number): { length: number; flags: number } | null {
+  if (bytes.length < HEADER_BITS / 8) {
+    return null;
+  }
+  const length = bytes.readUInt32BE(0);
+  const flags = bytes.readUInt8(MESSAGE_LENGTH_BITS / 8);
+  const knownFlags = LEGACY_FLAG_ENCRYPTED | LEGACY_FLAG_BINARY;
+  
+  if (length <= 0 || length > maxBytes - HEADER_BITS / 8 || (flags & ~knownFlags) !== 0) {
+    return null;
+  }
+  return { length, flags };
+}
+
+/**
+ * Extract a payload stored with the legacy header used before the container format
+ */
+function extractLegacyPayload(image: Jimp): ExtractedPayload {
+  const legacyHeader = parseLegacyHeader(extractBytes(image, HEADER_BITS / 8), getMaxEmbeddedBytes(image));
+  if (!legacyHeader) {
+    throw new Error('No valid hidden message found in this image');
+  }
+  
+  const data = extractBytes(image, HEADER_BITS / 8 + legacyHeader.length).subarray(HEADER_BITS / 8);
+  const encrypted = (legacyHeader.flags & LEGACY_FLAG_ENCRYPTED) !== 0;
   
+  return {
+    data,
+    encrypted,
+    encryption: encrypted ? 'password' : 'none',
+    binary: (legacyHeader.flags & LEGACY_FLAG_BINARY) !== 0,
+    embedding: DEFAULT_EMBEDDING_OPTIONS,
+    layout: 'sequential',
+    compression: 'none',
+    errorCorrection: 'none'
+  };
+}
+
+/**
+ * Extract the raw payload of an image, before decryption and decompression
+ */
+export async function extractPayload(imageBuffer: Buffer, layoutKey?: string): Promise<ExtractedPayload> {
   // Validate the image
+  reportStage('loading');
   const validation = await validateImage(imageBuffer);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
   
-  const image = await Jimp.read(imageBuffer);
-  const width = image.getWidth();
-  const height = image.getHeight();
-  
-  // Extract bits from image
-  let extractedBits = '';
-  let messageLength = 0;
-  let isEncrypted = false;
-  let headerRead = false;
-  let bitsNeeded = HEADER_BITS; // MESSAGE_LENGTH_BITS + ENCRYPTION_FLAG_BITS
-  
-  image.scan(0, 0, width, height, function(x, y, idx) {
-    if (extractedBits.length < bitsNeeded) {
-      // Red channel
-      extractedBits += getLSB(this.bitmap.data[idx]);
-      
-      // Green channel
-      if (extractedBits.length < bitsNeeded) {
-        extractedBits += getLSB(this.bitmap.data[idx + 1]);
-      }
-      
-      // Blue channel
-      if (extractedBits.length < bitsNeeded) {
-        extractedBits += getLSB(this.bitmap.data[idx + 2]);
-      }
-      
-      // Once we have the header, calculate total bits needed
-      if (!headerRead && extractedBits.length >= HEADER_BITS) {
-        messageLength = binaryTo32BitNumber(extractedBits.substring(0, MESSAGE_LENGTH_BITS));
-        isEncrypted = extractedBits.substring(MESSAGE_LENGTH_BITS, HEADER_BITS) !== '00000000';
-        bitsNeeded = HEADER_BITS + (messageLength * 8);
-        headerRead = true;
-        
-        // Sanity check for message length
-        const maxBytes = (width * height * RGB_CHANNELS) / 8 - (HEADER_BITS / 8);
-        if (messageLength <= 0 || messageLength > maxBytes) {
-          throw new Error('No valid hidden message found in this image');
-        }
-      }
-    }
-  });
+  const carrier = await loadCarrier(imageBuffer, validation.format!);
+  reportStage('extracting');
   
-  if (!headerRead || messageLength === 0) {
+  // Containers start with their signature, error-protected containers with an envelope
+  // header; lossless images with neither are read with the legacy header
+  const isContainer = hasContainerMagic(carrier.readHeader(CONTAINER_MAGIC.length));
+  const eccHeader = isContainer ? null : parseEccHeader(carrier.readHeader(ECC_ENVELOPE_HEADER_BYTES));
+  if (!isContainer && !eccHeader && !carrier.bitmap) {
     throw new Error('No hidden message found in this image');
   }
-  
-  // Extract the message bytes
-  const messageBits = extractedBits.substring(HEADER_BITS, HEADER_BITS + (messageLength * 8));
-  const messageBytes: number[] = [];
-  
-  for (let i = 0; i < messageBits.length; i += 8) {
-    const byte = messageBits.slice(i, i + 8);
-    if (byte.length === 8) {
-      messageBytes.push(parseInt(byte, 2));
+  if (isContainer) {
+    return extractContainerPayload(carrier, layoutKey);
+  }
+  if (eccHeader) {
+    return extractProtectedPayload(carrier, eccHeader, layoutKey);
+  }
+  return extractLegacyPayload(carrier.bitmap!);
+}
+
+/**
+ * Decrypt a password-encrypted payload
+ * Legacy images and containers with the fixed PBKDF2 identifier carry no KDF
+ * parameters; newer payloads record them ahead of the encrypted data
+ */
+function openPasswordPayload(data: Buffer, header: ContainerHeader | undefined, password?: string): Buffer {
+  if (!password) {
+    throw new Error('This message is encrypted. Please provide a password to decrypt.');
+  }
+  const isLegacy = !header || header.kdf === KDF_PBKDF2_SHA256;
+  try {
+    return isLegacy ? decryptLegacy(data, password) : decrypt(data, password);
+  } catch (error) {
+    if (error instanceof CodedError) {
+      throw error;
     }
+    throw new Error('Failed to decrypt message. Invalid password or corrupted data.');
   }
-  
-  const messageBuffer = Buffer.from(messageBytes);
+}
+
+/**
+ * Get the password KDF of an extracted payload
+ */
+function getPayloadKdf(extracted: ExtractedPayload): KdfAlgorithm | undefined {
+  if (extracted.encryption !== 'password') {
+    return undefined;
+  }
+  if (!extracted.header || extracted.header.kdf === KDF_PBKDF2_SHA256) {
+    return 'pbkdf2';
+  }
+  return getKdfAlgorithm(extracted.header.kdf);
+}
+
+/**
+ * Decrypt a payload sealed for recipients with the private key of one of them
+ */
+function openRecipientPayload(data: Buffer, privateKey?: string): Buffer {
+  if (!privateKey) {
+    throw new CodedError(
+      'This message is sealed for specific recipients. Please provide a recipient private key.',
+      'PRIVATE_KEY_REQUIRED'
+    );
+  }
+  return openSealed(data, privateKey);
+}
+
+/**
+ * Decrypt and decompress an extracted payload
+ */
+export function openPayload(
+  extracted: ExtractedPayload,
+  password?: string,
+  options: DecodeOptions = {},
+  startTime: number = Date.now()
+): DecodedResult {
+  const {
+    data: messageBuffer,
+    encrypted: isEncrypted,
+    encryption,
+    binary: isBinary,
+    containerVersion,
+    embedding,
+    layout,
+    compression,
+    errorCorrection,
+    correctedErrors
+  } = extracted;
   
   // Decrypt if necessary
-  let message: string;
-  if (isEncrypted) {
-    if (!password) {
-      throw new Error('This message is encrypted. Please provide a password to decrypt.');
-    }
-    try {
-      message = decrypt(messageBuffer, password);
-    } catch (error) {
-      throw new Error('Failed to decrypt message. Invalid password or corrupted data.');
-    }
+  let compressedData: Buffer;
+  if (encryption === 'recipient') {
+    compressedData = openRecipientPayload(messageBuffer, options.privateKey);
+  } else if (isEncrypted) {
+    compressedData = openPasswordPayload(messageBuffer, extracted.header, password);
   } else {
-    message = messageBuffer.toString('utf8');
+    compressedData = messageBuffer;
   }
   
+  // Payloads are compressed before encryption, so decompress after decrypting
+  const plainData = decompressPayload(compressedData, compression);
+  const kdf = getPayloadKdf(extracted);
+  
   const duration = Date.now() - startTime;
   logger.info('Decoding completed', {
     duration,
-    messageLength,
-    encrypted: isEncrypted
+    messageLength: messageBuffer.length,
+    encrypted: isEncrypted,
+    encryption,
+    kdf,
+    binary: isBinary,
+    compression,
+    containerVersion,
+    errorCorrection,
+    correctedErrors
   });
   
+  if (isBinary) {
+    const file = deserializeFilePayload(plainData);
+    return {
+      file,
+      metadata: {
+        length: file.data.length,
+        encrypted: isEncrypted,
+        encryption,
+        kdf,
+        payloadType: 'file',
+        filename: file.filename,
+        mimeType: file.mimeType,
+        containerVersion,
+        bitsPerChannel: embedding.bitsPerChannel,
+        useAlpha: embedding.useAlpha,
+        layout,
+        compression,
+        errorCorrection,
+        correctedErrors
+      }
+    };
+  }
+  
+  const message = plainData.toString('utf8');
   return {
     message,
     metadata: {
       length: message.length,
-      encrypted: isEncrypted
+      encrypted: isEncrypted,
+      encryption,
+      kdf,
+      payloadType: 'text',
+      containerVersion,
+      bitsPerChannel: embedding.bitsPerChannel,
+      useAlpha: embedding.useAlpha,
+      layout,
+      compression,
+      errorCorrection,
+      correctedErrors
     }
   };
 }
 
+/**
+ * Decode a hidden message or binary file from an image using LSB steganography
+ * (DCT coefficient embedding for JPEG images)
+ */
+export async function decode(
+  imageBuffer: Buffer,
+  password?: string,
+  options: DecodeOptions = {}
+): Promise<DecodedResult> {
+  const startTime = Date.now();
+  const extracted = await extractPayload(imageBuffer, options.key || password);
+  
+  // A single part of a multi-part set does not hold the whole payload
+  if (extracted.header && (extracted.header.flags & CONTAINER_FLAG_MULTIPART) !== 0) {
+    throw new CodedError(
+      'This image holds one part of a payload split across several images. Use /decode/join with the other images.',
+      'MULTIPART_PAYLOAD'
+    );
+  }
+  
+  // Signatures cover the stored payload, so they are checked before decrypting
+  const signature = extracted.header
+    ? verifyPayloadSignature(extracted.header, extracted.data, options.trustedKeys)
+    : undefined;
+  reportStage('decrypting');
+  const result = openPayload(extracted, password, options, startTime);
+  if (signature) {
+    Object.assign(result.metadata, signature);
+  }
+  return result;
+}
+
 /**
  * Check if an image contains hidden data (quick check)
  */
@@ -120,26 +422,22 @@ export async function hasHiddenData(imageBuffer: Buffer): Promise<boolean> {
       return false;
     }
     
-    const image = await Jimp.read(imageBuffer);
-    let extractedBits = '';
+    const carrier = await loadCarrier(imageBuffer, validation.format!);
     
-    // Read just enough bits to get the length
-    image.scan(0, 0, image.getWidth(), image.getHeight(), function(x, y, idx) {
-      if (extractedBits.length < MESSAGE_LENGTH_BITS) {
-        extractedBits += getLSB(this.bitmap.data[idx]);
-        if (extractedBits.length < MESSAGE_LENGTH_BITS) {
-          extractedBits += getLSB(this.bitmap.data[idx + 1]);
-        }
-        if (extractedBits.length < MESSAGE_LENGTH_BITS) {
-          extractedBits += getLSB(this.bitmap.data[idx + 2]);
-        }
-      }
-    });
+    if (hasContainerMagic(carrier.readHeader(CONTAINER_MAGIC.length))) {
+      const { header, headerBytes } = readContainerHeader(carrier);
+      const embedding = readEmbeddingOptions(header);
+      return header.payloadLength <= carrier.getCapacity(embedding, headerBytes.length);
+    }
     
-    const length = binaryTo32BitNumber(extractedBits);
-    const maxBytes = (image.getWidth() * image.getHeight() * RGB_CHANNELS) / 8 - (HEADER_BITS / 8);
+    const eccHeader = parseEccHeader(carrier.readHeader(ECC_ENVELOPE_HEADER_BYTES));
+    if (eccHeader) {
+      return eccHeader.codedLength <= carrier.getCapacity(eccHeader.embedding, ECC_ENVELOPE_HEADER_BYTES);
+    }
     
-    return length > 0 && length <= maxBytes;
+    // Fall back to a plausibility check of the legacy header
+    return !!carrier.bitmap &&
+      parseLegacyHeader(extractBytes(carrier.bitmap, HEADER_BITS / 8), getMaxEmbeddedBytes(carrier.bitmap)) !== null;
   } catch {
     return false;
   }
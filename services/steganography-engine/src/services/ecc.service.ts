@@ -0,0 +1,166 @@
+import { rsEncode, rsDecode, MAX_CODEWORD_LENGTH } from '../utils/reed-solomon.utils';
+import { CodedError } from '../utils/errors';
+import { MIN_BITS_PER_CHANNEL, MAX_BITS_PER_CHANNEL } from './validation.service';
+import { parseLayoutParams, serializeLayoutParams, LAYOUT_PARAMS_BYTES } from './layout.service';
+import { EmbeddingOptions, ErrorCorrectionLevel, LayoutParams } from '../types';
+
+/*
+ * Error-protected envelope layout (integers are big-endian):
+ *
+ *   magic (4) | version (1) | scheme (1) | parity (1) | coded length (4) |
+ *   bits per channel (1) | flags (1) | keyed layout parameters (23)
+ *
+ * The envelope header is stored ECC_HEADER_COPIES times in a row and read back by a
+ * bitwise majority vote. The whole container (header, extensions and payload) follows
+ * it, encoded with the recorded scheme, using the recorded embedding options and
+ * keyed layout.
+ */
+
+export const ECC_MAGIC = Buffer.from('CSTE', 'ascii');
+export const ECC_VERSION = 1;
+export const ECC_SCHEME_REED_SOLOMON = 1;
+
+const ECC_HEADER_BYTES = 13 + LAYOUT_PARAMS_BYTES;
+const ECC_HEADER_COPIES = 5;
+export const ECC_ENVELOPE_HEADER_BYTES = ECC_HEADER_BYTES * ECC_HEADER_COPIES;
+
+// Envelope flags
+const ECC_FLAG_ALPHA = 0x01;
+const ECC_FLAG_KEYED_LAYOUT = 0x02;
+
+// Field offsets within the envelope header
+const VERSION_OFFSET = 4;
+const SCHEME_OFFSET = 5;
+const PARITY_OFFSET = 6;
+const CODED_LENGTH_OFFSET = 7;
+const BITS_PER_CHANNEL_OFFSET = 11;
+const FLAGS_OFFSET = 12;
+const LAYOUT_OFFSET = 13;
+
+// Reed-Solomon parity bytes per 255-byte codeword; a codeword repairs up to half as many corrupted bytes
+const PARITY_BYTES: Record<Exclude<ErrorCorrectionLevel, 'none'>, number> = {
+  low: 16,
+  medium: 32,
+  high: 64
+};
+
+export interface EccHeader {
+  errorCorrection: Exclude<ErrorCorrectionLevel, 'none'>;
+  codedLength: number;
+  embedding: EmbeddingOptions;
+  // Keyed layout, present when the coded container uses a keyed layout
+  layout?: LayoutParams;
+}
+
+/**
+ * Serialize an envelope header, repeated so it survives flipped bits
+ */
+export function buildEccHeader(header: EccHeader): Buffer {
+  const data = Buffer.alloc(ECC_HEADER_BYTES);
+  ECC_MAGIC.copy(data, 0);
+  data.writeUInt8(ECC_VERSION, VERSION_OFFSET);
+  data.writeUInt8(ECC_SCHEME_REED_SOLOMON, SCHEME_OFFSET);
+  data.writeUInt8(PARITY_BYTES[header.errorCorrection], PARITY_OFFSET);
+  data.writeUInt32BE(header.codedLength, CODED_LENGTH_OFFSET);
+  data.writeUInt8(header.embedding.bitsPerChannel, BITS_PER_CHANNEL_OFFSET);
+  data.writeUInt8(
+    (header.embedding.useAlpha ? ECC_FLAG_ALPHA : 0) | (header.layout ? ECC_FLAG_KEYED_LAYOUT : 0),
+    FLAGS_OFFSET
+  );
+  if (header.layout) {
+    serializeLayoutParams(header.layout).copy(data, LAYOUT_OFFSET);
+  }
+
+  return Buffer.concat(new Array<Buffer>(ECC_HEADER_COPIES).fill(data));
+}
+
+/**
+ * Recover an envelope header from its repeated copies by a bitwise majority vote
+ * Returns null when the data does not hold an envelope header
+ */
+export function parseEccHeader(data: Buffer): EccHeader | null {
+  if (data.length < ECC_ENVELOPE_HEADER_BYTES) {
+    return null;
+  }
+
+  const header = Buffer.alloc(ECC_HEADER_BYTES);
+  for (let i = 0; i < ECC_HEADER_BYTES; i++) {
+    for (let bit = 0; bit < 8; bit++) {
+      let votes = 0;
+      for (let copy = 0; copy < ECC_HEADER_COPIES; copy++) {
+        votes += (data[copy * ECC_HEADER_BYTES + i] >> bit) & 1;
+      }
+      if (votes * 2 > ECC_HEADER_COPIES) {
+        header[i] |= 1 << bit;
+      }
+    }
+  }
+
+  if (!header.subarray(0, ECC_MAGIC.length).equals(ECC_MAGIC)) {
+    return null;
+  }
+
+  const version = header.readUInt8(VERSION_OFFSET);
+  if (version === 0 || version > ECC_VERSION) {
+    throw new CodedError(
+      `Unsupported error correction envelope version ${version}. Supported versions: 1-${ECC_VERSION}`,
+      'UNSUPPORTED_CONTAINER_VERSION'
+    );
+  }
+
+  const scheme = header.readUInt8(SCHEME_OFFSET);
+  const parity = header.readUInt8(PARITY_OFFSET);
+  const errorCorrection = (Object.keys(PARITY_BYTES) as EccHeader['errorCorrection'][])
+    .find(level => PARITY_BYTES[level] === parity);
+  const bitsPerChannel = header.readUInt8(BITS_PER_CHANNEL_OFFSET);
+  if (
+    scheme !== ECC_SCHEME_REED_SOLOMON ||
+    !errorCorrection ||
+    bitsPerChannel < MIN_BITS_PER_CHANNEL ||
+    bitsPerChannel > MAX_BITS_PER_CHANNEL
+  ) {
+    throw new CodedError('Hidden payload is corrupted: invalid error correction header', 'PAYLOAD_CORRUPTED');
+  }
+
+  const flags = header.readUInt8(FLAGS_OFFSET);
+  return {
+    errorCorrection,
+    codedLength: header.readUInt32BE(CODED_LENGTH_OFFSET),
+    embedding: { bitsPerChannel, useAlpha: (flags & ECC_FLAG_ALPHA) !== 0 },
+    layout: (flags & ECC_FLAG_KEYED_LAYOUT) !== 0
+      ? parseLayoutParams(Buffer.from(header.subarray(LAYOUT_OFFSET, ECC_HEADER_BYTES)))
+      : undefined
+  };
+}
+
+/**
+ * Encode a container with Reed-Solomon parity
+ */
+export function protectContainer(container: Buffer, errorCorrection: EccHeader['errorCorrection']): Buffer {
+  return rsEncode(container, PARITY_BYTES[errorCorrection]);
+}
+
+/**
+ * Repair and decode a Reed-Solomon encoded container
+ * Returns the container and the number of corrected bytes
+ */
+export function recoverContainer(
+  coded: Buffer,
+  errorCorrection: EccHeader['errorCorrection']
+): { container: Buffer; correctedErrors: number } {
+  const decoded = rsDecode(coded, PARITY_BYTES[errorCorrection]);
+  if (!decoded) {
+    throw new CodedError('Hidden payload is corrupted beyond repair', 'PAYLOAD_CORRUPTED');
+  }
+  return { container: decoded.data, correctedErrors: decoded.corrected };
+}
+
+/**
+ * Get the largest container that fits in capacity bytes once encoded
+ */
+export function getMaxProtectedLength(capacity: number, errorCorrection: EccHeader['errorCorrection']): number {
+  const parity = PARITY_BYTES[errorCorrection];
+  const fullCodewords = Math.floor(capacity / MAX_CODEWORD_LENGTH);
+  const remainder = capacity - fullCodewords * MAX_CODEWORD_LENGTH;
+  return fullCodewords * (MAX_CODEWORD_LENGTH - parity) + Math.max(0, remainder - parity);
+}
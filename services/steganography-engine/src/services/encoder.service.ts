@@ -1,119 +1,408 @@
 import Jimp from 'jimp';
-import { setLSB, numberTo32BitBinary } from '../utils/bit.utils';
-import { encrypt, getEncryptionOverhead } from './encryption.service';
-import { validateImage, calculateCapacity, MESSAGE_LENGTH_BITS, ENCRYPTION_FLAG_BITS } from './validation.service';
-import { EncodedResult, CapacityInfo } from '../types';
+import { encrypt, sealForRecipients, getEncryptionOverhead } from './encryption.service';
+import {
+  validateImage,
+  calculateCapacity,
+  resolveEmbeddingOptions,
+  resolveLayout,
+  resolveErrorCorrection,
+  MIN_BITS_PER_CHANNEL,
+  MAX_BITS_PER_CHANNEL
+} from './validation.service';
+import { serializePayload, isFilePayload } from './payload.service';
+import {
+  buildContainer,
+  CONTAINER_FLAG_ENCRYPTED,
+  CONTAINER_FLAG_COMPRESSED,
+  CONTAINER_FLAG_BINARY,
+  CONTAINER_FLAG_MULTIPART,
+  CONTAINER_FLAG_KEYED_LAYOUT,
+  CONTAINER_FLAG_RECIPIENT_SEALED,
+  CONTAINER_FLAG_SIGNED,
+  EXTENSION_SIGNATURE,
+  KDF_NONE,
+  KDF_X25519_HKDF_SHA256,
+  PAYLOAD_TYPE_TEXT,
+  PAYLOAD_TYPE_FILE
+} from './container.service';
+import { estimatePsnr, getChannelCount, isDefaultEmbedding, toEmbeddingExtension } from './lsb.service';
+import { createLayoutExtension, createLayoutParams, createKeyedOrder } from './layout.service';
+import { loadCarrier } from './carrier.service';
+import { resolveOutputFormat } from './output.service';
+import { assertJpegEmbedding, collectSlots, calculateJpegCapacity, estimateJpegPsnr } from './jpeg.service';
+import { parseJpeg } from '../utils/jpeg.utils';
+import { compressPayload, toCompressionExtension, TYPICAL_TEXT_COMPRESSION_RATIO } from './compression.service';
+import { resolveKdf, getKdfId } from './kdf.service';
+import { parseSigningKey, getSignerFingerprint, signPayload, SIGNATURE_EXTENSION_BYTES } from './signature.service';
+import {
+  buildEccHeader,
+  protectContainer,
+  getMaxProtectedLength,
+  ECC_ENVELOPE_HEADER_BYTES
+} from './ecc.service';
+import {
+  EncodedResult,
+  CapacityInfo,
+  CapacitySetting,
+  ContainerExtension,
+  EmbeddingOptions,
+  EncodeOptions,
+  EncryptionMode,
+  ErrorCorrectionLevel,
+  PayloadFile,
+  PreparedPayload
+} from '../types';
 import logger from '../utils/logger';
+import { CodedError } from '../utils/errors';
+import { reportStage } from '../utils/progress.utils';
 
 /**
- * Encode a message into an image using LSB steganography
+ * Get the size of the container header (including extensions) for the given embedding
+ * options and a compressed text payload, signed or not
+ */
+function getHeaderLength(embedding: EmbeddingOptions, signed: boolean): number {
+  const extensions = [toCompressionExtension('brotli')];
+  if (!isDefaultEmbedding(embedding)) {
+    extensions.push(toEmbeddingExtension(embedding));
+  }
+  if (signed) {
+    extensions.push({ tag: EXTENSION_SIGNATURE, value: Buffer.alloc(SIGNATURE_EXTENSION_BYTES) });
+  }
+  return buildContainer(Buffer.alloc(0), {
+    flags: CONTAINER_FLAG_COMPRESSED,
+    kdf: KDF_NONE,
+    payloadType: PAYLOAD_TYPE_TEXT,
+    extensions
+  }).length;
+}
+
+/**
+ * Get the payload capacity in bytes given a function returning the bytes available
+ * after a header of headerBytes
+ * With error correction, the container header travels inside the encoded data
+ */
+function getAvailableBytes(
+  capacityAfterHeader: (headerBytes: number) => number,
+  embedding: EmbeddingOptions,
+  errorCorrection: ErrorCorrectionLevel,
+  signed: boolean
+): number {
+  if (errorCorrection === 'none') {
+    return capacityAfterHeader(getHeaderLength(embedding, signed));
+  }
+  const protectedLength = getMaxProtectedLength(capacityAfterHeader(ECC_ENVELOPE_HEADER_BYTES), errorCorrection);
+  return Math.max(0, protectedLength - getHeaderLength(embedding, signed));
+}
+
+/**
+ * Serialize a message or binary file, compress it, then encrypt it with a password
+ * or seal it for the holders of the recipients' private keys
+ */
+export function preparePayload(
+  payload: string | PayloadFile,
+  password?: string,
+  options: EncodeOptions = {}
+): PreparedPayload {
+  const recipients = options.recipients;
+  const sealed = !!recipients && recipients.length > 0;
+  if (sealed && password) {
+    throw new CodedError('Provide either a password or recipients, not both', 'INVALID_OPTIONS');
+  }
+  
+  const binary = isFilePayload(payload);
+  const plainData = serializePayload(payload);
+  const compressed = compressPayload(plainData, !binary);
+  const encryption: EncryptionMode = sealed ? 'recipient' : password ? 'password' : 'none';
+  const kdf = encryption === 'password' ? resolveKdf(options) : undefined;
+  
+  let data = compressed.data;
+  if (encryption === 'recipient') {
+    data = sealForRecipients(compressed.data, recipients!);
+  } else if (kdf) {
+    data = encrypt(compressed.data, password!, kdf);
+  }
+  
+  return {
+    data,
+    encrypted: encryption !== 'none',
+    encryption,
+    kdf: kdf?.algorithm,
+    binary,
+    originalSize: plainData.length,
+    compressedSize: compressed.data.length,
+    compression: compressed.codec
+  };
+}
+
+/**
+ * Encode a message or binary file into an image using LSB steganography
+ * (DCT coefficient embedding for JPEG images)
  */
 export async function encode(
   imageBuffer: Buffer,
-  message: string,
-  password?: string
+  payload: string | PayloadFile,
+  password?: string,
+  options: EncodeOptions = {}
+): Promise<EncodedResult> {
+  reportStage('preparing');
+  const prepared = preparePayload(payload, password, options);
+  return embedPayload(imageBuffer, prepared, options, password);
+}
+
+/**
+ * Embed a prepared payload into an image
+ * A part extension marks the payload as one part of a multi-part set
+ */
+export async function embedPayload(
+  imageBuffer: Buffer,
+  prepared: PreparedPayload,
+  options: EncodeOptions = {},
+  password?: string,
+  partExtension?: ContainerExtension
 ): Promise<EncodedResult> {
   const startTime = Date.now();
+  const embedding = resolveEmbeddingOptions(options);
+  const layout = resolveLayout(options);
+  const errorCorrection = resolveErrorCorrection(options);
+  const layoutKey = options.key || password;
+  const signingKey = options.signingKey ? parseSigningKey(options.signingKey) : undefined;
+  
+  if (layout === 'keyed' && !layoutKey) {
+    throw new CodedError('The keyed layout requires a key or password', 'INVALID_OPTIONS');
+  }
   
   // Validate the image
+  reportStage('loading');
   const validation = await validateImage(imageBuffer);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
   
-  const image = await Jimp.read(imageBuffer);
-  const width = image.getWidth();
-  const height = image.getHeight();
+  const outputFormat = resolveOutputFormat(validation.format!, embedding, options.outputFormat);
+  const carrier = await loadCarrier(imageBuffer, validation.format!, outputFormat);
+  reportStage('embedding');
+  const { data: dataToEncode, encrypted: isEncrypted, binary: isBinary } = prepared;
+  
+  // Wrap the payload in a container; the compression codec, non-default embedding
+  // options, the keyed layout salt, multi-part details and the signature are
+  // recorded in extensions
+  const extensions: ContainerExtension[] = [];
+  if (prepared.compression !== 'none') {
+    extensions.push(toCompressionExtension(prepared.compression));
+  }
+  if (!isDefaultEmbedding(embedding)) {
+    extensions.push(toEmbeddingExtension(embedding));
+  }
+  const layoutParams = layout === 'keyed' ? createLayoutParams(resolveKdf(options)) : undefined;
+  if (layoutParams) {
+    extensions.push(createLayoutExtension(layoutParams));
+  }
+  if (partExtension) {
+    extensions.push(partExtension);
+  }
+  
+  const flags = (isEncrypted ? CONTAINER_FLAG_ENCRYPTED : 0) |
+    (prepared.compression !== 'none' ? CONTAINER_FLAG_COMPRESSED : 0) |
+    (isBinary ? CONTAINER_FLAG_BINARY : 0) |
+    (partExtension ? CONTAINER_FLAG_MULTIPART : 0) |
+    (layoutParams ? CONTAINER_FLAG_KEYED_LAYOUT : 0) |
+    (prepared.encryption === 'recipient' ? CONTAINER_FLAG_RECIPIENT_SEALED : 0) |
+    (signingKey ? CONTAINER_FLAG_SIGNED : 0);
+  const payloadType = isBinary ? PAYLOAD_TYPE_FILE : PAYLOAD_TYPE_TEXT;
+  if (signingKey) {
+    extensions.push(signPayload(dataToEncode, flags, payloadType, signingKey));
+  }
   
-  // Prepare the message (encrypt if password provided)
-  let dataToEncode: Buffer;
-  const isEncrypted = !!password;
+  const container = buildContainer(dataToEncode, {
+    flags,
+    kdf: prepared.encryption === 'recipient'
+      ? KDF_X25519_HKDF_SHA256
+      : (prepared.kdf ? getKdfId(prepared.kdf) : KDF_NONE),
+    payloadType,
+    extensions
+  });
+  const containerHeaderLength = container.length - dataToEncode.length;
   
-  if (password) {
-    dataToEncode = encrypt(message, password);
+  // With error correction the whole container is encoded and follows an envelope
+  // header recording the scheme, embedding options and layout salt
+  let header: Buffer;
+  let body: Buffer;
+  if (errorCorrection === 'none') {
+    header = container.subarray(0, containerHeaderLength);
+    body = container.subarray(containerHeaderLength);
   } else {
-    dataToEncode = Buffer.from(message, 'utf8');
+    body = protectContainer(container, errorCorrection);
+    header = buildEccHeader({
+      errorCorrection,
+      codedLength: body.length,
+      embedding,
+      layout: layoutParams
+    });
   }
   
   // Check capacity
-  const capacity = calculateCapacity(width, height);
-  if (dataToEncode.length > capacity) {
+  const capacity = carrier.getCapacity(embedding, header.length);
+  if (body.length > capacity) {
     throw new Error(
-      `Message too large. Message size: ${dataToEncode.length} bytes, available capacity: ${capacity} bytes`
+      `Message too large. Message size: ${body.length} bytes` +
+      (errorCorrection !== 'none' ? ` with ${errorCorrection} error correction` : '') +
+      `, available capacity: ${capacity} bytes`
     );
   }
   
-  // Convert data to binary with length prefix
-  const lengthBinary = numberTo32BitBinary(dataToEncode.length);
-  const dataBinary = Array.from(dataToEncode)
-    .map(byte => byte.toString(2).padStart(8, '0'))
-    .join('');
-  const encryptedFlag = isEncrypted ? '1' : '0';
-  const fullBinary = lengthBinary + encryptedFlag.padStart(ENCRYPTION_FLAG_BITS, '0') + dataBinary;
-  
-  let bitIndex = 0;
-  
-  // Embed data into image pixels
-  image.scan(0, 0, width, height, function(x, y, idx) {
-    if (bitIndex < fullBinary.length) {
-      // Red channel
-      if (bitIndex < fullBinary.length) {
-        const bit = parseInt(fullBinary[bitIndex], 10);
-        this.bitmap.data[idx] = setLSB(this.bitmap.data[idx], bit);
-        bitIndex++;
-      }
-      
-      // Green channel
-      if (bitIndex < fullBinary.length) {
-        const bit = parseInt(fullBinary[bitIndex], 10);
-        this.bitmap.data[idx + 1] = setLSB(this.bitmap.data[idx + 1], bit);
-        bitIndex++;
-      }
-      
-      // Blue channel
-      if (bitIndex < fullBinary.length) {
-        const bit = parseInt(fullBinary[bitIndex], 10);
-        this.bitmap.data[idx + 2] = setLSB(this.bitmap.data[idx + 2], bit);
-        bitIndex++;
-      }
-    }
-  });
+  // The header is embedded first so the decoder can read it before knowing the
+  // embedding options; the payload follows at the requested depth, scattered over
+  // the rest of the image when the keyed layout is used
+  const order = layoutParams
+    ? createKeyedOrder(layoutKey!, layoutParams, carrier.getPayloadSlotCount(embedding, header.length))
+    : undefined;
+  carrier.writeHeader(header);
+  carrier.writePayload(body, embedding, header.length, order);
   
-  // Get the encoded image as PNG (lossless format)
-  const encodedBuffer = await image.getBufferAsync(Jimp.MIME_PNG);
+  reportStage('writing');
+  const encodedBuffer = await carrier.toBuffer();
+  const signer = signingKey ? getSignerFingerprint(signingKey) : undefined;
   
   const duration = Date.now() - startTime;
   logger.info('Encoding completed', {
     duration,
-    bytesUsed: dataToEncode.length,
+    bytesUsed: body.length,
     capacity,
-    encrypted: isEncrypted
+    encrypted: isEncrypted,
+    encryption: prepared.encryption,
+    kdf: prepared.kdf,
+    binary: isBinary,
+    format: carrier.format,
+    originalSize: prepared.originalSize,
+    compressedSize: prepared.compressedSize,
+    compression: prepared.compression,
+    bitsPerChannel: embedding.bitsPerChannel,
+    useAlpha: embedding.useAlpha,
+    layout,
+    errorCorrection,
+    signer
   });
   
   return {
     image: encodedBuffer,
-    format: 'png',
-    bytesUsed: dataToEncode.length,
-    capacity
+    format: carrier.format,
+    bytesUsed: body.length,
+    capacity,
+    bitsPerChannel: embedding.bitsPerChannel,
+    useAlpha: embedding.useAlpha,
+    layout,
+    originalSize: prepared.originalSize,
+    compressedSize: prepared.compressedSize,
+    compression: prepared.compression,
+    errorCorrection,
+    kdf: prepared.kdf,
+    signer
+  };
+}
+
+/**
+ * Get the capacity information for a JPEG image
+ * Payload bits go one per usable DCT coefficient, so a single setting applies
+ */
+function getJpegCapacity(
+  imageBuffer: Buffer,
+  embedding: EmbeddingOptions,
+  errorCorrection: ErrorCorrectionLevel,
+  encryptionOverhead: number,
+  signed: boolean
+): CapacityInfo {
+  assertJpegEmbedding(embedding);
+  const jpeg = parseJpeg(imageBuffer);
+  const slots = collectSlots(jpeg);
+  const availableBytes = getAvailableBytes(
+    headerBytes => calculateJpegCapacity(slots, headerBytes),
+    embedding,
+    errorCorrection,
+    signed
+  );
+  const maxMessageLength = Math.max(0, availableBytes - encryptionOverhead);
+  const estimatedTextLength = Math.floor(maxMessageLength / TYPICAL_TEXT_COMPRESSION_RATIO);
+  
+  return {
+    format: 'jpeg',
+    totalBytes: Math.floor(slots.count / 8),
+    availableBytes,
+    maxMessageLength,
+    estimatedTextLength,
+    bitsPerChannel: embedding.bitsPerChannel,
+    useAlpha: embedding.useAlpha,
+    errorCorrection,
+    settings: [{
+      ...embedding,
+      availableBytes,
+      maxMessageLength,
+      estimatedTextLength,
+      estimatedPsnr: estimateJpegPsnr(jpeg, slots)
+    }]
   };
 }
 
 /**
  * Get the capacity information for an image
+ * Capacity and estimated PSNR are reported for every supported embedding setting at
+ * the requested error correction level; the top-level figures describe the requested
+ * setting. The estimated text length
+ * assumes a typical compression ratio for text; incompressible payloads only fit
+ * maxMessageLength bytes
  */
-export async function getCapacity(imageBuffer: Buffer): Promise<CapacityInfo> {
+export async function getCapacity(imageBuffer: Buffer, options: EncodeOptions = {}): Promise<CapacityInfo> {
   const validation = await validateImage(imageBuffer);
   if (!validation.valid) {
     throw new Error(validation.error);
   }
   
-  const totalBytes = (validation.width! * validation.height! * 3) / 8;
-  const availableBytes = calculateCapacity(validation.width!, validation.height!);
-  const encryptionOverhead = getEncryptionOverhead();
+  const embedding = resolveEmbeddingOptions(options);
+  const errorCorrection = resolveErrorCorrection(options);
+  const encryptionOverhead = getEncryptionOverhead(options.recipients?.length, resolveKdf(options).algorithm);
+  const signed = !!options.signingKey;
+  if (validation.format === 'jpeg' && (options.outputFormat ?? 'jpeg') === 'jpeg') {
+    return getJpegCapacity(imageBuffer, embedding, errorCorrection, encryptionOverhead, signed);
+  }
+  
+  const width = validation.width!;
+  const height = validation.height!;
+  const psnr = estimatePsnr(await Jimp.read(imageBuffer));
+  
+  const settings: CapacitySetting[] = [];
+  for (const useAlpha of [false, true]) {
+    for (let bitsPerChannel = MIN_BITS_PER_CHANNEL; bitsPerChannel <= MAX_BITS_PER_CHANNEL; bitsPerChannel++) {
+      const setting = { bitsPerChannel, useAlpha };
+      const availableBytes = getAvailableBytes(
+        headerBytes => calculateCapacity(width, height, setting, headerBytes),
+        setting,
+        errorCorrection,
+        signed
+      );
+      const maxMessageLength = Math.max(0, availableBytes - encryptionOverhead);
+      settings.push({
+        bitsPerChannel,
+        useAlpha,
+        availableBytes,
+        maxMessageLength,
+        estimatedTextLength: Math.floor(maxMessageLength / TYPICAL_TEXT_COMPRESSION_RATIO),
+        estimatedPsnr: useAlpha ? psnr[bitsPerChannel].rgba : psnr[bitsPerChannel].rgb
+      });
+    }
+  }
+  
+  const selected = settings.find(setting =>
+    setting.bitsPerChannel === embedding.bitsPerChannel && setting.useAlpha === embedding.useAlpha
+  )!;
   
   return {
-    totalBytes,
-    availableBytes,
-    maxMessageLength: availableBytes - encryptionOverhead
+    format: validation.format!,
+    totalBytes: (width * height * getChannelCount(embedding) * embedding.bitsPerChannel) / 8,
+    availableBytes: selected.availableBytes,
+    maxMessageLength: selected.maxMessageLength,
+    estimatedTextLength: selected.estimatedTextLength,
+    bitsPerChannel: embedding.bitsPerChannel,
+    useAlpha: embedding.useAlpha,
+    errorCorrection,
+    settings
   };
 }
@@ -1,63 +1,207 @@
 import crypto from 'crypto';
+import { CodedError } from '../utils/errors';
+import { parseKey, fromRawPublicKey, toRawPublicKey, RAW_KEY_LENGTH } from '../utils/keys.utils';
+import { deriveKey, resolveKdf, serializeKdfParams, parseKdfParams, getKdfParamsLength } from './kdf.service';
+import { KdfAlgorithm, KdfParams } from '../types';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const SALT_LENGTH = 32;
 const TAG_LENGTH = 16;
 const KEY_LENGTH = 32;
-const ITERATIONS = 100000;
+// Iterations of images encrypted before the KDF was recorded in the payload
+const LEGACY_ITERATIONS = 100000;
+
+/*
+ * Recipient-sealed payload layout:
+ *
+ *   ephemeral public key (32) | recipient count (1) | wrapped keys (count x 48) |
+ *   iv (16) | tag (16) | encrypted data
+ *
+ * The payload is encrypted with a random content key. For each recipient, the key
+ * is wrapped with AES-256-GCM under a key derived by HKDF-SHA256 from the X25519
+ * shared secret of the ephemeral key and the recipient's key. Wrapped keys carry no
+ * recipient identifier; the decoder tries each one.
+ */
+
+export const MAX_RECIPIENTS = 16;
+const WRAPPED_KEY_LENGTH = KEY_LENGTH + TAG_LENGTH;
+const HKDF_INFO = Buffer.from('CapnStegg X25519 recipient v1', 'ascii');
+// Every wrapping key is derived from a fresh ephemeral key, so a fixed nonce is safe
+const WRAP_IV = Buffer.alloc(12);
 
 /**
- * Derive a key from password using PBKDF2
+ * Decrypt AES-256-GCM data laid out as salt + iv + tag + encrypted data
  */
-function deriveKey(password: string, salt: Buffer): Buffer {
-  return crypto.pbkdf2Sync(password, salt, ITERATIONS, KEY_LENGTH, 'sha256');
+function decryptWithKey(encryptedData: Buffer, deriveFromSalt: (salt: Buffer) => Buffer): Buffer {
+  const salt = encryptedData.subarray(0, SALT_LENGTH);
+  const iv = encryptedData.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
+  const tag = encryptedData.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+  const encrypted = encryptedData.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+  
+  const key = deriveFromSalt(salt);
+  
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  
+  return Buffer.concat([
+    decipher.update(encrypted),
+    decipher.final()
+  ]);
 }
 
 /**
- * Encrypt a message using AES-256-GCM
+ * Encrypt a payload using AES-256-GCM with a key derived from the password
+ * The configured KDF is used by default
  */
-export function encrypt(message: string, password: string): Buffer {
+export function encrypt(data: Buffer | string, password: string, kdf: KdfParams = resolveKdf()): Buffer {
   const salt = crypto.randomBytes(SALT_LENGTH);
-  const key = deriveKey(password, salt);
+  const key = deriveKey(password, salt, kdf);
   const iv = crypto.randomBytes(IV_LENGTH);
   
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
   const encrypted = Buffer.concat([
-    cipher.update(message, 'utf8'),
+    cipher.update(typeof data === 'string' ? Buffer.from(data, 'utf8') : data),
     cipher.final()
   ]);
   const tag = cipher.getAuthTag();
   
-  // Format: salt (32) + iv (16) + tag (16) + encrypted data
-  return Buffer.concat([salt, iv, tag, encrypted]);
+  // Format: KDF parameters + salt (32) + iv (16) + tag (16) + encrypted data
+  return Buffer.concat([serializeKdfParams(kdf), salt, iv, tag, encrypted]);
 }
 
 /**
- * Decrypt an encrypted message using AES-256-GCM
+ * Decrypt an encrypted payload using AES-256-GCM, deriving the key with the KDF
+ * parameters recorded in it
  */
-export function decrypt(encryptedData: Buffer, password: string): string {
-  const salt = encryptedData.subarray(0, SALT_LENGTH);
-  const iv = encryptedData.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-  const tag = encryptedData.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-  const encrypted = encryptedData.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-  
-  const key = deriveKey(password, salt);
-  
-  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(tag);
-  
-  const decrypted = Buffer.concat([
-    decipher.update(encrypted),
-    decipher.final()
+export function decrypt(encryptedData: Buffer, password: string): Buffer {
+  const { params, length } = parseKdfParams(encryptedData);
+  return decryptWithKey(encryptedData.subarray(length), salt => deriveKey(password, salt, params));
+}
+
+/**
+ * Decrypt a payload encrypted before KDF parameters were recorded, with PBKDF2-SHA256
+ * at a fixed iteration count
+ */
+export function decryptLegacy(encryptedData: Buffer, password: string): Buffer {
+  return decryptWithKey(encryptedData, salt => deriveKey(password, salt, {
+    algorithm: 'pbkdf2',
+    iterations: LEGACY_ITERATIONS
+  }));
+}
+
+/**
+ * Derive the key wrapping a content key for one recipient
+ */
+function deriveWrappingKey(sharedSecret: Buffer, ephemeralPublicKey: Buffer, recipientPublicKey: Buffer): Buffer {
+  const salt = Buffer.concat([ephemeralPublicKey, recipientPublicKey]);
+  return Buffer.from(crypto.hkdfSync('sha256', sharedSecret, salt, HKDF_INFO, KEY_LENGTH));
+}
+
+/**
+ * Encrypt a payload so that the holder of any of the recipients' X25519 private keys
+ * can decrypt it
+ */
+export function sealForRecipients(data: Buffer | string, recipients: string[]): Buffer {
+  if (recipients.length === 0 || recipients.length > MAX_RECIPIENTS) {
+    throw new CodedError(`Between 1 and ${MAX_RECIPIENTS} recipients are supported`, 'INVALID_OPTIONS');
+  }
+  const publicKeys = recipients.map(recipient => parseKey(recipient, 'x25519', 'public'));
+
+  const ephemeral = crypto.generateKeyPairSync('x25519');
+  const ephemeralPublicKey = toRawPublicKey(ephemeral.publicKey);
+  const contentKey = crypto.randomBytes(KEY_LENGTH);
+
+  const wrappedKeys = publicKeys.map(publicKey => {
+    const sharedSecret = crypto.diffieHellman({ privateKey: ephemeral.privateKey, publicKey });
+    const wrappingKey = deriveWrappingKey(sharedSecret, ephemeralPublicKey, toRawPublicKey(publicKey));
+    const cipher = crypto.createCipheriv(ALGORITHM, wrappingKey, WRAP_IV);
+    return Buffer.concat([cipher.update(contentKey), cipher.final(), cipher.getAuthTag()]);
+  });
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, contentKey, iv);
+  const encrypted = Buffer.concat([
+    cipher.update(typeof data === 'string' ? Buffer.from(data, 'utf8') : data),
+    cipher.final()
   ]);
-  
-  return decrypted.toString('utf8');
+
+  return Buffer.concat([
+    ephemeralPublicKey,
+    Buffer.from([wrappedKeys.length]),
+    ...wrappedKeys,
+    iv,
+    cipher.getAuthTag(),
+    encrypted
+  ]);
+}
+
+/**
+ * Decrypt a recipient-sealed payload with one recipient's X25519 private key
+ */
+export function openSealed(sealedData: Buffer, privateKey: string): Buffer {
+  const key = parseKey(privateKey, 'x25519', 'private');
+  const corrupted = new CodedError('Sealed payload is corrupted: truncated recipient data', 'PAYLOAD_CORRUPTED');
+
+  if (sealedData.length < RAW_KEY_LENGTH + 1) {
+    throw corrupted;
+  }
+  const ephemeralPublicKey = sealedData.subarray(0, RAW_KEY_LENGTH);
+  const count = sealedData.readUInt8(RAW_KEY_LENGTH);
+  const keysOffset = RAW_KEY_LENGTH + 1;
+  const ivOffset = keysOffset + count * WRAPPED_KEY_LENGTH;
+  if (sealedData.length < ivOffset + IV_LENGTH + TAG_LENGTH) {
+    throw corrupted;
+  }
+
+  const sharedSecret = crypto.diffieHellman({
+    privateKey: key,
+    publicKey: fromRawPublicKey(ephemeralPublicKey, 'x25519')
+  });
+  const wrappingKey = deriveWrappingKey(
+    sharedSecret,
+    ephemeralPublicKey,
+    toRawPublicKey(key)
+  );
+
+  // Only the wrapped key meant for this private key authenticates
+  let contentKey: Buffer | undefined;
+  for (let i = 0; i < count && !contentKey; i++) {
+    const wrapped = sealedData.subarray(keysOffset + i * WRAPPED_KEY_LENGTH, keysOffset + (i + 1) * WRAPPED_KEY_LENGTH);
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, wrappingKey, WRAP_IV);
+      decipher.setAuthTag(wrapped.subarray(KEY_LENGTH));
+      contentKey = Buffer.concat([decipher.update(wrapped.subarray(0, KEY_LENGTH)), decipher.final()]);
+    } catch {
+      // Wrapped for another recipient
+    }
+  }
+  if (!contentKey) {
+    throw new CodedError('The private key does not match any recipient of this payload', 'NOT_A_RECIPIENT');
+  }
+
+  const iv = sealedData.subarray(ivOffset, ivOffset + IV_LENGTH);
+  const tag = sealedData.subarray(ivOffset + IV_LENGTH, ivOffset + IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, contentKey, iv);
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([
+      decipher.update(sealedData.subarray(ivOffset + IV_LENGTH + TAG_LENGTH)),
+      decipher.final()
+    ]);
+  } catch {
+    throw new CodedError('Sealed payload is corrupted: authentication failed', 'PAYLOAD_CORRUPTED');
+  }
 }
 
 /**
  * Calculate overhead for encrypted message
+ * With recipients, the overhead of a payload sealed for that many recipients;
+ * otherwise of a password-encrypted payload using the given (or configured) KDF
  */
-export function getEncryptionOverhead(): number {
-  return SALT_LENGTH + IV_LENGTH + TAG_LENGTH;
+export function getEncryptionOverhead(recipientCount: number = 0, kdf?: KdfAlgorithm): number {
+  if (recipientCount > 0) {
+    return RAW_KEY_LENGTH + 1 + recipientCount * WRAPPED_KEY_LENGTH + IV_LENGTH + TAG_LENGTH;
+  }
+  return getKdfParamsLength(kdf ?? resolveKdf().algorithm) + SALT_LENGTH + IV_LENGTH + TAG_LENGTH;
 }
@@ -1,5 +1,19 @@
 export * from './encoder.service';
 export * from './decoder.service';
 export * from './encryption.service';
+export * from './kdf.service';
+export * from './signature.service';
 export * from './validation.service';
+export * from './payload.service';
+export * from './container.service';
+export * from './lsb.service';
+export * from './layout.service';
+export * from './compression.service';
+export * from './ecc.service';
+export * from './jpeg.service';
+export * from './carrier.service';
+export * from './output.service';
 export * from './composite.service';
+export * from './split.service';
+export * from './batch.service';
+export * from './analysis.service';
@@ -0,0 +1,159 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runTask, getWorkerPoolStats } from './worker-pool.service';
+import type { TaskArgs, TaskName, TaskResult } from '../workers/tasks';
+import { JobInfo, JobStage, JobStatus, JobType, OperationStage, RunTaskOptions } from '../types';
+import { CodedError } from '../utils/errors';
+import config from '../config';
+import logger from '../utils/logger';
+
+/*
+ * Asynchronous jobs for large encode, decode and composite operations
+ *
+ * Jobs run on the worker pool like synchronous requests, but the client polls for
+ * their status and fetches the result later. Jobs are kept in memory; a finished job
+ * and its result are discarded once the result TTL has passed, and new jobs are
+ * refused while the results kept reach the configured size.
+ */
+
+const JOB_TASKS = {
+  encode: 'encode',
+  decode: 'decode',
+  composite: 'createComposite'
+} as const satisfies Record<JobType, TaskName>;
+
+type JobTask<T extends JobType> = typeof JOB_TASKS[T];
+
+export type JobArgs<T extends JobType> = TaskArgs<JobTask<T>>;
+
+export type JobOutput = {
+  [T in JobType]: { type: T; result: TaskResult<JobTask<T>> }
+}[JobType];
+
+export interface JobRecord {
+  info: JobInfo;
+  // Set once the job has completed
+  output?: JobOutput;
+  // HTTP status of the error of a failed job
+  statusCode?: number;
+  // Size of the output kept until the job expires
+  resultBytes?: number;
+}
+
+// Stages reported by the task of each job type, in order
+const JOB_STAGES: Record<JobType, readonly OperationStage[]> = {
+  encode: ['preparing', 'loading', 'embedding', 'writing'],
+  decode: ['loading', 'extracting', 'decrypting'],
+  composite: ['loading', 'compositing', 'writing']
+};
+
+const jobs = new Map<string, JobRecord>();
+let storedResultBytes = 0;
+
+/**
+ * Move a job to a later stage of its type; stages reported out of order are ignored
+ */
+function advanceStage(info: JobInfo, stage: OperationStage): void {
+  const stages: readonly JobStage[] = JOB_STAGES[info.type];
+  const index = stages.indexOf(stage);
+  if (index > stages.indexOf(info.progress.stage)) {
+    info.progress = { stage, percent: Math.round((index / stages.length) * 100) };
+  }
+}
+
+/**
+ * Get the size of the buffers and text a job output keeps in memory
+ */
+function getOutputBytes(output: JobOutput): number {
+  if (output.type === 'decode') {
+    return output.result.file?.data.length ?? Buffer.byteLength(output.result.message ?? '');
+  }
+  return output.result.image.length;
+}
+
+/**
+ * Record the end of a job and schedule its removal
+ */
+function finishJob(record: JobRecord, status: JobStatus, log: typeof logger): void {
+  const now = Date.now();
+  record.info.status = status;
+  record.info.finishedAt = new Date(now).toISOString();
+  record.info.expiresAt = new Date(now + config.jobResultTtl).toISOString();
+  if (record.output) {
+    record.info.progress = { stage: 'done', percent: 100 };
+    record.resultBytes = getOutputBytes(record.output);
+    storedResultBytes += record.resultBytes;
+  }
+
+  setTimeout(() => {
+    jobs.delete(record.info.id);
+    storedResultBytes -= record.resultBytes ?? 0;
+    log.info('Job expired');
+  }, config.jobResultTtl).unref();
+}
+
+/**
+ * Queue a job on the worker pool and return its initial status
+ * Jobs beyond the worker queue limit are refused with QUEUE_FULL, and jobs submitted
+ * while the stored results reach their size limit with JOB_STORE_FULL
+ */
+export function createJob<T extends JobType>(type: T, args: JobArgs<T>): JobInfo {
+  const { queueDepth, queueLimit } = getWorkerPoolStats();
+  if (queueDepth >= queueLimit) {
+    throw new CodedError(`Server busy: ${queueDepth} jobs waiting. Please retry later.`, 'QUEUE_FULL', 503);
+  }
+  if (storedResultBytes >= config.jobResultMaxBytes) {
+    throw new CodedError(
+      `Server busy: ${storedResultBytes} bytes of job results stored. Please retry later.`,
+      'JOB_STORE_FULL',
+      503
+    );
+  }
+
+  const id = uuidv4();
+  const log = logger.child({ jobId: id, jobType: type });
+  const record: JobRecord = {
+    info: {
+      id,
+      type,
+      status: 'queued',
+      progress: { stage: 'queued', percent: 0 },
+      createdAt: new Date().toISOString()
+    }
+  };
+  jobs.set(id, record);
+  log.info('Job queued');
+
+  const onStart = () => {
+    record.info.status = 'running';
+    record.info.startedAt = new Date().toISOString();
+    log.info('Job started');
+  };
+  const onStage = (stage: OperationStage) => advanceStage(record.info, stage);
+  // Each job type runs a single task, so its arguments and result match the type
+  const run = runTask as (task: TaskName, args: unknown[], options: RunTaskOptions) => Promise<unknown>;
+
+  run(JOB_TASKS[type], args, { onStart, onStage }).then(
+    result => {
+      record.output = { type, result } as JobOutput;
+      finishJob(record, 'completed', log);
+      log.info('Job completed', { duration: Date.now() - Date.parse(record.info.createdAt) });
+    },
+    (error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      const code = error instanceof CodedError ? error.code : 'JOB_FAILED';
+      record.info.error = { code, message };
+      record.statusCode = error instanceof CodedError ? error.statusCode : 400;
+      finishJob(record, 'failed', log);
+      log.error('Job failed', { error: message, code });
+    }
+  );
+
+  return { ...record.info };
+}
+
+/**
+ * Look up a job that has not expired
+ */
+export function getJob(id: string): JobRecord | undefined {
+  return jobs.get(id);
+}
@@ -0,0 +1,147 @@
+import { BLOCK_SIZE, JpegImage } from '../utils/jpeg.utils';
+import { CodedError } from '../utils/errors';
+import { isDefaultEmbedding } from './lsb.service';
+import { EmbeddingOptions } from '../types';
+
+const MAX_PIXEL_VALUE = 255;
+
+/**
+ * Quantized AC coefficients that can carry a payload bit (JSteg-style)
+ * Coefficients equal to 0 or 1 are skipped: changing them would alter the run
+ * lengths of zeros and be easy to detect. Setting the LSB of any other value never
+ * produces 0 or 1, so the decoder finds exactly the same slots after embedding.
+ */
+export interface JpegSlots {
+  components: Uint8Array;
+  offsets: Int32Array;
+  count: number;
+}
+
+/**
+ * Reject embedding options that only apply to lossless formats
+ * Every usable coefficient carries exactly one bit
+ */
+export function assertJpegEmbedding(embedding: EmbeddingOptions): void {
+  if (!isDefaultEmbedding(embedding)) {
+    throw new CodedError('bitsPerChannel and useAlpha are not supported for JPEG images', 'INVALID_OPTIONS');
+  }
+}
+
+/**
+ * Check whether a quantized coefficient can carry a payload bit
+ */
+function isUsableCoefficient(value: number): boolean {
+  return value !== 0 && value !== 1;
+}
+
+/**
+ * Visit the AC coefficients of the blocks covering the image (MCU padding is skipped)
+ */
+function forEachAcCoefficient(
+  jpeg: JpegImage,
+  callback: (componentIndex: number, offset: number, value: number) => void
+): void {
+  jpeg.components.forEach((component, componentIndex) => {
+    for (let row = 0; row < component.blocksPerColumn; row++) {
+      for (let col = 0; col < component.blocksPerLine; col++) {
+        const blockOffset = (row * component.paddedBlocksPerLine + col) * BLOCK_SIZE;
+        for (let k = 1; k < BLOCK_SIZE; k++) {
+          callback(componentIndex, blockOffset + k, component.coefficients[blockOffset + k]);
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Collect the coefficients that can carry payload bits, in embedding order
+ */
+export function collectSlots(jpeg: JpegImage): JpegSlots {
+  let count = 0;
+  forEachAcCoefficient(jpeg, (_component, _offset, value) => {
+    if (isUsableCoefficient(value)) {
+      count++;
+    }
+  });
+
+  const slots: JpegSlots = { components: new Uint8Array(count), offsets: new Int32Array(count), count };
+  let index = 0;
+  forEachAcCoefficient(jpeg, (componentIndex, offset, value) => {
+    if (isUsableCoefficient(value)) {
+      slots.components[index] = componentIndex;
+      slots.offsets[index] = offset;
+      index++;
+    }
+  });
+  return slots;
+}
+
+/**
+ * Calculate the payload capacity in bytes after a header of headerBytes
+ * The header occupies the first headerBytes * 8 slots
+ */
+export function calculateJpegCapacity(slots: JpegSlots, headerBytes: number): number {
+  return Math.max(0, Math.floor((slots.count - headerBytes * 8) / 8));
+}
+
+/**
+ * Embed a byte buffer into the LSBs of the usable coefficients, starting at the
+ * given slot; slots are visited in order unless a keyed order is given
+ */
+export function embedJpegBytes(
+  jpeg: JpegImage,
+  slots: JpegSlots,
+  data: Buffer,
+  startSlot: number = 0,
+  order?: (index: number) => number
+): void {
+  for (let bitIndex = 0; bitIndex < data.length * 8; bitIndex++) {
+    const slot = startSlot + (order ? order(bitIndex) : bitIndex);
+    const bit = (data[bitIndex >> 3] >> (7 - (bitIndex & 7))) & 1;
+    const coefficients = jpeg.components[slots.components[slot]].coefficients;
+    const offset = slots.offsets[slot];
+    coefficients[offset] = (coefficients[offset] & ~1) | bit;
+  }
+}
+
+/**
+ * Extract byteCount bytes from the LSBs of the usable coefficients, starting at the
+ * given slot; slots are visited in order unless a keyed order is given
+ */
+export function extractJpegBytes(
+  jpeg: JpegImage,
+  slots: JpegSlots,
+  byteCount: number,
+  startSlot: number = 0,
+  order?: (index: number) => number
+): Buffer {
+  const data = Buffer.alloc(byteCount);
+  for (let bitIndex = 0; bitIndex < byteCount * 8; bitIndex++) {
+    const slot = startSlot + (order ? order(bitIndex) : bitIndex);
+    const value = jpeg.components[slots.components[slot]].coefficients[slots.offsets[slot]];
+    data[bitIndex >> 3] |= (value & 1) << (7 - (bitIndex & 7));
+  }
+  return data;
+}
+
+/**
+ * Estimate the PSNR (in dB) of a JPEG whose usable coefficients are fully overwritten
+ * with random bits
+ * Each coefficient changes by one quantization step with probability 1/2; the DCT is
+ * orthonormal, so the expected squared pixel error equals the coefficient error.
+ */
+export function estimateJpegPsnr(jpeg: JpegImage, slots: JpegSlots): number {
+  let squaredError = 0;
+  for (let slot = 0; slot < slots.count; slot++) {
+    const component = jpeg.components[slots.components[slot]];
+    const step = jpeg.quantTables.get(component.quantTable)?.[slots.offsets[slot] % BLOCK_SIZE] ?? 1;
+    squaredError += (step * step) / 2;
+  }
+
+  const sampleCount = jpeg.components.reduce(
+    (sum, component) => sum + component.blocksPerLine * component.blocksPerColumn * BLOCK_SIZE,
+    0
+  );
+  const mse = squaredError / sampleCount;
+  return mse > 0 ? Math.round(10 * Math.log10((MAX_PIXEL_VALUE * MAX_PIXEL_VALUE) / mse) * 100) / 100 : Infinity;
+}
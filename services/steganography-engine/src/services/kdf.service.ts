@@ -0,0 +1,353 @@
+import crypto from 'crypto';
+import { argon2id } from '@noble/hashes/argon2';
+import { CodedError } from '../utils/errors';
+import { KDF_PBKDF2_SHA256_PARAMS, KDF_SCRYPT, KDF_ARGON2ID } from './container.service';
+import { EncodeOptions, KdfAlgorithm, KdfBenchmarkEntry, KdfBenchmarkResult, KdfParams } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+/*
+ * Serialized KDF parameters (integers are big-endian):
+ *
+ *   pbkdf2:   id (1) | iterations (4)
+ *   scrypt:   id (1) | log2 of cost (1) | block size (1) | parallelization (1)
+ *   argon2id: id (1) | iterations (1) | memory in KiB (4) | parallelism (1)
+ *
+ * Identifiers match the container KDF byte. Decoding reads the parameters back, so
+ * the configured costs can be raised without breaking older images.
+ */
+
+export const KDF_ALGORITHMS: readonly KdfAlgorithm[] = ['pbkdf2', 'scrypt', 'argon2id'];
+
+const KDF_IDS: Record<KdfAlgorithm, number> = {
+  pbkdf2: KDF_PBKDF2_SHA256_PARAMS,
+  scrypt: KDF_SCRYPT,
+  argon2id: KDF_ARGON2ID
+};
+
+const PARAMS_LENGTHS: Record<KdfAlgorithm, number> = {
+  pbkdf2: 5,
+  scrypt: 4,
+  argon2id: 7
+};
+
+const KEY_LENGTH = 32;
+
+// Bounds on cost parameters; parameters read from an image are untrusted, so they
+// also cap the time and memory a crafted payload can demand
+const MIN_PBKDF2_ITERATIONS = 1000;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+const MIN_SCRYPT_COST = 1 << 10;
+const MAX_SCRYPT_COST = 1 << 20;
+const MAX_SCRYPT_BLOCK_SIZE = 32;
+const MAX_PARALLELISM = 16;
+const MAX_ARGON2_ITERATIONS = 16;
+const MAX_KDF_MEMORY_KIB = 1024 * 1024;
+
+// Benchmark limits and starting costs
+export const MIN_BENCHMARK_TARGET_MS = 50;
+export const MAX_BENCHMARK_TARGET_MS = 2000;
+export const DEFAULT_BENCHMARK_TARGET_MS = 500;
+const BENCHMARK_PASSWORD = 'benchmark';
+const BENCHMARK_START: KdfParams[] = [
+  { algorithm: 'pbkdf2', iterations: 10000 },
+  { algorithm: 'scrypt', cost: 1 << 12, blockSize: 8, parallelization: 1 },
+  { algorithm: 'argon2id', iterations: 2, memory: 1024, parallelism: 1 }
+];
+
+/**
+ * Memory needed by scrypt in KiB
+ */
+function getScryptMemory(cost: number, blockSize: number, parallelization: number): number {
+  return (128 * blockSize * (cost + parallelization)) / 1024;
+}
+
+/**
+ * Check that a value is an integer within bounds
+ */
+function inRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate cost parameters
+ */
+export function assertKdfParams(params: KdfParams): void {
+  let valid: boolean;
+  switch (params.algorithm) {
+    case 'pbkdf2':
+      valid = inRange(params.iterations, MIN_PBKDF2_ITERATIONS, MAX_PBKDF2_ITERATIONS);
+      break;
+    case 'scrypt':
+      valid = inRange(params.cost, MIN_SCRYPT_COST, MAX_SCRYPT_COST) &&
+        (params.cost & (params.cost - 1)) === 0 &&
+        inRange(params.blockSize, 1, MAX_SCRYPT_BLOCK_SIZE) &&
+        inRange(params.parallelization, 1, MAX_PARALLELISM) &&
+        getScryptMemory(params.cost, params.blockSize, params.parallelization) <= MAX_KDF_MEMORY_KIB;
+      break;
+    case 'argon2id':
+      valid = inRange(params.iterations, 1, MAX_ARGON2_ITERATIONS) &&
+        inRange(params.parallelism, 1, MAX_PARALLELISM) &&
+        inRange(params.memory, 8 * params.parallelism, MAX_KDF_MEMORY_KIB);
+      break;
+    default:
+      valid = false;
+  }
+  if (!valid) {
+    throw new CodedError(`Invalid KDF parameters: ${JSON.stringify(params)}`, 'INVALID_KDF_PARAMETERS');
+  }
+}
+
+/**
+ * Check that parameters read from an image cost at most KDF_DECODE_COST_FACTOR times
+ * the configured parameters of their algorithm, in memory and in work, so that a
+ * crafted image cannot exhaust a worker's memory or hold it until the job timeout
+ */
+export function assertDecodeKdfParams(params: KdfParams): void {
+  const factor = config.kdfDecodeCostFactor;
+  let withinCost: boolean;
+  switch (params.algorithm) {
+    case 'pbkdf2':
+      withinCost = params.iterations <= factor * config.pbkdf2Iterations;
+      break;
+    case 'scrypt': {
+      const memory = getScryptMemory(params.cost, params.blockSize, params.parallelization);
+      const defaultMemory = getScryptMemory(config.scryptCost, config.scryptBlockSize, config.scryptParallelization);
+      withinCost = memory <= factor * defaultMemory &&
+        params.cost * params.blockSize * params.parallelization <=
+          factor * config.scryptCost * config.scryptBlockSize * config.scryptParallelization;
+      break;
+    }
+    case 'argon2id':
+      withinCost = params.memory <= factor * config.argon2Memory &&
+        params.memory * params.iterations <= factor * config.argon2Memory * config.argon2Iterations;
+      break;
+  }
+  if (!withinCost) {
+    throw new CodedError(
+      `KDF parameters exceed ${factor} times the configured cost: ${JSON.stringify(params)}`,
+      'KDF_COST_TOO_HIGH'
+    );
+  }
+}
+
+/**
+ * Get the configured cost parameters of a KDF
+ */
+export function getDefaultKdfParams(algorithm: KdfAlgorithm): KdfParams {
+  switch (algorithm) {
+    case 'pbkdf2':
+      return { algorithm, iterations: config.pbkdf2Iterations };
+    case 'scrypt':
+      return {
+        algorithm,
+        cost: config.scryptCost,
+        blockSize: config.scryptBlockSize,
+        parallelization: config.scryptParallelization
+      };
+    case 'argon2id':
+      return {
+        algorithm,
+        iterations: config.argon2Iterations,
+        memory: config.argon2Memory,
+        parallelism: config.argon2Parallelism
+      };
+  }
+}
+
+/**
+ * Resolve the KDF for a password-encrypted payload; the configured algorithm is
+ * used by default
+ */
+export function resolveKdf(options: EncodeOptions = {}): KdfParams {
+  const algorithm = (options.kdf ?? config.kdfAlgorithm) as KdfAlgorithm;
+  if (!KDF_ALGORITHMS.includes(algorithm)) {
+    throw new CodedError(
+      `Invalid kdf: ${algorithm}. Supported KDFs: ${KDF_ALGORITHMS.join(', ')}`,
+      'INVALID_OPTIONS'
+    );
+  }
+  const params = getDefaultKdfParams(algorithm);
+  assertKdfParams(params);
+  return params;
+}
+
+/**
+ * Get the KDF algorithm identified by a container KDF byte, if it is a password KDF
+ */
+export function getKdfAlgorithm(kdfId: number): KdfAlgorithm | undefined {
+  return (Object.keys(KDF_IDS) as KdfAlgorithm[]).find(algorithm => KDF_IDS[algorithm] === kdfId);
+}
+
+/**
+ * Get the container KDF byte of an algorithm
+ */
+export function getKdfId(algorithm: KdfAlgorithm): number {
+  return KDF_IDS[algorithm];
+}
+
+/**
+ * Get the length of the serialized parameters of an algorithm
+ */
+export function getKdfParamsLength(algorithm: KdfAlgorithm): number {
+  return PARAMS_LENGTHS[algorithm];
+}
+
+/**
+ * Serialize a KDF identifier and its cost parameters
+ */
+export function serializeKdfParams(params: KdfParams): Buffer {
+  const data = Buffer.alloc(PARAMS_LENGTHS[params.algorithm]);
+  data.writeUInt8(KDF_IDS[params.algorithm], 0);
+  switch (params.algorithm) {
+    case 'pbkdf2':
+      data.writeUInt32BE(params.iterations, 1);
+      break;
+    case 'scrypt':
+      data.writeUInt8(Math.log2(params.cost), 1);
+      data.writeUInt8(params.blockSize, 2);
+      data.writeUInt8(params.parallelization, 3);
+      break;
+    case 'argon2id':
+      data.writeUInt8(params.iterations, 1);
+      data.writeUInt32BE(params.memory, 2);
+      data.writeUInt8(params.parallelism, 6);
+      break;
+  }
+  return data;
+}
+
+/**
+ * Parse serialized KDF parameters read from an image from the start of a buffer
+ * Parameters costing more than the accepted multiple of the configured ones are refused.
+ */
+export function parseKdfParams(data: Buffer): { params: KdfParams; length: number } {
+  const algorithm = data.length > 0 ? getKdfAlgorithm(data.readUInt8(0)) : undefined;
+  if (!algorithm) {
+    throw new CodedError('Unsupported key derivation function', 'INVALID_KDF_PARAMETERS');
+  }
+  const length = PARAMS_LENGTHS[algorithm];
+  if (data.length < length) {
+    throw new CodedError('Encrypted payload is corrupted: truncated KDF parameters', 'PAYLOAD_CORRUPTED');
+  }
+
+  let params: KdfParams;
+  switch (algorithm) {
+    case 'pbkdf2':
+      params = { algorithm, iterations: data.readUInt32BE(1) };
+      break;
+    case 'scrypt':
+      // Shifting a 32-bit integer overflows beyond 2^30; larger costs are invalid anyway
+      params = {
+        algorithm,
+        cost: data.readUInt8(1) <= 30 ? 1 << data.readUInt8(1) : 0,
+        blockSize: data.readUInt8(2),
+        parallelization: data.readUInt8(3)
+      };
+      break;
+    case 'argon2id':
+      params = {
+        algorithm,
+        iterations: data.readUInt8(1),
+        memory: data.readUInt32BE(2),
+        parallelism: data.readUInt8(6)
+      };
+      break;
+  }
+  assertKdfParams(params);
+  assertDecodeKdfParams(params);
+  return { params, length };
+}
+
+/**
+ * Derive a 256-bit key from a password
+ */
+export function deriveKey(password: string, salt: Buffer, params: KdfParams): Buffer {
+  switch (params.algorithm) {
+    case 'pbkdf2':
+      return crypto.pbkdf2Sync(password, salt, params.iterations, KEY_LENGTH, 'sha256');
+    case 'scrypt':
+      return crypto.scryptSync(password, salt, KEY_LENGTH, {
+        N: params.cost,
+        r: params.blockSize,
+        p: params.parallelization,
+        // Node's 32 MiB default is below common costs; allow what the parameters need
+        maxmem: getScryptMemory(params.cost, params.blockSize, params.parallelization) * 1024 * 2
+      });
+    case 'argon2id':
+      return Buffer.from(argon2id(password, salt, {
+        t: params.iterations,
+        m: params.memory,
+        p: params.parallelism,
+        dkLen: KEY_LENGTH
+      }));
+  }
+}
+
+/**
+ * Double the cost of KDF parameters: the iterations of PBKDF2, the memory of
+ * scrypt and Argon2id
+ */
+function doubleCost(params: KdfParams): KdfParams {
+  switch (params.algorithm) {
+    case 'pbkdf2':
+      return { ...params, iterations: params.iterations * 2 };
+    case 'scrypt':
+      return { ...params, cost: params.cost * 2 };
+    case 'argon2id':
+      return { ...params, memory: params.memory * 2 };
+  }
+}
+
+/**
+ * Time one key derivation
+ */
+function timeDerivation(params: KdfParams): number {
+  const start = process.hrtime.bigint();
+  deriveKey(BENCHMARK_PASSWORD, crypto.randomBytes(KEY_LENGTH), params);
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+/**
+ * Measure each KDF on this host and suggest the strongest parameters that derive a
+ * key within the target time
+ *
+ * Costs double from a low starting point until the next step would overshoot the
+ * target, so each algorithm takes about twice the target at most. Derivation blocks
+ * the event loop while it runs.
+ */
+export function benchmarkKdf(targetMs: number = DEFAULT_BENCHMARK_TARGET_MS): KdfBenchmarkResult {
+  if (!Number.isFinite(targetMs) || targetMs < MIN_BENCHMARK_TARGET_MS || targetMs > MAX_BENCHMARK_TARGET_MS) {
+    throw new CodedError(
+      `Invalid targetMs: ${targetMs}. Must be between ${MIN_BENCHMARK_TARGET_MS} and ${MAX_BENCHMARK_TARGET_MS}`,
+      'INVALID_OPTIONS'
+    );
+  }
+
+  const suggestions = BENCHMARK_START.map(start => {
+    let params = start;
+    let best: KdfBenchmarkEntry = { params, durationMs: timeDerivation(params) };
+    while (best.durationMs * 2 <= targetMs) {
+      const next = doubleCost(params);
+      try {
+        assertKdfParams(next);
+      } catch {
+        break;
+      }
+      const durationMs = timeDerivation(next);
+      if (durationMs > targetMs) {
+        break;
+      }
+      params = next;
+      best = { params, durationMs };
+    }
+    return { params: best.params, durationMs: Math.round(best.durationMs) };
+  });
+
+  logger.info('KDF benchmark completed', {
+    targetMs,
+    suggestions: suggestions.map(entry => ({ ...entry.params, durationMs: entry.durationMs }))
+  });
+
+  return { targetMs, suggestions, current: resolveKdf() };
+}
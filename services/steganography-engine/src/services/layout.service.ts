@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { CodedError } from '../utils/errors';
+import { createPermutation } from '../utils/permutation.utils';
+import { findExtension, EXTENSION_LAYOUT } from './container.service';
+import { deriveKey, getKdfParamsLength, parseKdfParams, serializeKdfParams, KDF_ALGORITHMS } from './kdf.service';
+import { ContainerExtension, ContainerHeader, KdfParams, LayoutParams } from '../types';
+
+/*
+ * Keyed layout parameters:
+ *
+ *   salt (16) | KDF parameters, zero-padded to LAYOUT_KDF_PARAMS_BYTES
+ *
+ * The layout key is stretched with the same KDF as password encryption, so checking
+ * a key guess against the container magic and CRC costs a full key derivation.
+ */
+
+const LAYOUT_SALT_LENGTH = 16;
+const LAYOUT_KDF_PARAMS_BYTES = Math.max(...KDF_ALGORITHMS.map(getKdfParamsLength));
+export const LAYOUT_PARAMS_BYTES = LAYOUT_SALT_LENGTH + LAYOUT_KDF_PARAMS_BYTES;
+const LAYOUT_KEY_INFO = 'capnstegg-layout-v1';
+const SEED_LENGTH = 32;
+
+/**
+ * Generate a random salt for a keyed layout stretched with the given KDF
+ */
+export function createLayoutParams(kdf: KdfParams): LayoutParams {
+  return { salt: crypto.randomBytes(LAYOUT_SALT_LENGTH), kdf };
+}
+
+/**
+ * Serialize keyed layout parameters
+ */
+export function serializeLayoutParams(params: LayoutParams): Buffer {
+  const data = Buffer.alloc(LAYOUT_PARAMS_BYTES);
+  params.salt.copy(data, 0);
+  serializeKdfParams(params.kdf).copy(data, LAYOUT_SALT_LENGTH);
+  return data;
+}
+
+/**
+ * Parse keyed layout parameters
+ */
+export function parseLayoutParams(data: Buffer): LayoutParams {
+  if (data.length !== LAYOUT_PARAMS_BYTES) {
+    throw new CodedError('Hidden payload is corrupted: missing layout salt', 'PAYLOAD_CORRUPTED');
+  }
+  return {
+    salt: data.subarray(0, LAYOUT_SALT_LENGTH),
+    kdf: parseKdfParams(data.subarray(LAYOUT_SALT_LENGTH)).params
+  };
+}
+
+/**
+ * Wrap keyed layout parameters in a container extension
+ */
+export function createLayoutExtension(params: LayoutParams): ContainerExtension {
+  return {
+    tag: EXTENSION_LAYOUT,
+    value: serializeLayoutParams(params)
+  };
+}
+
+/**
+ * Read the keyed layout parameters from a container header
+ */
+export function readLayoutParams(header: ContainerHeader): LayoutParams {
+  const extension = findExtension(header, EXTENSION_LAYOUT);
+  if (!extension) {
+    throw new CodedError('Hidden payload is corrupted: missing layout salt', 'PAYLOAD_CORRUPTED');
+  }
+  return parseLayoutParams(extension.value);
+}
+
+/**
+ * Derive the slot permutation for a keyed layout from the key and layout parameters
+ * The key is stretched with the recorded KDF and the per-image salt, then expanded
+ * under a label of its own, so the seed is unrelated to the encryption key.
+ */
+export function createKeyedOrder(key: string, params: LayoutParams, slotCount: number): (index: number) => number {
+  const layoutKey = deriveKey(key, params.salt, params.kdf);
+  const seed = Buffer.from(crypto.hkdfSync('sha256', layoutKey, params.salt, LAYOUT_KEY_INFO, SEED_LENGTH));
+  return createPermutation(seed, slotCount);
+}
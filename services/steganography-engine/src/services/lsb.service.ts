@@ -0,0 +1,261 @@
+import Jimp from 'jimp';
+import { getLowBits, bytesToBinary, createBitReader, createBitWriter } from '../utils/bit.utils';
+import { CodedError } from '../utils/errors';
+import {
+  RGB_CHANNELS,
+  RGBA_CHANNELS,
+  MIN_BITS_PER_CHANNEL,
+  MAX_BITS_PER_CHANNEL,
+  DEFAULT_EMBEDDING_OPTIONS
+} from './validation.service';
+import { findExtension, EXTENSION_EMBEDDING } from './container.service';
+import { ContainerExtension, ContainerHeader, EmbeddingOptions } from '../types';
+
+const BYTES_PER_PIXEL = 4;
+const EMBEDDING_FLAG_ALPHA = 0x01;
+const MAX_PIXEL_VALUE = 255;
+
+/**
+ * Get the number of channels per pixel that carry payload bits
+ */
+export function getChannelCount(options: EmbeddingOptions): number {
+  return options.useAlpha ? RGBA_CHANNELS : RGB_CHANNELS;
+}
+
+/**
+ * Get the number of embedding slots (channels carrying bitsPerChannel bits each)
+ * from the start pixel to the end of the image
+ */
+export function getSlotCount(image: Jimp, options: EmbeddingOptions, startPixel: number = 0): number {
+  const pixels = image.getWidth() * image.getHeight() - startPixel;
+  return Math.max(0, pixels * getChannelCount(options));
+}
+
+/**
+ * Get the bitmap offset of an embedding slot
+ */
+function getSlotOffset(slot: number, channels: number, startPixel: number): number {
+  return (startPixel + Math.floor(slot / channels)) * BYTES_PER_PIXEL + (slot % channels);
+}
+
+/**
+ * Visit the bitmap offsets of the first slotCount slots from the start pixel, in
+ * raster order unless a keyed order is given; raster order stops at the end of the
+ * image. Returns the number of slots visited
+ */
+function forEachSlot(
+  image: Jimp,
+  slotCount: number,
+  channels: number,
+  startPixel: number,
+  order: ((index: number) => number) | undefined,
+  visit: (offset: number) => void
+): number {
+  if (order) {
+    for (let slot = 0; slot < slotCount; slot++) {
+      visit(getSlotOffset(order(slot), channels, startPixel));
+    }
+    return slotCount;
+  }
+
+  const end = image.bitmap.data.length;
+  let pixelOffset = startPixel * BYTES_PER_PIXEL;
+  let channel = 0;
+  let slot = 0;
+  for (; slot < slotCount && pixelOffset < end; slot++) {
+    visit(pixelOffset + channel);
+    if (++channel === channels) {
+      channel = 0;
+      pixelOffset += BYTES_PER_PIXEL;
+    }
+  }
+  return slot;
+}
+
+/**
+ * Embed the first bitCount bits of a byte array into the low bits of the image's
+ * channels, writing directly into the bitmap
+ */
+function embedBitstream(
+  image: Jimp,
+  data: Uint8Array,
+  bitCount: number,
+  options: EmbeddingOptions,
+  startPixel: number,
+  order?: (index: number) => number
+): void {
+  const pixels = image.bitmap.data;
+  const depth = options.bitsPerChannel;
+  const keep = ~((1 << depth) - 1) & 0xFF;
+  const reader = createBitReader(data);
+
+  // A final partial chunk is padded with zeros by the reader
+  forEachSlot(image, Math.ceil(bitCount / depth), getChannelCount(options), startPixel, order, offset => {
+    pixels[offset] = (pixels[offset] & keep) | reader.read(depth);
+  });
+}
+
+/**
+ * Extract bitCount bits from the low bits of the image's channels into a byte array,
+ * which is shorter when the image ends first
+ */
+function extractBitstream(
+  image: Jimp,
+  bitCount: number,
+  options: EmbeddingOptions,
+  startPixel: number,
+  order?: (index: number) => number
+): Uint8Array {
+  const pixels = image.bitmap.data;
+  const depth = options.bitsPerChannel;
+  const writer = createBitWriter(Math.ceil(bitCount / 8));
+
+  const slots = forEachSlot(image, Math.ceil(bitCount / depth), getChannelCount(options), startPixel, order, offset => {
+    writer.write(getLowBits(pixels[offset], depth), depth);
+  });
+
+  const bitsRead = Math.min(bitCount, slots * depth);
+  return bitsRead < bitCount ? writer.bytes.subarray(0, Math.floor(bitsRead / 8)) : writer.bytes;
+}
+
+/**
+ * Embed a binary string into the low bits of the image's channels, starting at the
+ * given pixel; slots are visited in raster order unless a keyed order is given
+ */
+export function embedBits(
+  image: Jimp,
+  bits: string,
+  options: EmbeddingOptions = DEFAULT_EMBEDDING_OPTIONS,
+  startPixel: number = 0,
+  order?: (index: number) => number
+): void {
+  const writer = createBitWriter(Math.ceil(bits.length / 8));
+  for (let i = 0; i < bits.length; i++) {
+    writer.write(bits.charCodeAt(i) - 48, 1);
+  }
+  embedBitstream(image, writer.bytes, bits.length, options, startPixel, order);
+}
+
+/**
+ * Extract bitCount bits from the low bits of the image's channels as a binary
+ * string, starting at the given pixel; slots are visited in raster order unless a
+ * keyed order is given
+ */
+export function extractBits(
+  image: Jimp,
+  bitCount: number,
+  options: EmbeddingOptions = DEFAULT_EMBEDDING_OPTIONS,
+  startPixel: number = 0,
+  order?: (index: number) => number
+): string {
+  const bytes = extractBitstream(image, bitCount, options, startPixel, order);
+  return bytesToBinary(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)).substring(0, bitCount);
+}
+
+/**
+ * Embed a byte buffer into the image
+ */
+export function embedBytes(
+  image: Jimp,
+  data: Buffer,
+  options: EmbeddingOptions = DEFAULT_EMBEDDING_OPTIONS,
+  startPixel: number = 0,
+  order?: (index: number) => number
+): void {
+  embedBitstream(image, data, data.length * 8, options, startPixel, order);
+}
+
+/**
+ * Extract byteCount bytes hidden in the image, stopping once they are read
+ */
+export function extractBytes(
+  image: Jimp,
+  byteCount: number,
+  options: EmbeddingOptions = DEFAULT_EMBEDDING_OPTIONS,
+  startPixel: number = 0,
+  order?: (index: number) => number
+): Buffer {
+  const bytes = extractBitstream(image, byteCount * 8, options, startPixel, order);
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Check whether embedding options match the defaults (no extension needed)
+ */
+export function isDefaultEmbedding(options: EmbeddingOptions): boolean {
+  return options.bitsPerChannel === DEFAULT_EMBEDDING_OPTIONS.bitsPerChannel &&
+    options.useAlpha === DEFAULT_EMBEDDING_OPTIONS.useAlpha;
+}
+
+/**
+ * Serialize embedding options as a container extension: bits per channel (1) + flags (1)
+ */
+export function toEmbeddingExtension(options: EmbeddingOptions): ContainerExtension {
+  return {
+    tag: EXTENSION_EMBEDDING,
+    value: Buffer.from([options.bitsPerChannel, options.useAlpha ? EMBEDDING_FLAG_ALPHA : 0])
+  };
+}
+
+/**
+ * Read embedding options from a container header, falling back to the defaults
+ */
+export function readEmbeddingOptions(header: ContainerHeader): EmbeddingOptions {
+  const extension = findExtension(header, EXTENSION_EMBEDDING);
+  if (!extension) {
+    return DEFAULT_EMBEDDING_OPTIONS;
+  }
+
+  const bitsPerChannel = extension.value.length >= 2 ? extension.value[0] : 0;
+  if (bitsPerChannel < MIN_BITS_PER_CHANNEL || bitsPerChannel > MAX_BITS_PER_CHANNEL) {
+    throw new CodedError('Hidden payload is corrupted: invalid embedding options', 'PAYLOAD_CORRUPTED');
+  }
+
+  return {
+    bitsPerChannel,
+    useAlpha: (extension.value[1] & EMBEDDING_FLAG_ALPHA) !== 0
+  };
+}
+
+/**
+ * Estimate the PSNR (in dB, over all RGBA channels) of an image whose payload
+ * channels are fully overwritten with random bits for each bit depth
+ * Returns the estimates keyed by bits per channel, for RGB-only and RGBA embedding
+ */
+export function estimatePsnr(image: Jimp): Record<number, { rgb: number; rgba: number }> {
+  const estimates: Record<number, { rgb: number; rgba: number }> = {};
+  const data = image.bitmap.data;
+  const sampleCount = (data.length / BYTES_PER_PIXEL) * RGBA_CHANNELS;
+
+  for (let depth = MIN_BITS_PER_CHANNEL; depth <= MAX_BITS_PER_CHANNEL; depth++) {
+    // Replacing the low bits (value a) with a uniform random value b gives an
+    // expected squared error of (a - mean(b))^2 + var(b)
+    const mean = ((1 << depth) - 1) / 2;
+    const variance = ((1 << (2 * depth)) - 1) / 12;
+    let rgbError = 0;
+    let alphaError = 0;
+
+    for (let idx = 0; idx < data.length; idx += BYTES_PER_PIXEL) {
+      for (let channel = 0; channel < RGB_CHANNELS; channel++) {
+        const offset = getLowBits(data[idx + channel], depth) - mean;
+        rgbError += offset * offset + variance;
+      }
+      const alphaOffset = getLowBits(data[idx + RGB_CHANNELS], depth) - mean;
+      alphaError += alphaOffset * alphaOffset + variance;
+    }
+
+    estimates[depth] = {
+      rgb: toPsnr(rgbError / sampleCount),
+      rgba: toPsnr((rgbError + alphaError) / sampleCount)
+    };
+  }
+
+  return estimates;
+}
+
+/**
+ * Convert a mean squared error to PSNR in dB, rounded to two decimals
+ */
+function toPsnr(mse: number): number {
+  return Math.round(10 * Math.log10((MAX_PIXEL_VALUE * MAX_PIXEL_VALUE) / mse) * 100) / 100;
+}
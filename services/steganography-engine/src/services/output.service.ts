@@ -0,0 +1,128 @@
+import Jimp from 'jimp';
+import { readPngChunks, writePngChunks, PngChunk } from '../utils/png.utils';
+import { readTiffTags, writeTiff, TiffTag } from '../utils/tiff.utils';
+import { CodedError } from '../utils/errors';
+import config from '../config';
+import logger from '../utils/logger';
+import { EmbeddingOptions, SupportedFormat } from '../types';
+
+// Content types and file extensions of encoded images
+export const OUTPUT_TYPES: Record<SupportedFormat, { mimeType: string; extension: string }> = {
+  png: { mimeType: 'image/png', extension: 'png' },
+  bmp: { mimeType: 'image/bmp', extension: 'bmp' },
+  tiff: { mimeType: 'image/tiff', extension: 'tiff' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' }
+};
+
+// PNG chunks copied from the input: text, ICC profile and physical pixel size
+const PRESERVED_PNG_CHUNKS = ['iCCP', 'pHYs', 'tEXt'];
+
+// TIFF tags copied from the input: descriptive text, resolution, orientation,
+// copyright, XMP, IPTC and the ICC profile
+const PRESERVED_TIFF_TAGS = new Set([
+  269, // DocumentName
+  270, // ImageDescription
+  271, // Make
+  272, // Model
+  274, // Orientation
+  282, // XResolution
+  283, // YResolution
+  285, // PageName
+  296, // ResolutionUnit
+  305, // Software
+  306, // DateTime
+  315, // Artist
+  316, // HostComputer
+  700, // XMP
+  33432, // Copyright
+  33723, // IPTC
+  34675 // ICC profile
+]);
+
+export interface SourceImage {
+  data: Buffer;
+  format: SupportedFormat;
+}
+
+/**
+ * Resolve the output format: the input format unless another one is requested
+ * Payloads embedded in pixels only survive lossless formats, so JPEG output is only
+ * available for JPEG input (which is embedded in DCT coefficients instead)
+ */
+export function resolveOutputFormat(
+  inputFormat: SupportedFormat,
+  embedding: EmbeddingOptions,
+  requested?: SupportedFormat
+): SupportedFormat {
+  if (requested !== undefined && !(config.supportedFormats as readonly string[]).includes(requested)) {
+    throw new CodedError(
+      `Invalid outputFormat: ${requested}. Supported formats: ${config.supportedFormats.join(', ')}`,
+      'INVALID_OPTIONS'
+    );
+  }
+
+  const outputFormat = requested ?? inputFormat;
+  if (outputFormat === 'jpeg' && inputFormat !== 'jpeg') {
+    throw new CodedError('JPEG output is only available for JPEG input images', 'INVALID_OPTIONS');
+  }
+  if (outputFormat === 'bmp' && embedding.useAlpha) {
+    throw new CodedError('BMP output has no alpha channel; useAlpha is not supported', 'INVALID_OPTIONS');
+  }
+  return outputFormat;
+}
+
+/**
+ * Read the metadata chunks worth keeping from a PNG
+ */
+function getPreservedPngChunks(data: Buffer): PngChunk[] {
+  return readPngChunks(data).filter(chunk => PRESERVED_PNG_CHUNKS.includes(chunk.type));
+}
+
+/**
+ * Read the metadata tags worth keeping from a TIFF
+ */
+function getPreservedTiffTags(data: Buffer): TiffTag[] {
+  return readTiffTags(data).filter(tag => PRESERVED_TIFF_TAGS.has(tag.tag));
+}
+
+/**
+ * Insert metadata chunks after IHDR, replacing chunks of the same type
+ */
+function insertPngChunks(png: Buffer, preserved: PngChunk[]): Buffer {
+  const preservedTypes = new Set(preserved.map(chunk => chunk.type));
+  const chunks = readPngChunks(png).filter(chunk => !preservedTypes.has(chunk.type));
+  chunks.splice(1, 0, ...preserved);
+  return writePngChunks(chunks);
+}
+
+/**
+ * Encode an image's pixels in a lossless format
+ * Metadata is copied from the source image when it has the same format
+ */
+export async function encodeBitmap(image: Jimp, format: SupportedFormat, source?: SourceImage): Promise<Buffer> {
+  const sameFormat = source?.format === format;
+
+  // Metadata is best effort: an unreadable source only loses its metadata
+  const readMetadata = <T>(read: (data: Buffer) => T[]): T[] => {
+    try {
+      return sameFormat ? read(source!.data) : [];
+    } catch (error) {
+      logger.warn('Could not read image metadata', { format, error: error instanceof Error ? error.message : error });
+      return [];
+    }
+  };
+
+  switch (format) {
+    case 'png': {
+      const preserved = readMetadata(getPreservedPngChunks);
+      const png = await image.getBufferAsync(Jimp.MIME_PNG);
+      return preserved.length > 0 ? insertPngChunks(png, preserved) : png;
+    }
+    case 'bmp':
+      return image.getBufferAsync(Jimp.MIME_BMP);
+    case 'tiff':
+      return writeTiff(image.bitmap.data, image.getWidth(), image.getHeight(), readMetadata(getPreservedTiffTags));
+    default:
+      throw new CodedError(`Cannot write pixel data as ${format}`, 'INVALID_OPTIONS');
+  }
+}
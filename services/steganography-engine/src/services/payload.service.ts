@@ -0,0 +1,104 @@
+import path from 'path';
+import { PayloadFile } from '../types';
+
+// Constants for the extended file header
+const FILENAME_LENGTH_BYTES = 2;
+const MIME_LENGTH_BYTES = 1;
+const MAX_FILENAME_BYTES = 0xFFFF;
+const MAX_MIME_BYTES = 0xFF;
+
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+export const DEFAULT_FILENAME = 'payload.bin';
+
+// type/subtype with optional parameters (RFC 6838 names, RFC 9110 parameters)
+const MIME_TOKEN = '[A-Za-z0-9][A-Za-z0-9!#$&^_.+-]{0,126}';
+const MIME_TYPE_PATTERN = new RegExp(
+  `^${MIME_TOKEN}/${MIME_TOKEN}(\\s*;\\s*${MIME_TOKEN}=(${MIME_TOKEN}|"[^"\\\\\\x00-\\x1F\\x7F]*"))*$`
+);
+
+/**
+ * Check whether a payload is a binary file rather than a text message
+ */
+export function isFilePayload(payload: string | PayloadFile): payload is PayloadFile {
+  return typeof payload !== 'string';
+}
+
+/**
+ * Strip directory components and control characters from a filename
+ */
+export function sanitizeFilename(filename: string): string {
+  const cleaned = Array.from(path.basename(filename.replace(/\\/g, '/')))
+    .filter(char => char.charCodeAt(0) >= 0x20 && char !== '\u007F' && char !== '"')
+    .join('');
+  return cleaned && cleaned !== '.' && cleaned !== '..' ? cleaned : DEFAULT_FILENAME;
+}
+
+/**
+ * Keep a MIME type read from an image only when it is well formed, so that it can be
+ * sent as a Content-Type header
+ */
+export function sanitizeMimeType(mimeType: string): string {
+  return MIME_TYPE_PATTERN.test(mimeType) ? mimeType : DEFAULT_MIME_TYPE;
+}
+
+/**
+ * Serialize a payload into the bytes that get embedded
+ * Text: UTF-8 bytes of the message
+ * File: extended header (filename length (2) + filename + MIME length (1) + MIME) + file bytes
+ */
+export function serializePayload(payload: string | PayloadFile): Buffer {
+  if (!isFilePayload(payload)) {
+    return Buffer.from(payload, 'utf8');
+  }
+
+  const filename = Buffer.from(sanitizeFilename(payload.filename), 'utf8');
+  const mimeType = Buffer.from(payload.mimeType || DEFAULT_MIME_TYPE, 'utf8');
+
+  if (filename.length > MAX_FILENAME_BYTES) {
+    throw new Error(`Filename too long. Maximum ${MAX_FILENAME_BYTES} bytes allowed`);
+  }
+  if (mimeType.length > MAX_MIME_BYTES) {
+    throw new Error(`MIME type too long. Maximum ${MAX_MIME_BYTES} bytes allowed`);
+  }
+
+  const filenameLength = Buffer.alloc(FILENAME_LENGTH_BYTES);
+  filenameLength.writeUInt16BE(filename.length, 0);
+  const mimeLength = Buffer.alloc(MIME_LENGTH_BYTES);
+  mimeLength.writeUInt8(mimeType.length, 0);
+
+  return Buffer.concat([filenameLength, filename, mimeLength, mimeType, payload.data]);
+}
+
+/**
+ * Parse the extended file header and return the original file
+ */
+export function deserializeFilePayload(data: Buffer): PayloadFile {
+  if (data.length < FILENAME_LENGTH_BYTES + MIME_LENGTH_BYTES) {
+    throw new Error('Invalid file payload: extended header is truncated');
+  }
+
+  let offset = 0;
+  const filenameLength = data.readUInt16BE(offset);
+  offset += FILENAME_LENGTH_BYTES;
+
+  if (offset + filenameLength + MIME_LENGTH_BYTES > data.length) {
+    throw new Error('Invalid file payload: extended header is truncated');
+  }
+  const filename = data.subarray(offset, offset + filenameLength).toString('utf8');
+  offset += filenameLength;
+
+  const mimeLength = data.readUInt8(offset);
+  offset += MIME_LENGTH_BYTES;
+
+  if (offset + mimeLength > data.length) {
+    throw new Error('Invalid file payload: extended header is truncated');
+  }
+  const mimeType = data.subarray(offset, offset + mimeLength).toString('utf8');
+  offset += mimeLength;
+
+  return {
+    data: data.subarray(offset),
+    filename: sanitizeFilename(filename),
+    mimeType: sanitizeMimeType(mimeType)
+  };
+}
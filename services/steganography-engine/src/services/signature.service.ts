@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { parseKey, getKeyFingerprint } from '../utils/keys.utils';
+import { CodedError } from '../utils/errors';
+import { findExtension, EXTENSION_SIGNATURE } from './container.service';
+import { ContainerExtension, ContainerHeader, SignatureVerification, TrustedKey } from '../types';
+import logger from '../utils/logger';
+
+/*
+ * Signature extension layout:
+ *
+ *   signed at (8, milliseconds since the epoch) | signer fingerprint (32) | signature (64)
+ *
+ * The Ed25519 signature covers a context string, the timestamp, the container flags
+ * and payload type, and the payload as stored in the container (after compression
+ * and encryption), so it can be checked before decrypting. The fingerprint is the
+ * SHA-256 of the signer's raw public key and selects the trusted key to verify with.
+ */
+
+const TIMESTAMP_BYTES = 8;
+const FINGERPRINT_BYTES = 32;
+const SIGNATURE_BYTES = 64;
+export const SIGNATURE_EXTENSION_BYTES = TIMESTAMP_BYTES + FINGERPRINT_BYTES + SIGNATURE_BYTES;
+// Latest time a Date can represent, in milliseconds since the epoch
+const MAX_TIMESTAMP_MS = BigInt(8.64e15);
+
+const SIGNATURE_CONTEXT = Buffer.from('CapnStegg payload signature v1', 'ascii');
+
+/**
+ * Build the message covered by a signature
+ */
+function getSignedMessage(signedAt: number, flags: number, payloadType: number, payload: Buffer): Buffer {
+  const fields = Buffer.alloc(TIMESTAMP_BYTES + 2);
+  fields.writeBigUInt64BE(BigInt(signedAt), 0);
+  fields.writeUInt8(flags, TIMESTAMP_BYTES);
+  fields.writeUInt8(payloadType, TIMESTAMP_BYTES + 1);
+  return Buffer.concat([SIGNATURE_CONTEXT, fields, payload]);
+}
+
+/**
+ * Parse an Ed25519 private signing key, failing early on malformed input
+ */
+export function parseSigningKey(signingKey: string): crypto.KeyObject {
+  return parseKey(signingKey, 'ed25519', 'private');
+}
+
+/**
+ * Get the hex fingerprint of the public key matching a signing key
+ */
+export function getSignerFingerprint(signingKey: crypto.KeyObject): string {
+  return getKeyFingerprint(signingKey).toString('hex');
+}
+
+/**
+ * Sign a container payload and its timestamp, returning the signature extension
+ */
+export function signPayload(
+  payload: Buffer,
+  flags: number,
+  payloadType: number,
+  signingKey: crypto.KeyObject,
+  signedAt: number = Date.now()
+): ContainerExtension {
+  const signature = crypto.sign(null, getSignedMessage(signedAt, flags, payloadType, payload), signingKey);
+
+  const value = Buffer.alloc(SIGNATURE_EXTENSION_BYTES);
+  value.writeBigUInt64BE(BigInt(signedAt), 0);
+  getKeyFingerprint(signingKey).copy(value, TIMESTAMP_BYTES);
+  signature.copy(value, TIMESTAMP_BYTES + FINGERPRINT_BYTES);
+  return { tag: EXTENSION_SIGNATURE, value };
+}
+
+/**
+ * Verify the signature of a container payload against trusted public keys
+ *
+ * Returns undefined for unsigned payloads. A payload signed by a key that is not
+ * trusted, or whose signature does not verify, is reported as invalid; the signer is
+ * the name of the matching trusted key, or the fingerprint when there is none.
+ */
+export function verifyPayloadSignature(
+  header: ContainerHeader,
+  payload: Buffer,
+  trustedKeys: TrustedKey[] = []
+): SignatureVerification | undefined {
+  const extension = findExtension(header, EXTENSION_SIGNATURE);
+  if (!extension) {
+    return undefined;
+  }
+  if (extension.value.length !== SIGNATURE_EXTENSION_BYTES) {
+    throw new CodedError('Hidden payload is corrupted: invalid signature record', 'PAYLOAD_CORRUPTED');
+  }
+
+  const timestamp = extension.value.readBigUInt64BE(0);
+  if (timestamp > MAX_TIMESTAMP_MS) {
+    throw new CodedError('Hidden payload is corrupted: invalid signature timestamp', 'PAYLOAD_CORRUPTED');
+  }
+  const signedAt = Number(timestamp);
+  const fingerprint = extension.value.subarray(TIMESTAMP_BYTES, TIMESTAMP_BYTES + FINGERPRINT_BYTES);
+  const signature = extension.value.subarray(TIMESTAMP_BYTES + FINGERPRINT_BYTES);
+
+  const trusted = trustedKeys
+    .map(trustedKey => ({ ...trustedKey, publicKey: parseKey(trustedKey.key, 'ed25519', 'public') }))
+    .find(trustedKey => getKeyFingerprint(trustedKey.publicKey).equals(fingerprint));
+
+  const signatureValid = !!trusted && crypto.verify(
+    null,
+    getSignedMessage(signedAt, header.flags, header.payloadType, payload),
+    trusted.publicKey,
+    signature
+  );
+  const result: SignatureVerification = {
+    signatureValid,
+    signer: trusted?.name ?? fingerprint.toString('hex'),
+    signedAt: new Date(signedAt).toISOString()
+  };
+
+  if (!signatureValid) {
+    logger.warn('Payload signature not verified', {
+      signer: result.signer,
+      trusted: !!trusted
+    });
+  }
+  return result;
+}
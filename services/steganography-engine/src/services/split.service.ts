@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import { crc32 } from '../utils/checksum.utils';
+import { CodedError } from '../utils/errors';
+import { splitSecret, combineShares } from '../utils/shamir.utils';
+import { preparePayload, embedPayload } from './encoder.service';
+import { extractPayload, openPayload } from './decoder.service';
+import { verifyPayloadSignature } from './signature.service';
+import { findExtension, EXTENSION_SHARE, CONTAINER_FLAG_MULTIPART } from './container.service';
+import { MIN_IMAGES, MAX_IMAGES } from './composite.service';
+import {
+  ContainerExtension,
+  ContainerHeader,
+  DecodedResult,
+  DecodeOptions,
+  EncodedResult,
+  EncodeOptions,
+  ExtractedPayload,
+  PayloadFile,
+  ShareInfo,
+  ShareScheme,
+  SplitResult
+} from '../types';
+import logger from '../utils/logger';
+
+/*
+ * Share extension layout:
+ *
+ *   set ID (16) | index (1) | total (1) | threshold (1) | scheme (1) | CRC-32 (4)
+ *
+ * For striped payloads the CRC-32 covers the whole (compressed and encrypted) payload,
+ * so a set reassembled from the wrong shares is detected. Shamir shares record zero:
+ * a checksum of the secret would let the holder of a single share test guesses of it
+ * offline. Their reconstruction is verified by the container CRC of each share and the
+ * authentication tag of encrypted payloads.
+ */
+
+const SET_ID_BYTES = 16;
+const SHARE_EXTENSION_BYTES = SET_ID_BYTES + 8;
+
+// Scheme identifiers stored in the share extension
+const SCHEME_IDS: Record<ShareScheme, number> = {
+  stripe: 1,
+  shamir: 2
+};
+
+interface ExtractedShare {
+  info: ShareInfo;
+  checksum: number;
+  extracted: ExtractedPayload;
+}
+
+/**
+ * Serialize share details as a container extension
+ */
+function toShareExtension(info: ShareInfo, checksum: number): ContainerExtension {
+  const value = Buffer.alloc(SHARE_EXTENSION_BYTES);
+  Buffer.from(info.setId, 'hex').copy(value, 0);
+  value.writeUInt8(info.index, SET_ID_BYTES);
+  value.writeUInt8(info.total, SET_ID_BYTES + 1);
+  value.writeUInt8(info.threshold, SET_ID_BYTES + 2);
+  value.writeUInt8(SCHEME_IDS[info.scheme], SET_ID_BYTES + 3);
+  value.writeUInt32BE(checksum, SET_ID_BYTES + 4);
+  return { tag: EXTENSION_SHARE, value };
+}
+
+/**
+ * Read share details from the header of a multi-part container
+ */
+function readShareInfo(header: ContainerHeader): { info: ShareInfo; checksum: number } {
+  const extension = findExtension(header, EXTENSION_SHARE);
+  if (!extension || extension.value.length !== SHARE_EXTENSION_BYTES) {
+    throw new CodedError('Hidden payload is corrupted: missing share details', 'PAYLOAD_CORRUPTED');
+  }
+
+  const value = extension.value;
+  const index = value.readUInt8(SET_ID_BYTES);
+  const total = value.readUInt8(SET_ID_BYTES + 1);
+  const threshold = value.readUInt8(SET_ID_BYTES + 2);
+  const scheme = (Object.keys(SCHEME_IDS) as ShareScheme[])
+    .find(name => SCHEME_IDS[name] === value.readUInt8(SET_ID_BYTES + 3));
+  if (!scheme || index < 1 || index > total || threshold < 1 || threshold > total) {
+    throw new CodedError('Hidden payload is corrupted: invalid share details', 'PAYLOAD_CORRUPTED');
+  }
+
+  return {
+    info: { setId: value.toString('hex', 0, SET_ID_BYTES), index, total, threshold, scheme },
+    checksum: value.readUInt32BE(SET_ID_BYTES + 4)
+  };
+}
+
+/**
+ * Validate the number of images and the threshold of a split
+ */
+function resolveThreshold(imageCount: number, threshold?: number): number | undefined {
+  if (imageCount < MIN_IMAGES) {
+    throw new CodedError(`At least ${MIN_IMAGES} images are required to split a payload`, 'INSUFFICIENT_IMAGES');
+  }
+  if (imageCount > MAX_IMAGES) {
+    throw new CodedError(`Maximum ${MAX_IMAGES} images allowed to split a payload`, 'TOO_MANY_IMAGES');
+  }
+  if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 2 || threshold > imageCount)) {
+    throw new CodedError(
+      `Invalid threshold: ${threshold}. Must be an integer between 2 and the number of images (${imageCount})`,
+      'INVALID_OPTIONS'
+    );
+  }
+  return threshold;
+}
+
+/**
+ * Split a message or binary file across several carrier images
+ *
+ * Without a threshold the payload is striped: each image holds a consecutive slice
+ * and all of them are needed. With a threshold k, each image holds a Shamir share
+ * the size of the whole payload and any k images reconstruct it.
+ */
+export async function encodeSplit(
+  imageBuffers: Buffer[],
+  payload: string | PayloadFile,
+  password?: string,
+  options: EncodeOptions = {},
+  threshold?: number
+): Promise<SplitResult> {
+  const resolvedThreshold = resolveThreshold(imageBuffers.length, threshold);
+  const total = imageBuffers.length;
+  const scheme: ShareScheme = resolvedThreshold !== undefined ? 'shamir' : 'stripe';
+  const setId = crypto.randomBytes(SET_ID_BYTES).toString('hex');
+
+  // The payload is compressed and encrypted once, then divided
+  const prepared = preparePayload(payload, password, options);
+  const checksum = scheme === 'shamir' ? 0 : crc32(prepared.data);
+  const parts = scheme === 'shamir'
+    ? splitSecret(prepared.data, total, resolvedThreshold!).map(share => share.data)
+    : imageBuffers.map((_, i) => prepared.data.subarray(
+      Math.floor((i * prepared.data.length) / total),
+      Math.floor(((i + 1) * prepared.data.length) / total)
+    ));
+
+  const shares: EncodedResult[] = [];
+  for (let i = 0; i < total; i++) {
+    const info: ShareInfo = { setId, index: i + 1, total, threshold: resolvedThreshold ?? total, scheme };
+    try {
+      shares.push(await embedPayload(
+        imageBuffers[i],
+        { ...prepared, data: parts[i] },
+        options,
+        password,
+        toShareExtension(info, checksum)
+      ));
+    } catch (error) {
+      const message = `Image ${i + 1}: ${error instanceof Error ? error.message : error}`;
+      throw error instanceof CodedError ? new CodedError(message, error.code, error.statusCode) : new Error(message);
+    }
+  }
+
+  logger.info('Split encoding completed', { setId, scheme, total, threshold: resolvedThreshold ?? total });
+
+  return { setId, scheme, total, threshold: resolvedThreshold ?? total, shares };
+}
+
+/**
+ * Reassemble a payload split across several images, given in any order
+ * Images that cannot be read are skipped as long as enough shares remain
+ */
+export async function decodeJoin(
+  imageBuffers: Buffer[],
+  password?: string,
+  options: DecodeOptions = {}
+): Promise<DecodedResult> {
+  const startTime = Date.now();
+  const shares = new Map<number, ExtractedShare>();
+  const failures: string[] = [];
+  let setId: string | undefined;
+
+  for (let i = 0; i < imageBuffers.length; i++) {
+    let share: ExtractedShare;
+    try {
+      const extracted = await extractPayload(imageBuffers[i], options.key || password);
+      if (!extracted.header || (extracted.header.flags & CONTAINER_FLAG_MULTIPART) === 0) {
+        throw new Error('Image does not hold part of a split payload');
+      }
+      share = { ...readShareInfo(extracted.header), extracted };
+    } catch (error) {
+      // A missing key or password applies to every share, so report it directly
+      if (error instanceof CodedError && error.code === 'KEY_REQUIRED') {
+        throw error;
+      }
+      failures.push(`image ${i + 1}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    if (setId !== undefined && share.info.setId !== setId) {
+      throw new CodedError('Images belong to different split payloads', 'SHARE_SET_MISMATCH');
+    }
+    setId = share.info.setId;
+    shares.set(share.info.index, share);
+  }
+
+  const first = shares.values().next().value as ExtractedShare | undefined;
+  const needed = first ? first.info.threshold : 0;
+  if (!first || shares.size < needed) {
+    const summary = first
+      ? `Not enough shares: ${shares.size} of the ${needed} required (set of ${first.info.total})`
+      : 'No shares of a split payload found';
+    throw new CodedError(
+      summary + (failures.length > 0 ? ` (${failures.join('; ')})` : ''),
+      'INSUFFICIENT_SHARES'
+    );
+  }
+  if (failures.length > 0) {
+    logger.warn('Skipped unreadable shares', { setId, failures });
+  }
+
+  const { info, checksum } = first;
+  const used = [...shares.keys()].sort((a, b) => a - b).slice(0, info.threshold);
+  const data = info.scheme === 'shamir'
+    ? combineShares(used.map(index => ({ x: index, data: shares.get(index)!.extracted.data })))
+    : Buffer.concat(used.map(index => shares.get(index)!.extracted.data));
+
+  if (info.scheme === 'stripe' && crc32(data) !== checksum) {
+    throw new CodedError('Reassembled payload is corrupted: checksum mismatch', 'PAYLOAD_CORRUPTED');
+  }
+
+  // Each share is signed on its own; the payload is authentic only if every share
+  // used verifies and all come from the same signer
+  const signatures = used.map(index => {
+    const { header, data: shareData } = shares.get(index)!.extracted;
+    return verifyPayloadSignature(header!, shareData, options.trustedKeys);
+  });
+
+  const correctedErrors = first.extracted.correctedErrors !== undefined
+    ? used.reduce((sum, index) => sum + (shares.get(index)!.extracted.correctedErrors ?? 0), 0)
+    : undefined;
+  const result = openPayload({ ...first.extracted, data, correctedErrors }, password, options, startTime);
+  result.metadata.shares = {
+    setId: info.setId,
+    scheme: info.scheme,
+    total: info.total,
+    threshold: info.threshold,
+    used
+  };
+  const signature = signatures[0];
+  if (signature) {
+    Object.assign(result.metadata, {
+      ...signature,
+      signatureValid: signatures.every(share => share?.signatureValid && share.signer === signature.signer)
+    });
+  }
+  return result;
+}
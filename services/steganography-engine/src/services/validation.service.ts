@@ -1,16 +1,36 @@
 import Jimp from 'jimp';
 import config from '../config';
 import logger from '../utils/logger';
+import { CodedError } from '../utils/errors';
+import { CONTAINER_HEADER_BYTES } from './container.service';
+import { EmbeddingLayout, EmbeddingOptions, EncodeOptions, ErrorCorrectionLevel, SupportedFormat } from '../types';
 
-// Constants for steganography header
 export const RGB_CHANNELS = 3;
+export const RGBA_CHANNELS = 4;
+
+// Constants for configurable embedding depth
+export const MIN_BITS_PER_CHANNEL = 1;
+export const MAX_BITS_PER_CHANNEL = 4;
+export const DEFAULT_EMBEDDING_OPTIONS: EmbeddingOptions = {
+  bitsPerChannel: 1,
+  useAlpha: false
+};
+export const EMBEDDING_LAYOUTS: readonly EmbeddingLayout[] = ['sequential', 'keyed'];
+
+export const ERROR_CORRECTION_LEVELS: readonly ErrorCorrectionLevel[] = ['none', 'low', 'medium', 'high'];
+
+// Constants for the legacy steganography header (length + flag byte, no container)
 export const MESSAGE_LENGTH_BITS = 32;
 export const ENCRYPTION_FLAG_BITS = 8;
 export const HEADER_BITS = MESSAGE_LENGTH_BITS + ENCRYPTION_FLAG_BITS;
 
+// Bits of the legacy flag byte that follows the message length
+export const LEGACY_FLAG_ENCRYPTED = 0x01;
+export const LEGACY_FLAG_BINARY = 0x02;
+
 export interface ValidationResult {
   valid: boolean;
-  format?: string;
+  format?: SupportedFormat;
   width?: number;
   height?: number;
   error?: string;
@@ -25,7 +45,7 @@ export async function validateImage(imageBuffer: Buffer): Promise<ValidationResu
     const mime = image.getMIME();
     
     // Map MIME type to our supported formats
-    let format: string;
+    let format: SupportedFormat;
     switch (mime) {
       case Jimp.MIME_PNG:
         format = 'png';
@@ -36,6 +56,9 @@ export async function validateImage(imageBuffer: Buffer): Promise<ValidationResu
       case Jimp.MIME_TIFF:
         format = 'tiff';
         break;
+      case Jimp.MIME_JPEG:
+        format = 'jpeg';
+        break;
       default:
         return {
           valid: false,
@@ -66,13 +89,76 @@ export async function validateImage(imageBuffer: Buffer): Promise<ValidationResu
   }
 }
 
+/**
+ * Resolve and validate embedding options, applying defaults
+ */
+export function resolveEmbeddingOptions(options: EncodeOptions = {}): EmbeddingOptions {
+  const bitsPerChannel = options.bitsPerChannel ?? DEFAULT_EMBEDDING_OPTIONS.bitsPerChannel;
+  
+  if (
+    !Number.isInteger(bitsPerChannel) ||
+    bitsPerChannel < MIN_BITS_PER_CHANNEL ||
+    bitsPerChannel > MAX_BITS_PER_CHANNEL
+  ) {
+    throw new CodedError(
+      `Invalid bitsPerChannel: ${bitsPerChannel}. Must be an integer between ${MIN_BITS_PER_CHANNEL} and ${MAX_BITS_PER_CHANNEL}`,
+      'INVALID_OPTIONS'
+    );
+  }
+  
+  return {
+    bitsPerChannel,
+    useAlpha: options.useAlpha ?? DEFAULT_EMBEDDING_OPTIONS.useAlpha
+  };
+}
+
+/**
+ * Resolve the embedding layout; supplying a key implies the keyed layout
+ */
+export function resolveLayout(options: EncodeOptions = {}): EmbeddingLayout {
+  if (options.layout !== undefined && !EMBEDDING_LAYOUTS.includes(options.layout)) {
+    throw new CodedError(
+      `Invalid layout: ${options.layout}. Supported layouts: ${EMBEDDING_LAYOUTS.join(', ')}`,
+      'INVALID_OPTIONS'
+    );
+  }
+  return options.layout ?? (options.key ? 'keyed' : 'sequential');
+}
+
+/**
+ * Resolve the error correction level; payloads are not protected by default
+ */
+export function resolveErrorCorrection(options: EncodeOptions = {}): ErrorCorrectionLevel {
+  if (options.errorCorrection !== undefined && !ERROR_CORRECTION_LEVELS.includes(options.errorCorrection)) {
+    throw new CodedError(
+      `Invalid errorCorrection: ${options.errorCorrection}. Supported levels: ${ERROR_CORRECTION_LEVELS.join(', ')}`,
+      'INVALID_OPTIONS'
+    );
+  }
+  return options.errorCorrection ?? 'none';
+}
+
+/**
+ * Get the number of pixels occupied by a header embedded at 1 bit per RGB channel
+ */
+export function getHeaderPixels(headerBytes: number): number {
+  return Math.ceil((headerBytes * 8) / RGB_CHANNELS);
+}
+
 /**
  * Calculate the maximum message capacity for an image
  */
-export function calculateCapacity(width: number, height: number): number {
-  // Each pixel has RGB_CHANNELS color channels, each can store 1 bit
-  // We reserve HEADER_BITS for message length and encryption flag
-  const totalBits = width * height * RGB_CHANNELS;
-  const availableBits = totalBits - HEADER_BITS;
-  return Math.floor(availableBits / 8); // Convert to bytes
+export function calculateCapacity(
+  width: number,
+  height: number,
+  options: EmbeddingOptions = DEFAULT_EMBEDDING_OPTIONS,
+  headerBytes: number = CONTAINER_HEADER_BYTES
+): number {
+  // The header is always stored at 1 bit per RGB channel so it can be read
+  // before the embedding options are known; the payload follows it using
+  // bitsPerChannel bits in each RGB (or RGBA) channel
+  const payloadPixels = width * height - getHeaderPixels(headerBytes);
+  const channels = options.useAlpha ? RGBA_CHANNELS : RGB_CHANNELS;
+  const availableBits = payloadPixels * channels * options.bitsPerChannel;
+  return Math.max(0, Math.floor(availableBits / 8)); // Convert to bytes
 }
@@ -0,0 +1,313 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { CodedError } from '../utils/errors';
+import { reviveBuffers, deserializeError, TaskRequest, WorkerMessage } from '../workers/protocol';
+import type { TaskArgs, TaskName, TaskResult } from '../workers/tasks';
+import { RunTaskOptions, WorkerPoolStats } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+
+/*
+ * In-process pool of worker threads running the CPU-bound tasks of the engine
+ *
+ * Jobs wait in a FIFO queue until a worker is free. Synchronous work cannot be
+ * interrupted, so a job that times out or is cancelled while running terminates its
+ * worker, which is then replaced. Workers are unreferenced: an idle pool does not
+ * keep the process alive.
+ */
+
+interface Job {
+  request: TaskRequest;
+  timeoutMs: number;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  detach: () => void;
+  onStart?: () => void;
+  onStage?: RunTaskOptions['onStage'];
+}
+
+interface PoolWorker {
+  worker: Worker;
+  // Set once the worker has loaded the services
+  ready: boolean;
+  job?: Job;
+  timer?: NodeJS.Timeout;
+}
+
+const workers: PoolWorker[] = [];
+const queue: Job[] = [];
+const counters = { completed: 0, failed: 0, timedOut: 0, cancelled: 0 };
+let running = false;
+let nextJobId = 1;
+
+/**
+ * Locate the worker entry point; from source (ts-node, ts-jest) the worker compiles
+ * TypeScript on the fly
+ */
+function getWorkerScript(): { filename: string; execArgv?: string[] } {
+  const extension = path.extname(__filename);
+  const filename = path.join(__dirname, '..', 'workers', `engine.worker${extension}`);
+  return extension === '.ts'
+    ? { filename, execArgv: ['--require', 'ts-node/register/transpile-only'] }
+    : { filename };
+}
+
+/**
+ * Get the configured number of workers
+ */
+function getPoolSize(): number {
+  return Math.max(1, config.workerPoolSize || 1);
+}
+
+/**
+ * Start a worker and add it to the pool
+ */
+function spawnWorker(): void {
+  const { filename, execArgv } = getWorkerScript();
+  const entry: PoolWorker = {
+    worker: new Worker(filename, { execArgv, resourceLimits: { maxOldGenerationSizeMb: config.workerMaxMemoryMb } }),
+    ready: false
+  };
+  entry.worker.unref();
+  entry.worker.on('message', (message: WorkerMessage) => handleMessage(entry, message));
+  entry.worker.on('error', error => handleFailure(entry, error));
+  entry.worker.on('exit', code => handleFailure(entry, new Error(`Worker exited with code ${code}`)));
+  workers.push(entry);
+}
+
+/**
+ * Remove a worker from the pool, terminate it and start a replacement
+ */
+function replaceWorker(entry: PoolWorker): void {
+  const index = workers.indexOf(entry);
+  if (index === -1) {
+    return;
+  }
+  workers.splice(index, 1);
+  clearTimeout(entry.timer);
+  void entry.worker.terminate();
+  if (running) {
+    spawnWorker();
+  }
+}
+
+/**
+ * Hand queued jobs to idle workers
+ */
+function dispatch(): void {
+  for (const entry of workers) {
+    if (queue.length === 0) {
+      return;
+    }
+    if (!entry.ready || entry.job) {
+      continue;
+    }
+    const job = queue.shift()!;
+    entry.job = job;
+    entry.timer = setTimeout(() => {
+      counters.timedOut++;
+      logger.warn('Worker job timed out', { jobId: job.request.id, task: job.request.task, timeoutMs: job.timeoutMs });
+      interruptJob(entry, new CodedError(`Job timed out after ${job.timeoutMs} ms`, 'JOB_TIMEOUT', 503));
+    }, job.timeoutMs);
+    entry.worker.postMessage(job.request);
+    job.onStart?.();
+  }
+}
+
+/**
+ * Settle the job of a worker
+ */
+function finishJob(entry: PoolWorker, settle: (job: Job) => void): void {
+  const job = entry.job;
+  if (!job) {
+    return;
+  }
+  clearTimeout(entry.timer);
+  entry.job = undefined;
+  job.detach();
+  settle(job);
+}
+
+/**
+ * Fail the running job of a worker and replace the worker, which may still be busy
+ */
+function interruptJob(entry: PoolWorker, error: Error): void {
+  finishJob(entry, job => job.reject(error));
+  replaceWorker(entry);
+  dispatch();
+}
+
+/**
+ * Handle a message from a worker
+ */
+function handleMessage(entry: PoolWorker, message: WorkerMessage): void {
+  // Stages only update the running job; the worker stays busy
+  if (message.type === 'stage') {
+    if (entry.job?.request.id === message.id) {
+      entry.job.onStage?.(message.stage);
+    }
+    return;
+  }
+
+  if (message.type === 'ready') {
+    entry.ready = true;
+  } else if (entry.job?.request.id === message.id) {
+    if (message.type === 'result') {
+      counters.completed++;
+      finishJob(entry, job => job.resolve(reviveBuffers(message.result)));
+    } else {
+      counters.failed++;
+      finishJob(entry, job => job.reject(deserializeError(message.error)));
+    }
+  }
+  dispatch();
+}
+
+/**
+ * Handle a worker that crashed or exited
+ * A worker failing before it is ready would fail again, so it is not replaced. A worker
+ * running out of memory only fails its job.
+ */
+function handleFailure(entry: PoolWorker, error: Error): void {
+  if (!workers.includes(entry)) {
+    return;
+  }
+  logger.error('Worker failed', { error: error.message, ready: entry.ready, jobId: entry.job?.request.id });
+
+  if (entry.job) {
+    counters.failed++;
+    const outOfMemory = (error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY';
+    finishJob(entry, job => job.reject(outOfMemory
+      ? new CodedError(`Job exceeded the worker memory limit of ${config.workerMaxMemoryMb} MB`, 'WORKER_OUT_OF_MEMORY', 503)
+      : new CodedError(`Worker failed: ${error.message}`, 'WORKER_FAILED', 500)));
+  }
+  if (entry.ready) {
+    replaceWorker(entry);
+    dispatch();
+    return;
+  }
+
+  workers.splice(workers.indexOf(entry), 1);
+  if (workers.length === 0) {
+    // Nothing can run the queue; the next job starts the pool again
+    running = false;
+    for (const job of queue.splice(0)) {
+      job.detach();
+      job.reject(new CodedError('No worker available to run the job', 'WORKER_UNAVAILABLE', 503));
+    }
+  }
+}
+
+/**
+ * Cancel a job, waiting or running
+ */
+function cancelJob(job: Job): void {
+  const error = new CodedError('Job cancelled', 'JOB_CANCELLED');
+  counters.cancelled++;
+
+  const index = queue.indexOf(job);
+  if (index !== -1) {
+    queue.splice(index, 1);
+    job.detach();
+    job.reject(error);
+    return;
+  }
+  const entry = workers.find(candidate => candidate.job === job);
+  if (entry) {
+    logger.info('Cancelling running worker job', { jobId: job.request.id, task: job.request.task });
+    interruptJob(entry, error);
+  }
+}
+
+/**
+ * Start the worker pool; it is otherwise started by the first job
+ */
+export function startWorkerPool(): void {
+  if (running) {
+    return;
+  }
+  running = true;
+  const size = getPoolSize();
+  for (let i = workers.length; i < size; i++) {
+    spawnWorker();
+  }
+  logger.info('Worker pool started', { size, queueLimit: config.workerQueueLimit });
+}
+
+/**
+ * Run a task on the worker pool
+ * Jobs beyond the queue limit are refused with QUEUE_FULL; jobs running longer than
+ * the timeout fail with JOB_TIMEOUT, and cancelled jobs with JOB_CANCELLED
+ */
+export function runTask<T extends TaskName>(
+  task: T,
+  args: TaskArgs<T>,
+  options: RunTaskOptions = {}
+): Promise<TaskResult<T>> {
+  const { signal } = options;
+  if (signal?.aborted) {
+    counters.cancelled++;
+    return Promise.reject(new CodedError('Job cancelled', 'JOB_CANCELLED'));
+  }
+  if (queue.length >= config.workerQueueLimit) {
+    return Promise.reject(new CodedError(
+      `Server busy: ${queue.length} jobs waiting. Please retry later.`,
+      'QUEUE_FULL',
+      503
+    ));
+  }
+  startWorkerPool();
+
+  return new Promise<TaskResult<T>>((resolve, reject) => {
+    const onAbort = () => cancelJob(job);
+    const job: Job = {
+      request: { id: nextJobId++, task, args },
+      timeoutMs: options.timeoutMs ?? config.workerJobTimeout,
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      detach: () => signal?.removeEventListener('abort', onAbort),
+      onStart: options.onStart,
+      onStage: options.onStage
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(job);
+    dispatch();
+  });
+}
+
+/**
+ * Report the size, load and job counts of the worker pool
+ */
+export function getWorkerPoolStats(): WorkerPoolStats {
+  const size = getPoolSize();
+  const busy = workers.filter(entry => entry.job).length;
+  return {
+    size,
+    running: workers.filter(entry => entry.ready).length,
+    busy,
+    queueDepth: queue.length,
+    queueLimit: config.workerQueueLimit,
+    utilization: Math.round((busy / size) * 100) / 100,
+    completedJobs: counters.completed,
+    failedJobs: counters.failed,
+    timedOutJobs: counters.timedOut,
+    cancelledJobs: counters.cancelled
+  };
+}
+
+/**
+ * Stop all workers, failing the jobs that are waiting or running
+ */
+export async function shutdownWorkerPool(): Promise<void> {
+  running = false;
+  const error = new CodedError('The worker pool is shutting down', 'WORKER_UNAVAILABLE', 503);
+  for (const job of queue.splice(0)) {
+    job.detach();
+    job.reject(error);
+  }
+  const stopping = workers.splice(0);
+  for (const entry of stopping) {
+    finishJob(entry, job => job.reject(error));
+  }
+  await Promise.all(stopping.map(entry => entry.worker.terminate()));
+}
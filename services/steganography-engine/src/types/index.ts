@@ -1,21 +1,83 @@
 export interface EncodedResult {
   image: Buffer;
-  format: string;
+  format: SupportedFormat;
   bytesUsed: number;
   capacity: number;
+  bitsPerChannel: number;
+  useAlpha: boolean;
+  layout: EmbeddingLayout;
+  originalSize: number;
+  compressedSize: number;
+  compression: CompressionCodec;
+  errorCorrection: ErrorCorrectionLevel;
+  kdf?: KdfAlgorithm;
+  // Fingerprint of the Ed25519 key that signed the payload
+  signer?: string;
+}
+
+export interface PreparedPayload {
+  data: Buffer;
+  encrypted: boolean;
+  encryption: EncryptionMode;
+  kdf?: KdfAlgorithm;
+  binary: boolean;
+  originalSize: number;
+  compressedSize: number;
+  compression: CompressionCodec;
+}
+
+export interface ExtractedPayload {
+  data: Buffer;
+  // Container header, absent for the legacy format
+  header?: ContainerHeader;
+  encrypted: boolean;
+  encryption: EncryptionMode;
+  binary: boolean;
+  containerVersion?: number;
+  embedding: EmbeddingOptions;
+  layout: EmbeddingLayout;
+  compression: CompressionCodec;
+  errorCorrection: ErrorCorrectionLevel;
+  correctedErrors?: number;
 }
 
 export interface DecodedResult {
-  message: string;
+  message?: string;
+  file?: PayloadFile;
   metadata: MessageMetadata;
 }
 
 export interface MessageMetadata {
   length: number;
   encrypted: boolean;
+  encryption?: EncryptionMode;
+  kdf?: KdfAlgorithm;
+  payloadType: PayloadType;
+  filename?: string;
+  mimeType?: string;
+  containerVersion?: number;
+  bitsPerChannel?: number;
+  useAlpha?: boolean;
+  layout?: EmbeddingLayout;
+  compression?: CompressionCodec;
+  errorCorrection?: ErrorCorrectionLevel;
+  correctedErrors?: number;
+  shares?: ShareSetMetadata;
+  // Present for signed payloads
+  signatureValid?: boolean;
+  signer?: string;
+  signedAt?: string;
   timestamp?: string;
 }
 
+export type PayloadType = 'text' | 'file';
+
+export interface PayloadFile {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
 export interface ServiceResponse<T> {
   success: boolean;
   data?: T;
@@ -35,12 +97,289 @@ export interface ResponseMetadata {
   service: string;
 }
 
-export type SupportedFormat = 'png' | 'bmp' | 'tiff';
+export type SupportedFormat = 'png' | 'bmp' | 'tiff' | 'jpeg';
 
 export interface CapacityInfo {
+  format: SupportedFormat;
   totalBytes: number;
   availableBytes: number;
   maxMessageLength: number;
+  estimatedTextLength: number;
+  bitsPerChannel: number;
+  useAlpha: boolean;
+  errorCorrection: ErrorCorrectionLevel;
+  settings: CapacitySetting[];
+}
+
+export interface CapacitySetting {
+  bitsPerChannel: number;
+  useAlpha: boolean;
+  availableBytes: number;
+  maxMessageLength: number;
+  estimatedTextLength: number;
+  estimatedPsnr: number;
+}
+
+export interface EmbeddingOptions {
+  bitsPerChannel: number;
+  useAlpha: boolean;
+}
+
+export type EmbeddingLayout = 'sequential' | 'keyed';
+
+export type CompressionCodec = 'none' | 'deflate' | 'brotli';
+
+export type ErrorCorrectionLevel = 'none' | 'low' | 'medium' | 'high';
+
+// Password-encrypted, or sealed for the holders of X25519 private keys
+export type EncryptionMode = 'none' | 'password' | 'recipient';
+
+export type KdfAlgorithm = 'pbkdf2' | 'scrypt' | 'argon2id';
+
+// Password key derivation function and its cost parameters
+export type KdfParams =
+  | { algorithm: 'pbkdf2'; iterations: number }
+  // cost is the scrypt CPU/memory cost N, a power of two
+  | { algorithm: 'scrypt'; cost: number; blockSize: number; parallelization: number }
+  // memory is in KiB
+  | { algorithm: 'argon2id'; iterations: number; memory: number; parallelism: number };
+
+// Per-image salt of a keyed layout and the KDF stretching its key
+export interface LayoutParams {
+  salt: Buffer;
+  kdf: KdfParams;
+}
+
+export interface KdfBenchmarkEntry {
+  params: KdfParams;
+  durationMs: number;
+}
+
+export interface KdfBenchmarkResult {
+  targetMs: number;
+  // Strongest measured parameters within the target, per algorithm
+  suggestions: KdfBenchmarkEntry[];
+  current: KdfParams;
+}
+
+export interface EncodeOptions {
+  bitsPerChannel?: number;
+  useAlpha?: boolean;
+  layout?: EmbeddingLayout;
+  key?: string;
+  outputFormat?: SupportedFormat;
+  errorCorrection?: ErrorCorrectionLevel;
+  // Password key derivation function, with the cost parameters configured for it
+  kdf?: KdfAlgorithm;
+  // X25519 public keys (PEM or base64 of the raw key) to seal the payload for
+  recipients?: string[];
+  // Ed25519 private key (PEM or base64 of the raw key) to sign the payload with
+  signingKey?: string;
+}
+
+export interface DecodeOptions {
+  key?: string;
+  // X25519 private key (PEM or base64 of the raw key) of a recipient
+  privateKey?: string;
+  // Ed25519 public keys trusted to sign payloads
+  trustedKeys?: TrustedKey[];
+}
+
+export interface TrustedKey {
+  // Ed25519 public key, PEM or base64 of the raw key
+  key: string;
+  // Name reported as the signer, e.g. from a keyring
+  name?: string;
+}
+
+export interface SignatureVerification {
+  signatureValid: boolean;
+  // Name of the trusted key, or the fingerprint of an unknown signer
+  signer: string;
+  signedAt: string;
+}
+
+export interface RunTaskOptions {
+  // Time limit once the job runs, defaulting to the configured job timeout
+  timeoutMs?: number;
+  // Cancels the job, whether waiting or running
+  signal?: AbortSignal;
+  // Called when a worker picks up the job
+  onStart?: () => void;
+  // Called with each stage the task reports while it runs
+  onStage?: (stage: OperationStage) => void;
+}
+
+export interface WorkerPoolStats {
+  size: number;
+  // Workers started and ready to take jobs
+  running: number;
+  busy: number;
+  queueDepth: number;
+  queueLimit: number;
+  // Share of the pool busy with a job, from 0 to 1
+  utilization: number;
+  completedJobs: number;
+  failedJobs: number;
+  timedOutJobs: number;
+  cancelledJobs: number;
+}
+
+export type BatchFileStatus = 'encoded' | 'skipped';
+
+export interface BatchManifestEntry {
+  // 1-based position of the carrier in the upload
+  index: number;
+  // Uploaded file name of the carrier
+  source: string;
+  status: BatchFileStatus;
+  // Name of the encoded image in the archive
+  file?: string;
+  result?: Omit<EncodedResult, 'image'>;
+  // Why the carrier was skipped
+  code?: string;
+  reason?: string;
+}
+
+export interface BatchManifest {
+  total: number;
+  encoded: number;
+  skipped: number;
+  files: BatchManifestEntry[];
+}
+
+export interface BatchCarrier {
+  data: Buffer;
+  filename: string;
+}
+
+export interface BatchResult {
+  // ZIP archive of the encoded images and manifest.json
+  archive: Buffer;
+  manifest: BatchManifest;
+}
+
+export type JobType = 'encode' | 'decode' | 'composite';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Stages reported by encode, decode and composite operations as they run
+export type OperationStage =
+  | 'preparing'
+  | 'loading'
+  | 'embedding'
+  | 'extracting'
+  | 'decrypting'
+  | 'compositing'
+  | 'writing';
+
+export type JobStage = 'queued' | OperationStage | 'done';
+
+export interface JobProgress {
+  // Last stage reached; a failed job keeps the stage it failed in
+  stage: JobStage;
+  // Percentage of the stages of the job type completed
+  percent: number;
+}
+
+export interface JobInfo {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progress: JobProgress;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // When the job and its result are discarded
+  expiresAt?: string;
+  error?: ServiceError;
+}
+
+export type ShareScheme = 'stripe' | 'shamir';
+
+export interface ShareInfo {
+  setId: string;
+  // 1-based position of the share in its set
+  index: number;
+  total: number;
+  threshold: number;
+  scheme: ShareScheme;
+}
+
+export interface SplitResult {
+  setId: string;
+  scheme: ShareScheme;
+  total: number;
+  threshold: number;
+  // One encoded image per carrier, in upload order
+  shares: EncodedResult[];
+}
+
+export interface SplitImage {
+  index: number;
+  filename: string;
+  mimeType: string;
+  bytesUsed: number;
+  capacity: number;
+  // Base64-encoded image
+  data: string;
+}
+
+export interface SplitResponse {
+  setId: string;
+  scheme: ShareScheme;
+  total: number;
+  threshold: number;
+  images: SplitImage[];
+}
+
+export interface ShareSetMetadata {
+  setId: string;
+  scheme: ShareScheme;
+  total: number;
+  threshold: number;
+  // Indices of the shares the payload was reconstructed from
+  used: number[];
+}
+
+export type AnalysisChannel = 'red' | 'green' | 'blue';
+
+export interface ChannelAnalysis {
+  channel: AnalysisChannel;
+  chiSquare: {
+    statistic: number;
+    // Probability that the value pairs were equalized by LSB replacement
+    probability: number;
+    // Share of the image (from the top) in which the test still detects embedding
+    estimatedRate: number;
+  };
+  rs: {
+    estimatedRate: number;
+    regular: number;
+    singular: number;
+    negativeRegular: number;
+    negativeSingular: number;
+  };
+  samplePairs: {
+    estimatedRate: number;
+  };
+  // Mean of the RS and sample pair estimates
+  estimatedRate: number;
+}
+
+export interface AnalysisResult {
+  format: SupportedFormat;
+  width: number;
+  height: number;
+  // Estimated share of colour channel LSBs carrying embedded data
+  estimatedRate: number;
+  estimatedPayloadBytes: number;
+  // 0-1 score that the image carries LSB-embedded data
+  confidence: number;
+  suspicious: boolean;
+  channels: ChannelAnalysis[];
+  // Base64-encoded PNG of the LSB plane, when requested
+  lsbPlane?: string;
 }
 
 export interface CompositeResult {
@@ -49,4 +388,93 @@ export interface CompositeResult {
   width: number;
   height: number;
   imagesUsed: number;
+  // Seed of the random transforms; the same seed, images and options give the same image
+  seed: string;
+  // Transform applied to each image, in upload order
+  layers: CompositeLayer[];
+}
+
+export interface CompositeResponse {
+  mimeType: string;
+  width: number;
+  height: number;
+  imagesUsed: number;
+  seed: string;
+  layers: CompositeLayer[];
+  // Base64-encoded image
+  data: string;
+}
+
+export interface EncodedCompositeResult {
+  image: Buffer;
+  composite: Omit<CompositeResult, 'image'>;
+  encoding: Omit<EncodedResult, 'image'>;
+}
+
+export interface EncodedCompositeResponse {
+  mimeType: string;
+  composite: Omit<CompositeResult, 'image'>;
+  encoding: Omit<EncodedResult, 'image'>;
+  // Base64-encoded image
+  data: string;
+}
+
+export type CompositeLayout = 'scatter' | 'grid' | 'mosaic' | 'horizontal' | 'vertical';
+
+// How images are scaled into their grid cell and the composite into the target size:
+// whole and centred (fit) or covering it and cropped (fill)
+export type CompositeFit = 'fit' | 'fill';
+
+// Random rotations of the scatter layout: quarter turns, any angle, or none
+export type CompositeRotation = 'quarter' | 'free' | 'none';
+
+export interface CompositeTransform {
+  // Counter-clockwise, in degrees; the rotated image keeps all its pixels
+  rotation: number;
+  // Top-left corner of the image on the canvas
+  x: number;
+  y: number;
+  // Jimp blend mode, e.g. srcOver or multiply
+  blendMode: string;
+  // From 0 to 1
+  opacity: number;
+}
+
+export interface CompositeLayer extends CompositeTransform {
+  // 1-based position of the image in the upload
+  index: number;
+  // Size of the rotated and scaled image on the canvas
+  width: number;
+  height: number;
+}
+
+export interface CompositeOptions {
+  seed?: string;
+  // Transform values pinned per image, in upload order; missing values are randomized
+  // (scatter layout) or follow the layout
+  transforms?: (Partial<CompositeTransform> | null)[];
+  layout?: CompositeLayout;
+  // Output size; with only one of them the other follows the aspect ratio of the layout
+  width?: number;
+  height?: number;
+  fit?: CompositeFit;
+  // Canvas colour as #RGB, #RRGGBB or #RRGGBBAA, or transparent
+  background?: string;
+  rotations?: CompositeRotation;
+}
+
+export interface ContainerHeader {
+  version: number;
+  flags: number;
+  kdf: number;
+  payloadType: number;
+  payloadLength: number;
+  checksum: number;
+  extensionLength: number;
+  extensions: ContainerExtension[];
+}
+
+export interface ContainerExtension {
+  tag: number;
+  value: Buffer;
 }
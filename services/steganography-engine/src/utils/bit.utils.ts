@@ -55,3 +55,94 @@ export function numberTo32BitBinary(num: number): string {
 export function binaryTo32BitNumber(binary: string): number {
   return parseInt(binary.slice(0, 32), 2);
 }
+
+/**
+ * Convert a byte buffer to binary string representation
+ */
+export function bytesToBinary(bytes: Buffer): string {
+  return Array.from(bytes)
+    .map(byte => byte.toString(2).padStart(8, '0'))
+    .join('');
+}
+
+/**
+ * Convert binary string to a byte buffer (trailing partial bytes are dropped)
+ */
+export function binaryToBytes(binary: string): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= binary.length; i += 8) {
+    bytes.push(parseInt(binary.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Get the lowest `count` bits from a byte
+ */
+export function getLowBits(byte: number, count: number): number {
+  return byte & ((1 << count) - 1);
+}
+
+/**
+ * Set the lowest `count` bits of a byte to the given value
+ */
+export function setLowBits(byte: number, value: number, count: number): number {
+  const mask = (1 << count) - 1;
+  return (byte & ~mask & 0xFF) | (value & mask);
+}
+
+/**
+ * Sequential reader of the bits of a byte array, most significant bit first
+ */
+export interface BitReader {
+  // Read the next count (1-8) bits; bits past the end of the data read as zeros
+  read(count: number): number;
+}
+
+/**
+ * Sequential writer of bits into a byte array, most significant bit first
+ */
+export interface BitWriter {
+  readonly bytes: Uint8Array;
+  // Write the low count (1-8) bits of value; bits past the end are dropped
+  write(value: number, count: number): void;
+}
+
+/**
+ * Create a reader over the bits of a byte array
+ * Up to 8 bits always fall within a 16-bit window of two neighbouring bytes
+ */
+export function createBitReader(data: Uint8Array): BitReader {
+  let position = 0;
+  return {
+    read(count: number): number {
+      const index = position >> 3;
+      const window = ((data[index] ?? 0) << 8) | (data[index + 1] ?? 0);
+      const value = (window >> (16 - (position & 7) - count)) & ((1 << count) - 1);
+      position += count;
+      return value;
+    }
+  };
+}
+
+/**
+ * Create a writer filling a zeroed array of byteCount bytes
+ */
+export function createBitWriter(byteCount: number): BitWriter {
+  const bytes = new Uint8Array(byteCount);
+  let position = 0;
+  return {
+    bytes,
+    write(value: number, count: number): void {
+      const index = position >> 3;
+      const window = (value & ((1 << count) - 1)) << (16 - (position & 7) - count);
+      if (index < byteCount) {
+        bytes[index] |= window >> 8;
+      }
+      if (index + 1 < byteCount) {
+        bytes[index + 1] |= window & 0xFF;
+      }
+      position += count;
+    }
+  };
+}
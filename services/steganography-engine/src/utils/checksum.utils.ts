@@ -0,0 +1,32 @@
+/**
+ * Checksum utilities for payload integrity verification
+ */
+
+// CRC-32 constants (IEEE 802.3 polynomial, as used by PNG and zlib)
+const CRC32_POLYNOMIAL = 0xEDB88320;
+const CRC_TABLE_SIZE = 256;
+
+const CRC32_TABLE: Uint32Array = (() => {
+  const table = new Uint32Array(CRC_TABLE_SIZE);
+  for (let n = 0; n < CRC_TABLE_SIZE; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? CRC32_POLYNOMIAL ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Calculate the CRC-32 of one or more buffers
+ */
+export function crc32(...buffers: Buffer[]): number {
+  let crc = 0xFFFFFFFF;
+  for (const data of buffers) {
+    for (let i = 0; i < data.length; i++) {
+      crc = (crc >>> 8) ^ CRC32_TABLE[(crc ^ data[i]) & 0xFF];
+    }
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
@@ -0,0 +1,13 @@
+/**
+ * Error carrying a machine-readable code for API error responses
+ */
+export class CodedError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'CodedError';
+  }
+}
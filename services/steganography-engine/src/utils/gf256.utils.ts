@@ -0,0 +1,44 @@
+/**
+ * Arithmetic in GF(256) with the primitive polynomial x^8 + x^4 + x^3 + x^2 + 1
+ * Addition and subtraction are XOR.
+ */
+
+const FIELD_SIZE = 256;
+const PRIMITIVE_POLYNOMIAL = 0x11D;
+const GROUP_ORDER = FIELD_SIZE - 1;
+
+const EXP = new Uint8Array(FIELD_SIZE * 2);
+const LOG = new Uint8Array(FIELD_SIZE);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < GROUP_ORDER; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & FIELD_SIZE) {
+      x ^= PRIMITIVE_POLYNOMIAL;
+    }
+  }
+  for (let i = GROUP_ORDER; i < EXP.length; i++) {
+    EXP[i] = EXP[i - GROUP_ORDER];
+  }
+})();
+
+export function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+export function gfDiv(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error('Division by zero in GF(256)');
+  }
+  return a === 0 ? 0 : EXP[(LOG[a] + GROUP_ORDER - LOG[b]) % GROUP_ORDER];
+}
+
+/**
+ * Raise the generator alpha to an integer (possibly negative) power
+ */
+export function gfPow(exponent: number): number {
+  return EXP[((exponent % GROUP_ORDER) + GROUP_ORDER) % GROUP_ORDER];
+}
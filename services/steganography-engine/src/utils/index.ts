@@ -1,2 +1,4 @@
 export * from './bit.utils';
+export * from './checksum.utils';
+export * from './errors';
 export { default as logger } from './logger';
@@ -0,0 +1,748 @@
+/**
+ * Baseline JPEG coefficient codec
+ *
+ * Decodes the Huffman-coded entropy data of a baseline JPEG into quantized DCT
+ * coefficients and writes them back without touching the quantization tables,
+ * so coefficients can be modified without the loss of a pixel round trip.
+ * Segments other than Huffman tables and restart intervals are copied verbatim;
+ * Huffman tables are regenerated (optimized) for the modified coefficients and
+ * restart markers are not written.
+ */
+
+import { CodedError } from './errors';
+
+export const BLOCK_SIZE = 64;
+
+// Marker codes
+const MARKER_SOI = 0xD8;
+const MARKER_EOI = 0xD9;
+const MARKER_SOS = 0xDA;
+const MARKER_DHT = 0xC4;
+const MARKER_DRI = 0xDD;
+const MARKER_SOF0 = 0xC0;
+const MARKER_SOF1 = 0xC1;
+const MARKER_RST0 = 0xD0;
+const MARKER_RST7 = 0xD7;
+const MARKER_TEM = 0x01;
+
+const HUFFMAN_CODE_LENGTHS = 16;
+const HUFFMAN_SYMBOLS = 256;
+
+export interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  // Blocks that cover the image (coded by every scan)
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // Blocks including MCU padding (coded by interleaved scans)
+  paddedBlocksPerLine: number;
+  paddedBlocksPerColumn: number;
+  // Quantized coefficients in zigzag order, 64 per block, padded blocks row by row
+  coefficients: Int16Array;
+}
+
+export interface JpegScan {
+  header: Buffer;
+  componentIndexes: number[];
+  dcTables: number[];
+  acTables: number[];
+}
+
+type JpegSegment = { marker: number; data: Buffer } | { scan: number };
+
+export interface JpegImage {
+  width: number;
+  height: number;
+  components: JpegComponent[];
+  quantTables: Map<number, Uint16Array>;
+  scans: JpegScan[];
+  segments: JpegSegment[];
+}
+
+interface HuffmanDecodeTable {
+  maxCode: Int32Array;
+  valPtr: Int32Array;
+  minCode: Int32Array;
+  symbols: Uint8Array;
+}
+
+interface HuffmanEncodeTable {
+  counts: number[];
+  symbols: number[];
+  codes: Int32Array;
+  sizes: Int32Array;
+}
+
+/**
+ * Check whether a buffer starts with the JPEG SOI marker
+ */
+export function isJpeg(data: Buffer): boolean {
+  return data.length >= 2 && data[0] === 0xFF && data[1] === MARKER_SOI;
+}
+
+function corrupted(detail: string): CodedError {
+  return new CodedError(`Invalid JPEG: ${detail}`, 'INVALID_IMAGE');
+}
+
+/**
+ * Build a decoding table from the code length counts and symbols of a DHT table
+ */
+function buildDecodeTable(counts: Uint8Array, symbols: Uint8Array): HuffmanDecodeTable {
+  const maxCode = new Int32Array(HUFFMAN_CODE_LENGTHS + 2).fill(-1);
+  const valPtr = new Int32Array(HUFFMAN_CODE_LENGTHS + 1);
+  const minCode = new Int32Array(HUFFMAN_CODE_LENGTHS + 1);
+  let code = 0;
+  let index = 0;
+
+  for (let length = 1; length <= HUFFMAN_CODE_LENGTHS; length++) {
+    const count = counts[length - 1];
+    valPtr[length] = index;
+    minCode[length] = code;
+    if (count > 0) {
+      code += count;
+      index += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+
+  return { maxCode, valPtr, minCode, symbols };
+}
+
+/**
+ * Visit the blocks of a scan in coding order
+ * onMcuEnd is called after each MCU with the number of MCUs coded so far
+ */
+function forEachScanBlock(
+  jpeg: JpegImage,
+  scan: JpegScan,
+  onBlock: (scanComponent: number, offset: number) => void,
+  onMcuEnd?: (mcuCount: number, mcuTotal: number) => void
+): void {
+  const components = scan.componentIndexes.map(index => jpeg.components[index]);
+
+  // A single-component scan is not interleaved: every block is an MCU
+  if (components.length === 1) {
+    const component = components[0];
+    const total = component.blocksPerLine * component.blocksPerColumn;
+    let count = 0;
+    for (let row = 0; row < component.blocksPerColumn; row++) {
+      for (let col = 0; col < component.blocksPerLine; col++) {
+        onBlock(0, (row * component.paddedBlocksPerLine + col) * BLOCK_SIZE);
+        onMcuEnd?.(++count, total);
+      }
+    }
+    return;
+  }
+
+  const maxH = Math.max(...jpeg.components.map(component => component.h));
+  const maxV = Math.max(...jpeg.components.map(component => component.v));
+  const mcusPerLine = Math.ceil(jpeg.width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(jpeg.height / (8 * maxV));
+  const total = mcusPerLine * mcusPerColumn;
+  let count = 0;
+
+  for (let mcuRow = 0; mcuRow < mcusPerColumn; mcuRow++) {
+    for (let mcuCol = 0; mcuCol < mcusPerLine; mcuCol++) {
+      components.forEach((component, scanComponent) => {
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            const row = mcuRow * component.v + v;
+            const col = mcuCol * component.h + h;
+            onBlock(scanComponent, (row * component.paddedBlocksPerLine + col) * BLOCK_SIZE);
+          }
+        }
+      });
+      onMcuEnd?.(++count, total);
+    }
+  }
+}
+
+/**
+ * Sign-extend a received value of the given bit size (JPEG EXTEND procedure)
+ */
+function extend(value: number, size: number): number {
+  return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+}
+
+/**
+ * Decode the entropy-coded data of a scan, returning the offset after it
+ */
+function decodeScan(
+  data: Buffer,
+  start: number,
+  jpeg: JpegImage,
+  scan: JpegScan,
+  dcTables: Map<number, HuffmanDecodeTable>,
+  acTables: Map<number, HuffmanDecodeTable>,
+  restartInterval: number
+): number {
+  let pos = start;
+  let bitBuffer = 0;
+  let bitsLeft = 0;
+
+  const readBit = (): number => {
+    if (bitsLeft === 0) {
+      if (pos >= data.length) {
+        throw corrupted('unexpected end of entropy-coded data');
+      }
+      bitBuffer = data[pos];
+      if (bitBuffer === 0xFF) {
+        const next = data[pos + 1];
+        if (next === 0x00) {
+          pos += 2;
+        } else {
+          // A marker ended the segment early; feed zeros as decoders conventionally do
+          bitBuffer = 0;
+        }
+      } else {
+        pos++;
+      }
+      bitsLeft = 8;
+    }
+    bitsLeft--;
+    return (bitBuffer >> bitsLeft) & 1;
+  };
+
+  const receive = (size: number): number => {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = (value << 1) | readBit();
+    }
+    return value;
+  };
+
+  const decodeSymbol = (table: HuffmanDecodeTable): number => {
+    let code = readBit();
+    for (let length = 1; length <= HUFFMAN_CODE_LENGTHS; length++) {
+      if (code <= table.maxCode[length]) {
+        return table.symbols[table.valPtr[length] + code - table.minCode[length]];
+      }
+      code = (code << 1) | readBit();
+    }
+    throw corrupted('invalid Huffman code');
+  };
+
+  const tables = scan.componentIndexes.map((_, i) => {
+    const dc = dcTables.get(scan.dcTables[i]);
+    const ac = acTables.get(scan.acTables[i]);
+    if (!dc || !ac) {
+      throw corrupted('scan references a missing Huffman table');
+    }
+    return { dc, ac };
+  });
+  const predictions = new Array<number>(scan.componentIndexes.length).fill(0);
+
+  forEachScanBlock(jpeg, scan, (scanComponent, offset) => {
+    const coefficients = jpeg.components[scan.componentIndexes[scanComponent]].coefficients;
+    const { dc, ac } = tables[scanComponent];
+
+    const dcSize = decodeSymbol(dc);
+    predictions[scanComponent] += dcSize === 0 ? 0 : extend(receive(dcSize), dcSize);
+    coefficients[offset] = predictions[scanComponent];
+
+    for (let k = 1; k < BLOCK_SIZE;) {
+      const symbol = decodeSymbol(ac);
+      const size = symbol & 0x0F;
+      const run = symbol >> 4;
+      if (size === 0) {
+        if (run !== 15) {
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k >= BLOCK_SIZE) {
+        throw corrupted('coefficient index out of range');
+      }
+      coefficients[offset + k] = extend(receive(size), size);
+      k++;
+    }
+  }, (mcuCount, mcuTotal) => {
+    if (!restartInterval || mcuCount % restartInterval !== 0 || mcuCount === mcuTotal) {
+      return;
+    }
+    // Skip to the restart marker and reset the decoder state
+    bitsLeft = 0;
+    while (pos < data.length && !(data[pos] === 0xFF && data[pos + 1] >= MARKER_RST0 && data[pos + 1] <= MARKER_RST7)) {
+      pos++;
+    }
+    pos += 2;
+    predictions.fill(0);
+  });
+
+  // Find the marker that ends the entropy-coded segment
+  while (pos < data.length - 1) {
+    const next = data[pos + 1];
+    if (data[pos] === 0xFF && next !== 0x00 && next !== 0xFF && !(next >= MARKER_RST0 && next <= MARKER_RST7)) {
+      break;
+    }
+    pos++;
+  }
+  return pos;
+}
+
+/**
+ * Parse a frame header (SOF0/SOF1)
+ */
+function parseFrame(segment: Buffer): Pick<JpegImage, 'width' | 'height' | 'components'> {
+  if (segment.length < 6 || segment[0] !== 8) {
+    throw new CodedError('Only 8-bit baseline JPEG images are supported', 'UNSUPPORTED_JPEG');
+  }
+  const height = segment.readUInt16BE(1);
+  const width = segment.readUInt16BE(3);
+  const componentCount = segment[5];
+  if (!width || !height || !componentCount || segment.length < 6 + componentCount * 3) {
+    throw corrupted('invalid frame header');
+  }
+
+  const raw = [];
+  for (let i = 0; i < componentCount; i++) {
+    const offset = 6 + i * 3;
+    raw.push({
+      id: segment[offset],
+      h: segment[offset + 1] >> 4,
+      v: segment[offset + 1] & 0x0F,
+      quantTable: segment[offset + 2]
+    });
+  }
+  if (raw.some(component => component.h < 1 || component.h > 4 || component.v < 1 || component.v > 4)) {
+    throw corrupted('invalid sampling factors');
+  }
+
+  const maxH = Math.max(...raw.map(component => component.h));
+  const maxV = Math.max(...raw.map(component => component.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+  const components = raw.map(component => {
+    const paddedBlocksPerLine = mcusPerLine * component.h;
+    const paddedBlocksPerColumn = mcusPerColumn * component.v;
+    return {
+      ...component,
+      blocksPerLine: Math.ceil(Math.ceil((width * component.h) / maxH) / 8),
+      blocksPerColumn: Math.ceil(Math.ceil((height * component.v) / maxV) / 8),
+      paddedBlocksPerLine,
+      paddedBlocksPerColumn,
+      coefficients: new Int16Array(paddedBlocksPerLine * paddedBlocksPerColumn * BLOCK_SIZE)
+    };
+  });
+
+  return { width, height, components };
+}
+
+/**
+ * Parse a DQT segment into the quantization table map
+ */
+function parseQuantTables(segment: Buffer, quantTables: Map<number, Uint16Array>): void {
+  let offset = 0;
+  while (offset < segment.length) {
+    const precision = segment[offset] >> 4;
+    const id = segment[offset] & 0x0F;
+    offset++;
+    const table = new Uint16Array(BLOCK_SIZE);
+    for (let k = 0; k < BLOCK_SIZE; k++) {
+      table[k] = precision ? segment.readUInt16BE(offset + k * 2) : segment[offset + k];
+    }
+    offset += BLOCK_SIZE * (precision ? 2 : 1);
+    quantTables.set(id, table);
+  }
+}
+
+/**
+ * Parse a DHT segment into the decoding table maps
+ */
+function parseHuffmanTables(
+  segment: Buffer,
+  dcTables: Map<number, HuffmanDecodeTable>,
+  acTables: Map<number, HuffmanDecodeTable>
+): void {
+  let offset = 0;
+  while (offset < segment.length) {
+    const tableClass = segment[offset] >> 4;
+    const id = segment[offset] & 0x0F;
+    const counts = segment.subarray(offset + 1, offset + 1 + HUFFMAN_CODE_LENGTHS);
+    const symbolCount = counts.reduce((sum, count) => sum + count, 0);
+    offset += 1 + HUFFMAN_CODE_LENGTHS;
+    if (counts.length < HUFFMAN_CODE_LENGTHS || offset + symbolCount > segment.length) {
+      throw corrupted('truncated Huffman table');
+    }
+    const table = buildDecodeTable(Uint8Array.from(counts), Uint8Array.from(segment.subarray(offset, offset + symbolCount)));
+    (tableClass === 0 ? dcTables : acTables).set(id, table);
+    offset += symbolCount;
+  }
+}
+
+/**
+ * Parse a scan header (SOS)
+ */
+function parseScanHeader(segment: Buffer, jpeg: JpegImage): JpegScan {
+  const componentCount = segment[0];
+  if (!componentCount || segment.length < 1 + componentCount * 2 + 3) {
+    throw corrupted('invalid scan header');
+  }
+
+  const scan: JpegScan = { header: segment, componentIndexes: [], dcTables: [], acTables: [] };
+  for (let i = 0; i < componentCount; i++) {
+    const id = segment[1 + i * 2];
+    const index = jpeg.components.findIndex(component => component.id === id);
+    if (index < 0) {
+      throw corrupted('scan references an unknown component');
+    }
+    scan.componentIndexes.push(index);
+    scan.dcTables.push(segment[2 + i * 2] >> 4);
+    scan.acTables.push(segment[2 + i * 2] & 0x0F);
+  }
+  return scan;
+}
+
+/**
+ * Decode a baseline JPEG into its quantized DCT coefficients
+ */
+export function parseJpeg(data: Buffer): JpegImage {
+  if (!isJpeg(data)) {
+    throw corrupted('missing start of image marker');
+  }
+
+  let jpeg: JpegImage | undefined;
+  const quantTables = new Map<number, Uint16Array>();
+  const dcTables = new Map<number, HuffmanDecodeTable>();
+  const acTables = new Map<number, HuffmanDecodeTable>();
+  const pending: JpegSegment[] = [];
+  let restartInterval = 0;
+  let pos = 2;
+
+  while (pos < data.length) {
+    if (data[pos] !== 0xFF) {
+      throw corrupted('expected a marker');
+    }
+    // Skip fill bytes
+    while (data[pos + 1] === 0xFF) {
+      pos++;
+    }
+    const marker = data[pos + 1];
+    pos += 2;
+
+    if (marker === MARKER_EOI) {
+      break;
+    }
+    if ((marker >= MARKER_RST0 && marker <= MARKER_RST7) || marker === MARKER_TEM) {
+      continue;
+    }
+
+    if (pos + 2 > data.length) {
+      throw corrupted('truncated segment');
+    }
+    const length = data.readUInt16BE(pos);
+    if (length < 2 || pos + length > data.length) {
+      throw corrupted('truncated segment');
+    }
+    const segment = data.subarray(pos + 2, pos + length);
+    pos += length;
+
+    switch (marker) {
+      case MARKER_SOF0:
+      case MARKER_SOF1:
+        if (jpeg) {
+          throw corrupted('multiple frames');
+        }
+        jpeg = { ...parseFrame(segment), quantTables, scans: [], segments: pending };
+        pending.push({ marker, data: segment });
+        break;
+      case MARKER_DHT:
+        parseHuffmanTables(segment, dcTables, acTables);
+        break;
+      case MARKER_DRI:
+        restartInterval = segment.readUInt16BE(0);
+        break;
+      case MARKER_SOS: {
+        if (!jpeg) {
+          throw corrupted('scan before frame header');
+        }
+        const scan = parseScanHeader(segment, jpeg);
+        pos = decodeScan(data, pos, jpeg, scan, dcTables, acTables, restartInterval);
+        pending.push({ scan: jpeg.scans.length });
+        jpeg.scans.push(scan);
+        break;
+      }
+      default:
+        // Other start-of-frame markers (progressive, lossless, arithmetic coding)
+        if (marker >= 0xC2 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+          throw new CodedError(
+            'Only baseline JPEG images are supported (progressive and arithmetic-coded JPEGs are not)',
+            'UNSUPPORTED_JPEG'
+          );
+        }
+        if (marker === 0xDB) {
+          parseQuantTables(segment, quantTables);
+        }
+        pending.push({ marker, data: segment });
+    }
+  }
+
+  if (!jpeg || jpeg.scans.length === 0) {
+    throw corrupted('no image data');
+  }
+  return jpeg;
+}
+
+/**
+ * Get the magnitude category (number of bits) of a coefficient value
+ */
+function getCategory(value: number): number {
+  let magnitude = value < 0 ? -value : value;
+  let category = 0;
+  while (magnitude) {
+    category++;
+    magnitude >>= 1;
+  }
+  return category;
+}
+
+/**
+ * Build an optimal length-limited Huffman table from symbol frequencies (ITU T.81 Annex K.2)
+ */
+function buildEncodeTable(frequencies: Int32Array): HuffmanEncodeTable {
+  const freq = new Int32Array(HUFFMAN_SYMBOLS + 1);
+  freq.set(frequencies);
+  // Reserve one code point so no symbol is assigned the all-ones code
+  freq[HUFFMAN_SYMBOLS] = 1;
+
+  const codeSize = new Int32Array(HUFFMAN_SYMBOLS + 1);
+  const others = new Int32Array(HUFFMAN_SYMBOLS + 1).fill(-1);
+
+  for (;;) {
+    let v1 = -1;
+    let v2 = -1;
+    for (let i = 0; i <= HUFFMAN_SYMBOLS; i++) {
+      if (freq[i] && (v1 < 0 || freq[i] <= freq[v1])) {
+        v1 = i;
+      }
+    }
+    for (let i = 0; i <= HUFFMAN_SYMBOLS; i++) {
+      if (freq[i] && i !== v1 && (v2 < 0 || freq[i] <= freq[v2])) {
+        v2 = i;
+      }
+    }
+    if (v2 < 0) {
+      break;
+    }
+
+    freq[v1] += freq[v2];
+    freq[v2] = 0;
+    codeSize[v1]++;
+    while (others[v1] >= 0) {
+      v1 = others[v1];
+      codeSize[v1]++;
+    }
+    others[v1] = v2;
+    codeSize[v2]++;
+    while (others[v2] >= 0) {
+      v2 = others[v2];
+      codeSize[v2]++;
+    }
+  }
+
+  const bits = new Int32Array(33);
+  for (let i = 0; i <= HUFFMAN_SYMBOLS; i++) {
+    if (codeSize[i]) {
+      bits[codeSize[i]]++;
+    }
+  }
+
+  // Limit code lengths to 16 bits
+  for (let i = 32; i > HUFFMAN_CODE_LENGTHS; i--) {
+    while (bits[i] > 0) {
+      let j = i - 2;
+      while (bits[j] === 0) {
+        j--;
+      }
+      bits[i] -= 2;
+      bits[i - 1]++;
+      bits[j + 1] += 2;
+      bits[j]--;
+    }
+  }
+  // Remove the reserved code point
+  let longest = HUFFMAN_CODE_LENGTHS;
+  while (bits[longest] === 0) {
+    longest--;
+  }
+  bits[longest]--;
+
+  const symbols: number[] = [];
+  for (let size = 1; size <= 32; size++) {
+    for (let symbol = 0; symbol < HUFFMAN_SYMBOLS; symbol++) {
+      if (codeSize[symbol] === size) {
+        symbols.push(symbol);
+      }
+    }
+  }
+
+  const counts = Array.from(bits.subarray(1, HUFFMAN_CODE_LENGTHS + 1));
+  const codes = new Int32Array(HUFFMAN_SYMBOLS);
+  const sizes = new Int32Array(HUFFMAN_SYMBOLS);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= HUFFMAN_CODE_LENGTHS; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[symbols[index]] = code;
+      sizes[symbols[index]] = length;
+      code++;
+      index++;
+    }
+    code <<= 1;
+  }
+
+  return { counts, symbols, codes, sizes };
+}
+
+/**
+ * Growable byte buffer with a bit writer for entropy-coded data
+ */
+function createBitWriter(initialSize: number) {
+  let bytes = Buffer.alloc(Math.max(initialSize, 1024));
+  let length = 0;
+  let accumulator = 0;
+  let bitCount = 0;
+
+  const pushByte = (byte: number): void => {
+    if (length === bytes.length) {
+      const grown = Buffer.alloc(bytes.length * 2);
+      bytes.copy(grown);
+      bytes = grown;
+    }
+    bytes[length++] = byte;
+  };
+
+  return {
+    write(value: number, size: number): void {
+      accumulator = (accumulator << size) | (value & ((1 << size) - 1));
+      bitCount += size;
+      while (bitCount >= 8) {
+        const byte = (accumulator >> (bitCount - 8)) & 0xFF;
+        pushByte(byte);
+        // Byte stuffing: a 0xFF data byte is followed by 0x00
+        if (byte === 0xFF) {
+          pushByte(0x00);
+        }
+        bitCount -= 8;
+        accumulator &= (1 << bitCount) - 1;
+      }
+    },
+    // Pad the final byte with one bits
+    finish(): Buffer {
+      if (bitCount > 0) {
+        this.write((1 << (8 - bitCount)) - 1, 8 - bitCount);
+      }
+      return bytes.subarray(0, length);
+    }
+  };
+}
+
+/**
+ * Encode a marker segment
+ */
+function encodeSegment(marker: number, data: Buffer): Buffer {
+  const header = Buffer.from([0xFF, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Encode a scan with Huffman tables optimized for its coefficients
+ */
+function encodeScan(jpeg: JpegImage, scan: JpegScan): Buffer {
+  const dcFrequencies = new Map<number, Int32Array>();
+  const acFrequencies = new Map<number, Int32Array>();
+  for (let i = 0; i < scan.componentIndexes.length; i++) {
+    dcFrequencies.set(scan.dcTables[i], dcFrequencies.get(scan.dcTables[i]) ?? new Int32Array(HUFFMAN_SYMBOLS));
+    acFrequencies.set(scan.acTables[i], acFrequencies.get(scan.acTables[i]) ?? new Int32Array(HUFFMAN_SYMBOLS));
+  }
+
+  // Walk the scan twice: once to gather symbol statistics, then to emit the coded data
+  const walk = (emit: (table: 'dc' | 'ac', scanComponent: number, symbol: number, value: number, size: number) => void) => {
+    const predictions = new Array<number>(scan.componentIndexes.length).fill(0);
+    forEachScanBlock(jpeg, scan, (scanComponent, offset) => {
+      const coefficients = jpeg.components[scan.componentIndexes[scanComponent]].coefficients;
+
+      const diff = coefficients[offset] - predictions[scanComponent];
+      predictions[scanComponent] = coefficients[offset];
+      const dcSize = getCategory(diff);
+      emit('dc', scanComponent, dcSize, diff < 0 ? diff - 1 : diff, dcSize);
+
+      let run = 0;
+      for (let k = 1; k < BLOCK_SIZE; k++) {
+        const value = coefficients[offset + k];
+        if (value === 0) {
+          run++;
+          continue;
+        }
+        while (run > 15) {
+          emit('ac', scanComponent, 0xF0, 0, 0);
+          run -= 16;
+        }
+        const size = getCategory(value);
+        emit('ac', scanComponent, (run << 4) | size, value < 0 ? value - 1 : value, size);
+        run = 0;
+      }
+      if (run > 0) {
+        emit('ac', scanComponent, 0x00, 0, 0);
+      }
+    });
+  };
+
+  walk((table, scanComponent, symbol) => {
+    const frequencies = table === 'dc'
+      ? dcFrequencies.get(scan.dcTables[scanComponent])!
+      : acFrequencies.get(scan.acTables[scanComponent])!;
+    frequencies[symbol]++;
+  });
+
+  const dcEncoders = new Map<number, HuffmanEncodeTable>();
+  const acEncoders = new Map<number, HuffmanEncodeTable>();
+  const tableSegments: Buffer[] = [];
+  for (const [tableClass, frequencyMap, encoders] of [
+    [0, dcFrequencies, dcEncoders],
+    [1, acFrequencies, acEncoders]
+  ] as const) {
+    for (const [id, frequencies] of frequencyMap) {
+      const table = buildEncodeTable(frequencies);
+      encoders.set(id, table);
+      tableSegments.push(Buffer.from([(tableClass << 4) | id, ...table.counts, ...table.symbols]));
+    }
+  }
+
+  const estimatedSize = jpeg.components.reduce((sum, component) => sum + component.coefficients.length, 0) / 4;
+  const writer = createBitWriter(estimatedSize);
+  walk((table, scanComponent, symbol, value, size) => {
+    const encoder = table === 'dc'
+      ? dcEncoders.get(scan.dcTables[scanComponent])!
+      : acEncoders.get(scan.acTables[scanComponent])!;
+    writer.write(encoder.codes[symbol], encoder.sizes[symbol]);
+    if (size) {
+      writer.write(value, size);
+    }
+  });
+
+  return Buffer.concat([
+    encodeSegment(MARKER_DHT, Buffer.concat(tableSegments)),
+    encodeSegment(MARKER_SOS, scan.header),
+    writer.finish()
+  ]);
+}
+
+/**
+ * Encode a parsed JPEG (with possibly modified coefficients) back into a JPEG file
+ */
+export function writeJpeg(jpeg: JpegImage): Buffer {
+  const parts: Buffer[] = [Buffer.from([0xFF, MARKER_SOI])];
+  for (const segment of jpeg.segments) {
+    parts.push('scan' in segment ? encodeScan(jpeg, jpeg.scans[segment.scan]) : encodeSegment(segment.marker, segment.data));
+  }
+  parts.push(Buffer.from([0xFF, MARKER_EOI]));
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,81 @@
+/**
+ * Parsing of Curve25519 keys supplied by API clients
+ *
+ * Keys are accepted as PEM (SPKI public keys, PKCS#8 private keys) or as the base64
+ * encoding of the raw 32-byte key.
+ */
+
+import crypto from 'crypto';
+import { CodedError } from './errors';
+
+export type KeyAlgorithm = 'x25519' | 'ed25519';
+
+export const RAW_KEY_LENGTH = 32;
+
+const KEY_NAMES: Record<KeyAlgorithm, string> = {
+  x25519: 'X25519',
+  ed25519: 'Ed25519'
+};
+
+// DER prefixes turning raw keys into SPKI and PKCS#8 structures
+const SPKI_PREFIXES: Record<KeyAlgorithm, Buffer> = {
+  x25519: Buffer.from('302a300506032b656e032100', 'hex'),
+  ed25519: Buffer.from('302a300506032b6570032100', 'hex')
+};
+const PKCS8_PREFIXES: Record<KeyAlgorithm, Buffer> = {
+  x25519: Buffer.from('302e020100300506032b656e04220420', 'hex'),
+  ed25519: Buffer.from('302e020100300506032b657004220420', 'hex')
+};
+
+/**
+ * Parse a public or private key of the given algorithm
+ */
+export function parseKey(input: string, algorithm: KeyAlgorithm, type: 'public' | 'private'): crypto.KeyObject {
+  const value = input.trim();
+  try {
+    let key: crypto.KeyObject;
+    if (value.includes('-----BEGIN')) {
+      key = type === 'public' ? crypto.createPublicKey(value) : crypto.createPrivateKey(value);
+    } else {
+      const raw = Buffer.from(value, 'base64');
+      if (raw.length !== RAW_KEY_LENGTH) {
+        throw new Error(`expected ${RAW_KEY_LENGTH} bytes`);
+      }
+      key = type === 'public'
+        ? fromRawPublicKey(raw, algorithm)
+        : crypto.createPrivateKey({ key: Buffer.concat([PKCS8_PREFIXES[algorithm], raw]), format: 'der', type: 'pkcs8' });
+    }
+    if (key.asymmetricKeyType !== algorithm) {
+      throw new Error(`unsupported key type ${key.asymmetricKeyType}`);
+    }
+    return key;
+  } catch (error) {
+    throw new CodedError(
+      `Invalid ${KEY_NAMES[algorithm]} ${type} key: ${error instanceof Error ? error.message : error}`,
+      'INVALID_KEY_FORMAT'
+    );
+  }
+}
+
+/**
+ * Create a public key object from a raw 32-byte key
+ */
+export function fromRawPublicKey(raw: Buffer, algorithm: KeyAlgorithm): crypto.KeyObject {
+  return crypto.createPublicKey({ key: Buffer.concat([SPKI_PREFIXES[algorithm], raw]), format: 'der', type: 'spki' });
+}
+
+/**
+ * Get the raw 32-byte form of a public key, or of the public half of a private key
+ */
+export function toRawPublicKey(key: crypto.KeyObject): Buffer {
+  const publicKey = key.type === 'private' ? crypto.createPublicKey(key) : key;
+  const der = publicKey.export({ format: 'der', type: 'spki' });
+  return der.subarray(der.length - RAW_KEY_LENGTH);
+}
+
+/**
+ * SHA-256 fingerprint of a public key (or the public half of a private key)
+ */
+export function getKeyFingerprint(key: crypto.KeyObject): Buffer {
+  return crypto.createHash('sha256').update(toRawPublicKey(key)).digest();
+}
@@ -0,0 +1,72 @@
+/**
+ * Keyed pseudo-random permutation utilities
+ *
+ * A small Feistel network over the smallest even power-of-two domain that covers
+ * the requested size, with cycle-walking to stay inside [0, size). This gives a
+ * bijection without materializing an index array, so it scales to large images.
+ */
+
+const FEISTEL_ROUNDS = 4;
+const SEED_WORDS = 8;
+
+/**
+ * Mix a 32-bit integer (lowbias32 finalizer)
+ */
+function mix32(value: number): number {
+  let x = value >>> 0;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x7feb352d);
+  x ^= x >>> 15;
+  x = Math.imul(x, 0x846ca68b);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+/**
+ * Create a keyed permutation of [0, size)
+ * The seed must be at least 32 bytes; the same seed and size always give the same permutation
+ */
+export function createPermutation(seed: Buffer, size: number): (index: number) => number {
+  if (seed.length < SEED_WORDS * 4) {
+    throw new Error('Permutation seed must be at least 32 bytes');
+  }
+  if (!Number.isInteger(size) || size <= 0 || size > 0xFFFFFFFF) {
+    throw new Error(`Invalid permutation size: ${size}`);
+  }
+
+  const keys: number[] = [];
+  for (let i = 0; i < SEED_WORDS; i++) {
+    keys.push(seed.readUInt32BE(i * 4));
+  }
+
+  // Split the domain into two halves of equal bit width
+  const domainBits = Math.max(2, Math.ceil(Math.log2(size)));
+  const halfBits = Math.ceil(domainBits / 2);
+  const halfMask = halfBits >= 32 ? 0xFFFFFFFF : (1 << halfBits) - 1;
+  const halfSize = halfMask + 1;
+
+  const encrypt = (value: number): number => {
+    let left = Math.floor(value / halfSize);
+    let right = value % halfSize;
+    for (let round = 0; round < FEISTEL_ROUNDS; round++) {
+      const mixed = mix32(mix32(right ^ keys[round * 2]) ^ keys[round * 2 + 1]);
+      const next = (left ^ mixed) & halfMask;
+      left = right;
+      right = next >>> 0;
+    }
+    return left * halfSize + right;
+  };
+
+  return (index: number): number => {
+    if (index < 0 || index >= size) {
+      throw new RangeError(`Permutation index ${index} out of range`);
+    }
+
+    // Cycle-walk until the value falls inside the requested range
+    let value = encrypt(index);
+    while (value >= size) {
+      value = encrypt(value);
+    }
+    return value;
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * PNG chunk utilities
+ */
+
+import { crc32 } from './checksum.utils';
+
+export const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+const CHUNK_LENGTH_BYTES = 4;
+const CHUNK_TYPE_BYTES = 4;
+const CHUNK_CRC_BYTES = 4;
+
+export interface PngChunk {
+  type: string;
+  data: Buffer;
+}
+
+/**
+ * Split a PNG file into its chunks
+ * Parsing stops at IEND or at the first truncated chunk
+ */
+export function readPngChunks(data: Buffer): PngChunk[] {
+  if (data.length < PNG_SIGNATURE.length || !data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new Error('Invalid PNG: missing signature');
+  }
+
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + CHUNK_LENGTH_BYTES + CHUNK_TYPE_BYTES <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + CHUNK_LENGTH_BYTES, offset + CHUNK_LENGTH_BYTES + CHUNK_TYPE_BYTES);
+    const dataStart = offset + CHUNK_LENGTH_BYTES + CHUNK_TYPE_BYTES;
+    if (dataStart + length + CHUNK_CRC_BYTES > data.length) {
+      break;
+    }
+
+    chunks.push({ type, data: data.subarray(dataStart, dataStart + length) });
+    offset = dataStart + length + CHUNK_CRC_BYTES;
+    if (type === 'IEND') {
+      break;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Assemble a PNG file from chunks, calculating each chunk's CRC
+ */
+export function writePngChunks(chunks: PngChunk[]): Buffer {
+  const parts: Buffer[] = [PNG_SIGNATURE];
+
+  for (const chunk of chunks) {
+    const length = Buffer.alloc(CHUNK_LENGTH_BYTES);
+    length.writeUInt32BE(chunk.data.length, 0);
+    const type = Buffer.from(chunk.type, 'latin1');
+    const crc = Buffer.alloc(CHUNK_CRC_BYTES);
+    crc.writeUInt32BE(crc32(type, chunk.data), 0);
+    parts.push(length, type, chunk.data, crc);
+  }
+
+  return Buffer.concat(parts);
+}
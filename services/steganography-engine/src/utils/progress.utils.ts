@@ -0,0 +1,26 @@
+import { OperationStage } from '../types';
+
+/*
+ * Stage reporting of long-running operations
+ *
+ * Services mark each stage as they reach it. A worker running a task forwards the
+ * stages to the pool, which reports them to the job; elsewhere nothing listens.
+ */
+
+type StageListener = (stage: OperationStage) => void;
+
+let listener: StageListener | undefined;
+
+/**
+ * Set the function told about the stages reached, or clear it
+ */
+export function setStageListener(next: StageListener | undefined): void {
+  listener = next;
+}
+
+/**
+ * Mark the stage an operation has reached
+ */
+export function reportStage(stage: OperationStage): void {
+  listener?.(stage);
+}
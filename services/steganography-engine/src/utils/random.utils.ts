@@ -0,0 +1,46 @@
+/**
+ * Seeded pseudo-random number utilities
+ *
+ * Not suitable for cryptographic use: the generator only makes randomized output
+ * reproducible from a seed.
+ */
+
+import crypto from 'crypto';
+
+export type RandomSource = () => number;
+
+/**
+ * Create a generator of numbers in [0, 1) from a seed string
+ * The seed is hashed into the state of an SFC32 generator, so any string works and
+ * the same seed always gives the same sequence
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  const state = crypto.createHash('sha256').update(seed, 'utf8').digest();
+  let a = state.readUInt32BE(0);
+  let b = state.readUInt32BE(4);
+  let c = state.readUInt32BE(8);
+  let d = state.readUInt32BE(12);
+
+  const next = (): number => {
+    const t = (((a + b) >>> 0) + d) >>> 0;
+    d = (d + 1) >>> 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) >>> 0;
+    c = ((c << 21) | (c >>> 11)) >>> 0;
+    c = (c + t) >>> 0;
+    return t / 0x100000000;
+  };
+
+  // Discard the first outputs, which are correlated with the seed
+  for (let i = 0; i < 12; i++) {
+    next();
+  }
+  return next;
+}
+
+/**
+ * Draw a random integer between min and max (inclusive)
+ */
+export function randomInt(random: RandomSource, min: number, max: number): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
@@ -0,0 +1,256 @@
+/**
+ * Reed-Solomon codec over GF(256)
+ *
+ * Data is split into shortened RS(255, 255 - parity) codewords; each codeword can
+ * repair up to parity / 2 corrupted bytes. Codewords are interleaved byte by byte
+ * so a burst of damage in one area of the image is spread across codewords.
+ */
+
+import { gfMul, gfDiv, gfPow } from './gf256.utils';
+
+export const MAX_CODEWORD_LENGTH = 255;
+
+/**
+ * Evaluate a polynomial (highest degree first) at x
+ */
+function polyEval(poly: ArrayLike<number>, x: number): number {
+  let y = poly[0];
+  for (let i = 1; i < poly.length; i++) {
+    y = gfMul(y, x) ^ poly[i];
+  }
+  return y;
+}
+
+function polyMul(a: number[], b: number[]): number[] {
+  const result = new Array<number>(a.length + b.length - 1).fill(0);
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      result[i + j] ^= gfMul(a[i], b[j]);
+    }
+  }
+  return result;
+}
+
+const generatorCache = new Map<number, number[]>();
+
+/**
+ * Get the generator polynomial with roots alpha^0 .. alpha^(parity - 1)
+ */
+function getGenerator(parity: number): number[] {
+  let generator = generatorCache.get(parity);
+  if (!generator) {
+    generator = [1];
+    for (let i = 0; i < parity; i++) {
+      generator = polyMul(generator, [1, gfPow(i)]);
+    }
+    generatorCache.set(parity, generator);
+  }
+  return generator;
+}
+
+/**
+ * Encode one codeword: message bytes followed by parity bytes
+ */
+function encodeCodeword(message: Buffer, parity: number): Buffer {
+  const generator = getGenerator(parity);
+  const codeword = Buffer.alloc(message.length + parity);
+  message.copy(codeword);
+
+  for (let i = 0; i < message.length; i++) {
+    const coefficient = codeword[i];
+    if (coefficient !== 0) {
+      for (let j = 1; j < generator.length; j++) {
+        codeword[i + j] ^= gfMul(generator[j], coefficient);
+      }
+    }
+  }
+
+  message.copy(codeword);
+  return codeword;
+}
+
+/**
+ * Correct a codeword in place, returning the number of corrected bytes
+ * Returns -1 when the codeword has more errors than the code can repair
+ */
+function correctCodeword(codeword: Buffer, parity: number): number {
+  const syndromes = new Array<number>(parity);
+  let hasErrors = false;
+  for (let i = 0; i < parity; i++) {
+    syndromes[i] = polyEval(codeword, gfPow(i));
+    hasErrors = hasErrors || syndromes[i] !== 0;
+  }
+  if (!hasErrors) {
+    return 0;
+  }
+
+  // Berlekamp-Massey: find the error locator polynomial (lowest degree first)
+  let locator = [1];
+  let previous = [1];
+  for (let i = 0; i < parity; i++) {
+    let delta = syndromes[i];
+    for (let j = 1; j < locator.length; j++) {
+      delta ^= gfMul(locator[j], syndromes[i - j]);
+    }
+    previous = [0, ...previous];
+    if (delta !== 0) {
+      if (previous.length > locator.length) {
+        const scaled = previous.map(value => gfMul(value, delta));
+        previous = locator.map(value => gfDiv(value, delta));
+        locator = scaled;
+      }
+      const next = new Array<number>(Math.max(locator.length, previous.length)).fill(0);
+      locator.forEach((value, j) => { next[j] ^= value; });
+      previous.forEach((value, j) => { next[j] ^= gfMul(value, delta); });
+      locator = next;
+    }
+  }
+  while (locator.length > 1 && locator[locator.length - 1] === 0) {
+    locator.pop();
+  }
+
+  const errorCount = locator.length - 1;
+  if (errorCount * 2 > parity) {
+    return -1;
+  }
+
+  // Chien search: positions whose inverse locator value is a root
+  const length = codeword.length;
+  const positions: number[] = [];
+  for (let position = 0; position < length; position++) {
+    const x = gfPow(-(length - 1 - position));
+    let value = 0;
+    for (let j = locator.length - 1; j >= 0; j--) {
+      value = gfMul(value, x) ^ locator[j];
+    }
+    if (value === 0) {
+      positions.push(position);
+    }
+  }
+  if (positions.length !== errorCount) {
+    return -1;
+  }
+
+  // Forney: error magnitudes from the evaluator polynomial omega = S(x) * locator(x) mod x^parity
+  const omega = new Array<number>(parity).fill(0);
+  for (let i = 0; i < parity; i++) {
+    for (let j = 0; j < locator.length && j <= i; j++) {
+      omega[i] ^= gfMul(syndromes[i - j], locator[j]);
+    }
+  }
+
+  // The generator roots start at alpha^0, so each magnitude carries an extra factor X
+  for (const position of positions) {
+    const exponent = length - 1 - position;
+    const xInverse = gfPow(-exponent);
+    let numerator = 0;
+    for (let i = omega.length - 1; i >= 0; i--) {
+      numerator = gfMul(numerator, xInverse) ^ omega[i];
+    }
+    numerator = gfMul(numerator, gfPow(exponent));
+    // Formal derivative of the locator: odd-degree terms only
+    let denominator = 0;
+    for (let j = 1; j < locator.length; j += 2) {
+      denominator ^= gfMul(locator[j], gfPow(-exponent * (j - 1)));
+    }
+    if (denominator === 0) {
+      return -1;
+    }
+    codeword[position] ^= gfDiv(numerator, denominator);
+  }
+
+  // Verify that the corrected codeword is valid
+  for (let i = 0; i < parity; i++) {
+    if (polyEval(codeword, gfPow(i)) !== 0) {
+      return -1;
+    }
+  }
+  return positions.length;
+}
+
+/**
+ * Get the lengths of the codewords that encode dataLength bytes
+ */
+function getCodewordLengths(dataLength: number, parity: number): number[] {
+  const messageLength = MAX_CODEWORD_LENGTH - parity;
+  const lengths: number[] = [];
+  for (let offset = 0; offset < dataLength; offset += messageLength) {
+    lengths.push(Math.min(messageLength, dataLength - offset) + parity);
+  }
+  return lengths;
+}
+
+/**
+ * Get the encoded size of dataLength bytes
+ */
+export function getEncodedLength(dataLength: number, parity: number): number {
+  return dataLength + Math.ceil(dataLength / (MAX_CODEWORD_LENGTH - parity)) * parity;
+}
+
+/**
+ * Get the data length encoded in encodedLength bytes, or -1 if no data length fits
+ */
+export function getDecodedLength(encodedLength: number, parity: number): number {
+  const codewords = Math.ceil(encodedLength / MAX_CODEWORD_LENGTH);
+  const dataLength = encodedLength - codewords * parity;
+  return dataLength > 0 && getEncodedLength(dataLength, parity) === encodedLength ? dataLength : -1;
+}
+
+/**
+ * Encode data with the given number of parity bytes per codeword
+ */
+export function rsEncode(data: Buffer, parity: number): Buffer {
+  const messageLength = MAX_CODEWORD_LENGTH - parity;
+  const codewords: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += messageLength) {
+    codewords.push(encodeCodeword(data.subarray(offset, offset + messageLength), parity));
+  }
+
+  // Interleave: byte i of every codeword, then byte i + 1, ...
+  const encoded = Buffer.alloc(getEncodedLength(data.length, parity));
+  let index = 0;
+  for (let position = 0; position < MAX_CODEWORD_LENGTH; position++) {
+    for (const codeword of codewords) {
+      if (position < codeword.length) {
+        encoded[index++] = codeword[position];
+      }
+    }
+  }
+  return encoded;
+}
+
+/**
+ * Decode and correct data encoded by rsEncode
+ * Returns null when a codeword cannot be repaired
+ */
+export function rsDecode(encoded: Buffer, parity: number): { data: Buffer; corrected: number } | null {
+  const dataLength = getDecodedLength(encoded.length, parity);
+  if (dataLength < 0) {
+    return null;
+  }
+
+  // De-interleave into codewords
+  const codewords = getCodewordLengths(dataLength, parity).map(length => Buffer.alloc(length));
+  let index = 0;
+  for (let position = 0; position < MAX_CODEWORD_LENGTH; position++) {
+    for (const codeword of codewords) {
+      if (position < codeword.length) {
+        codeword[position] = encoded[index++];
+      }
+    }
+  }
+
+  let corrected = 0;
+  for (const codeword of codewords) {
+    const count = correctCodeword(codeword, parity);
+    if (count < 0) {
+      return null;
+    }
+    corrected += count;
+  }
+
+  return {
+    data: Buffer.concat(codewords.map(codeword => codeword.subarray(0, codeword.length - parity))),
+    corrected
+  };
+}
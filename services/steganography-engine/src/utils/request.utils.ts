@@ -0,0 +1,15 @@
+import { Response } from 'express';
+
+/**
+ * Get a signal aborted when the client disconnects before the response is sent,
+ * so that work done for the request can be cancelled
+ */
+export function getAbortSignal(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
@@ -0,0 +1,85 @@
+/**
+ * Shamir secret sharing over GF(256), applied byte by byte
+ *
+ * Each byte of the secret is the constant term of a random polynomial of degree
+ * threshold - 1; share i holds the polynomial values at x = i + 1. Any threshold
+ * shares recover the secret by Lagrange interpolation at x = 0, while fewer shares
+ * reveal nothing about it.
+ */
+
+import crypto from 'crypto';
+import { gfMul, gfDiv } from './gf256.utils';
+
+export const MAX_SHARES = 255;
+
+export interface Share {
+  // Evaluation point, 1-255
+  x: number;
+  data: Buffer;
+}
+
+/**
+ * Split a secret into total shares, any threshold of which reconstruct it
+ */
+export function splitSecret(secret: Buffer, total: number, threshold: number): Share[] {
+  if (!Number.isInteger(total) || !Number.isInteger(threshold) || threshold < 1 || threshold > total || total > MAX_SHARES) {
+    throw new Error(`Invalid share parameters: ${threshold} of ${total}`);
+  }
+
+  const shares: Share[] = Array.from({ length: total }, (_, i) => ({ x: i + 1, data: Buffer.alloc(secret.length) }));
+  const coefficients = crypto.randomBytes((threshold - 1) * secret.length);
+
+  for (let byte = 0; byte < secret.length; byte++) {
+    for (const share of shares) {
+      // Horner's rule, highest degree coefficient first
+      let value = 0;
+      for (let degree = threshold - 1; degree >= 1; degree--) {
+        value = gfMul(value, share.x) ^ coefficients[(degree - 1) * secret.length + byte];
+      }
+      share.data[byte] = gfMul(value, share.x) ^ secret[byte];
+    }
+  }
+
+  return shares;
+}
+
+/**
+ * Reconstruct a secret from shares with distinct evaluation points
+ * Exactly the shares passed are interpolated; supplying fewer than the threshold
+ * produces an unrelated value
+ */
+export function combineShares(shares: Share[]): Buffer {
+  if (shares.length === 0) {
+    throw new Error('At least one share is required');
+  }
+  const length = shares[0].data.length;
+  if (shares.some(share => share.data.length !== length)) {
+    throw new Error('Shares have different lengths');
+  }
+  if (new Set(shares.map(share => share.x)).size !== shares.length || shares.some(share => share.x === 0)) {
+    throw new Error('Shares must have distinct non-zero evaluation points');
+  }
+
+  // Lagrange basis polynomials evaluated at x = 0
+  const weights = shares.map((share, i) => {
+    let numerator = 1;
+    let denominator = 1;
+    shares.forEach((other, j) => {
+      if (i !== j) {
+        numerator = gfMul(numerator, other.x);
+        denominator = gfMul(denominator, share.x ^ other.x);
+      }
+    });
+    return gfDiv(numerator, denominator);
+  });
+
+  const secret = Buffer.alloc(length);
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      value ^= gfMul(share.data[byte], weights[i]);
+    });
+    secret[byte] = value;
+  }
+  return secret;
+}
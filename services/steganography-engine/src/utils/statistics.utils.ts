@@ -0,0 +1,109 @@
+/**
+ * Statistical helpers for steganalysis
+ */
+
+const MAX_ITERATIONS = 200;
+const EPSILON = 3e-12;
+
+// Lanczos approximation coefficients (g = 7, n = 9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7
+];
+
+/**
+ * Natural logarithm of the gamma function for x > 0
+ */
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + LANCZOS.length - 1.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x)
+ * Uses the series expansion below a + 1 and a continued fraction above it
+ */
+export function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) {
+    return 0;
+  }
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < MAX_ITERATIONS; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) {
+        break;
+      }
+    }
+    return Math.min(1, sum * Math.exp(logPrefix));
+  }
+
+  // Lentz's method for the continued fraction of Q(a, x)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    d = Math.abs(d) < tiny ? tiny : d;
+    c = b + an / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) {
+      break;
+    }
+  }
+  return Math.max(0, 1 - Math.exp(logPrefix) * h);
+}
+
+/**
+ * Cumulative distribution function of the chi-square distribution
+ */
+export function chiSquareCdf(statistic: number, degreesOfFreedom: number): number {
+  return regularizedGammaP(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Smaller-magnitude real root of a*x^2 + b*x + c = 0
+ * When the roots are complex the vertex -b / 2a, the closest real solution, is
+ * returned instead; null means the equation has no solution at all
+ */
+export function smallerRoot(a: number, b: number, c: number): number | null {
+  if (Math.abs(a) < 1e-12) {
+    return Math.abs(b) < 1e-12 ? null : -c / b;
+  }
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) {
+    return -b / (2 * a);
+  }
+  const root = Math.sqrt(discriminant);
+  const first = (-b + root) / (2 * a);
+  const second = (-b - root) / (2 * a);
+  return Math.abs(first) < Math.abs(second) ? first : second;
+}
+
+/**
+ * Clamp a value to the range [min, max]
+ */
+export function clamp(value: number, min: number = 0, max: number = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,189 @@
+/**
+ * TIFF utilities: reading the tags of the first image file directory (IFD) and
+ * writing uncompressed 8-bit RGBA images with additional tags
+ */
+
+const TIFF_MAGIC = 42;
+const IFD_ENTRY_BYTES = 12;
+const INLINE_VALUE_BYTES = 4;
+
+// Field types
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+// Size in bytes of one value of each field type (1 BYTE ... 12 DOUBLE)
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8
+};
+
+// Size in bytes of the units to swap when converting byte order (rationals are two LONGs)
+const TYPE_SWAP_UNITS: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 4, 6: 1, 7: 1, 8: 2, 9: 4, 10: 4, 11: 4, 12: 8
+};
+
+// Tags describing the image layout, written by writeTiff
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_EXTRA_SAMPLES = 338;
+
+const RGBA_SAMPLES = 4;
+const COMPRESSION_NONE = 1;
+const PHOTOMETRIC_RGB = 2;
+const PLANAR_CHUNKY = 1;
+const EXTRA_SAMPLE_UNASSOCIATED_ALPHA = 2;
+
+export interface TiffTag {
+  tag: number;
+  type: number;
+  count: number;
+  // Raw value bytes in little-endian byte order
+  value: Buffer;
+}
+
+/**
+ * Read the tags of the first IFD, converting their values to little-endian
+ * Tags with unknown field types or values outside the file are skipped
+ */
+export function readTiffTags(data: Buffer): TiffTag[] {
+  if (data.length < 8) {
+    throw new Error('Invalid TIFF: file is truncated');
+  }
+
+  const byteOrder = data.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new Error('Invalid TIFF: unknown byte order');
+  }
+  const bigEndian = byteOrder === 'MM';
+  const read16 = (offset: number): number => bigEndian ? data.readUInt16BE(offset) : data.readUInt16LE(offset);
+  const read32 = (offset: number): number => bigEndian ? data.readUInt32BE(offset) : data.readUInt32LE(offset);
+
+  if (read16(2) !== TIFF_MAGIC) {
+    throw new Error('Invalid TIFF: bad magic number');
+  }
+
+  const ifdOffset = read32(4);
+  if (ifdOffset + 2 > data.length) {
+    throw new Error('Invalid TIFF: IFD offset out of range');
+  }
+
+  const tags: TiffTag[] = [];
+  const entryCount = read16(ifdOffset);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * IFD_ENTRY_BYTES;
+    if (entry + IFD_ENTRY_BYTES > data.length) {
+      break;
+    }
+
+    const tag = read16(entry);
+    const type = read16(entry + 2);
+    const count = read32(entry + 4);
+    const typeSize = TYPE_SIZES[type];
+    if (!typeSize) {
+      continue;
+    }
+
+    const size = typeSize * count;
+    const valueOffset = size <= INLINE_VALUE_BYTES ? entry + 8 : read32(entry + 8);
+    if (valueOffset + size > data.length) {
+      continue;
+    }
+
+    const value = Buffer.from(data.subarray(valueOffset, valueOffset + size));
+    if (bigEndian) {
+      const unit = TYPE_SWAP_UNITS[type];
+      for (let offset = 0; unit > 1 && offset < value.length; offset += unit) {
+        value.subarray(offset, offset + unit).reverse();
+      }
+    }
+    tags.push({ tag, type, count, value });
+  }
+
+  return tags;
+}
+
+/**
+ * Create a SHORT or LONG tag from numeric values
+ */
+function numericTag(tag: number, type: typeof TYPE_SHORT | typeof TYPE_LONG, values: number[]): TiffTag {
+  const size = TYPE_SIZES[type];
+  const value = Buffer.alloc(values.length * size);
+  values.forEach((number, i) => {
+    if (type === TYPE_SHORT) {
+      value.writeUInt16LE(number, i * size);
+    } else {
+      value.writeUInt32LE(number, i * size);
+    }
+  });
+  return { tag, type, count: values.length, value };
+}
+
+/**
+ * Write an uncompressed little-endian TIFF holding 8-bit RGBA pixels in a single strip
+ * Extra tags are written alongside the layout tags, which take precedence
+ */
+export function writeTiff(rgba: Buffer, width: number, height: number, extraTags: TiffTag[] = []): Buffer {
+  const pixelBytes = width * height * RGBA_SAMPLES;
+
+  // The strip offset is patched in once the IFD size is known
+  const layoutTags = [
+    numericTag(TAG_IMAGE_WIDTH, TYPE_LONG, [width]),
+    numericTag(TAG_IMAGE_LENGTH, TYPE_LONG, [height]),
+    numericTag(TAG_BITS_PER_SAMPLE, TYPE_SHORT, [8, 8, 8, 8]),
+    numericTag(TAG_COMPRESSION, TYPE_SHORT, [COMPRESSION_NONE]),
+    numericTag(TAG_PHOTOMETRIC, TYPE_SHORT, [PHOTOMETRIC_RGB]),
+    numericTag(TAG_STRIP_OFFSETS, TYPE_LONG, [0]),
+    numericTag(TAG_SAMPLES_PER_PIXEL, TYPE_SHORT, [RGBA_SAMPLES]),
+    numericTag(TAG_ROWS_PER_STRIP, TYPE_LONG, [height]),
+    numericTag(TAG_STRIP_BYTE_COUNTS, TYPE_LONG, [pixelBytes]),
+    numericTag(TAG_PLANAR_CONFIGURATION, TYPE_SHORT, [PLANAR_CHUNKY]),
+    numericTag(TAG_EXTRA_SAMPLES, TYPE_SHORT, [EXTRA_SAMPLE_UNASSOCIATED_ALPHA])
+  ];
+  const layoutTagIds = new Set(layoutTags.map(tag => tag.tag));
+  const tags = [...layoutTags, ...extraTags.filter(tag => !layoutTagIds.has(tag.tag))]
+    .sort((a, b) => a.tag - b.tag);
+
+  // Layout: header | IFD | out-of-line values (word aligned) | pixel data
+  const ifdOffset = 8;
+  const ifdSize = 2 + tags.length * IFD_ENTRY_BYTES + 4;
+  let valuesSize = 0;
+  for (const tag of tags) {
+    if (tag.value.length > INLINE_VALUE_BYTES) {
+      valuesSize += tag.value.length + (tag.value.length % 2);
+    }
+  }
+  const pixelOffset = ifdOffset + ifdSize + valuesSize;
+  tags.find(tag => tag.tag === TAG_STRIP_OFFSETS)!.value.writeUInt32LE(pixelOffset, 0);
+
+  const output = Buffer.alloc(pixelOffset + pixelBytes);
+  output.write('II', 0, 'latin1');
+  output.writeUInt16LE(TIFF_MAGIC, 2);
+  output.writeUInt32LE(ifdOffset, 4);
+  output.writeUInt16LE(tags.length, ifdOffset);
+
+  let valueOffset = ifdOffset + ifdSize;
+  tags.forEach((tag, i) => {
+    const entry = ifdOffset + 2 + i * IFD_ENTRY_BYTES;
+    output.writeUInt16LE(tag.tag, entry);
+    output.writeUInt16LE(tag.type, entry + 2);
+    output.writeUInt32LE(tag.count, entry + 4);
+    if (tag.value.length <= INLINE_VALUE_BYTES) {
+      tag.value.copy(output, entry + 8);
+    } else {
+      output.writeUInt32LE(valueOffset, entry + 8);
+      tag.value.copy(output, valueOffset);
+      valueOffset += tag.value.length + (tag.value.length % 2);
+    }
+  });
+  // Next IFD offset stays 0: single image
+
+  rgba.copy(output, pixelOffset, 0, pixelBytes);
+  return output;
+}
@@ -0,0 +1,148 @@
+/**
+ * ZIP archive utilities
+ */
+
+import zlib from 'zlib';
+import { crc32 } from './checksum.utils';
+
+const LOCAL_FILE_SIGNATURE = 0x04034B50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014B50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054B50;
+
+const LOCAL_HEADER_BYTES = 30;
+const CENTRAL_HEADER_BYTES = 46;
+const END_RECORD_BYTES = 22;
+
+// Version 2.0: deflate compression
+const ZIP_VERSION = 20;
+// General purpose flag: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// Sizes and offsets are 32-bit and entries are counted on 16 bits without ZIP64
+const MAX_ZIP_BYTES = 0xFFFFFFFF;
+const MAX_ZIP_ENTRIES = 0xFFFF;
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+  modifiedAt?: Date;
+}
+
+/**
+ * Encode a date as MS-DOS time and date fields (2-second resolution, from 1980)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a ZIP archive from a list of files
+ * Entries are deflated when that makes them smaller and stored otherwise, which is the
+ * case of already compressed images
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`A ZIP archive holds at most ${MAX_ZIP_ENTRIES} entries`);
+  }
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const deflated = zlib.deflateRawSync(entry.data);
+    const method = deflated.length < entry.data.length ? METHOD_DEFLATE : METHOD_STORE;
+    const stored = method === METHOD_DEFLATE ? deflated : entry.data;
+    const checksum = crc32(entry.data);
+    const modified = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    const local = Buffer.alloc(LOCAL_HEADER_BYTES);
+    local.writeUInt32LE(LOCAL_FILE_SIGNATURE, 0);
+    local.writeUInt16LE(ZIP_VERSION, 4);
+    local.writeUInt16LE(FLAG_UTF8, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(modified.time, 10);
+    local.writeUInt16LE(modified.date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(CENTRAL_HEADER_BYTES);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    central.writeUInt16LE(ZIP_VERSION, 4);
+    central.writeUInt16LE(ZIP_VERSION, 6);
+    central.writeUInt16LE(FLAG_UTF8, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(modified.time, 12);
+    central.writeUInt16LE(modified.date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number, internal and external attributes are empty
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, stored);
+    centralParts.push(central, name);
+    offset += local.length + name.length + stored.length;
+    if (offset > MAX_ZIP_BYTES) {
+      throw new Error('ZIP archive too large');
+    }
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(END_RECORD_BYTES);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Read the files of a ZIP archive whose entries are stored or deflated
+ */
+export function readZip(archive: Buffer): ZipEntry[] {
+  const endOffset = archive.length - END_RECORD_BYTES;
+  if (endOffset < 0 || archive.readUInt32LE(endOffset) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+    throw new Error('Invalid ZIP archive: missing end of central directory');
+  }
+
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupted central directory');
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const storedLength = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + CENTRAL_HEADER_BYTES, offset + CENTRAL_HEADER_BYTES + nameLength);
+
+    const dataStart = localOffset + LOCAL_HEADER_BYTES +
+      archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const stored = archive.subarray(dataStart, dataStart + storedLength);
+    entries.push({ name, data: method === METHOD_DEFLATE ? zlib.inflateRawSync(stored) : Buffer.from(stored) });
+
+    offset += CENTRAL_HEADER_BYTES + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -0,0 +1,28 @@
+/**
+ * Worker thread entry point: runs tasks sent by the worker pool one at a time
+ */
+
+import { parentPort } from 'worker_threads';
+import { tasks } from './tasks';
+import { reviveBuffers, serializeError, TaskRequest, WorkerMessage } from './protocol';
+import { setStageListener } from '../utils/progress.utils';
+
+if (!parentPort) {
+  throw new Error('The engine worker must be started by the worker pool');
+}
+const port = parentPort;
+
+port.on('message', async (request: TaskRequest) => {
+  let message: WorkerMessage;
+  setStageListener(stage => port.postMessage({ type: 'stage', id: request.id, stage } as WorkerMessage));
+  try {
+    const run = tasks[request.task] as (...args: unknown[]) => unknown;
+    message = { type: 'result', id: request.id, result: await run(...reviveBuffers(request.args)) };
+  } catch (error) {
+    message = { type: 'error', id: request.id, error: serializeError(error) };
+  }
+  setStageListener(undefined);
+  port.postMessage(message);
+});
+
+port.postMessage({ type: 'ready' } as WorkerMessage);
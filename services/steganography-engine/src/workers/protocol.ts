@@ -0,0 +1,68 @@
+/**
+ * Messages exchanged between the worker pool and its workers
+ *
+ * Structured cloning turns Buffers into plain Uint8Arrays and drops the class of
+ * errors, so both are restored on arrival.
+ */
+
+import { CodedError } from '../utils/errors';
+import type { TaskName } from './tasks';
+import { OperationStage } from '../types';
+
+export interface TaskRequest {
+  id: number;
+  task: TaskName;
+  args: unknown[];
+}
+
+export interface SerializedError {
+  message: string;
+  code?: string;
+  statusCode?: number;
+}
+
+export type WorkerMessage =
+  // Sent once the worker has loaded the services
+  | { type: 'ready' }
+  // Sent for each stage the running task reaches
+  | { type: 'stage'; id: number; stage: OperationStage }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: SerializedError };
+
+/**
+ * Turn the Uint8Arrays of a cloned value back into Buffers
+ */
+export function reviveBuffers<T>(value: T): T {
+  // Cloned values may come from another realm, so prototypes are not compared
+  if (ArrayBuffer.isView(value)) {
+    return (Buffer.isBuffer(value) ? value : Buffer.from(value.buffer, value.byteOffset, value.byteLength)) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => reviveBuffers(item)) as T;
+  }
+  if (Object.prototype.toString.call(value) === '[object Object]') {
+    return Object.fromEntries(
+      Object.entries(value as object).map(([key, item]) => [key, reviveBuffers(item)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Reduce an error to the fields reported to API clients
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof CodedError) {
+    return { message: error.message, code: error.code, statusCode: error.statusCode };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Rebuild an error reported by a worker
+ */
+export function deserializeError(error: SerializedError): Error {
+  return error.code !== undefined
+    ? new CodedError(error.message, error.code, error.statusCode)
+    : new Error(error.message);
+}
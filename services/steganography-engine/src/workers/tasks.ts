@@ -0,0 +1,33 @@
+/**
+ * CPU-bound service functions that run on the worker pool
+ *
+ * Each task is called with the arguments given to runTask; image processing and key
+ * derivation happen inside them, off the main thread.
+ */
+
+import { encode, getCapacity } from '../services/encoder.service';
+import { decode, hasHiddenData } from '../services/decoder.service';
+import { encodeSplit, decodeJoin } from '../services/split.service';
+import { encodeBatch } from '../services/batch.service';
+import { createComposite, encodeComposite } from '../services/composite.service';
+import { analyzeImage, renderLsbPlane } from '../services/analysis.service';
+import { benchmarkKdf } from '../services/kdf.service';
+
+export const tasks = {
+  encode,
+  encodeSplit,
+  encodeBatch,
+  getCapacity,
+  decode,
+  decodeJoin,
+  hasHiddenData,
+  createComposite,
+  encodeComposite,
+  analyzeImage,
+  renderLsbPlane,
+  benchmarkKdf
+};
+
+export type TaskName = keyof typeof tasks;
+export type TaskArgs<T extends TaskName> = Parameters<typeof tasks[T]>;
+export type TaskResult<T extends TaskName> = Awaited<ReturnType<typeof tasks[T]>>;
@@ -1,6 +1,11 @@
+import crypto from 'crypto';
 import request from 'supertest';
 import { createApp } from '../../src/app';
+import { shutdownWorkerPool } from '../../src/services/worker-pool.service';
+import { encode } from '../../src/services/encoder.service';
+import * as encodeController from '../../src/controllers/encode.controller';
 import { Application } from 'express';
+import Jimp from 'jimp';
 
 describe('API Routes', () => {
   let app: Application;
@@ -9,6 +14,10 @@ describe('API Routes', () => {
     app = createApp();
   });
 
+  afterAll(async () => {
+    await shutdownWorkerPool();
+  });
+
   describe('GET /health', () => {
     it('should return healthy status', async () => {
       const response = await request(app).get('/health');
@@ -18,6 +27,7 @@ describe('API Routes', () => {
       expect(response.body).toHaveProperty('service', 'steganography-engine');
       expect(response.body).toHaveProperty('timestamp');
       expect(response.body).toHaveProperty('version', '1.0.0');
+      expect(response.body.workerPool).toMatchObject({ queueDepth: expect.any(Number), utilization: expect.any(Number) });
     });
   });
 
@@ -30,6 +40,7 @@ describe('API Routes', () => {
       expect(response.body.data.formats).toContain('png');
       expect(response.body.data.formats).toContain('bmp');
       expect(response.body.data.formats).toContain('tiff');
+      expect(response.body.data.formats).toContain('jpeg');
       expect(response.body.data.recommended).toBe('png');
     });
   });
@@ -57,6 +68,20 @@ describe('API Routes', () => {
       expect(response.body.success).toBe(false);
       expect(response.body.error.code).toBe('MISSING_MESSAGE');
     });
+
+    it('should return error when both a message and a payload file are provided', async () => {
+      const pngBuffer = createTestPng();
+      
+      const response = await request(app)
+        .post('/encode')
+        .attach('image', pngBuffer, 'test.png')
+        .attach('payload', Buffer.from('data'), 'data.bin')
+        .field('message', 'test message');
+      
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('CONFLICTING_PAYLOAD');
+    });
   });
 
   describe('POST /decode', () => {
@@ -67,6 +92,248 @@ describe('API Routes', () => {
       expect(response.body.success).toBe(false);
       expect(response.body.error.code).toBe('MISSING_IMAGE');
     });
+
+    it('should round-trip a text message', async () => {
+      const carrier = await createCarrierPng(64, 64);
+      
+      const encodeResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, 'carrier.png')
+        .field('message', 'Hello from the integration test');
+      
+      expect(encodeResponse.status).toBe(200);
+      
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png');
+      
+      expect(decodeResponse.status).toBe(200);
+      expect(decodeResponse.body.data.message).toBe('Hello from the integration test');
+      expect(decodeResponse.body.data.metadata.payloadType).toBe('text');
+    });
+
+    it('should round-trip a message sealed for several recipients', async () => {
+      const carrier = await createCarrierPng(64, 64);
+      const createKeyPair = () => crypto.generateKeyPairSync('x25519', {
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+      });
+      const alice = createKeyPair();
+      const bob = createKeyPair();
+      
+      const encodeResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, 'carrier.png')
+        .field('message', 'For Alice and Bob')
+        .field('recipients', alice.publicKey)
+        .field('recipients', bob.publicKey);
+      
+      expect(encodeResponse.status).toBe(200);
+      
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png')
+        .field('privateKey', bob.privateKey);
+      
+      expect(decodeResponse.status).toBe(200);
+      expect(decodeResponse.body.data.message).toBe('For Alice and Bob');
+      expect(decodeResponse.body.data.metadata.encryption).toBe('recipient');
+      
+      const missingKeyResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png');
+      
+      expect(missingKeyResponse.status).toBe(400);
+      expect(missingKeyResponse.body.error.code).toBe('PRIVATE_KEY_REQUIRED');
+    });
+
+    it('should verify a signed message against a keyring', async () => {
+      const carrier = await createCarrierPng(64, 64);
+      const signer = crypto.generateKeyPairSync('ed25519', {
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+      });
+      
+      const encodeResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, 'carrier.png')
+        .field('message', 'Signed by Alice')
+        .field('signingKey', signer.privateKey);
+      
+      expect(encodeResponse.status).toBe(200);
+      expect(encodeResponse.headers['x-signer']).toMatch(/^[0-9a-f]{64}$/);
+      
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png')
+        .field('keyring', JSON.stringify({ alice: signer.publicKey }));
+      
+      expect(decodeResponse.status).toBe(200);
+      expect(decodeResponse.body.data.metadata.signatureValid).toBe(true);
+      expect(decodeResponse.body.data.metadata.signer).toBe('alice');
+      
+      const invalidKeyringResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png')
+        .field('keyring', '["alice"]');
+      
+      expect(invalidKeyringResponse.status).toBe(400);
+      expect(invalidKeyringResponse.body.error.code).toBe('INVALID_OPTIONS');
+    });
+
+    it('should round-trip a binary payload file as a download', async () => {
+      const carrier = await createCarrierPng(64, 64);
+      const fileData = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xFF, 0x01, 0x02, 0x80]);
+      
+      const encodeResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, 'carrier.png')
+        .attach('payload', fileData, { filename: 'report.pdf', contentType: 'application/pdf' })
+        .field('password', 'secret')
+        .field('kdf', 'pbkdf2');
+      
+      expect(encodeResponse.status).toBe(200);
+      expect(encodeResponse.headers['x-kdf']).toBe('pbkdf2');
+      
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png')
+        .field('password', 'secret')
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        });
+      
+      expect(decodeResponse.status).toBe(200);
+      expect(decodeResponse.headers['content-type']).toBe('application/pdf');
+      expect(decodeResponse.headers['content-disposition']).toContain('report.pdf');
+      expect(decodeResponse.headers['x-content-type-options']).toBe('nosniff');
+      expect(Buffer.compare(decodeResponse.body as Buffer, fileData)).toBe(0);
+    });
+
+    it('should send a malformed stored MIME type as application/octet-stream', async () => {
+      const fileData = Buffer.from('payload');
+      const encoded = await encode(await createCarrierPng(64, 64), {
+        data: fileData,
+        filename: 'note.txt',
+        mimeType: 'text/plain\r\nX-Injected: 1'
+      });
+      
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', encoded.image, 'encoded.png')
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        });
+      
+      expect(decodeResponse.status).toBe(200);
+      expect(decodeResponse.headers['content-type']).toBe('application/octet-stream');
+      expect(decodeResponse.headers['x-injected']).toBeUndefined();
+      expect(Buffer.compare(decodeResponse.body as Buffer, fileData)).toBe(0);
+    });
+
+    it('should round-trip a JPEG carrier and return a JPEG', async () => {
+      // A textured image, since flat areas leave no usable DCT coefficients
+      const image = new Jimp(96, 96, 0x336699FF);
+      image.scan(0, 0, 96, 96, function(x, y, idx) {
+        this.bitmap.data[idx] = (x * 7 + y * 13) & 0xFF;
+      });
+      const carrier = await image.quality(90).getBufferAsync(Jimp.MIME_JPEG);
+      
+      const encodeResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, { filename: 'carrier.jpg', contentType: 'image/jpeg' })
+        .field('message', 'Hello from a JPEG');
+      
+      expect(encodeResponse.status).toBe(200);
+      expect(encodeResponse.headers['content-type']).toBe('image/jpeg');
+      expect(encodeResponse.headers['content-disposition']).toContain('encoded.jpg');
+      
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, { filename: 'encoded.jpg', contentType: 'image/jpeg' });
+      
+      expect(decodeResponse.status).toBe(200);
+      expect(decodeResponse.body.data.message).toBe('Hello from a JPEG');
+    });
+
+    it('should return an encoded BMP as a BMP', async () => {
+      const carrier = await new Jimp(32, 32, 0x336699FF).getBufferAsync(Jimp.MIME_BMP);
+      
+      const encodeResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, { filename: 'carrier.bmp', contentType: 'image/bmp' })
+        .field('message', 'Hello from a BMP');
+      
+      expect(encodeResponse.status).toBe(200);
+      expect(encodeResponse.headers['content-type']).toBe('image/bmp');
+      expect(encodeResponse.headers['content-disposition']).toContain('encoded.bmp');
+      
+      const convertResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, { filename: 'carrier.bmp', contentType: 'image/bmp' })
+        .field('message', 'Hello from a BMP')
+        .field('outputFormat', 'png');
+      
+      expect(convertResponse.headers['content-type']).toBe('image/png');
+      expect(convertResponse.headers['content-disposition']).toContain('encoded.png');
+    });
+
+    it('should require the key for a keyed layout', async () => {
+      const carrier = await createCarrierPng(64, 64);
+      
+      const encodeResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, 'carrier.png')
+        .field('message', 'Keyed message')
+        .field('key', 'layout-key');
+      
+      expect(encodeResponse.status).toBe(200);
+      expect(encodeResponse.headers['x-layout']).toBe('keyed');
+      
+      const missingKeyResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png');
+      
+      expect(missingKeyResponse.status).toBe(400);
+      expect(missingKeyResponse.body.error.code).toBe('KEY_REQUIRED');
+      
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png')
+        .field('key', 'layout-key');
+      
+      expect(decodeResponse.status).toBe(200);
+      expect(decodeResponse.body.data.message).toBe('Keyed message');
+      expect(decodeResponse.body.data.metadata.layout).toBe('keyed');
+    });
+
+    it('should protect the payload with the requested error correction level', async () => {
+      const carrier = await createCarrierPng(64, 64);
+
+      const encodeResponse = await request(app)
+        .post('/encode')
+        .attach('image', carrier, 'carrier.png')
+        .field('message', 'Protected message')
+        .field('errorCorrection', 'high');
+
+      expect(encodeResponse.status).toBe(200);
+      expect(encodeResponse.headers['x-error-correction']).toBe('high');
+
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', encodeResponse.body, 'encoded.png');
+
+      expect(decodeResponse.status).toBe(200);
+      expect(decodeResponse.body.data.message).toBe('Protected message');
+      expect(decodeResponse.body.data.metadata.errorCorrection).toBe('high');
+      expect(decodeResponse.body.data.metadata.correctedErrors).toBe(0);
+    });
   });
 
   describe('404 handling', () => {
@@ -79,6 +346,130 @@ describe('API Routes', () => {
     });
   });
 
+  describe('POST /encode/split and /decode/join', () => {
+    it('should reassemble a payload from any k of n images', async () => {
+      const carrier = await createCarrierPng(64, 64);
+
+      const splitResponse = await request(app)
+        .post('/encode/split')
+        .attach('images', carrier, 'one.png')
+        .attach('images', carrier, 'two.png')
+        .attach('images', carrier, 'three.png')
+        .field('message', 'Split message')
+        .field('threshold', '2');
+
+      expect(splitResponse.status).toBe(200);
+      expect(splitResponse.body.data.scheme).toBe('shamir');
+      expect(splitResponse.body.data.images).toHaveLength(3);
+      expect(splitResponse.body.data.images[0].filename).toBe('share-1.png');
+
+      const images = splitResponse.body.data.images.map((image: { data: string }) => Buffer.from(image.data, 'base64'));
+      const joinResponse = await request(app)
+        .post('/decode/join')
+        .attach('images', images[2], 'three.png')
+        .attach('images', images[0], 'one.png');
+
+      expect(joinResponse.status).toBe(200);
+      expect(joinResponse.body.data.message).toBe('Split message');
+      expect(joinResponse.body.data.metadata.shares.used).toEqual([1, 3]);
+    });
+
+    it('should return error when no images provided', async () => {
+      const response = await request(app).post('/decode/join');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('MISSING_IMAGES');
+    });
+  });
+
+  describe('POST /encode/batch', () => {
+    it('should return error when no images provided', async () => {
+      const response = await request(app)
+        .post('/encode/batch')
+        .field('message', 'test message');
+      
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('MISSING_IMAGES');
+    });
+
+    it('should return error when both a message and a payload file are provided', async () => {
+      const response = await request(app)
+        .post('/encode/batch')
+        .attach('images', await createCarrierPng(64, 64), 'one.png')
+        .attach('payload', Buffer.from('file payload'), 'notes.txt')
+        .field('message', 'test message');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('CONFLICTING_PAYLOAD');
+    });
+
+    it('should return a zip of the encoded carriers', async () => {
+      const response = await request(app)
+        .post('/encode/batch')
+        .attach('images', await createCarrierPng(64, 64), 'first.png')
+        .attach('images', await createCarrierPng(4, 4), 'tiny.png')
+        .field('message', 'Stamped into every carrier')
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', chunk => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        });
+      
+      expect(response.status).toBe(200);
+      expect(response.type).toBe('application/zip');
+      expect(response.headers['x-images-encoded']).toBe('1');
+      expect(response.headers['x-images-skipped']).toBe('1');
+      // ZIP archives start with a local file header
+      expect((response.body as Buffer).readUInt32LE(0)).toBe(0x04034B50);
+    });
+  });
+
+  describe('GET /kdf/benchmark', () => {
+    it('should suggest parameters for each KDF', async () => {
+      const response = await request(app).get('/kdf/benchmark').query({ targetMs: 50 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.targetMs).toBe(50);
+      expect(response.body.data.suggestions).toHaveLength(3);
+      expect(response.body.data.current).toHaveProperty('algorithm', 'scrypt');
+    });
+
+    it('should reject an out-of-range target', async () => {
+      const response = await request(app).get('/kdf/benchmark').query({ targetMs: 'slow' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_OPTIONS');
+    });
+  });
+
+  describe('POST /analyze', () => {
+    it('should return per-channel analysis and the LSB plane on request', async () => {
+      const carrier = await createCarrierPng(64, 64);
+
+      const response = await request(app)
+        .post('/analyze')
+        .attach('image', carrier, 'carrier.png')
+        .field('visualize', 'true');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('estimatedRate');
+      expect(response.body.data).toHaveProperty('confidence');
+      expect(response.body.data).toHaveProperty('suspicious');
+      expect(response.body.data.channels).toHaveLength(3);
+
+      const plane = await Jimp.read(Buffer.from(response.body.data.lsbPlane, 'base64'));
+      expect(plane.getWidth()).toBe(64);
+    });
+
+    it('should return error when no image provided', async () => {
+      const response = await request(app).post('/analyze');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('MISSING_IMAGE');
+    });
+  });
+
   describe('POST /composite', () => {
     it('should return error when no images provided', async () => {
       const response = await request(app).post('/composite');
@@ -113,9 +504,254 @@ describe('API Routes', () => {
       expect(response.type).toBe('image/png');
       expect(response.headers['x-images-used']).toBe('2');
     });
+
+    it('should reproduce a seeded composite and report its layout', async () => {
+      const send = () => request(app)
+        .post('/composite')
+        .attach('images', createTestPng(), 'test1.png')
+        .attach('images', createTestPng(), 'test2.png')
+        .field('seed', 'integration')
+        .field('transforms', JSON.stringify([{ rotation: 90, opacity: 1 }]));
+      
+      const first = await send();
+      const second = await send();
+      
+      expect(first.status).toBe(200);
+      expect(first.headers['x-composite-seed']).toBe('integration');
+      expect(second.body.equals(first.body)).toBe(true);
+      const layout = JSON.parse(first.headers['x-composite-layout']);
+      expect(layout).toHaveLength(2);
+      expect(layout[0]).toMatchObject({ index: 1, rotation: 90, opacity: 1 });
+    });
+
+    it('should return the composite as JSON when requested', async () => {
+      const response = await request(app)
+        .post('/composite')
+        .set('Accept', 'application/json')
+        .attach('images', createTestPng(), 'test1.png')
+        .attach('images', createTestPng(), 'test2.png');
+      
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ mimeType: 'image/png', imagesUsed: 2, seed: expect.any(String) });
+      expect(response.body.data.layers).toHaveLength(2);
+      expect(Buffer.from(response.body.data.data, 'base64').subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('should apply the layout and canvas fields', async () => {
+      const response = await request(app)
+        .post('/composite')
+        .attach('images', await createCarrierPng(40, 20), 'test1.png')
+        .attach('images', await createCarrierPng(20, 20), 'test2.png')
+        .field('layout', 'horizontal')
+        .field('width', '120')
+        .field('height', '30')
+        .field('fit', 'fit')
+        .field('background', 'transparent');
+      
+      expect(response.status).toBe(200);
+      expect(response.headers['x-output-width']).toBe('120');
+      expect(response.headers['x-output-height']).toBe('30');
+      const layout = JSON.parse(response.headers['x-composite-layout']);
+      expect(layout.map((layer: { width: number }) => layer.width)).toEqual([60, 30]);
+    });
+
+    it('should reject an unknown layout', async () => {
+      const response = await request(app)
+        .post('/composite')
+        .attach('images', createTestPng(), 'test1.png')
+        .attach('images', createTestPng(), 'test2.png')
+        .field('layout', 'spiral');
+      
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_OPTIONS');
+    });
+
+    it('should reject malformed transforms', async () => {
+      const response = await request(app)
+        .post('/composite')
+        .attach('images', createTestPng(), 'test1.png')
+        .attach('images', createTestPng(), 'test2.png')
+        .field('transforms', '{not json');
+      
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_OPTIONS');
+    });
+  });
+
+  describe('POST /composite/encode', () => {
+    it('should return error when only one image provided', async () => {
+      const response = await request(app)
+        .post('/composite/encode')
+        .attach('images', createTestPng(), 'test1.png')
+        .field('message', 'hidden');
+      
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INSUFFICIENT_IMAGES');
+    });
+
+    it('should return error when no message provided', async () => {
+      const response = await request(app)
+        .post('/composite/encode')
+        .attach('images', createTestPng(), 'test1.png')
+        .attach('images', createTestPng(), 'test2.png');
+      
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('MISSING_MESSAGE');
+    });
+
+    it('should hide a message in a composite in one request', async () => {
+      const response = await request(app)
+        .post('/composite/encode')
+        .attach('images', await createCarrierPng(64, 64), 'first.png')
+        .attach('images', await createCarrierPng(48, 48), 'second.png')
+        .field('message', 'Hidden in a fresh composite')
+        .field('seed', 'pipeline');
+      
+      expect(response.status).toBe(200);
+      expect(response.type).toBe('image/png');
+      expect(response.headers['x-images-used']).toBe('2');
+      expect(response.headers['x-composite-seed']).toBe('pipeline');
+      expect(JSON.parse(response.headers['x-composite-layout'])).toHaveLength(2);
+      expect(Number(response.headers['x-bytes-used'])).toBeGreaterThan(0);
+      
+      const decodeResponse = await request(app)
+        .post('/decode')
+        .attach('image', response.body, 'composite.png');
+      expect(decodeResponse.body.data.message).toBe('Hidden in a fresh composite');
+    });
+
+    it('should return composite and encoding details as JSON when requested', async () => {
+      const response = await request(app)
+        .post('/composite/encode')
+        .set('Accept', 'application/json')
+        .attach('images', await createCarrierPng(64, 64), 'first.png')
+        .attach('images', await createCarrierPng(64, 64), 'second.png')
+        .field('message', 'Hidden in a fresh composite');
+      
+      expect(response.status).toBe(200);
+      expect(response.body.data.composite).toMatchObject({ width: 64, height: 64, imagesUsed: 2 });
+      expect(response.body.data.encoding).toMatchObject({ format: 'png', bytesUsed: expect.any(Number) });
+      expect(response.body.data.mimeType).toBe('image/png');
+      expect(typeof response.body.data.data).toBe('string');
+    });
+  });
+
+  describe('POST /jobs', () => {
+    // Poll a job until it has finished
+    async function waitForJob(id: string): Promise<request.Response> {
+      for (;;) {
+        const response = await request(app).get(`/jobs/${id}`);
+        if (response.body.data?.status !== 'queued' && response.body.data?.status !== 'running') {
+          return response;
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    }
+
+    it('should return error for an unknown job type', async () => {
+      const response = await request(app)
+        .post('/jobs')
+        .field('type', 'resize');
+      
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_JOB_TYPE');
+    });
+
+    it('should validate inputs like the synchronous endpoint', async () => {
+      const response = await request(app)
+        .post('/jobs')
+        .field('type', 'encode')
+        .attach('image', await createCarrierPng(64, 64), 'carrier.png');
+      
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('MISSING_MESSAGE');
+    });
+
+    it('should encode and decode through jobs', async () => {
+      const encodeJob = await request(app)
+        .post('/jobs')
+        .field('type', 'encode')
+        .field('message', 'Hello from a job')
+        .attach('image', await createCarrierPng(64, 64), 'carrier.png');
+      
+      expect(encodeJob.status).toBe(202);
+      expect(encodeJob.headers.location).toBe(`/jobs/${encodeJob.body.data.id}`);
+      expect(encodeJob.body.data.type).toBe('encode');
+      expect(['queued', 'running']).toContain(encodeJob.body.data.status);
+      
+      const status = await waitForJob(encodeJob.body.data.id);
+      expect(status.body.data).toMatchObject({ status: 'completed', progress: { stage: 'done', percent: 100 } });
+      expect(status.body.data.expiresAt).toBeDefined();
+      
+      const encoded = await request(app).get(`/jobs/${encodeJob.body.data.id}/result`);
+      expect(encoded.status).toBe(200);
+      expect(encoded.type).toBe('image/png');
+      expect(encoded.headers['x-request-id']).toBe(encodeJob.body.data.id);
+      
+      const decodeJob = await request(app)
+        .post('/jobs')
+        .field('type', 'decode')
+        .attach('image', encoded.body, 'encoded.png');
+      await waitForJob(decodeJob.body.data.id);
+      
+      const decoded = await request(app).get(`/jobs/${decodeJob.body.data.id}/result`);
+      expect(decoded.status).toBe(200);
+      expect(decoded.body.data.message).toBe('Hello from a job');
+    });
+
+    it('should report the error of a failed job', async () => {
+      const job = await request(app)
+        .post('/jobs')
+        .field('type', 'decode')
+        .attach('image', await createCarrierPng(64, 64), 'carrier.png');
+      
+      const status = await waitForJob(job.body.data.id);
+      expect(status.body.data.status).toBe('failed');
+      expect(status.body.data.error.code).toBeDefined();
+      
+      const result = await request(app).get(`/jobs/${job.body.data.id}/result`);
+      expect(result.status).toBe(400);
+      expect(result.body.error.code).toBe(status.body.data.error.code);
+    });
+
+    it('should answer in the service format when the result cannot be sent', async () => {
+      const job = await request(app)
+        .post('/jobs')
+        .field('type', 'encode')
+        .field('message', 'Hello from a job')
+        .attach('image', await createCarrierPng(64, 64), 'carrier.png');
+      await waitForJob(job.body.data.id);
+      const sendEncodedResult = jest.spyOn(encodeController, 'sendEncodedResult').mockImplementation(res => {
+        res.set('Content-Type', 'image/png');
+        throw new TypeError('Invalid character in header content ["X-Layout"]');
+      });
+
+      try {
+        const result = await request(app).get(`/jobs/${job.body.data.id}/result`);
+
+        expect(result.status).toBe(500);
+        expect(result.type).toBe('application/json');
+        expect(result.body).toMatchObject({ success: false, error: { code: 'JOB_RESULT_FAILED' } });
+      } finally {
+        sendEncodedResult.mockRestore();
+      }
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app).get('/jobs/unknown/result');
+      
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('JOB_NOT_FOUND');
+    });
   });
 });
 
+// Helper function to create a carrier PNG large enough to hold a payload
+async function createCarrierPng(width: number, height: number): Promise<Buffer> {
+  const image = new Jimp(width, height, 0x336699FF);
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
 // Helper function to create a minimal valid PNG
 function createTestPng(): Buffer {
   // Minimal 1x1 white pixel PNG
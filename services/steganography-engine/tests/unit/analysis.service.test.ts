@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import Jimp from 'jimp';
+import { analyzeImage, renderLsbPlane } from '../../src/services/analysis.service';
+import { encode, getCapacity } from '../../src/services/encoder.service';
+
+// Deterministic pseudo-random numbers in [0, 1)
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) & 0x7FFFFFFF;
+    return state / 0x80000000;
+  };
+}
+
+// Helper function to create a photo-like image: smooth gradients plus sensor noise
+async function createNaturalImage(width: number = 128, height: number = 128): Promise<Jimp> {
+  const random = createRandom(7);
+  const image = new Jimp(width, height, 0x000000FF);
+  image.scan(0, 0, width, height, function(x, y, idx) {
+    const base = 128 + 60 * Math.sin(x / 17) * Math.cos(y / 23) + 30 * Math.sin((x + y) / 41);
+    for (let channel = 0; channel < 3; channel++) {
+      const noise = (random() + random() + random() - 1.5) * 6;
+      this.bitmap.data[idx + channel] = Math.max(0, Math.min(255, Math.round(base + channel * 10 + noise)));
+    }
+  });
+  return image;
+}
+
+// Helper function to replace the LSBs of a share of the colour channels with random bits
+async function embedRandomBits(rate: number): Promise<Buffer> {
+  const image = await createNaturalImage();
+  const random = createRandom(99);
+  const data = image.bitmap.data;
+  for (let i = 0; i < data.length; i++) {
+    if (i % 4 !== 3 && random() < rate) {
+      data[i] = (data[i] & ~1) | (random() < 0.5 ? 1 : 0);
+    }
+  }
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+describe('Analysis Service', () => {
+  describe('analyzeImage', () => {
+    it('should not flag a clean image', async () => {
+      const result = await analyzeImage(await embedRandomBits(0));
+
+      expect(result.suspicious).toBe(false);
+      expect(result.estimatedRate).toBeLessThan(0.05);
+      expect(result.channels.map(channel => channel.channel)).toEqual(['red', 'green', 'blue']);
+    });
+
+    it('should estimate the rate of random LSB replacement', async () => {
+      for (const rate of [0.25, 0.5]) {
+        const result = await analyzeImage(await embedRandomBits(rate));
+
+        expect(result.suspicious).toBe(true);
+        expect(result.confidence).toBe(1);
+        expect(result.estimatedRate).toBeGreaterThan(rate - 0.1);
+        expect(result.estimatedRate).toBeLessThan(rate + 0.1);
+      }
+    });
+
+    it('should flag an image filled by the encoder', async () => {
+      const image = await (await createNaturalImage()).getBufferAsync(Jimp.MIME_PNG);
+      const capacity = await getCapacity(image);
+      // Leave room for the file name and MIME type
+      const encoded = await encode(image, {
+        data: crypto.randomBytes(capacity.availableBytes - 64),
+        filename: 'noise.bin',
+        mimeType: 'application/octet-stream'
+      });
+
+      const result = await analyzeImage(encoded.image);
+
+      expect(result.suspicious).toBe(true);
+      expect(result.estimatedRate).toBeGreaterThan(0.5);
+      expect(result.estimatedPayloadBytes).toBeGreaterThan(capacity.availableBytes / 2);
+    });
+
+    it('should report the rate per channel from every detector', async () => {
+      const result = await analyzeImage(await embedRandomBits(0.5));
+
+      for (const channel of result.channels) {
+        expect(channel.chiSquare.probability).toBeGreaterThan(0.5);
+        expect(channel.rs.estimatedRate).toBeGreaterThan(0.3);
+        expect(channel.samplePairs.estimatedRate).toBeGreaterThan(0.3);
+      }
+    });
+
+    it('should reject invalid images', async () => {
+      await expect(analyzeImage(Buffer.from('not an image'))).rejects.toThrow();
+    });
+  });
+
+  describe('renderLsbPlane', () => {
+    it('should render the LSBs of each channel as black or white', async () => {
+      const plane = await Jimp.read(await renderLsbPlane(await embedRandomBits(0.5)));
+
+      expect(plane.getWidth()).toBe(128);
+      expect(plane.getHeight()).toBe(128);
+      const values = new Set(plane.bitmap.data.filter((_, i) => i % 4 !== 3));
+      expect([...values].sort((a, b) => a - b)).toEqual([0, 255]);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import Jimp from 'jimp';
+import * as kdfService from '../../src/services/kdf.service';
+import { encodeBatch, BATCH_MANIFEST_FILENAME } from '../../src/services/batch.service';
+import { decode } from '../../src/services/decoder.service';
+import { readZip } from '../../src/utils/zip.utils';
+import { BatchManifest } from '../../src/types';
+
+// Helper function to create a carrier PNG
+async function createCarrier(width: number, height: number): Promise<Buffer> {
+  const image = new Jimp(width, height, 0x336699FF);
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+describe('Batch Service', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should encode every carrier and derive the password key once', async () => {
+    const deriveKey = jest.spyOn(kdfService, 'deriveKey');
+    const carriers = [
+      { data: await createCarrier(64, 64), filename: 'first.png' },
+      { data: await createCarrier(48, 48), filename: 'second.png' }
+    ];
+
+    const result = await encodeBatch(carriers, 'stamped message', 'secret', { kdf: 'pbkdf2' });
+
+    expect(deriveKey).toHaveBeenCalledTimes(1);
+    expect(result.manifest).toMatchObject({ total: 2, encoded: 2, skipped: 0 });
+
+    const entries = readZip(result.archive);
+    expect(entries.map(entry => entry.name)).toEqual(['001-first.png', '002-second.png', BATCH_MANIFEST_FILENAME]);
+    for (const entry of entries.slice(0, 2)) {
+      const decoded = await decode(entry.data, 'secret');
+      expect(decoded.message).toBe('stamped message');
+    }
+  });
+
+  it('should skip carriers too small for the payload with a reason', async () => {
+    const carriers = [
+      { data: await createCarrier(64, 64), filename: 'large.png' },
+      { data: await createCarrier(4, 4), filename: 'tiny.png' }
+    ];
+
+    const result = await encodeBatch(carriers, 'a message that does not fit in sixteen pixels');
+    const manifest = JSON.parse(
+      readZip(result.archive).find(entry => entry.name === BATCH_MANIFEST_FILENAME)!.data.toString()
+    ) as BatchManifest;
+
+    expect(manifest).toEqual(result.manifest);
+    expect(manifest).toMatchObject({ total: 2, encoded: 1, skipped: 1 });
+    expect(manifest.files[0]).toMatchObject({ status: 'encoded', file: '001-large.png', result: { format: 'png' } });
+    expect(manifest.files[0].result).not.toHaveProperty('image');
+    expect(manifest.files[1]).toMatchObject({ index: 2, source: 'tiny.png', status: 'skipped' });
+    expect(manifest.files[1].reason).toContain('Message too large');
+  });
+
+  it('should fail when no carrier can hold the payload', async () => {
+    const carriers = [{ data: await createCarrier(4, 4), filename: 'tiny.png' }];
+
+    await expect(encodeBatch(carriers, 'a message that does not fit in sixteen pixels'))
+      .rejects.toMatchObject({ code: 'NO_IMAGES_ENCODED' });
+  });
+
+  it('should fail the whole batch on invalid options', async () => {
+    const carriers = [{ data: await createCarrier(64, 64), filename: 'carrier.png' }];
+
+    await expect(encodeBatch(carriers, 'message', undefined, { layout: 'keyed' }))
+      .rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+  });
+});
@@ -4,7 +4,10 @@ import {
   stringToBinary,
   binaryToString,
   numberTo32BitBinary,
-  binaryTo32BitNumber
+  binaryTo32BitNumber,
+  bytesToBinary,
+  createBitReader,
+  createBitWriter
 } from '../../src/utils/bit.utils';
 
 describe('Bit Utilities', () => {
@@ -78,4 +81,37 @@ describe('Bit Utilities', () => {
       expect(numberTo32BitBinary(255).length).toBe(32);
     });
   });
+
+  describe('createBitReader and createBitWriter', () => {
+    it('should read bits most significant first across byte boundaries', () => {
+      const reader = createBitReader(new Uint8Array([0b10110011, 0b01011100]));
+
+      expect(reader.read(3)).toBe(0b101);
+      expect(reader.read(7)).toBe(0b1001101);
+      expect(reader.read(4)).toBe(0b0111);
+      // Past the end, bits read as zeros
+      expect(reader.read(4)).toBe(0b0000);
+    });
+
+    it('should round-trip bits written in chunks of any width', () => {
+      const data = new Uint8Array([0x00, 0xFF, 0x5A, 0xC3, 0x81, 0x7E, 0x12]);
+      for (let width = 1; width <= 8; width++) {
+        const reader = createBitReader(data);
+        const writer = createBitWriter(data.length);
+        for (let bit = 0; bit < data.length * 8; bit += width) {
+          writer.write(reader.read(width), width);
+        }
+        expect(Buffer.from(writer.bytes)).toEqual(Buffer.from(data));
+      }
+    });
+
+    it('should drop bits written past the end', () => {
+      const writer = createBitWriter(1);
+      writer.write(0b111, 3);
+      writer.write(0b11111, 5);
+      writer.write(0b1111, 4);
+
+      expect(bytesToBinary(Buffer.from(writer.bytes))).toBe('11111111');
+    });
+  });
 });
@@ -1,5 +1,14 @@
-import { createComposite, validateImages, MIN_IMAGES, MAX_IMAGES } from '../../src/services/composite.service';
+import {
+  createComposite,
+  encodeComposite,
+  validateImages,
+  MIN_IMAGES,
+  MAX_IMAGES,
+  ROTATIONS,
+  BLEND_MODES
+} from '../../src/services/composite.service';
 import Jimp from 'jimp';
+import { decode } from '../../src/services/decoder.service';
 
 // Helper function to create a minimal valid PNG buffer
 async function createTestImage(width: number = 100, height: number = 100, color: number = 0xFF0000FF): Promise<Buffer> {
@@ -100,6 +109,215 @@ describe('Composite Service', () => {
     });
   });
   
+  describe('seeds and transforms', () => {
+    let images: Buffer[];
+    
+    beforeAll(async () => {
+      images = [
+        await createTestImage(100, 100, 0xFF0000FF),
+        await createTestImage(60, 40, 0x00FF00FF),
+        await createTestImage(30, 30, 0x0000FFFF)
+      ];
+    });
+    
+    it('should reproduce a composite from its seed', async () => {
+      const first = await createComposite(images, { seed: 'reproducible' });
+      const second = await createComposite(images, { seed: 'reproducible' });
+      const other = await createComposite(images, { seed: 'another seed' });
+      
+      expect(second.image.equals(first.image)).toBe(true);
+      expect(second.layers).toEqual(first.layers);
+      expect(other.layers).not.toEqual(first.layers);
+    });
+    
+    it('should report a random seed that reproduces the composite', async () => {
+      const random = await createComposite(images);
+      const replayed = await createComposite(images, { seed: random.seed });
+      
+      expect(random.seed).toMatch(/^[0-9a-f]{16}$/);
+      expect(replayed.image.equals(random.image)).toBe(true);
+    });
+    
+    it('should report the transform applied to each image', async () => {
+      const result = await createComposite(images, { seed: 'layout' });
+      
+      expect(result.layers.map(layer => layer.index)).toEqual([1, 2, 3]);
+      for (const [i, layer] of result.layers.entries()) {
+        expect(ROTATIONS).toContain(layer.rotation);
+        expect(BLEND_MODES).toContain(layer.blendMode);
+        expect(layer.opacity).toBeGreaterThanOrEqual(0.3);
+        expect(layer.opacity).toBeLessThanOrEqual(1);
+        // Quarter turns swap the width and height of the image
+        const image = await Jimp.read(images[i]);
+        const turned = layer.rotation % 180 !== 0;
+        expect(layer.width).toBe(turned ? image.getHeight() : image.getWidth());
+        expect(layer.x).toBeLessThanOrEqual(Math.max(0, result.width - layer.width));
+        expect(layer.y).toBeLessThanOrEqual(Math.max(0, result.height - layer.height));
+      }
+    });
+    
+    it('should apply pinned transforms and keep the other values random', async () => {
+      const random = await createComposite(images, { seed: 'pinned' });
+      const pinned = await createComposite(images, {
+        seed: 'pinned',
+        transforms: [null, { rotation: 180, x: 5, y: 7, blendMode: Jimp.BLEND_MULTIPLY, opacity: 0.5 }]
+      });
+      
+      expect(pinned.layers[1]).toMatchObject({ index: 2, rotation: 180, x: 5, y: 7, blendMode: Jimp.BLEND_MULTIPLY, opacity: 0.5 });
+      expect(pinned.layers[0]).toEqual(random.layers[0]);
+      expect(pinned.layers[2]).toEqual(random.layers[2]);
+    });
+    
+    it('should reproduce a composite from its reported layout', async () => {
+      const random = await createComposite(images);
+      const replayed = await createComposite(images, { transforms: random.layers });
+      
+      expect(replayed.image.equals(random.image)).toBe(true);
+    });
+    
+    it.each([
+      [[{ rotation: 'quarter' }], 'rotation'],
+      [[{ x: 1.5 }], 'integers'],
+      [[{ blendMode: 'dissolve' }], 'blend mode'],
+      [[{ opacity: 2 }], 'opacity'],
+      [[null, null, null, null], 'at most 3']
+    ])('should reject invalid transforms %j', async (transforms, message) => {
+      await expect(createComposite(images, { transforms: transforms as never }))
+        .rejects.toMatchObject({ code: 'INVALID_OPTIONS', message: expect.stringContaining(message) });
+    });
+  });
+  
+  describe('layouts and canvas options', () => {
+    let images: Buffer[];
+    
+    beforeAll(async () => {
+      images = [
+        await createTestImage(100, 50, 0xFF0000FF),
+        await createTestImage(50, 50, 0x00FF00FF),
+        await createTestImage(40, 80, 0x0000FFFF)
+      ];
+    });
+    
+    it('should place images in grid cells, whole or cropped to fill them', async () => {
+      const fit = await createComposite(images, { layout: 'grid' });
+      const fill = await createComposite(images, { layout: 'grid', fit: 'fill' });
+      
+      // Two columns of cells the size of the largest image
+      expect(fit).toMatchObject({ width: 200, height: 160 });
+      expect(fit.layers.map(({ x, y, width, height }) => ({ x, y, width, height }))).toEqual([
+        { x: 0, y: 15, width: 100, height: 50 },
+        { x: 110, y: 0, width: 80, height: 80 },
+        { x: 30, y: 80, width: 40, height: 80 }
+      ]);
+      expect(fill.layers.every(layer => layer.width === 100 && layer.height === 80)).toBe(true);
+      expect(fit.layers.every(layer => layer.rotation === 0 && layer.opacity === 1 && layer.blendMode === Jimp.BLEND_SOURCE_OVER)).toBe(true);
+    });
+    
+    it('should lay out strips keeping aspect ratios', async () => {
+      const horizontal = await createComposite(images, { layout: 'horizontal' });
+      const vertical = await createComposite(images, { layout: 'vertical' });
+      
+      // All images scaled to the tallest height (80), side by side
+      expect(horizontal).toMatchObject({ width: 160 + 80 + 40, height: 80 });
+      expect(horizontal.layers.map(layer => layer.x)).toEqual([0, 160, 240]);
+      // All images scaled to the widest width (100), stacked
+      expect(vertical).toMatchObject({ width: 100, height: 50 + 100 + 200 });
+      expect(vertical.layers.map(layer => layer.y)).toEqual([0, 50, 150]);
+    });
+    
+    it('should cover the canvas without gaps in the mosaic layout', async () => {
+      const result = await createComposite(images, { layout: 'mosaic', background: '#ff00ff' });
+      const canvas = await Jimp.read(result.image);
+      
+      const area = result.layers.reduce((sum, layer) => sum + layer.width * layer.height, 0);
+      expect(Math.abs(area - result.width * result.height)).toBeLessThan(result.width + result.height);
+      let background = 0;
+      canvas.scan(0, 0, canvas.getWidth(), canvas.getHeight(), (_x, _y, idx) => {
+        if (canvas.bitmap.data.readUInt32BE(idx) === 0xFF00FFFF) {
+          background++;
+        }
+      });
+      expect(background).toBe(0);
+    });
+    
+    it('should scale the layout to the target size', async () => {
+      const fit = await createComposite(images, { layout: 'horizontal', width: 140, height: 100 });
+      const fill = await createComposite(images, { layout: 'horizontal', width: 140, height: 100, fit: 'fill' });
+      const widthOnly = await createComposite(images, { layout: 'horizontal', width: 140 });
+      
+      expect(fit).toMatchObject({ width: 140, height: 100 });
+      // Half size, centred vertically
+      expect(fit.layers[0]).toMatchObject({ x: 0, y: 30, width: 80, height: 40 });
+      expect(fill.layers[0]).toMatchObject({ height: 100 });
+      expect(widthOnly).toMatchObject({ width: 140, height: 40 });
+    });
+    
+    it('should fill the canvas with the background colour or leave it transparent', async () => {
+      const options = { layout: 'horizontal' as const, width: 140, height: 100 };
+      const coloured = await Jimp.read((await createComposite(images, { ...options, background: '#00f' })).image);
+      const transparent = await Jimp.read((await createComposite(images, { ...options, background: 'transparent' })).image);
+      
+      expect(coloured.getPixelColor(0, 0)).toBe(0x0000FFFF);
+      expect(transparent.getPixelColor(0, 0)).toBe(0x00000000);
+      expect(coloured.getPixelColor(10, 50)).toBe(0xFF0000FF);
+    });
+    
+    it('should rotate images by any angle', async () => {
+      const pinned = await createComposite(images, { transforms: [{ rotation: 45, x: 0, y: 0 }] });
+      const free = await createComposite(images, { seed: 'free', rotations: 'free' });
+      const none = await createComposite(images, { seed: 'free', rotations: 'none' });
+      
+      // The bounding box of a 100x50 image turned by 45 degrees
+      expect(pinned.layers[0].rotation).toBe(45);
+      expect(pinned.layers[0].width).toBeGreaterThanOrEqual(105);
+      expect(free.layers.some(layer => layer.rotation % 90 !== 0)).toBe(true);
+      expect(none.layers.every(layer => layer.rotation === 0)).toBe(true);
+    });
+    
+    it.each([
+      [{ layout: 'spiral' }, 'Layout'],
+      [{ fit: 'stretch' }, 'Fit'],
+      [{ rotations: 'some' }, 'Rotations'],
+      [{ width: 0 }, 'Width and height'],
+      [{ height: 100000 }, 'Width and height'],
+      [{ background: 'pink' }, 'Background'],
+      [{ layout: 'grid', transforms: [{ x: 3 }] }, 'cannot be pinned']
+    ])('should reject invalid options %j', async (options, message) => {
+      await expect(createComposite(images, options as never))
+        .rejects.toMatchObject({ code: 'INVALID_OPTIONS', message: expect.stringContaining(message) });
+    });
+  });
+  
+  describe('encodeComposite', () => {
+    it('should hide a message in a new composite', async () => {
+      const images = [
+        await createTestImage(100, 100, 0xFF0000FF),
+        await createTestImage(80, 80, 0x00FF00FF)
+      ];
+      
+      const result = await encodeComposite(images, 'hidden in a composite', 'secret', { kdf: 'pbkdf2' }, { seed: 'pipeline' });
+      const composite = await createComposite(images, { seed: 'pipeline' });
+      
+      expect(result.composite).toMatchObject({ width: 100, height: 100, imagesUsed: 2, seed: 'pipeline' });
+      expect(result.composite.layers).toEqual(composite.layers);
+      expect(result.encoding).toMatchObject({ format: 'png', kdf: 'pbkdf2' });
+      expect(result.encoding).not.toHaveProperty('image');
+      expect(result.image.equals(composite.image)).toBe(false);
+      
+      const decoded = await decode(result.image, 'secret');
+      expect(decoded.message).toBe('hidden in a composite');
+    });
+    
+    it('should fail when the composite cannot hold the message', async () => {
+      const images = [
+        await createTestImage(4, 4, 0xFF0000FF),
+        await createTestImage(4, 4, 0x00FF00FF)
+      ];
+      
+      await expect(encodeComposite(images, 'too long for sixteen pixels')).rejects.toThrow('Message too large');
+    });
+  });
+  
   describe('constants', () => {
     it('should have MIN_IMAGES set to 2', () => {
       expect(MIN_IMAGES).toBe(2);
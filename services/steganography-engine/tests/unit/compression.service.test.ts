@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import {
+  compressPayload,
+  decompressPayload,
+  toCompressionExtension,
+  readCompressionCodec
+} from '../../src/services/compression.service';
+import {
+  buildContainer,
+  parseContainerHeader,
+  EXTENSION_COMPRESSION,
+  KDF_NONE,
+  PAYLOAD_TYPE_TEXT
+} from '../../src/services/container.service';
+import { CodedError } from '../../src/utils/errors';
+
+describe('Compression Service', () => {
+  describe('compressPayload', () => {
+    it('should pick a codec that shrinks compressible text', () => {
+      const data = Buffer.from('Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(10));
+      const compressed = compressPayload(data, true);
+
+      expect(compressed.codec).not.toBe('none');
+      expect(compressed.data.length).toBeLessThan(data.length);
+      expect(decompressPayload(compressed.data, compressed.codec).equals(data)).toBe(true);
+    });
+
+    it('should keep incompressible data as is', () => {
+      const data = crypto.randomBytes(256);
+      const compressed = compressPayload(data, false);
+
+      expect(compressed.codec).toBe('none');
+      expect(compressed.data).toBe(data);
+    });
+
+    it.each(['deflate', 'brotli'] as const)('should round-trip with %s', codec => {
+      const data = Buffer.from('abcabcabc'.repeat(50));
+      const compressed = codec === 'deflate' ? zlib.deflateRawSync(data) : zlib.brotliCompressSync(data);
+
+      expect(decompressPayload(compressed, codec).equals(data)).toBe(true);
+    });
+  });
+
+  describe('decompressPayload', () => {
+    it('should refuse corrupted compressed data', () => {
+      expect(() => decompressPayload(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF]), 'brotli')).toThrow(CodedError);
+    });
+  });
+
+  describe('compression extension', () => {
+    it('should round-trip the codec through a container header', () => {
+      const container = buildContainer(Buffer.alloc(0), {
+        flags: 0,
+        kdf: KDF_NONE,
+        payloadType: PAYLOAD_TYPE_TEXT,
+        extensions: [toCompressionExtension('brotli')]
+      });
+
+      expect(readCompressionCodec(parseContainerHeader(container))).toBe('brotli');
+    });
+
+    it('should reject an unknown codec', () => {
+      const container = buildContainer(Buffer.alloc(0), {
+        flags: 0,
+        kdf: KDF_NONE,
+        payloadType: PAYLOAD_TYPE_TEXT,
+        extensions: [{ tag: EXTENSION_COMPRESSION, value: Buffer.from([0x7F]) }]
+      });
+
+      expect(() => readCompressionCodec(parseContainerHeader(container))).toThrow('unknown compression codec');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  buildContainer,
+  openContainer,
+  parseContainerHeader,
+  hasContainerMagic,
+  getContainerLength,
+  CONTAINER_HEADER_BYTES,
+  CONTAINER_VERSION,
+  CONTAINER_FLAG_ENCRYPTED,
+  KDF_PBKDF2_SHA256,
+  PAYLOAD_TYPE_TEXT
+} from '../../src/services/container.service';
+import { CodedError } from '../../src/utils/errors';
+
+describe('Container Service', () => {
+  const payload = Buffer.from('Hello, container!', 'utf8');
+  const options = {
+    flags: CONTAINER_FLAG_ENCRYPTED,
+    kdf: KDF_PBKDF2_SHA256,
+    payloadType: PAYLOAD_TYPE_TEXT
+  };
+
+  describe('buildContainer and openContainer', () => {
+    it('should round-trip a payload and its header fields', () => {
+      const container = buildContainer(payload, options);
+      const { header, payload: opened } = openContainer(container);
+
+      expect(opened.equals(payload)).toBe(true);
+      expect(header.version).toBe(CONTAINER_VERSION);
+      expect(header.flags).toBe(CONTAINER_FLAG_ENCRYPTED);
+      expect(header.kdf).toBe(KDF_PBKDF2_SHA256);
+      expect(header.payloadType).toBe(PAYLOAD_TYPE_TEXT);
+      expect(header.payloadLength).toBe(payload.length);
+    });
+
+    it('should start with the magic signature', () => {
+      const container = buildContainer(payload, options);
+      expect(hasContainerMagic(container)).toBe(true);
+      expect(hasContainerMagic(Buffer.from('not a container'))).toBe(false);
+    });
+
+    it('should round-trip extension records', () => {
+      const extensions = [
+        { tag: 1, value: Buffer.from([0x01, 0x02]) },
+        { tag: 200, value: Buffer.alloc(0) }
+      ];
+      const container = buildContainer(payload, { ...options, extensions });
+      const { header } = openContainer(container);
+
+      expect(header.extensions).toHaveLength(2);
+      expect(header.extensions[0].tag).toBe(1);
+      expect(header.extensions[0].value.equals(Buffer.from([0x01, 0x02]))).toBe(true);
+      expect(header.extensions[1].tag).toBe(200);
+      expect(getContainerLength(parseContainerHeader(container))).toBe(container.length);
+    });
+  });
+
+  describe('corruption detection', () => {
+    it('should reject a container with a flipped payload bit', () => {
+      const container = buildContainer(payload, options);
+      container[CONTAINER_HEADER_BYTES + 3] ^= 0x01;
+
+      expect(() => openContainer(container)).toThrow(CodedError);
+      expect(() => openContainer(container)).toThrow('checksum mismatch');
+    });
+
+    it('should reject a container with a flipped header bit', () => {
+      const container = buildContainer(payload, options);
+      container[5] ^= 0x02;
+
+      expect(() => openContainer(container)).toThrow('checksum mismatch');
+    });
+
+    it('should reject a truncated container', () => {
+      const container = buildContainer(payload, options);
+
+      expect(() => openContainer(container.subarray(0, container.length - 1))).toThrow('truncated');
+    });
+
+    it('should reject unsupported versions', () => {
+      const container = buildContainer(payload, options);
+      container[4] = CONTAINER_VERSION + 1;
+
+      try {
+        parseContainerHeader(container);
+        fail('Expected parseContainerHeader to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CodedError);
+        expect((error as CodedError).code).toBe('UNSUPPORTED_CONTAINER_VERSION');
+      }
+    });
+  });
+});
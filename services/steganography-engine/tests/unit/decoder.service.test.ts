@@ -0,0 +1,294 @@
+import crypto from 'crypto';
+import Jimp from 'jimp';
+import { encode } from '../../src/services/encoder.service';
+import { decode, hasHiddenData, extractPayload } from '../../src/services/decoder.service';
+import { embedBits } from '../../src/services/lsb.service';
+import { numberTo32BitBinary, bytesToBinary } from '../../src/utils/bit.utils';
+import {
+  CONTAINER_HEADER_BYTES,
+  CONTAINER_FLAG_ENCRYPTED,
+  CONTAINER_FLAG_RECIPIENT_SEALED,
+  KDF_X25519_HKDF_SHA256
+} from '../../src/services/container.service';
+import { ECC_ENVELOPE_HEADER_BYTES } from '../../src/services/ecc.service';
+import * as kdfService from '../../src/services/kdf.service';
+import { getHeaderPixels } from '../../src/services/validation.service';
+import { CodedError } from '../../src/utils/errors';
+import config from '../../src/config';
+
+// Helper function to create a carrier PNG with varied pixel values
+async function createCarrier(width: number = 64, height: number = 64): Promise<Buffer> {
+  const image = new Jimp(width, height, 0x808080FF);
+  image.scan(0, 0, width, height, function(x, y, idx) {
+    this.bitmap.data[idx] = (x * 7 + y * 13) & 0xFF;
+    this.bitmap.data[idx + 1] = (x * 3 + y * 5) & 0xFF;
+    this.bitmap.data[idx + 2] = (x * 11 + y) & 0xFF;
+  });
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+// Helper function to flip the LSBs of the channels holding the given payload bits
+async function flipBits(imageBuffer: Buffer, ...bitIndices: number[]): Promise<Buffer> {
+  const image = await Jimp.read(imageBuffer);
+  for (const bitIndex of bitIndices) {
+    const pixel = Math.floor(bitIndex / 3);
+    const idx = pixel * 4 + (bitIndex % 3);
+    image.bitmap.data[idx] ^= 0x01;
+  }
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+describe('Decoder Service', () => {
+  describe('container format', () => {
+    it('should decode a message and report the container version', async () => {
+      const encoded = await encode(await createCarrier(), 'container message');
+      const result = await decode(encoded.image);
+
+      expect(result.message).toBe('container message');
+      expect(result.metadata.containerVersion).toBe(1);
+    });
+
+    it('should refuse a corrupted payload with a distinct error code', async () => {
+      const encoded = await encode(await createCarrier(), 'container message');
+      const corrupted = await flipBits(encoded.image, CONTAINER_HEADER_BYTES * 8 + 5);
+
+      await expect(decode(corrupted)).rejects.toBeInstanceOf(CodedError);
+      await expect(decode(corrupted)).rejects.toMatchObject({ code: 'PAYLOAD_CORRUPTED' });
+    });
+  });
+
+  describe('keyed layout', () => {
+    it('should decode a keyed payload with the same key', async () => {
+      const encoded = await encode(await createCarrier(), 'scattered message', undefined, { key: 'layout-key' });
+      const result = await decode(encoded.image, undefined, { key: 'layout-key' });
+
+      expect(encoded.layout).toBe('keyed');
+      expect(result.message).toBe('scattered message');
+      expect(result.metadata.layout).toBe('keyed');
+    });
+
+    it('should derive the layout from the password when no key is given', async () => {
+      const encoded = await encode(await createCarrier(), 'scattered message', 'secret', { layout: 'keyed' });
+      const result = await decode(encoded.image, 'secret');
+
+      expect(result.message).toBe('scattered message');
+    });
+
+    it('should require a key to decode a keyed payload', async () => {
+      const encoded = await encode(await createCarrier(), 'scattered message', undefined, { key: 'layout-key' });
+
+      await expect(decode(encoded.image)).rejects.toMatchObject({ code: 'KEY_REQUIRED' });
+    });
+
+    it('should stretch the layout key with the KDF', async () => {
+      const deriveKey = jest.spyOn(kdfService, 'deriveKey');
+      try {
+        const encoded = await encode(await createCarrier(), 'scattered message', undefined, {
+          key: 'layout-key',
+          kdf: 'pbkdf2'
+        });
+        await decode(encoded.image, undefined, { key: 'layout-key' });
+
+        const layoutDerivations = deriveKey.mock.calls.filter(([key]) => key === 'layout-key');
+        expect(layoutDerivations).toHaveLength(2);
+        expect(layoutDerivations[1][2]).toEqual(kdfService.getDefaultKdfParams('pbkdf2'));
+        expect(layoutDerivations[0][1].equals(layoutDerivations[1][1])).toBe(true);
+      } finally {
+        deriveKey.mockRestore();
+      }
+    });
+
+    it('should refuse a keyed payload read with the wrong key', async () => {
+      const encoded = await encode(await createCarrier(), 'scattered message', undefined, { key: 'layout-key' });
+
+      await expect(decode(encoded.image, undefined, { key: 'wrong-key' }))
+        .rejects.toMatchObject({ code: 'PAYLOAD_CORRUPTED' });
+    });
+  });
+
+  describe('error correction', () => {
+    const payloadStartBit = getHeaderPixels(ECC_ENVELOPE_HEADER_BYTES) * 3;
+
+    it('should repair flipped payload bits and report the corrected bytes', async () => {
+      const encoded = await encode(await createCarrier(), 'protected message', undefined, { errorCorrection: 'medium' });
+      const corrupted = await flipBits(encoded.image, payloadStartBit + 3, payloadStartBit + 100, payloadStartBit + 205);
+
+      const result = await decode(corrupted);
+
+      expect(encoded.errorCorrection).toBe('medium');
+      expect(result.message).toBe('protected message');
+      expect(result.metadata.errorCorrection).toBe('medium');
+      expect(result.metadata.correctedErrors).toBe(3);
+    });
+
+    it('should survive flipped bits in the envelope header', async () => {
+      const encoded = await encode(await createCarrier(), 'protected message', undefined, { errorCorrection: 'low' });
+      // The coded length field of the first header copy, and the magic of the second
+      const corrupted = await flipBits(encoded.image, 7 * 8 + 30, 36 * 8 + 2);
+
+      const result = await decode(corrupted);
+
+      expect(result.message).toBe('protected message');
+      expect(result.metadata.correctedErrors).toBe(0);
+    });
+
+    it('should repair a keyed payload', async () => {
+      const encoded = await encode(await createCarrier(), 'protected message', 'secret', {
+        layout: 'keyed',
+        errorCorrection: 'high'
+      });
+      // Scattered payload bits land anywhere, so damage every 150th slot after the header
+      const slotCount = 64 * 64 * 3 - payloadStartBit;
+      const bits = Array.from({ length: Math.floor(slotCount / 150) }, (_, i) => payloadStartBit + i * 150);
+      const corrupted = await flipBits(encoded.image, ...bits);
+
+      const result = await decode(corrupted, 'secret');
+
+      expect(result.message).toBe('protected message');
+      expect(result.metadata.layout).toBe('keyed');
+      expect(result.metadata.correctedErrors).toBeGreaterThan(0);
+    });
+
+    it('should refuse a payload corrupted beyond repair', async () => {
+      const encoded = await encode(await createCarrier(), 'protected message', undefined, { errorCorrection: 'low' });
+      // 40 consecutive bytes of a single short codeword, more than the 8 it can repair
+      const bits = Array.from({ length: 40 }, (_, i) => payloadStartBit + i * 8);
+      const corrupted = await flipBits(encoded.image, ...bits);
+
+      await expect(decode(corrupted)).rejects.toMatchObject({ code: 'PAYLOAD_CORRUPTED' });
+    });
+
+    it('should leave unprotected payloads without a correction count', async () => {
+      const result = await decode((await encode(await createCarrier(), 'plain')).image);
+
+      expect(result.metadata.errorCorrection).toBe('none');
+      expect(result.metadata.correctedErrors).toBeUndefined();
+    });
+  });
+
+  describe('recipient encryption', () => {
+    const createKeyPair = () => crypto.generateKeyPairSync('x25519', {
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+
+    it('should let every recipient decode the payload with their private key', async () => {
+      const alice = createKeyPair();
+      const bob = createKeyPair();
+      const encoded = await encode(await createCarrier(), 'for two holders', undefined, {
+        recipients: [alice.publicKey, bob.publicKey]
+      });
+
+      for (const privateKey of [alice.privateKey, bob.privateKey]) {
+        const result = await decode(encoded.image, undefined, { privateKey });
+        expect(result.message).toBe('for two holders');
+        expect(result.metadata.encrypted).toBe(true);
+        expect(result.metadata.encryption).toBe('recipient');
+      }
+    });
+
+    it('should mark key-sealed payloads in the container header', async () => {
+      const sealed = await encode(await createCarrier(), 'sealed', undefined, { recipients: [createKeyPair().publicKey] });
+      const withPassword = await encode(await createCarrier(), 'sealed', 'secret');
+
+      const sealedHeader = (await extractPayload(sealed.image)).header!;
+      const passwordHeader = (await extractPayload(withPassword.image)).header!;
+
+      expect(sealedHeader.flags & (CONTAINER_FLAG_ENCRYPTED | CONTAINER_FLAG_RECIPIENT_SEALED))
+        .toBe(CONTAINER_FLAG_ENCRYPTED | CONTAINER_FLAG_RECIPIENT_SEALED);
+      expect(sealedHeader.kdf).toBe(KDF_X25519_HKDF_SHA256);
+      expect(passwordHeader.flags & CONTAINER_FLAG_RECIPIENT_SEALED).toBe(0);
+    });
+
+    it('should require a matching private key', async () => {
+      const encoded = await encode(await createCarrier(), 'sealed', undefined, { recipients: [createKeyPair().publicKey] });
+
+      await expect(decode(encoded.image)).rejects.toMatchObject({ code: 'PRIVATE_KEY_REQUIRED' });
+      await expect(decode(encoded.image, 'password')).rejects.toMatchObject({ code: 'PRIVATE_KEY_REQUIRED' });
+      await expect(decode(encoded.image, undefined, { privateKey: createKeyPair().privateKey }))
+        .rejects.toMatchObject({ code: 'NOT_A_RECIPIENT' });
+    });
+
+    it('should refuse a password together with recipients', async () => {
+      await expect(encode(await createCarrier(), 'sealed', 'secret', { recipients: [createKeyPair().publicKey] }))
+        .rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    });
+  });
+
+  describe('legacy format', () => {
+    it('should decode images written with the legacy length + flag header', async () => {
+      const image = await Jimp.read(await createCarrier());
+      const message = Buffer.from('legacy message', 'utf8');
+      embedBits(image, numberTo32BitBinary(message.length) + '00000000' + bytesToBinary(message));
+      const legacyImage = await image.getBufferAsync(Jimp.MIME_PNG);
+
+      const result = await decode(legacyImage);
+
+      expect(result.message).toBe('legacy message');
+      expect(result.metadata.encrypted).toBe(false);
+      expect(result.metadata.containerVersion).toBeUndefined();
+    });
+
+    it('should decrypt legacy images with the fixed PBKDF2 iterations', async () => {
+      const image = await Jimp.read(await createCarrier());
+      const salt = crypto.randomBytes(32);
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv('aes-256-gcm', crypto.pbkdf2Sync('secret', salt, 100000, 32, 'sha256'), iv);
+      const encrypted = Buffer.concat([cipher.update('legacy secret', 'utf8'), cipher.final()]);
+      const blob = Buffer.concat([salt, iv, cipher.getAuthTag(), encrypted]);
+      embedBits(image, numberTo32BitBinary(blob.length) + '00000001' + bytesToBinary(blob));
+
+      const result = await decode(await image.getBufferAsync(Jimp.MIME_PNG), 'secret');
+
+      expect(result.message).toBe('legacy secret');
+      expect(result.metadata.kdf).toBe('pbkdf2');
+    });
+  });
+
+  describe('password KDFs', () => {
+    // Argon2id runs in pure JavaScript, which is slow inside the test sandbox
+    const argon2Memory = config.argon2Memory;
+    beforeAll(() => {
+      config.argon2Memory = 1024;
+    });
+    afterAll(() => {
+      config.argon2Memory = argon2Memory;
+    });
+
+    it('should pick up the KDF and its parameters from the payload', async () => {
+      for (const kdf of ['pbkdf2', 'scrypt', 'argon2id'] as const) {
+        const encoded = await encode(await createCarrier(), 'kdf message', 'secret', { kdf });
+        const result = await decode(encoded.image, 'secret');
+
+        expect(encoded.kdf).toBe(kdf);
+        expect(result.message).toBe('kdf message');
+        expect(result.metadata.kdf).toBe(kdf);
+      }
+    });
+
+    it('should reject an unknown KDF', async () => {
+      await expect(encode(await createCarrier(), 'kdf message', 'secret', { kdf: 'md5' as never }))
+        .rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    });
+  });
+
+  describe('hasHiddenData', () => {
+    it('should detect an encoded container', async () => {
+      const encoded = await encode(await createCarrier(), 'hidden');
+      expect(await hasHiddenData(encoded.image)).toBe(true);
+    });
+
+    it('should detect an error-protected container', async () => {
+      const encoded = await encode(await createCarrier(), 'hidden', undefined, { errorCorrection: 'low' });
+      expect(await hasHiddenData(encoded.image)).toBe(true);
+    });
+
+    it('should not report data in an image whose LSBs only form a plausible length', async () => {
+      const image = await Jimp.read(await createCarrier());
+      embedBits(image, numberTo32BitBinary(20) + '01010101');
+      const noisy = await image.getBufferAsync(Jimp.MIME_PNG);
+
+      expect(await hasHiddenData(noisy)).toBe(false);
+    });
+  });
+});
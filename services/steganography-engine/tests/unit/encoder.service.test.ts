@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import Jimp from 'jimp';
+import { encode, getCapacity } from '../../src/services/encoder.service';
+import { decode } from '../../src/services/decoder.service';
+
+// Helper function to create a carrier PNG with varied pixel values
+async function createCarrier(width: number = 48, height: number = 48): Promise<Buffer> {
+  const image = new Jimp(width, height, 0x808080FF);
+  image.scan(0, 0, width, height, function(x, y, idx) {
+    this.bitmap.data[idx] = (x * 7 + y * 13) & 0xFF;
+    this.bitmap.data[idx + 1] = (x * 3 + y * 5) & 0xFF;
+    this.bitmap.data[idx + 2] = (x * 11 + y) & 0xFF;
+  });
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+// Helper function to create a carrier JPEG with varied pixel values
+async function createJpegCarrier(width: number = 96, height: number = 96): Promise<Buffer> {
+  const image = await Jimp.read(await createCarrier(width, height));
+  return image.quality(90).getBufferAsync(Jimp.MIME_JPEG);
+}
+
+describe('Encoder Service', () => {
+  describe('configurable bit depth', () => {
+    it.each([
+      [1, false],
+      [2, false],
+      [3, true],
+      [4, true]
+    ])('should round-trip with %i bits per channel (alpha: %s)', async (bitsPerChannel, useAlpha) => {
+      const message = 'Depth test '.repeat(20);
+      const encoded = await encode(await createCarrier(), message, undefined, { bitsPerChannel, useAlpha });
+
+      expect(encoded.bitsPerChannel).toBe(bitsPerChannel);
+      expect(encoded.useAlpha).toBe(useAlpha);
+
+      const decoded = await decode(encoded.image);
+      expect(decoded.message).toBe(message);
+      expect(decoded.metadata.bitsPerChannel).toBe(bitsPerChannel);
+      expect(decoded.metadata.useAlpha).toBe(useAlpha);
+    });
+
+    it('should fit payloads that exceed the 1-bit capacity when using more bits', async () => {
+      const carrier = await createCarrier(32, 32);
+      // Random bytes do not compress, so the payload keeps its size
+      const file = { data: crypto.randomBytes(800), filename: 'noise.bin', mimeType: 'application/octet-stream' };
+
+      await expect(encode(carrier, file)).rejects.toThrow('Message too large');
+
+      const encoded = await encode(carrier, file, 'password', { bitsPerChannel: 4, useAlpha: true });
+      const decoded = await decode(encoded.image, 'password');
+      expect(decoded.file!.data.equals(file.data)).toBe(true);
+    });
+
+    it('should reject out-of-range bit depths', async () => {
+      const carrier = await createCarrier();
+
+      await expect(encode(carrier, 'test', undefined, { bitsPerChannel: 5 })).rejects.toMatchObject({
+        code: 'INVALID_OPTIONS'
+      });
+      await expect(encode(carrier, 'test', undefined, { bitsPerChannel: 0 })).rejects.toThrow('Invalid bitsPerChannel');
+    });
+  });
+
+  describe('keyed layout', () => {
+    it('should scatter the payload instead of writing it sequentially', async () => {
+      const carrier = await createCarrier();
+      const sequential = await Jimp.read((await encode(carrier, 'scatter me', undefined, { bitsPerChannel: 2 })).image);
+      const keyed = await Jimp.read(
+        (await encode(carrier, 'scatter me', undefined, { bitsPerChannel: 2, key: 'layout-key' })).image
+      );
+      const original = await Jimp.read(carrier);
+
+      // Count changed bytes in the last quarter of the image, well past a sequential payload
+      const tail = (image: Jimp) => image.bitmap.data.subarray((image.bitmap.data.length * 3) / 4);
+      const changes = (image: Jimp) => tail(image).filter((value, i) => value !== tail(original)[i]).length;
+
+      expect(changes(sequential)).toBe(0);
+      expect(changes(keyed)).toBeGreaterThan(0);
+    });
+
+    it('should combine with custom bit depths', async () => {
+      const message = 'Keyed depth test '.repeat(10);
+      const encoded = await encode(await createCarrier(), message, undefined, {
+        bitsPerChannel: 3,
+        useAlpha: true,
+        key: 'layout-key'
+      });
+
+      const decoded = await decode(encoded.image, undefined, { key: 'layout-key' });
+      expect(decoded.message).toBe(message);
+      expect(decoded.metadata.bitsPerChannel).toBe(3);
+    });
+
+    it('should reject the keyed layout without a key or password', async () => {
+      await expect(encode(await createCarrier(), 'test', undefined, { layout: 'keyed' })).rejects.toMatchObject({
+        code: 'INVALID_OPTIONS'
+      });
+    });
+  });
+
+  describe('compression', () => {
+    it('should compress text payloads and report both sizes', async () => {
+      const message = 'The quick brown fox jumps over the lazy dog. '.repeat(20);
+      const encoded = await encode(await createCarrier(), message);
+
+      expect(encoded.compression).not.toBe('none');
+      expect(encoded.originalSize).toBe(Buffer.byteLength(message));
+      expect(encoded.compressedSize).toBeLessThan(encoded.originalSize / 4);
+
+      const decoded = await decode(encoded.image);
+      expect(decoded.message).toBe(message);
+      expect(decoded.metadata.compression).toBe(encoded.compression);
+    });
+
+    it('should compress before encrypting', async () => {
+      const message = 'Repetitive secret. '.repeat(30);
+      const encoded = await encode(await createCarrier(), message, 'password');
+
+      expect(encoded.compressedSize).toBeLessThan(encoded.originalSize);
+      expect((await decode(encoded.image, 'password')).message).toBe(message);
+    });
+
+    it('should store incompressible payloads uncompressed', async () => {
+      const file = { data: crypto.randomBytes(200), filename: 'noise.bin', mimeType: 'application/octet-stream' };
+      const encoded = await encode(await createCarrier(), file);
+
+      expect(encoded.compression).toBe('none');
+      expect(encoded.compressedSize).toBe(encoded.originalSize);
+      expect((await decode(encoded.image)).file!.data.equals(file.data)).toBe(true);
+    });
+  });
+
+  describe('JPEG carriers', () => {
+    it('should embed in DCT coefficients and write a JPEG', async () => {
+      const message = 'Hidden in the frequency domain';
+      const carrier = await createJpegCarrier();
+      const encoded = await encode(carrier, message, 'password');
+
+      expect(encoded.format).toBe('jpeg');
+      expect(encoded.image.subarray(0, 2)).toEqual(Buffer.from([0xFF, 0xD8]));
+      expect((await Jimp.read(encoded.image)).getMIME()).toBe(Jimp.MIME_JPEG);
+
+      const decoded = await decode(encoded.image, 'password');
+      expect(decoded.message).toBe(message);
+    });
+
+    it('should support the keyed layout', async () => {
+      const encoded = await encode(await createJpegCarrier(), 'keyed jpeg', undefined, { key: 'layout-key' });
+      const decoded = await decode(encoded.image, undefined, { key: 'layout-key' });
+
+      expect(decoded.message).toBe('keyed jpeg');
+      expect(decoded.metadata.layout).toBe('keyed');
+    });
+
+    it('should reject bit depth options', async () => {
+      await expect(encode(await createJpegCarrier(), 'test', undefined, { bitsPerChannel: 2 })).rejects.toMatchObject({
+        code: 'INVALID_OPTIONS'
+      });
+    });
+
+    it('should report the coefficient capacity', async () => {
+      const carrier = await createJpegCarrier();
+      const capacity = await getCapacity(carrier);
+
+      expect(capacity.format).toBe('jpeg');
+      expect(capacity.settings).toHaveLength(1);
+      expect(capacity.availableBytes).toBeGreaterThan(0);
+      expect(capacity.availableBytes).toBeLessThan(capacity.totalBytes);
+      expect(capacity.settings[0].estimatedPsnr).toBeGreaterThan(20);
+
+      // The file header for a one-character filename and MIME type takes 5 bytes
+      const file = { data: crypto.randomBytes(capacity.availableBytes - 5), filename: 'a', mimeType: 'b' };
+      await expect(encode(carrier, file)).resolves.toBeDefined();
+      await expect(encode(carrier, { ...file, data: crypto.randomBytes(capacity.availableBytes + 5) }))
+        .rejects.toThrow('Message too large');
+    });
+  });
+
+  describe('error correction', () => {
+    it('should reject unknown error correction levels', async () => {
+      await expect(encode(await createCarrier(), 'hello', undefined, { errorCorrection: 'extreme' as never }))
+        .rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    });
+
+    it('should report the capacity left after error correction', async () => {
+      const carrier = await createCarrier();
+      const unprotected = await getCapacity(carrier);
+      const capacity = await getCapacity(carrier, { errorCorrection: 'medium' });
+
+      expect(capacity.errorCorrection).toBe('medium');
+      expect(capacity.availableBytes).toBeLessThan(unprotected.availableBytes);
+
+      // The file header for a one-character filename and MIME type takes 5 bytes
+      const file = { data: crypto.randomBytes(capacity.availableBytes - 5), filename: 'a', mimeType: 'b' };
+      const encoded = await encode(carrier, file, undefined, { errorCorrection: 'medium' });
+      expect((await decode(encoded.image)).file!.data.equals(file.data)).toBe(true);
+      await expect(encode(carrier, { ...file, data: crypto.randomBytes(capacity.availableBytes + 5) }, undefined, {
+        errorCorrection: 'medium'
+      })).rejects.toThrow('Message too large');
+    });
+  });
+
+  describe('getCapacity', () => {
+    it('should report capacity and estimated PSNR for every setting', async () => {
+      const capacity = await getCapacity(await createCarrier());
+
+      expect(capacity.bitsPerChannel).toBe(1);
+      expect(capacity.useAlpha).toBe(false);
+      expect(capacity.settings).toHaveLength(8);
+
+      const rgb = capacity.settings.filter(setting => !setting.useAlpha);
+      for (let i = 1; i < rgb.length; i++) {
+        expect(rgb[i].availableBytes).toBeGreaterThan(rgb[i - 1].availableBytes);
+        expect(rgb[i].estimatedPsnr).toBeLessThan(rgb[i - 1].estimatedPsnr);
+      }
+
+      const oneBit = capacity.settings.find(setting => setting.bitsPerChannel === 1 && !setting.useAlpha)!;
+      expect(oneBit.availableBytes).toBe(capacity.availableBytes);
+      expect(oneBit.estimatedPsnr).toBeGreaterThan(45);
+    });
+
+    it('should describe the requested setting at the top level', async () => {
+      const capacity = await getCapacity(await createCarrier(), { bitsPerChannel: 2, useAlpha: true });
+      const selected = capacity.settings.find(setting => setting.bitsPerChannel === 2 && setting.useAlpha)!;
+
+      expect(capacity.availableBytes).toBe(selected.availableBytes);
+      expect(capacity.totalBytes).toBe((48 * 48 * 4 * 2) / 8);
+    });
+
+    it('should estimate a larger effective capacity for compressible text', async () => {
+      const capacity = await getCapacity(await createCarrier());
+
+      expect(capacity.estimatedTextLength).toBeGreaterThan(capacity.maxMessageLength);
+      for (const setting of capacity.settings) {
+        expect(setting.estimatedTextLength).toBeGreaterThan(setting.maxMessageLength);
+      }
+    });
+  });
+});
@@ -1,4 +1,21 @@
-import { encrypt, decrypt, getEncryptionOverhead } from '../../src/services/encryption.service';
+import crypto from 'crypto';
+import {
+  encrypt,
+  decrypt,
+  decryptLegacy,
+  sealForRecipients,
+  openSealed,
+  getEncryptionOverhead,
+  MAX_RECIPIENTS
+} from '../../src/services/encryption.service';
+
+// Helper function to create an X25519 key pair as PEM strings
+function createKeyPair(): { publicKey: string; privateKey: string } {
+  return crypto.generateKeyPairSync('x25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+}
 
 describe('Encryption Service', () => {
   const testPassword = 'testPassword123!';
@@ -8,28 +25,35 @@ describe('Encryption Service', () => {
       const message = 'Hello, World!';
       const encrypted = encrypt(message, testPassword);
       const decrypted = decrypt(encrypted, testPassword);
-      expect(decrypted).toBe(message);
+      expect(decrypted.toString('utf8')).toBe(message);
     });
 
     it('should encrypt and decrypt unicode message', () => {
       const message = 'Hello 世界 🌍';
       const encrypted = encrypt(message, testPassword);
       const decrypted = decrypt(encrypted, testPassword);
-      expect(decrypted).toBe(message);
+      expect(decrypted.toString('utf8')).toBe(message);
     });
 
     it('should encrypt and decrypt empty message', () => {
       const message = '';
       const encrypted = encrypt(message, testPassword);
       const decrypted = decrypt(encrypted, testPassword);
-      expect(decrypted).toBe(message);
+      expect(decrypted.toString('utf8')).toBe(message);
     });
 
     it('should encrypt and decrypt long message', () => {
       const message = 'A'.repeat(10000);
       const encrypted = encrypt(message, testPassword);
       const decrypted = decrypt(encrypted, testPassword);
-      expect(decrypted).toBe(message);
+      expect(decrypted.toString('utf8')).toBe(message);
+    });
+
+    it('should encrypt and decrypt binary data', () => {
+      const data = Buffer.from([0x00, 0xFF, 0x10, 0x80, 0x00, 0x7F]);
+      const encrypted = encrypt(data, testPassword);
+      const decrypted = decrypt(encrypted, testPassword);
+      expect(decrypted.equals(data)).toBe(true);
     });
 
     it('should produce different ciphertext for same message', () => {
@@ -44,13 +68,97 @@ describe('Encryption Service', () => {
       const encrypted = encrypt(message, testPassword);
       expect(() => decrypt(encrypted, 'wrongPassword')).toThrow();
     });
+
+    it('should record the KDF parameters used', () => {
+      const kdf = { algorithm: 'argon2id' as const, iterations: 1, memory: 1024, parallelism: 1 };
+      const encrypted = encrypt('Tuned message', testPassword, kdf);
+
+      // Argon2id identifier, 1 pass, 1024 KiB, parallelism 1
+      expect(encrypted.subarray(0, 7).toString('hex')).toBe('05010000040001');
+      expect(decrypt(encrypted, testPassword).toString('utf8')).toBe('Tuned message');
+    });
+  });
+
+  describe('decryptLegacy', () => {
+    it('should decrypt payloads without KDF parameters', () => {
+      const salt = crypto.randomBytes(32);
+      const iv = crypto.randomBytes(16);
+      const key = crypto.pbkdf2Sync(testPassword, salt, 100000, 32, 'sha256');
+      const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+      const encrypted = Buffer.concat([cipher.update('Old message', 'utf8'), cipher.final()]);
+
+      const decrypted = decryptLegacy(Buffer.concat([salt, iv, cipher.getAuthTag(), encrypted]), testPassword);
+
+      expect(decrypted.toString('utf8')).toBe('Old message');
+    });
+  });
+
+  describe('sealForRecipients and openSealed', () => {
+    it('should open a payload with the private key of any recipient', () => {
+      const alice = createKeyPair();
+      const bob = createKeyPair();
+      const sealed = sealForRecipients('Sealed message', [alice.publicKey, bob.publicKey]);
+
+      expect(openSealed(sealed, alice.privateKey).toString('utf8')).toBe('Sealed message');
+      expect(openSealed(sealed, bob.privateKey).toString('utf8')).toBe('Sealed message');
+      expect(sealed.length).toBe('Sealed message'.length + getEncryptionOverhead(2));
+    });
+
+    it('should accept raw keys encoded as base64', () => {
+      const pair = createKeyPair();
+      const rawPublic = crypto.createPublicKey(pair.publicKey).export({ format: 'jwk' }).x!;
+      const rawPrivate = crypto.createPrivateKey(pair.privateKey).export({ format: 'jwk' }).d!;
+      const toBase64 = (base64url: string) => Buffer.from(base64url, 'base64url').toString('base64');
+
+      const sealed = sealForRecipients('Raw keys', [toBase64(rawPublic)]);
+
+      expect(openSealed(sealed, toBase64(rawPrivate)).toString('utf8')).toBe('Raw keys');
+    });
+
+    it('should refuse a private key that is not a recipient', () => {
+      const sealed = sealForRecipients('Sealed message', [createKeyPair().publicKey]);
+
+      expect(() => openSealed(sealed, createKeyPair().privateKey)).toThrow(
+        expect.objectContaining({ code: 'NOT_A_RECIPIENT' })
+      );
+    });
+
+    it('should detect tampered ciphertext', () => {
+      const pair = createKeyPair();
+      const sealed = sealForRecipients('Sealed message', [pair.publicKey]);
+      sealed[sealed.length - 1] ^= 0x01;
+
+      expect(() => openSealed(sealed, pair.privateKey)).toThrow(
+        expect.objectContaining({ code: 'PAYLOAD_CORRUPTED' })
+      );
+    });
+
+    it('should reject malformed keys and recipient counts', () => {
+      const ed25519 = crypto.generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+      expect(() => sealForRecipients('x', ['not a key'])).toThrow(expect.objectContaining({ code: 'INVALID_KEY_FORMAT' }));
+      expect(() => sealForRecipients('x', [ed25519])).toThrow(expect.objectContaining({ code: 'INVALID_KEY_FORMAT' }));
+      expect(() => sealForRecipients('x', [])).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+
+      const tooMany = Array.from({ length: MAX_RECIPIENTS + 1 }, () => createKeyPair().publicKey);
+      expect(() => sealForRecipients('x', tooMany)).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+    });
   });
 
   describe('getEncryptionOverhead', () => {
     it('should return correct overhead value', () => {
-      const overhead = getEncryptionOverhead();
-      // 32 bytes salt + 16 bytes IV + 16 bytes tag = 64 bytes
-      expect(overhead).toBe(64);
+      // 32 bytes salt + 16 bytes IV + 16 bytes tag = 64 bytes, plus the KDF parameters
+      expect(getEncryptionOverhead(0, 'pbkdf2')).toBe(69);
+      expect(getEncryptionOverhead(0, 'scrypt')).toBe(68);
+      expect(getEncryptionOverhead(0, 'argon2id')).toBe(71);
+      // scrypt is the default KDF
+      expect(getEncryptionOverhead()).toBe(68);
+    });
+
+    it('should grow with the number of recipients', () => {
+      // 32 bytes ephemeral key + 1 count byte + 48 bytes per wrapped key + 16 bytes IV + 16 bytes tag
+      expect(getEncryptionOverhead(1)).toBe(113);
+      expect(getEncryptionOverhead(3)).toBe(209);
     });
   });
 });
@@ -0,0 +1,85 @@
+import Jimp from 'jimp';
+import { createJob, getJob } from '../../src/services/job.service';
+import { shutdownWorkerPool } from '../../src/services/worker-pool.service';
+import config from '../../src/config';
+
+// Workers compile the services when they start, which takes a few seconds from source
+jest.setTimeout(60000);
+
+// Helper function to create a carrier PNG
+async function createCarrier(): Promise<Buffer> {
+  const image = new Jimp(64, 64, 0x336699FF);
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+// Helper function to wait until a job has finished
+async function waitForJob(id: string): Promise<void> {
+  while (['queued', 'running'].includes(getJob(id)!.info.status)) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('Job Service', () => {
+  const { workerPoolSize, jobResultTtl, jobResultMaxBytes } = config;
+
+  beforeAll(() => {
+    config.workerPoolSize = 1;
+  });
+
+  afterAll(async () => {
+    await shutdownWorkerPool();
+    config.workerPoolSize = workerPoolSize;
+    config.jobResultTtl = jobResultTtl;
+    config.jobResultMaxBytes = jobResultMaxBytes;
+  });
+
+  it('should run a job and keep its result', async () => {
+    const job = createJob('encode', [await createCarrier(), 'queued message', undefined, {}]);
+    expect(job).toMatchObject({ type: 'encode', status: 'queued', progress: { stage: 'queued', percent: 0 } });
+
+    await waitForJob(job.id);
+    const record = getJob(job.id)!;
+
+    expect(record.info).toMatchObject({ status: 'completed', progress: { stage: 'done', percent: 100 } });
+    expect(Date.parse(record.info.startedAt!)).toBeGreaterThanOrEqual(Date.parse(record.info.createdAt));
+    expect(Date.parse(record.info.expiresAt!) - Date.parse(record.info.finishedAt!)).toBe(config.jobResultTtl);
+    expect(record.output?.type).toBe('encode');
+    expect(Buffer.isBuffer(record.output?.type === 'encode' && record.output.result.image)).toBe(true);
+  });
+
+  it('should record the error of a failed job', async () => {
+    const job = createJob('decode', [await createCarrier(), undefined, {}]);
+
+    await waitForJob(job.id);
+    const record = getJob(job.id)!;
+
+    expect(record.info.status).toBe('failed');
+    expect(record.info.error?.code).toBeDefined();
+    // The carrier loads, but holds nothing to extract
+    expect(record.info.progress).toEqual({ stage: 'extracting', percent: 33 });
+    expect(record.statusCode).toBe(400);
+    expect(record.output).toBeUndefined();
+  });
+
+  it('should refuse jobs while the stored results reach their size limit', async () => {
+    const job = createJob('encode', [await createCarrier(), 'stored message', undefined, {}]);
+    await waitForJob(job.id);
+    config.jobResultMaxBytes = 1;
+
+    expect(() => createJob('encode', [Buffer.alloc(0), 'refused message', undefined, {}])).toThrow(
+      expect.objectContaining({ code: 'JOB_STORE_FULL', statusCode: 503 })
+    );
+    config.jobResultMaxBytes = jobResultMaxBytes;
+  });
+
+  it('should discard finished jobs after the result TTL', async () => {
+    config.jobResultTtl = 50;
+    const job = createJob('composite', [[await createCarrier(), await createCarrier()]]);
+
+    await waitForJob(job.id);
+    expect(getJob(job.id)?.info.status).toBe('completed');
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(getJob(job.id)).toBeUndefined();
+  });
+});
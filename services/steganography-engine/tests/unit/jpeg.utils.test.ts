@@ -0,0 +1,62 @@
+import Jimp from 'jimp';
+import { parseJpeg, writeJpeg, isJpeg } from '../../src/utils/jpeg.utils';
+
+// Helper function to create a baseline JPEG with varied pixel values
+async function createJpeg(width: number, height: number): Promise<Buffer> {
+  const image = new Jimp(width, height, 0x808080FF);
+  image.scan(0, 0, width, height, function(x, y, idx) {
+    this.bitmap.data[idx] = (x * 7 + y * 13) & 0xFF;
+    this.bitmap.data[idx + 1] = (x * 3 + y * 5) & 0xFF;
+    this.bitmap.data[idx + 2] = (x * 11 + y) & 0xFF;
+  });
+  return image.quality(85).getBufferAsync(Jimp.MIME_JPEG);
+}
+
+describe('JPEG Utilities', () => {
+  describe('isJpeg', () => {
+    it('should detect the start of image marker', async () => {
+      expect(isJpeg(await createJpeg(16, 16))).toBe(true);
+      expect(isJpeg(Buffer.from('not a jpeg'))).toBe(false);
+    });
+  });
+
+  describe('parseJpeg and writeJpeg', () => {
+    it.each([
+      [64, 64],
+      [37, 21]
+    ])('should round-trip a %ix%i image without changing its pixels', async (width, height) => {
+      const original = await createJpeg(width, height);
+      const parsed = parseJpeg(original);
+
+      expect(parsed.width).toBe(width);
+      expect(parsed.height).toBe(height);
+      expect(parsed.components).toHaveLength(3);
+
+      const rewritten = writeJpeg(parsed);
+      const originalPixels = (await Jimp.read(original)).bitmap.data;
+      const rewrittenPixels = (await Jimp.read(rewritten)).bitmap.data;
+      expect(Buffer.compare(originalPixels, rewrittenPixels)).toBe(0);
+    });
+
+    it('should preserve modified coefficients', async () => {
+      const parsed = parseJpeg(await createJpeg(32, 32));
+      parsed.components[0].coefficients[5] = 7;
+      parsed.components[1].coefficients[64 + 10] = -3;
+
+      const reparsed = parseJpeg(writeJpeg(parsed));
+      expect(reparsed.components[0].coefficients[5]).toBe(7);
+      expect(reparsed.components[1].coefficients[64 + 10]).toBe(-3);
+    });
+
+    it('should reject progressive JPEGs', () => {
+      // SOI followed by a progressive (SOF2) frame header
+      const progressive = Buffer.from([0xFF, 0xD8, 0xFF, 0xC2, 0x00, 0x0B, 0x08, 0x00, 0x10, 0x00, 0x10, 0x01, 0x01, 0x11, 0x00]);
+      expect(() => parseJpeg(progressive)).toThrow('Only baseline JPEG images are supported');
+    });
+
+    it('should reject truncated data', async () => {
+      const truncated = (await createJpeg(32, 32)).subarray(0, 200);
+      expect(() => parseJpeg(truncated)).toThrow('Invalid JPEG');
+    });
+  });
+});
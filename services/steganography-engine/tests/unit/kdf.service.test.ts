@@ -0,0 +1,122 @@
+import {
+  assertDecodeKdfParams,
+  assertKdfParams,
+  benchmarkKdf,
+  deriveKey,
+  parseKdfParams,
+  resolveKdf,
+  serializeKdfParams
+} from '../../src/services/kdf.service';
+import { KdfParams } from '../../src/types';
+
+describe('KDF Service', () => {
+  const salt = Buffer.alloc(32, 7);
+
+  describe('serializeKdfParams and parseKdfParams', () => {
+    it('should round-trip the parameters of every KDF', () => {
+      const samples: KdfParams[] = [
+        { algorithm: 'pbkdf2', iterations: 250000 },
+        { algorithm: 'scrypt', cost: 1 << 15, blockSize: 8, parallelization: 2 },
+        { algorithm: 'argon2id', iterations: 3, memory: 32768, parallelism: 4 }
+      ];
+
+      for (const params of samples) {
+        const serialized = serializeKdfParams(params);
+        const parsed = parseKdfParams(Buffer.concat([serialized, Buffer.from('payload')]));
+
+        expect(parsed.params).toEqual(params);
+        expect(parsed.length).toBe(serialized.length);
+      }
+    });
+
+    it('should refuse unknown identifiers and excessive costs', () => {
+      expect(() => parseKdfParams(Buffer.from([0x09, 0x00]))).toThrow(
+        expect.objectContaining({ code: 'INVALID_KDF_PARAMETERS' })
+      );
+      // scrypt with N = 2^30 would need 128 GiB
+      expect(() => parseKdfParams(Buffer.from([0x04, 30, 8, 1]))).toThrow(
+        expect.objectContaining({ code: 'INVALID_KDF_PARAMETERS' })
+      );
+      expect(() => parseKdfParams(Buffer.from([0x05, 1]))).toThrow(
+        expect.objectContaining({ code: 'PAYLOAD_CORRUPTED' })
+      );
+    });
+  });
+
+  describe('assertDecodeKdfParams', () => {
+    it('should refuse parameters costing more than the accepted multiple of the configured ones', () => {
+      const tooCostly: KdfParams[] = [
+        { algorithm: 'pbkdf2', iterations: 5000000 },
+        // 512 MiB of memory
+        { algorithm: 'scrypt', cost: 1 << 19, blockSize: 8, parallelization: 1 },
+        { algorithm: 'scrypt', cost: 1 << 16, blockSize: 8, parallelization: 16 },
+        { algorithm: 'argon2id', iterations: 1, memory: 1024 * 1024, parallelism: 1 },
+        { algorithm: 'argon2id', iterations: 16, memory: 19456, parallelism: 1 }
+      ];
+
+      for (const params of tooCostly) {
+        expect(() => assertKdfParams(params)).not.toThrow();
+        expect(() => parseKdfParams(serializeKdfParams(params))).toThrow(
+          expect.objectContaining({ code: 'KDF_COST_TOO_HIGH' })
+        );
+      }
+    });
+
+    it('should accept the configured parameters', () => {
+      for (const algorithm of ['pbkdf2', 'scrypt', 'argon2id'] as const) {
+        expect(() => assertDecodeKdfParams(resolveKdf({ kdf: algorithm }))).not.toThrow();
+      }
+    });
+  });
+
+  describe('assertKdfParams', () => {
+    it('should require a power of two scrypt cost', () => {
+      expect(() => assertKdfParams({ algorithm: 'scrypt', cost: 3000, blockSize: 8, parallelization: 1 })).toThrow();
+      expect(() => assertKdfParams({ algorithm: 'scrypt', cost: 4096, blockSize: 8, parallelization: 1 })).not.toThrow();
+    });
+  });
+
+  describe('deriveKey', () => {
+    it('should match known PBKDF2 and scrypt outputs', () => {
+      // RFC 7914 test vector (scrypt, N = 1024, r = 8, p = 16)
+      const scrypt = deriveKey('password', Buffer.from('NaCl'), {
+        algorithm: 'scrypt',
+        cost: 1024,
+        blockSize: 8,
+        parallelization: 16
+      });
+      expect(scrypt.toString('hex')).toBe('fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162');
+
+      const pbkdf2 = deriveKey('password', salt, { algorithm: 'pbkdf2', iterations: 1000 });
+      expect(pbkdf2).toHaveLength(32);
+    });
+
+    it('should derive different keys for different Argon2id costs', () => {
+      const low = deriveKey('password', salt, { algorithm: 'argon2id', iterations: 1, memory: 256, parallelism: 1 });
+      const high = deriveKey('password', salt, { algorithm: 'argon2id', iterations: 2, memory: 256, parallelism: 1 });
+
+      expect(low).toHaveLength(32);
+      expect(low.equals(high)).toBe(false);
+    });
+  });
+
+  describe('resolveKdf', () => {
+    it('should default to the configured KDF', () => {
+      expect(resolveKdf().algorithm).toBe('scrypt');
+      expect(resolveKdf({ kdf: 'argon2id' }).algorithm).toBe('argon2id');
+    });
+  });
+
+  describe('benchmarkKdf', () => {
+    it('should suggest parameters for every KDF within the target', () => {
+      const result = benchmarkKdf(50);
+
+      expect(result.suggestions.map(entry => entry.params.algorithm)).toEqual(['pbkdf2', 'scrypt', 'argon2id']);
+      expect(result.current.algorithm).toBe('scrypt');
+    });
+
+    it('should reject targets out of range', () => {
+      expect(() => benchmarkKdf(10)).toThrow(expect.objectContaining({ code: 'INVALID_OPTIONS' }));
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import Jimp from 'jimp';
+import { embedBits, extractBits, embedBytes, extractBytes } from '../../src/services/lsb.service';
+import { createKeyedOrder } from '../../src/services/layout.service';
+import { EmbeddingOptions } from '../../src/types';
+
+// Helper function to time a function in milliseconds
+function time(run: () => void): number {
+  const start = process.hrtime.bigint();
+  run();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+describe('LSB Service', () => {
+  describe('embedBytes and extractBytes', () => {
+    const settings: EmbeddingOptions[] = [
+      { bitsPerChannel: 1, useAlpha: false },
+      { bitsPerChannel: 3, useAlpha: false },
+      { bitsPerChannel: 2, useAlpha: true },
+      { bitsPerChannel: 4, useAlpha: true }
+    ];
+
+    it('should round-trip bytes at every depth', () => {
+      for (const setting of settings) {
+        const image = new Jimp(40, 30, 0x80808080);
+        const data = crypto.randomBytes(100);
+        embedBytes(image, data, setting, 5);
+
+        expect(extractBytes(image, data.length, setting, 5)).toEqual(data);
+      }
+    });
+
+    it('should round-trip bytes in a keyed order', () => {
+      const image = new Jimp(40, 30, 0x80808080);
+      const setting = { bitsPerChannel: 3, useAlpha: false };
+      const layout = { salt: Buffer.alloc(16, 1), kdf: { algorithm: 'pbkdf2', iterations: 10000 } as const };
+      const order = createKeyedOrder('key', layout, (40 * 30 - 5) * 3);
+      const data = crypto.randomBytes(200);
+      embedBytes(image, data, setting, 5, order);
+
+      expect(extractBytes(image, data.length, setting, 5, order)).toEqual(data);
+      expect(extractBytes(image, data.length, setting, 5)).not.toEqual(data);
+    });
+
+    it('should only change the low bits of the payload channels', () => {
+      const image = new Jimp(8, 8, 0xAAAAAAAA);
+      embedBytes(image, Buffer.alloc(24, 0xFF), { bitsPerChannel: 2, useAlpha: false });
+
+      const data = image.bitmap.data;
+      expect([data[0], data[1], data[2], data[3]]).toEqual([0xAB, 0xAB, 0xAB, 0xAA]);
+    });
+
+    it('should return the bytes read when the image ends first', () => {
+      const image = new Jimp(2, 2, 0x80808080);
+
+      // 4 pixels hold 12 bits: one whole byte
+      expect(extractBytes(image, 4)).toHaveLength(1);
+    });
+  });
+
+  describe('embedBits and extractBits', () => {
+    it('should round-trip binary strings of any length', () => {
+      const image = new Jimp(10, 10, 0x80808080);
+      embedBits(image, '1011001110001', { bitsPerChannel: 2, useAlpha: false });
+
+      expect(extractBits(image, 13, { bitsPerChannel: 2, useAlpha: false })).toBe('1011001110001');
+    });
+  });
+
+  describe('early stop', () => {
+    it('should stop reading once the requested bytes are extracted', () => {
+      const image = new Jimp(200, 150, 0x80808080);
+      let reads = 0;
+      image.bitmap.data = new Proxy(image.bitmap.data, {
+        get(target, property) {
+          if (typeof property === 'string' && /^\d+$/.test(property)) {
+            reads++;
+          }
+          return Reflect.get(target, property);
+        }
+      });
+
+      extractBytes(image, 64);
+
+      // One bit per slot at the default depth
+      expect(reads).toBe(64 * 8);
+    });
+  });
+
+  // Wall-clock checks vary with the machine, so they only run with BENCHMARK set
+  (process.env.BENCHMARK ? describe : describe.skip)('throughput', () => {
+    // A 3-megapixel carrier filled to capacity; the limits leave ample margin for
+    // slow machines while catching a return to per-bit string handling
+    const width = 2000;
+    const height = 1500;
+
+    it('should embed and extract a full carrier quickly', () => {
+      const image = new Jimp(width, height, 0x80808080);
+      const setting = { bitsPerChannel: 1, useAlpha: false };
+      const data = crypto.randomBytes((width * height * 3) / 8);
+
+      const embedMs = time(() => embedBytes(image, data, setting));
+      let extracted: Buffer = Buffer.alloc(0);
+      const extractMs = time(() => {
+        extracted = extractBytes(image, data.length, setting);
+      });
+
+      expect(extracted.equals(data)).toBe(true);
+      expect(embedMs).toBeLessThan(5000);
+      expect(extractMs).toBeLessThan(5000);
+    });
+  });
+});
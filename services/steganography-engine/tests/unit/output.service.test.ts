@@ -0,0 +1,98 @@
+import Jimp from 'jimp';
+import { encode } from '../../src/services/encoder.service';
+import { decode } from '../../src/services/decoder.service';
+import { resolveOutputFormat } from '../../src/services/output.service';
+import { readPngChunks, writePngChunks } from '../../src/utils/png.utils';
+import { readTiffTags, writeTiff } from '../../src/utils/tiff.utils';
+import { DEFAULT_EMBEDDING_OPTIONS } from '../../src/services/validation.service';
+
+const TAG_IMAGE_DESCRIPTION = 270;
+
+// Helper function to create a carrier image with varied pixel values
+function createImage(width: number = 48, height: number = 48): Jimp {
+  const image = new Jimp(width, height, 0x808080FF);
+  image.scan(0, 0, width, height, function(x, y, idx) {
+    this.bitmap.data[idx] = (x * 7 + y * 13) & 0xFF;
+    this.bitmap.data[idx + 1] = (x * 3 + y * 5) & 0xFF;
+  });
+  return image;
+}
+
+describe('Output Service', () => {
+  describe('resolveOutputFormat', () => {
+    it('should default to the input format', () => {
+      expect(resolveOutputFormat('bmp', DEFAULT_EMBEDDING_OPTIONS)).toBe('bmp');
+      expect(resolveOutputFormat('jpeg', DEFAULT_EMBEDDING_OPTIONS)).toBe('jpeg');
+    });
+
+    it('should allow converting between lossless formats', () => {
+      expect(resolveOutputFormat('bmp', DEFAULT_EMBEDDING_OPTIONS, 'tiff')).toBe('tiff');
+      expect(resolveOutputFormat('jpeg', DEFAULT_EMBEDDING_OPTIONS, 'png')).toBe('png');
+    });
+
+    it('should reject JPEG output for lossless input', () => {
+      expect(() => resolveOutputFormat('png', DEFAULT_EMBEDDING_OPTIONS, 'jpeg')).toThrow('JPEG output');
+    });
+
+    it('should reject unknown formats and alpha embedding in BMP', () => {
+      expect(() => resolveOutputFormat('png', DEFAULT_EMBEDDING_OPTIONS, 'gif' as never)).toThrow('Invalid outputFormat');
+      expect(() => resolveOutputFormat('png', { bitsPerChannel: 1, useAlpha: true }, 'bmp')).toThrow('alpha');
+    });
+  });
+
+  describe('format preservation', () => {
+    it.each([
+      [Jimp.MIME_BMP, 'bmp'],
+      [Jimp.MIME_TIFF, 'tiff'],
+      [Jimp.MIME_PNG, 'png']
+    ])('should write %s input back as %s', async (mime, format) => {
+      const carrier = await createImage().getBufferAsync(mime);
+      const encoded = await encode(carrier, 'same format');
+
+      expect(encoded.format).toBe(format);
+      expect((await Jimp.read(encoded.image)).getMIME()).toBe(mime);
+      expect((await decode(encoded.image)).message).toBe('same format');
+    });
+
+    it('should write the requested output format', async () => {
+      const carrier = await createImage().getBufferAsync(Jimp.MIME_BMP);
+      const encoded = await encode(carrier, 'converted', undefined, { outputFormat: 'tiff' });
+
+      expect(encoded.format).toBe('tiff');
+      expect((await decode(encoded.image)).message).toBe('converted');
+    });
+  });
+
+  describe('metadata preservation', () => {
+    it('should keep PNG tEXt, iCCP and pHYs chunks', async () => {
+      const chunks = readPngChunks(await createImage().getBufferAsync(Jimp.MIME_PNG));
+      const pHYs = Buffer.from([0, 0, 0x0B, 0x13, 0, 0, 0x0B, 0x13, 1]);
+      const tEXt = Buffer.from('Comment\0kept', 'latin1');
+      const iCCP = Buffer.from('profile\0\0fake-profile', 'latin1');
+      chunks.splice(1, 0, { type: 'iCCP', data: iCCP }, { type: 'pHYs', data: pHYs }, { type: 'tEXt', data: tEXt });
+
+      const encoded = await encode(writePngChunks(chunks), 'with metadata');
+      const outputChunks = readPngChunks(encoded.image);
+
+      expect(outputChunks[0].type).toBe('IHDR');
+      expect(outputChunks.find(chunk => chunk.type === 'iCCP')!.data.equals(iCCP)).toBe(true);
+      expect(outputChunks.find(chunk => chunk.type === 'pHYs')!.data.equals(pHYs)).toBe(true);
+      expect(outputChunks.find(chunk => chunk.type === 'tEXt')!.data.equals(tEXt)).toBe(true);
+      expect((await decode(encoded.image)).message).toBe('with metadata');
+    });
+
+    it('should keep descriptive TIFF tags', async () => {
+      const image = createImage();
+      const description = Buffer.from('A described image\0', 'latin1');
+      const tiff = writeTiff(image.bitmap.data, image.getWidth(), image.getHeight(), [
+        { tag: TAG_IMAGE_DESCRIPTION, type: 2, count: description.length, value: description }
+      ]);
+
+      const encoded = await encode(tiff, 'tagged');
+      const tag = readTiffTags(encoded.image).find(entry => entry.tag === TAG_IMAGE_DESCRIPTION);
+
+      expect(tag!.value.equals(description)).toBe(true);
+      expect((await decode(encoded.image)).message).toBe('tagged');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { createPermutation } from '../../src/utils/permutation.utils';
+
+describe('Permutation Utilities', () => {
+  describe('createPermutation', () => {
+    const seed = Buffer.alloc(32, 7);
+
+    it('should be a bijection over the domain', () => {
+      for (const size of [1, 2, 3, 10, 1000, 4097]) {
+        const permute = createPermutation(seed, size);
+        const seen = new Set<number>();
+        for (let index = 0; index < size; index++) {
+          const value = permute(index);
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(size);
+          seen.add(value);
+        }
+        expect(seen.size).toBe(size);
+      }
+    });
+
+    it('should be deterministic for a seed', () => {
+      const first = createPermutation(seed, 500);
+      const second = createPermutation(Buffer.alloc(32, 7), 500);
+      for (let index = 0; index < 500; index++) {
+        expect(first(index)).toBe(second(index));
+      }
+    });
+
+    it('should produce different orders for different seeds', () => {
+      const first = createPermutation(seed, 500);
+      const second = createPermutation(Buffer.alloc(32, 8), 500);
+      let differences = 0;
+      for (let index = 0; index < 500; index++) {
+        if (first(index) !== second(index)) {
+          differences++;
+        }
+      }
+      expect(differences).toBeGreaterThan(400);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { createSeededRandom, randomInt } from '../../src/utils/random.utils';
+
+describe('Random Utils', () => {
+  it('should give the same sequence for the same seed', () => {
+    const first = createSeededRandom('seed');
+    const second = createSeededRandom('seed');
+    const other = createSeededRandom('seed2');
+
+    const sequence = Array.from({ length: 10 }, () => first());
+    expect(Array.from({ length: 10 }, () => second())).toEqual(sequence);
+    expect(Array.from({ length: 10 }, () => other())).not.toEqual(sequence);
+  });
+
+  it('should draw numbers in [0, 1) spread over the range', () => {
+    const random = createSeededRandom('spread');
+    const buckets = new Array(10).fill(0);
+    for (let i = 0; i < 10000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      buckets[Math.floor(value * 10)]++;
+    }
+
+    for (const count of buckets) {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    }
+  });
+
+  it('should draw integers within inclusive bounds', () => {
+    const random = createSeededRandom('dice');
+    const values = new Set(Array.from({ length: 500 }, () => randomInt(random, 1, 6)));
+
+    expect([...values].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import {
+  rsEncode,
+  rsDecode,
+  getEncodedLength,
+  getDecodedLength
+} from '../../src/utils/reed-solomon.utils';
+
+// Corrupt the given byte positions of a copy of the data
+function corrupt(data: Buffer, positions: number[]): Buffer {
+  const corrupted = Buffer.from(data);
+  for (const position of positions) {
+    corrupted[position] ^= 0x5A;
+  }
+  return corrupted;
+}
+
+describe('Reed-Solomon Utilities', () => {
+  describe('rsEncode / rsDecode', () => {
+    it.each([16, 32, 64])('should round-trip data of any length with %i parity bytes', parity => {
+      for (const length of [1, 100, 255 - parity, 256 - parity, 1000]) {
+        const data = crypto.randomBytes(length);
+        const encoded = rsEncode(data, parity);
+
+        expect(encoded.length).toBe(getEncodedLength(length, parity));
+        expect(getDecodedLength(encoded.length, parity)).toBe(length);
+
+        const decoded = rsDecode(encoded, parity);
+        expect(decoded!.data.equals(data)).toBe(true);
+        expect(decoded!.corrected).toBe(0);
+      }
+    });
+
+    it('should correct up to half as many bytes as there are parity bytes', () => {
+      const data = crypto.randomBytes(200);
+      const encoded = rsEncode(data, 32);
+
+      const decoded = rsDecode(corrupt(encoded, Array.from({ length: 16 }, (_, i) => i * 13)), 32);
+
+      expect(decoded!.data.equals(data)).toBe(true);
+      expect(decoded!.corrected).toBe(16);
+    });
+
+    it('should spread a burst of errors across interleaved codewords', () => {
+      const data = crypto.randomBytes(900);
+      const encoded = rsEncode(data, 16);
+
+      // Four codewords each repair 8 bytes, so a 32-byte burst is recoverable
+      const decoded = rsDecode(corrupt(encoded, Array.from({ length: 32 }, (_, i) => 400 + i)), 16);
+
+      expect(decoded!.data.equals(data)).toBe(true);
+      expect(decoded!.corrected).toBe(32);
+    });
+
+    it('should report data with too many errors as unrecoverable', () => {
+      const data = crypto.randomBytes(100);
+      const encoded = rsEncode(data, 16);
+
+      expect(rsDecode(corrupt(encoded, Array.from({ length: 30 }, (_, i) => i * 3)), 16)).toBeNull();
+    });
+
+    it('should reject encoded lengths no data length produces', () => {
+      expect(getDecodedLength(10, 16)).toBe(-1);
+      expect(rsDecode(Buffer.alloc(10), 16)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { splitSecret, combineShares } from '../../src/utils/shamir.utils';
+
+describe('Shamir Utilities', () => {
+  const secret = crypto.randomBytes(64);
+
+  describe('splitSecret / combineShares', () => {
+    it('should reconstruct the secret from any threshold shares', () => {
+      const shares = splitSecret(secret, 5, 3);
+
+      expect(shares).toHaveLength(5);
+      expect(combineShares([shares[0], shares[1], shares[2]]).equals(secret)).toBe(true);
+      expect(combineShares([shares[4], shares[1], shares[3]]).equals(secret)).toBe(true);
+      expect(combineShares(shares).equals(secret)).toBe(true);
+    });
+
+    it('should not reconstruct the secret from fewer shares than the threshold', () => {
+      const shares = splitSecret(secret, 5, 3);
+
+      expect(combineShares([shares[0], shares[1]]).equals(secret)).toBe(false);
+    });
+
+    it('should produce shares that differ from the secret', () => {
+      const shares = splitSecret(secret, 3, 2);
+
+      for (const share of shares) {
+        expect(share.data.length).toBe(secret.length);
+        expect(share.data.equals(secret)).toBe(false);
+      }
+    });
+
+    it('should reject invalid parameters and duplicate shares', () => {
+      expect(() => splitSecret(secret, 2, 3)).toThrow('Invalid share parameters');
+      expect(() => splitSecret(secret, 256, 2)).toThrow('Invalid share parameters');
+
+      const shares = splitSecret(secret, 3, 2);
+      expect(() => combineShares([shares[0], shares[0]])).toThrow('distinct');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import Jimp from 'jimp';
+import { encode, getCapacity } from '../../src/services/encoder.service';
+import { decode, extractPayload } from '../../src/services/decoder.service';
+import { encodeSplit, decodeJoin } from '../../src/services/split.service';
+import { parseSigningKey, signPayload, verifyPayloadSignature } from '../../src/services/signature.service';
+import { CONTAINER_FLAG_SIGNED, parseContainerHeader, buildContainer, KDF_NONE } from '../../src/services/container.service';
+import { toRawPublicKey } from '../../src/utils/keys.utils';
+
+// Helper function to create a carrier PNG with varied pixel values
+async function createCarrier(width: number = 64, height: number = 64, seed: number = 0): Promise<Buffer> {
+  const image = new Jimp(width, height, 0x808080FF);
+  image.scan(0, 0, width, height, function(x, y, idx) {
+    this.bitmap.data[idx] = (x * 7 + y * 13 + seed) & 0xFF;
+    this.bitmap.data[idx + 1] = (x * 3 + y * 5 + seed) & 0xFF;
+    this.bitmap.data[idx + 2] = (x * 11 + y + seed) & 0xFF;
+  });
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+const createKeyPair = () => crypto.generateKeyPairSync('ed25519', {
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+});
+
+describe('Signature Service', () => {
+  describe('signPayload and verifyPayloadSignature', () => {
+    const signer = createKeyPair();
+    const payload = Buffer.from('stored payload');
+    const signedAt = Date.UTC(2024, 0, 2, 3, 4, 5);
+
+    const signContainer = (data: Buffer) => parseContainerHeader(buildContainer(data, {
+      flags: CONTAINER_FLAG_SIGNED,
+      kdf: KDF_NONE,
+      payloadType: 0,
+      extensions: [signPayload(payload, CONTAINER_FLAG_SIGNED, 0, parseSigningKey(signer.privateKey), signedAt)]
+    }));
+
+    it('should verify a payload against a trusted key and report the signer', () => {
+      const header = signContainer(payload);
+
+      expect(verifyPayloadSignature(header, payload, [{ name: 'alice', key: signer.publicKey }])).toEqual({
+        signatureValid: true,
+        signer: 'alice',
+        signedAt: '2024-01-02T03:04:05.000Z'
+      });
+    });
+
+    it('should accept raw base64 public keys', () => {
+      const header = signContainer(payload);
+      const rawKey = toRawPublicKey(crypto.createPublicKey(signer.publicKey)).toString('base64');
+
+      expect(verifyPayloadSignature(header, payload, [{ key: rawKey }])?.signatureValid).toBe(true);
+    });
+
+    it('should report an untrusted signer by fingerprint', () => {
+      const header = signContainer(payload);
+      const result = verifyPayloadSignature(header, payload, [{ name: 'mallory', key: createKeyPair().publicKey }]);
+
+      expect(result?.signatureValid).toBe(false);
+      expect(result?.signer).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should reject a modified payload', () => {
+      const header = signContainer(payload);
+      const result = verifyPayloadSignature(header, Buffer.from('stored payloaD'), [{ key: signer.publicKey }]);
+
+      expect(result?.signatureValid).toBe(false);
+    });
+
+    it('should refuse a timestamp out of the range of dates', () => {
+      const extension = signPayload(payload, CONTAINER_FLAG_SIGNED, 0, parseSigningKey(signer.privateKey), signedAt);
+      extension.value.writeBigUInt64BE(2n ** 63n, 0);
+      const header = parseContainerHeader(buildContainer(payload, {
+        flags: CONTAINER_FLAG_SIGNED,
+        kdf: KDF_NONE,
+        payloadType: 0,
+        extensions: [extension]
+      }));
+
+      expect(() => verifyPayloadSignature(header, payload, [{ key: signer.publicKey }])).toThrow(
+        expect.objectContaining({ code: 'PAYLOAD_CORRUPTED' })
+      );
+    });
+
+    it('should ignore unsigned payloads', () => {
+      const header = parseContainerHeader(buildContainer(payload, { flags: 0, kdf: KDF_NONE, payloadType: 0 }));
+
+      expect(verifyPayloadSignature(header, payload, [{ key: signer.publicKey }])).toBeUndefined();
+    });
+  });
+
+  describe('signed images', () => {
+    it('should sign on encode and verify on decode', async () => {
+      const signer = createKeyPair();
+      const encoded = await encode(await createCarrier(), 'signed message', 'secret', { signingKey: signer.privateKey });
+      const result = await decode(encoded.image, 'secret', { trustedKeys: [{ name: 'alice', key: signer.publicKey }] });
+
+      expect(encoded.signer).toMatch(/^[0-9a-f]{64}$/);
+      expect(result.message).toBe('signed message');
+      expect(result.metadata.signatureValid).toBe(true);
+      expect(result.metadata.signer).toBe('alice');
+      expect(Date.parse(result.metadata.signedAt!)).toBeGreaterThan(Date.now() - 60000);
+      expect((await extractPayload(encoded.image)).header!.flags & CONTAINER_FLAG_SIGNED).toBe(CONTAINER_FLAG_SIGNED);
+    });
+
+    it('should still decode when the signer is not trusted', async () => {
+      const encoded = await encode(await createCarrier(), 'signed message', undefined, { signingKey: createKeyPair().privateKey });
+      const result = await decode(encoded.image);
+
+      expect(result.message).toBe('signed message');
+      expect(result.metadata.signatureValid).toBe(false);
+      expect(result.metadata.signer).toBe(encoded.signer);
+    });
+
+    it('should leave unsigned payloads without signature metadata', async () => {
+      const encoded = await encode(await createCarrier(), 'plain message');
+      const result = await decode(encoded.image, undefined, { trustedKeys: [{ key: createKeyPair().publicKey }] });
+
+      expect(result.metadata.signatureValid).toBeUndefined();
+      expect(result.metadata.signer).toBeUndefined();
+    });
+
+    it('should refuse a malformed signing key', async () => {
+      await expect(encode(await createCarrier(), 'message', undefined, { signingKey: 'not a key' }))
+        .rejects.toMatchObject({ code: 'INVALID_KEY_FORMAT' });
+    });
+
+    it('should account for the signature in the capacity', async () => {
+      const carrier = await createCarrier();
+      const unsigned = await getCapacity(carrier);
+      const signed = await getCapacity(carrier, { signingKey: createKeyPair().privateKey });
+
+      // The 107-byte signature record shifts the payload start by whole pixels
+      expect(unsigned.availableBytes - signed.availableBytes).toBeGreaterThanOrEqual(106);
+      expect(unsigned.availableBytes - signed.availableBytes).toBeLessThanOrEqual(107);
+    });
+
+    it('should verify every share of a split payload', async () => {
+      const signer = createKeyPair();
+      const carriers = await Promise.all([0, 1, 2].map(seed => createCarrier(64, 64, seed * 31)));
+      const split = await encodeSplit(carriers, 'signed shares', undefined, { signingKey: signer.privateKey }, 2);
+      const images = split.shares.map(share => share.image);
+
+      const trusted = await decodeJoin([images[0], images[2]], undefined, { trustedKeys: [{ name: 'alice', key: signer.publicKey }] });
+      expect(trusted.message).toBe('signed shares');
+      expect(trusted.metadata.signatureValid).toBe(true);
+      expect(trusted.metadata.signer).toBe('alice');
+
+      const untrusted = await decodeJoin([images[0], images[1]]);
+      expect(untrusted.metadata.signatureValid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import Jimp from 'jimp';
+import { encodeSplit, decodeJoin } from '../../src/services/split.service';
+import { encode, getCapacity } from '../../src/services/encoder.service';
+import { decode, extractPayload } from '../../src/services/decoder.service';
+import { findExtension, EXTENSION_SHARE } from '../../src/services/container.service';
+
+// Helper function to create a carrier PNG with varied pixel values
+async function createCarrier(width: number = 48, height: number = 48, seed: number = 0): Promise<Buffer> {
+  const image = new Jimp(width, height, 0x808080FF);
+  image.scan(0, 0, width, height, function(x, y, idx) {
+    this.bitmap.data[idx] = (x * 7 + y * 13 + seed) & 0xFF;
+    this.bitmap.data[idx + 1] = (x * 3 + y * 5 + seed) & 0xFF;
+    this.bitmap.data[idx + 2] = (x * 11 + y + seed) & 0xFF;
+  });
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+async function createCarriers(count: number): Promise<Buffer[]> {
+  return Promise.all(Array.from({ length: count }, (_, i) => createCarrier(48, 48, i * 31)));
+}
+
+describe('Split Service', () => {
+  describe('striped payloads', () => {
+    it('should spread a payload larger than one image across all images', async () => {
+      const carriers = await createCarriers(3);
+      const capacity = await getCapacity(carriers[0]);
+      const file = { data: crypto.randomBytes(capacity.availableBytes * 2), filename: 'a.bin', mimeType: 'application/octet-stream' };
+
+      await expect(encode(carriers[0], file)).rejects.toThrow('Message too large');
+      const result = await encodeSplit(carriers, file);
+
+      expect(result.scheme).toBe('stripe');
+      expect(result.total).toBe(3);
+      expect(result.threshold).toBe(3);
+
+      // Images may be given in any order
+      const images = result.shares.map(share => share.image);
+      const decoded = await decodeJoin([images[2], images[0], images[1]]);
+
+      expect(decoded.file!.data.equals(file.data)).toBe(true);
+      expect(decoded.metadata.shares).toMatchObject({ setId: result.setId, scheme: 'stripe', used: [1, 2, 3] });
+    });
+
+    it('should require every image', async () => {
+      const result = await encodeSplit(await createCarriers(3), 'striped message');
+
+      await expect(decodeJoin(result.shares.slice(1).map(share => share.image)))
+        .rejects.toMatchObject({ code: 'INSUFFICIENT_SHARES' });
+    });
+  });
+
+  describe('threshold payloads', () => {
+    it('should reconstruct the payload from any k of n images', async () => {
+      const result = await encodeSplit(await createCarriers(4), 'shared secret', 'password', {}, 2);
+      const images = result.shares.map(share => share.image);
+
+      expect(result.scheme).toBe('shamir');
+      for (const pair of [[0, 1], [3, 1], [2, 0]]) {
+        const decoded = await decodeJoin(pair.map(i => images[i]), 'password');
+        expect(decoded.message).toBe('shared secret');
+        expect(decoded.metadata.encrypted).toBe(true);
+      }
+
+      await expect(decodeJoin([images[2]], 'password')).rejects.toMatchObject({ code: 'INSUFFICIENT_SHARES' });
+    });
+
+    it('should skip unreadable images when enough shares remain', async () => {
+      const result = await encodeSplit(await createCarriers(3), 'shared secret', undefined, {}, 2);
+      const images = result.shares.map(share => share.image);
+
+      const decoded = await decodeJoin([await createCarrier(), images[0], images[2]]);
+
+      expect(decoded.message).toBe('shared secret');
+      expect(decoded.metadata.shares!.used).toEqual([1, 3]);
+    });
+
+    it('should keep share details independent of the secret', async () => {
+      const shareDetails = async (secret: Buffer): Promise<Buffer[]> => {
+        const file = { data: secret, filename: 'secret.bin', mimeType: 'application/octet-stream' };
+        const result = await encodeSplit(await createCarriers(3), file, undefined, {}, 2);
+        return Promise.all(result.shares.map(async share => {
+          const { header } = await extractPayload(share.image);
+          // Details after the random set ID
+          return findExtension(header!, EXTENSION_SHARE)!.value.subarray(16);
+        }));
+      };
+
+      const first = await shareDetails(Buffer.alloc(32, 0x41));
+      const second = await shareDetails(crypto.randomBytes(32));
+
+      expect(first).toEqual(second);
+    });
+
+    it('should reject invalid thresholds', async () => {
+      await expect(encodeSplit(await createCarriers(3), 'secret', undefined, {}, 4))
+        .rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+    });
+  });
+
+  it('should refuse images from different sets', async () => {
+    const first = await encodeSplit(await createCarriers(2), 'first set');
+    const second = await encodeSplit(await createCarriers(2), 'second set');
+
+    await expect(decodeJoin([first.shares[0].image, second.shares[1].image]))
+      .rejects.toMatchObject({ code: 'SHARE_SET_MISMATCH' });
+  });
+
+  it('should refuse to decode a single share on its own', async () => {
+    const result = await encodeSplit(await createCarriers(2), 'striped message');
+
+    await expect(decode(result.shares[0].image)).rejects.toMatchObject({ code: 'MULTIPART_PAYLOAD' });
+  });
+
+  it('should require at least two images', async () => {
+    await expect(encodeSplit(await createCarriers(1), 'message')).rejects.toMatchObject({ code: 'INSUFFICIENT_IMAGES' });
+  });
+});
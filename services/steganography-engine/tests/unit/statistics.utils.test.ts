@@ -0,0 +1,46 @@
+import { chiSquareCdf, logGamma, smallerRoot, clamp } from '../../src/utils/statistics.utils';
+
+describe('Statistics Utils', () => {
+  describe('logGamma', () => {
+    it('should match factorials for integers', () => {
+      expect(logGamma(1)).toBeCloseTo(0, 10);
+      expect(logGamma(5)).toBeCloseTo(Math.log(24), 10);
+      expect(logGamma(0.5)).toBeCloseTo(Math.log(Math.sqrt(Math.PI)), 10);
+    });
+  });
+
+  describe('chiSquareCdf', () => {
+    it('should match tabulated critical values', () => {
+      // 95th percentiles of the chi-square distribution
+      expect(chiSquareCdf(3.841, 1)).toBeCloseTo(0.95, 3);
+      expect(chiSquareCdf(18.307, 10)).toBeCloseTo(0.95, 3);
+      expect(chiSquareCdf(154.302, 127)).toBeCloseTo(0.95, 3);
+    });
+
+    it('should be 0 at 0 and approach 1 for large statistics', () => {
+      expect(chiSquareCdf(0, 5)).toBe(0);
+      expect(chiSquareCdf(1000, 5)).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('smallerRoot', () => {
+    it('should return the root closest to zero', () => {
+      // (x - 0.25)(x - 4)
+      expect(smallerRoot(1, -4.25, 1)).toBeCloseTo(0.25, 10);
+      expect(smallerRoot(0, 2, -1)).toBeCloseTo(0.5, 10);
+    });
+
+    it('should fall back to the vertex for complex roots', () => {
+      expect(smallerRoot(1, -2, 2)).toBeCloseTo(1, 10);
+      expect(smallerRoot(0, 0, 1)).toBeNull();
+    });
+  });
+
+  describe('clamp', () => {
+    it('should limit values to the range', () => {
+      expect(clamp(-1)).toBe(0);
+      expect(clamp(2)).toBe(1);
+      expect(clamp(5, 0, 10)).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import Jimp from 'jimp';
+import {
+  runTask,
+  getWorkerPoolStats,
+  startWorkerPool,
+  shutdownWorkerPool
+} from '../../src/services/worker-pool.service';
+import { CodedError } from '../../src/utils/errors';
+import config from '../../src/config';
+
+// Workers compile the services when they start, which takes a few seconds from source
+jest.setTimeout(60000);
+
+// Helper function to create a carrier PNG with varied pixel values
+async function createCarrier(width: number = 64, height: number = 64): Promise<Buffer> {
+  const image = new Jimp(width, height, 0x808080FF);
+  image.scan(0, 0, width, height, function(x, y, idx) {
+    this.bitmap.data[idx] = (x * 7 + y * 13) & 0xFF;
+    this.bitmap.data[idx + 1] = (x * 3 + y * 5) & 0xFF;
+    this.bitmap.data[idx + 2] = (x * 11 + y) & 0xFF;
+  });
+  return image.getBufferAsync(Jimp.MIME_PNG);
+}
+
+// Helper function to wait until the pool reaches a state
+async function waitFor(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('Worker Pool Service', () => {
+  const { workerPoolSize, workerQueueLimit } = config;
+
+  beforeAll(() => {
+    config.workerPoolSize = 1;
+    config.workerQueueLimit = 1;
+  });
+
+  afterAll(async () => {
+    await shutdownWorkerPool();
+    config.workerPoolSize = workerPoolSize;
+    config.workerQueueLimit = workerQueueLimit;
+  });
+
+  it('should run tasks on a worker and return Buffers', async () => {
+    const encoded = await runTask('encode', [await createCarrier(), 'from a worker', 'secret', {}]);
+    const decoded = await runTask('decode', [encoded.image, 'secret', {}]);
+
+    expect(Buffer.isBuffer(encoded.image)).toBe(true);
+    expect(decoded.message).toBe('from a worker');
+  });
+
+  it('should pass on the stages a task reports', async () => {
+    const stages: string[] = [];
+    await runTask('encode', [await createCarrier(), 'from a worker', undefined, {}], {
+      onStage: stage => stages.push(stage)
+    });
+
+    expect(stages).toEqual(['preparing', 'loading', 'embedding', 'writing']);
+  });
+
+  it('should report task errors with their code', async () => {
+    const error = await runTask('getCapacity', [await createCarrier(), { kdf: 'md5' as never }])
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CodedError);
+    expect(error.code).toBe('INVALID_OPTIONS');
+  });
+
+  it('should time out a long job and replace its worker', async () => {
+    await expect(runTask('benchmarkKdf', [2000], { timeoutMs: 100 }))
+      .rejects.toMatchObject({ code: 'JOB_TIMEOUT', statusCode: 503 });
+
+    expect(await runTask('hasHiddenData', [await createCarrier()])).toBe(false);
+    expect(getWorkerPoolStats().timedOutJobs).toBe(1);
+  });
+
+  it('should cancel waiting and running jobs', async () => {
+    const running = new AbortController();
+    const waiting = new AbortController();
+    const first = runTask('benchmarkKdf', [2000], { signal: running.signal });
+    const second = runTask('benchmarkKdf', [2000], { signal: waiting.signal });
+
+    await waitFor(() => getWorkerPoolStats().busy === 1);
+    waiting.abort();
+    await expect(second).rejects.toMatchObject({ code: 'JOB_CANCELLED' });
+    running.abort();
+    await expect(first).rejects.toMatchObject({ code: 'JOB_CANCELLED' });
+    expect(getWorkerPoolStats()).toMatchObject({ busy: 0, queueDepth: 0, cancelledJobs: 2 });
+  });
+
+  it('should refuse jobs beyond the queue limit and report the queue depth', async () => {
+    startWorkerPool();
+    const controller = new AbortController();
+    const jobs = [
+      runTask('benchmarkKdf', [2000], { signal: controller.signal }),
+      runTask('benchmarkKdf', [2000], { signal: controller.signal })
+    ].map(job => job.catch(error => error));
+
+    // One job runs once the worker is ready, the other waits
+    await expect(runTask('benchmarkKdf', [2000])).rejects.toMatchObject({ code: 'QUEUE_FULL', statusCode: 503 });
+    expect(getWorkerPoolStats()).toMatchObject({ size: 1, queueDepth: 1, queueLimit: 1 });
+
+    controller.abort();
+    await Promise.all(jobs);
+  });
+});
@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { createZip, readZip } from '../../src/utils/zip.utils';
+
+describe('ZIP Utils', () => {
+  it('should round-trip stored and deflated entries', () => {
+    const random = crypto.randomBytes(2048);
+    const text = Buffer.from('manifest '.repeat(200));
+    const archive = createZip([
+      { name: 'image.png', data: random },
+      { name: 'manifest.json', data: text }
+    ]);
+
+    const entries = readZip(archive);
+    expect(entries.map(entry => entry.name)).toEqual(['image.png', 'manifest.json']);
+    expect(entries[0].data.equals(random)).toBe(true);
+    expect(entries[1].data.equals(text)).toBe(true);
+    // Incompressible data is stored, text is deflated
+    expect(archive.length).toBeLessThan(random.length + text.length);
+    expect(archive.length).toBeGreaterThan(random.length);
+  });
+
+  it('should write an empty archive', () => {
+    const archive = createZip([]);
+
+    expect(archive.length).toBe(22);
+    expect(readZip(archive)).toEqual([]);
+  });
+
+  it('should reject data that is not a ZIP archive', () => {
+    expect(() => readZip(Buffer.from('not a zip archive at all'))).toThrow('Invalid ZIP archive');
+  });
+});